@@ -2,7 +2,11 @@ import 'node:worker_threads'
 import path from 'node:path'
 import cac from 'cac'
 
-import type { ReporterOptions, ReporterFormat } from '../types/benchmark-config'
+import type {
+  ReporterOptions,
+  ReporterFormat,
+  IsolationMode,
+} from '../types/benchmark-config'
 import type { UserBenchmarkConfig } from '../types/user-benchmark-config'
 
 import {
@@ -13,6 +17,7 @@ import {
 } from '../constants'
 import { runBenchmarksFromConfig } from '../runners/run-benchmarks-from-config'
 import { validateConfig } from '../core/config/validate-config'
+import { runComparison } from '../runners/run-comparison'
 import { loadConfig } from '../core/config/load-config'
 import { version } from '../package.json'
 
@@ -21,21 +26,45 @@ import { version } from '../package.json'
  * benchmarks a single ESLint rule against specified source code.
  */
 interface RunSingleCommandOptions {
+  /** Optional maximum allowed regression of the mean time in percent. */
+  maxRegressionPercent?: number
+
+  /** Optional environment to run the benchmark in. */
+  isolation?: IsolationMode
+
+  /** Whether to measure the time spent in each listener of the rule. */
+  profileVisitors?: boolean
+
+  /** Whether to separate the rule time from parsing with a control run. */
+  measureOverhead?: boolean
+
   /**
    * Specifies the output format for the benchmark report (e.g., 'console',
-   * 'json', 'markdown').
+   * 'json', 'markdown', 'html').
    */
   report: ReporterFormat
 
   /** Optional path to an ESLint configuration file to use for linting. */
   eslintConfig?: string
 
+  /** Whether to run the rule amid all rules of the ESLint config. */
+  fullConfig?: boolean
+
+  /** Optional directory to write CPU profiles of the samples to. */
+  cpuProfile?: string
+
   /** Maximum allowed duration in ms. */
   maxDuration: number
 
   /** The number of iterations to run the benchmark for the rule. */
   iterations: number
 
+  /** Optional maximum allowed mean time per sample in milliseconds. */
+  maxMeanMs?: number
+
+  /** Optional path to a JSON report to compare the results against. */
+  baseline?: string
+
   /** Optional path to a file where the benchmark report should be saved. */
   output?: string
 
@@ -48,8 +77,11 @@ interface RunSingleCommandOptions {
   /** The number of warmup iterations to perform before actual measurements. */
   warmup: number
 
-  /** Path to the JavaScript/TypeScript file implementing the ESLint rule. */
-  rule: string
+  /**
+   * Path to the JavaScript/TypeScript file implementing the ESLint rule. Can be
+   * omitted for core ESLint rules and rules of installed plugins.
+   */
+  rule?: string
 
   /**
    * The identifier (name) of the ESLint rule to benchmark (e.g.,
@@ -63,15 +95,39 @@ interface RunSingleCommandOptions {
  * benchmarks based on a benchmark configuration file.
  */
 interface RunCommandOptions {
+  /** Optional. Maximum allowed regression of the mean time in percent. */
+  maxRegressionPercent?: number
+
+  /** Optional. Overrides the environment test specifications run in. */
+  isolation?: IsolationMode
+
+  /** Optional. Enables timing of the rule listeners for all test specs. */
+  profileVisitors?: boolean
+
+  /** Optional. Enables control runs with the rule disabled for all specs. */
+  measureOverhead?: boolean
+
   /**
    * Optional. Specifies the output format for the benchmark report (e.g.,
-   * 'console', 'json', 'markdown').
+   * 'console', 'json', 'markdown', 'html').
    */
   report?: ReporterFormat
 
   /** Optional. Path to an ESLint configuration file to use for linting. */
   eslintConfig?: string
 
+  /** Optional. Runs the rules of all specs amid the whole ESLint config. */
+  fullConfig?: boolean
+
+  /** Optional. Directory to write CPU profiles of the samples to. */
+  cpuProfile?: string
+
+  /** Optional. Maximum allowed mean time per sample in milliseconds. */
+  maxMeanMs?: number
+
+  /** Optional. Path to a JSON report to compare the results against. */
+  baseline?: string
+
   /**
    * Optional. Path to the benchmark configuration file. If not provided,
    * searches for default config files.
@@ -82,6 +138,33 @@ interface RunCommandOptions {
   output?: string
 }
 
+/**
+ * Defines the command-line options for the 'compare' command. This command
+ * benchmarks a single ESLint rule at two git revisions.
+ */
+interface CompareCommandOptions
+  extends Omit<
+    RunSingleCommandOptions,
+    | 'maxRegressionPercent'
+    | 'profileVisitors'
+    | 'measureOverhead'
+    | 'fullConfig'
+    | 'cpuProfile'
+    | 'isolation'
+    | 'maxMeanMs'
+    | 'baseline'
+  > {
+  /**
+   * Git revision to compare. If not provided, the current working tree is used.
+   * Abbreviated commit hashes consisting only of digits are parsed as numbers
+   * by the argument parser.
+   */
+  head?: string | number
+
+  /** Git revision to compare against (e.g., 'origin/main'). */
+  base: string | number
+}
+
 /**
  * Initializes and runs the command-line interface for the ESLint Rule Benchmark
  * tool.
@@ -96,6 +179,8 @@ interface RunCommandOptions {
  *   flags. This command internally constructs a `UserBenchmarkConfig` object
  *   with one test specification, which in turn contains a single test case
  *   derived from the CLI options.
+ * - 'compare': Benchmarks a single ESLint rule at two git revisions, checked out
+ *   into temporary worktrees, and reports the difference between them.
  *
  * It parses command-line arguments and delegates to the appropriate command
  * actions.
@@ -109,13 +194,61 @@ export function run(): void {
     .command('run', 'Run benchmarks from config')
     .option('--config <path>', 'Path to configuration file')
     .option('--eslint-config <config>', 'Path to ESLint config file')
-    .option('--report <format>', 'Report format (console, json, markdown)', {
-      default: DEFAULT_REPORTER_FORMAT,
-    })
+    .option(
+      '--report <format>',
+      'Report format (console, json, markdown, html)',
+      {
+        default: DEFAULT_REPORTER_FORMAT,
+      },
+    )
     .option('--output <file>', 'Output file for the report')
+    .option('--baseline <file>', 'JSON report to compare the results against')
+    .option(
+      '--max-regression-percent <percent>',
+      'Fail if the mean time regressed by more than this percent vs baseline',
+    )
+    .option(
+      '--max-mean-ms <ms>',
+      'Fail if the mean time of any sample exceeds this value in ms',
+    )
+    .option(
+      '--isolation <mode>',
+      'Run each test spec in isolation (none, worker, process)',
+    )
+    .option(
+      '--profile-visitors',
+      'Measure the time spent in each listener of the rule',
+    )
+    .option(
+      '--measure-overhead',
+      "Also measure linting with the rule disabled and report the rule's share of the time",
+    )
+    .option(
+      '--full-config',
+      'Run the rule with all rules of the ESLint config and report its marginal cost',
+    )
+    .option(
+      '--cpu-profile <dir>',
+      'Write a CPU profile of every sample to this directory',
+    )
     .action(async (options: RunCommandOptions) => {
       try {
-        let { filepath, config } = await loadConfig(options.config)
+        let { config: loadedConfig, filepath } = await loadConfig(
+          options.config,
+        )
+        let config = applyThresholdOptions(loadedConfig, options)
+        if (options.isolation !== undefined) {
+          config = { ...config, isolation: options.isolation }
+        }
+        if (options.profileVisitors) {
+          config = { ...config, profileVisitors: true }
+        }
+        if (options.measureOverhead) {
+          config = { ...config, measureOverhead: true }
+        }
+        if (options.fullConfig) {
+          config = { ...config, fullConfig: true }
+        }
 
         let configDirectory = path.dirname(filepath)
 
@@ -136,8 +269,10 @@ export function run(): void {
         ]
 
         await runBenchmarksFromConfig({
+          cpuProfileDirectory: options.cpuProfile,
           eslintConfigFile: options.eslintConfig,
           reporterOptions: reporterOptionsArray,
+          baselinePath: options.baseline,
           userConfig: config,
           configDirectory,
         })
@@ -150,7 +285,10 @@ export function run(): void {
 
   cli
     .command('run-single', 'Run benchmark on a single ESLint rule')
-    .option('--rule <rule>', 'Path to the ESLint rule file')
+    .option(
+      '--rule <rule>',
+      'Path to the ESLint rule file (omit for core and plugin rules)',
+    )
     .option('--name <name>', 'Name of the rule to benchmark')
     .option('--eslint-config <config>', 'Path to ESLint config file')
     .option('--source <source>', 'Path to directory or file with test cases')
@@ -167,15 +305,45 @@ export function run(): void {
         default: DEFAULT_TIMEOUT_MS,
       },
     )
-    .option('--report <format>', 'Report format (console, json, markdown)', {
-      default: DEFAULT_REPORTER_FORMAT,
-    })
+    .option(
+      '--report <format>',
+      'Report format (console, json, markdown, html)',
+      {
+        default: DEFAULT_REPORTER_FORMAT,
+      },
+    )
     .option('--output <file>', 'Output file for the report')
+    .option('--baseline <file>', 'JSON report to compare the results against')
+    .option(
+      '--max-regression-percent <percent>',
+      'Fail if the mean time regressed by more than this percent vs baseline',
+    )
+    .option(
+      '--max-mean-ms <ms>',
+      'Fail if the mean time of any sample exceeds this value in ms',
+    )
+    .option(
+      '--isolation <mode>',
+      'Run each test spec in isolation (none, worker, process)',
+    )
+    .option(
+      '--profile-visitors',
+      'Measure the time spent in each listener of the rule',
+    )
+    .option(
+      '--measure-overhead',
+      "Also measure linting with the rule disabled and report the rule's share of the time",
+    )
+    .option(
+      '--full-config',
+      'Run the rule with all rules of the ESLint config and report its marginal cost',
+    )
+    .option(
+      '--cpu-profile <dir>',
+      'Write a CPU profile of every sample to this directory',
+    )
     .action(async (options: RunSingleCommandOptions) => {
       try {
-        if (!options.rule) {
-          throw new Error('Rule path (--rule) is required')
-        }
         if (!options.name) {
           throw new Error('Rule name/ID (--name) is required')
         }
@@ -190,6 +358,114 @@ export function run(): void {
           },
         ]
 
+        let constructedUserConfig: UserBenchmarkConfig = applyThresholdOptions(
+          {
+            tests: [
+              {
+                cases: [
+                  {
+                    testPath: options.source,
+                  },
+                ],
+                name: `CLI: ${options.name}`,
+                rulePath: options.rule,
+                ruleId: options.name,
+              },
+            ],
+            warmup: {
+              iterations: options.warmup > 0 ? options.warmup : undefined,
+              enabled: options.warmup > 0,
+            },
+            iterations: options.iterations > 0 ? options.iterations : undefined,
+            timeout: options.maxDuration > 0 ? options.maxDuration : undefined,
+            profileVisitors: options.profileVisitors,
+            measureOverhead: options.measureOverhead,
+            fullConfig: options.fullConfig,
+            isolation: options.isolation,
+          },
+          options,
+        )
+
+        let configDirectory = process.cwd()
+        let errors = await validateConfig(
+          constructedUserConfig,
+          configDirectory,
+        )
+        if (errors.length > 0) {
+          console.error('Constructed configuration validation errors:')
+          for (let error of errors) {
+            console.error(`- ${error}`)
+          }
+          process.exit(1)
+        }
+
+        console.info(`Running benchmark for rule ${options.name}...`)
+        if (options.rule) {
+          console.info(`Using rule file: ${options.rule}`)
+        } else {
+          console.info(`Using rule ID: ${options.name}`)
+        }
+        console.info(`Using source: ${options.source}`)
+
+        await runBenchmarksFromConfig({
+          cpuProfileDirectory: options.cpuProfile,
+          eslintConfigFile: options.eslintConfig,
+          reporterOptions: reporterOptionsArray,
+          userConfig: constructedUserConfig,
+          baselinePath: options.baseline,
+          configDirectory,
+        })
+      } catch (error) {
+        let errorValue = error as Error
+        console.error(`Error: ${errorValue.message}`)
+        process.exit(1)
+      }
+    })
+
+  cli
+    .command('compare', 'Compare a rule between two git revisions')
+    .option('--base <ref>', 'Git revision to compare against')
+    .option('--head <ref>', 'Git revision to compare (default: working tree)')
+    .option('--rule <rule>', 'Path to the ESLint rule file')
+    .option('--name <name>', 'Name of the rule to benchmark')
+    .option('--eslint-config <config>', 'Path to ESLint config file')
+    .option('--source <source>', 'Path to directory or file with test cases')
+    .option('--iterations <number>', 'Number of benchmark iterations', {
+      default: DEFAULT_ITERATIONS,
+    })
+    .option('--warmup <number>', 'Number of warmup iterations', {
+      default: DEFAULT_WARMUP_ITERATIONS,
+    })
+    .option(
+      '--max-duration <number>',
+      'Target time in ms for benchmarking (lower values = fewer iterations)',
+      {
+        default: DEFAULT_TIMEOUT_MS,
+      },
+    )
+    .option(
+      '--report <format>',
+      'Report format (console, json, markdown, html)',
+      {
+        default: DEFAULT_REPORTER_FORMAT,
+      },
+    )
+    .option('--output <file>', 'Output file for the report')
+    .action(async (options: CompareCommandOptions) => {
+      try {
+        if (!options.base) {
+          throw new Error('Base revision (--base) is required')
+        }
+        if (!options.rule) {
+          throw new Error('Rule path (--rule) is required')
+        }
+        if (!options.name) {
+          throw new Error('Rule name/ID (--name) is required')
+        }
+        if (!options.source) {
+          throw new Error('Source path (--source) is required')
+        }
+
         let constructedUserConfig: UserBenchmarkConfig = {
           tests: [
             {
@@ -198,7 +474,7 @@ export function run(): void {
                   testPath: options.source,
                 },
               ],
-              name: `CLI: ${options.name}`,
+              name: `Compare: ${options.name}`,
               rulePath: options.rule,
               ruleId: options.name,
             },
@@ -224,14 +500,18 @@ export function run(): void {
           process.exit(1)
         }
 
-        console.info(`Running benchmark for rule ${options.name}...`)
-        console.info(`Using rule file: ${options.rule}`)
-        console.info(`Using source: ${options.source}`)
-
-        await runBenchmarksFromConfig({
+        await runComparison({
+          reporterOptions: [
+            {
+              outputPath: options.output,
+              format: options.report,
+            },
+          ],
+          headRef:
+            options.head === undefined ? undefined : String(options.head),
           eslintConfigFile: options.eslintConfig,
-          reporterOptions: reporterOptionsArray,
           userConfig: constructedUserConfig,
+          baseRef: String(options.base),
           configDirectory,
         })
       } catch (error) {
@@ -243,3 +523,38 @@ export function run(): void {
 
   cli.parse()
 }
+
+/**
+ * Applies the threshold flags passed via the CLI to the benchmark config. CLI
+ * values take precedence over the global thresholds from the config file, while
+ * thresholds defined on individual test specifications still override both.
+ *
+ * @param config - The benchmark configuration to extend.
+ * @param options - Parsed CLI options that may contain threshold flags.
+ * @returns The configuration with the CLI thresholds merged in, or the original
+ *   configuration if no threshold flags were passed.
+ */
+function applyThresholdOptions(
+  config: UserBenchmarkConfig,
+  options: Pick<RunCommandOptions, 'maxRegressionPercent' | 'maxMeanMs'>,
+): UserBenchmarkConfig {
+  if (
+    options.maxRegressionPercent === undefined &&
+    options.maxMeanMs === undefined
+  ) {
+    return config
+  }
+
+  return {
+    ...config,
+    thresholds: {
+      ...config.thresholds,
+      ...(options.maxRegressionPercent === undefined
+        ? {}
+        : { maxRegressionPercent: options.maxRegressionPercent }),
+      ...(options.maxMeanMs === undefined
+        ? {}
+        : { maxMeanMs: options.maxMeanMs }),
+    },
+  }
+}
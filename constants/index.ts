@@ -30,12 +30,98 @@ export const DEFAULT_TIMEOUT_MS = 5000 as const
  */
 export const DEFAULT_ITERATIONS = 1000 as const
 
+/**
+ * Maximum measured time in milliseconds of a code sample when sampling until a
+ * target precision. Noisy samples stop at this limit even if the target is not
+ * reached.
+ */
+export const DEFAULT_PRECISION_MAX_TIME_MS = 30_000 as const
+
+/**
+ * Number of samples measured before the precision of a task is first checked,
+ * and the smallest number of samples added in each following round. The margin
+ * of error of fewer samples is too unreliable to stop at.
+ */
+export const MIN_PRECISION_SAMPLES = 10 as const
+
+/**
+ * Number of rounds used when several rule versions are benchmarked against each
+ * other. Each round measures every version once, so higher values spread the
+ * measurements more evenly over time at the cost of extra overhead.
+ */
+export const DEFAULT_INTERLEAVED_ROUNDS = 10 as const
+
+/**
+ * Significance level used when comparing samples against a baseline. Changes
+ * with a p-value below this level are reported as faster or slower.
+ */
+export const SIGNIFICANCE_LEVEL = 0.05 as const
+
+/**
+ * Number of bootstrap resamples used to estimate the confidence interval for
+ * the difference of medians.
+ */
+export const BOOTSTRAP_RESAMPLES = 1000 as const
+
+/**
+ * Execution environments for benchmarks. "none" runs in the current process,
+ * "worker" in a fresh worker thread and "process" in a forked Node.js process
+ * per test specification.
+ */
+export const ISOLATION_MODES = ['none', 'worker', 'process'] as const
+
+/**
+ * Default isolation mode. Running in the current process has the lowest
+ * overhead, but JIT state and garbage of one test specification can affect the
+ * next one.
+ */
+export const DEFAULT_ISOLATION = 'none' as const
+
+/**
+ * Ways to create larger inputs for the scaling analysis. "repeat" repeats the
+ * code of a sample, "nest" inserts the sample into itself at a placeholder.
+ */
+export const SCALING_MODES = ['repeat', 'nest'] as const
+
+/**
+ * Sizes of the inputs created for the scaling analysis, as multiples of the
+ * original sample. Doubling sizes spread the points evenly on a log scale.
+ */
+export const DEFAULT_SCALING_SIZES = [1, 2, 4, 8, 16] as const
+
+/**
+ * Placeholder where a sample is inserted into itself when it is scaled by
+ * nesting. Only the first occurrence in the sample is used.
+ */
+export const SCALING_NEST_PLACEHOLDER = '/* nest */' as const
+
+/**
+ * Maximum difference of the coefficient of determination (R²) for which a
+ * simpler complexity model is preferred over a better fitting one. Small
+ * differences are usually caused by measurement noise.
+ */
+export const SCALING_FIT_TOLERANCE = 0.005 as const
+
+/**
+ * Minimum coefficient of determination (R²) of the best fit for flagging a rule
+ * as super-linear. Below it, the times do not follow any model, for example
+ * when fixed costs outweigh the growth of the input.
+ */
+export const SCALING_MIN_R_SQUARED = 0.9 as const
+
 /**
  * Default severity level for benchmark results. This is used to determine the
  * severity of the benchmark results in the output report.
  */
 export const DEFAULT_SEVERITY = 2 as const
 
+/**
+ * Namespace of the plugin that holds the benchmarked rule. The rule is
+ * registered under its own name within this namespace, so it cannot collide
+ * with a rule of the same name from the ESLint config.
+ */
+export const BENCHMARK_PLUGIN_NAMESPACE = 'eslint-rule-benchmark' as const
+
 /**
  * Default output format for benchmark results. Options include: 'console',
  * 'json', 'markdown', 'html'.
@@ -58,6 +144,13 @@ export const SUPPORTED_EXTENSIONS = [
   'astro',
   'svelte',
   'vue',
+  'json',
+  'jsonc',
+  'json5',
+  'md',
+  'css',
+  'yaml',
+  'yml',
 ] as const
 
 /**
@@ -69,7 +162,13 @@ export const LANGUAGES = [
   'javascript-react',
   'javascript',
   'typescript',
+  'markdown',
   'svelte',
   'astro',
+  'jsonc',
+  'json5',
+  'json',
+  'yaml',
   'vue',
+  'css',
 ] as const
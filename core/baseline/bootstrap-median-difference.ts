@@ -0,0 +1,114 @@
+import { BOOTSTRAP_RESAMPLES } from '../../constants'
+
+/** Confidence interval for the difference of medians. */
+interface MedianDifferenceInterval {
+  /** Lower bound of the interval. */
+  lower: number
+
+  /** Upper bound of the interval. */
+  upper: number
+}
+
+/**
+ * Seed of the random number generator. A fixed seed keeps reports of the same
+ * samples reproducible.
+ */
+const RANDOM_SEED = 0x9e3779b9
+
+/**
+ * Estimates a 95% confidence interval for the difference of medians (second
+ * minus first) with the percentile bootstrap method.
+ *
+ * Both samples are resampled with replacement `BOOTSTRAP_RESAMPLES` times, and
+ * the 2.5th and 97.5th percentiles of the resulting median differences form the
+ * interval.
+ *
+ * @example
+ *   const { lower, upper } = bootstrapMedianDifference(baseline, current)
+ *   const isSlower = lower > 0
+ *
+ * @param first - Values of the first sample (e.g., the baseline).
+ * @param second - Values of the second sample (e.g., the current run).
+ * @returns The confidence interval. Both bounds are zero if either sample is
+ *   empty.
+ */
+export function bootstrapMedianDifference(
+  first: number[],
+  second: number[],
+): MedianDifferenceInterval {
+  if (first.length === 0 || second.length === 0) {
+    return { lower: 0, upper: 0 }
+  }
+
+  let sortedFirst = first.toSorted((a, b) => a - b)
+  let sortedSecond = second.toSorted((a, b) => a - b)
+  let random = createRandom(RANDOM_SEED)
+
+  let differences: number[] = []
+  for (let index = 0; index < BOOTSTRAP_RESAMPLES; index++) {
+    differences.push(
+      resampleMedian(sortedSecond, random) -
+        resampleMedian(sortedFirst, random),
+    )
+  }
+  differences.sort((a, b) => a - b)
+
+  return {
+    upper: differences[Math.ceil(0.975 * BOOTSTRAP_RESAMPLES) - 1]!,
+    lower: differences[Math.floor(0.025 * BOOTSTRAP_RESAMPLES)]!,
+  }
+}
+
+/**
+ * Calculates the median of a random resample (with replacement) of a sorted
+ * array. Instead of sorting the resample, it counts how often each index was
+ * drawn and walks the counts, which takes linear time.
+ *
+ * @param sortedValues - Values sorted in ascending order.
+ * @param random - Source of uniformly distributed numbers in the range [0, 1)
+ *   used to pick resampled indices.
+ * @returns The middle value of the drawn values, or the mean of the two middle
+ *   values if their count is even.
+ */
+function resampleMedian(sortedValues: number[], random: () => number): number {
+  let count = sortedValues.length
+  let drawCounts = new Uint32Array(count)
+
+  for (let index = 0; index < count; index++) {
+    drawCounts[Math.floor(random() * count)]!++
+  }
+
+  let lowerMiddle = Math.floor((count - 1) / 2)
+  let upperMiddle = Math.floor(count / 2)
+
+  let index = 0
+  let seen = drawCounts[0]!
+  while (seen <= lowerMiddle) {
+    index++
+    seen += drawCounts[index]!
+  }
+  let lowerValue = sortedValues[index]!
+
+  while (seen <= upperMiddle) {
+    index++
+    seen += drawCounts[index]!
+  }
+
+  return (lowerValue + sortedValues[index]!) / 2
+}
+
+/**
+ * Creates a seeded pseudo-random number generator (mulberry32).
+ *
+ * @param seed - Initial state of the generator.
+ * @returns A function that returns pseudo-random numbers in the range [0, 1).
+ */
+function createRandom(seed: number): () => number {
+  let state = seed
+  return () => {
+    state = (state + 0x6d2b79f5) | 0
+    let value = Math.imul(state ^ (state >>> 15), 1 | state)
+    value ^= value + Math.imul(value ^ (value >>> 7), 61 | value)
+    return ((value ^ (value >>> 14)) >>> 0) / 4_294_967_296
+  }
+}
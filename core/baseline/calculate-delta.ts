@@ -0,0 +1,24 @@
+import type { MetricDelta } from '../../types/baseline-comparison'
+
+/**
+ * Calculates the absolute and relative change between a baseline value and a
+ * current value of the same metric.
+ *
+ * @example
+ *   calculateDelta(2, 3)
+ *   // { baseline: 2, current: 3, difference: 1, percent: 50 }
+ *
+ * @param baseline - The metric value from the baseline report.
+ * @param current - The metric value from the current run.
+ * @returns The change of the metric relative to the baseline.
+ */
+export function calculateDelta(baseline: number, current: number): MetricDelta {
+  let difference = current - baseline
+
+  return {
+    percent: baseline === 0 ? null : (difference / baseline) * 100,
+    difference,
+    baseline,
+    current,
+  }
+}
@@ -0,0 +1,61 @@
+import type { SignificanceResult } from '../../types/baseline-comparison'
+
+import { bootstrapMedianDifference } from './bootstrap-median-difference'
+import { mannWhitneyUTest } from './mann-whitney-u-test'
+import { SIGNIFICANCE_LEVEL } from '../../constants'
+
+/** Minimum number of samples on each side to run a significance test. */
+const MIN_SAMPLE_COUNT = 2
+
+/**
+ * Checks whether the execution times of the current run differ significantly
+ * from the baseline.
+ *
+ * A change is labelled "faster" or "slower" only if the Mann-Whitney U test is
+ * significant at `SIGNIFICANCE_LEVEL` and the bootstrap confidence interval for
+ * the difference of medians does not include zero. Otherwise, it is labelled
+ * "no change".
+ *
+ * @example
+ *   const significance = calculateSignificance(baselineSamples, samples)
+ *   if (significance?.verdict === 'slower') {
+ *     console.warn('Rule got slower')
+ *   }
+ *
+ * @param baselineSamples - Execution times from the baseline in milliseconds.
+ * @param currentSamples - Execution times from the current run in milliseconds.
+ * @returns The significance result, or undefined if there are too few samples
+ *   to run the test.
+ */
+export function calculateSignificance(
+  baselineSamples: number[],
+  currentSamples: number[],
+): SignificanceResult | undefined {
+  if (
+    baselineSamples.length < MIN_SAMPLE_COUNT ||
+    currentSamples.length < MIN_SAMPLE_COUNT
+  ) {
+    return undefined
+  }
+
+  let pValue = mannWhitneyUTest(baselineSamples, currentSamples)
+  let medianDifferenceInterval = bootstrapMedianDifference(
+    baselineSamples,
+    currentSamples,
+  )
+
+  let verdict: SignificanceResult['verdict'] = 'no change'
+  if (pValue < SIGNIFICANCE_LEVEL) {
+    if (medianDifferenceInterval.lower > 0) {
+      verdict = 'slower'
+    } else if (medianDifferenceInterval.upper < 0) {
+      verdict = 'faster'
+    }
+  }
+
+  return {
+    medianDifferenceInterval,
+    verdict,
+    pValue,
+  }
+}
@@ -0,0 +1,79 @@
+import type { BaselineMetrics } from '../../types/baseline-comparison'
+import type { TestSpecResult } from '../../types/benchmark-config'
+
+import { calculateSignificance } from './calculate-significance'
+import { getBaselineKey } from './get-baseline-key'
+import { calculateDelta } from './calculate-delta'
+
+/**
+ * Attaches a baseline comparison to every sample result that has a matching
+ * sample in the baseline.
+ *
+ * Samples are matched by test specification name, test case name and sample
+ * name. Samples without a counterpart in the baseline and failed samples are
+ * returned unchanged. When raw samples are available on both sides, the
+ * comparison also includes a significance test. The input results are not
+ * mutated.
+ *
+ * @param results - Results of the current benchmark run.
+ * @param baseline - Baseline metrics indexed by `getBaselineKey`.
+ * @returns A copy of the results with `comparison` set on matched samples.
+ */
+export function compareWithBaseline(
+  results: TestSpecResult[],
+  baseline: Map<string, BaselineMetrics>,
+): TestSpecResult[] {
+  let matchedSamplesCount = 0
+
+  let comparedResults = results.map(testSpecResult => ({
+    ...testSpecResult,
+    testCaseResults: testSpecResult.testCaseResults.map(testCaseResult => ({
+      ...testCaseResult,
+      samplesResults: testCaseResult.samplesResults.map(sampleResult => {
+        let sampleName = sampleResult.name.replace(
+          `${testCaseResult.name} on `,
+          '',
+        )
+        let baselineMetrics = baseline.get(
+          getBaselineKey(testSpecResult.name, testCaseResult.name, sampleName),
+        )
+
+        if (!baselineMetrics || sampleResult.error) {
+          return sampleResult
+        }
+
+        matchedSamplesCount++
+
+        return {
+          ...sampleResult,
+          comparison: {
+            significance:
+              baselineMetrics.samples && sampleResult.samples
+                ? calculateSignificance(
+                    baselineMetrics.samples,
+                    sampleResult.samples,
+                  )
+                : undefined,
+            median: calculateDelta(
+              baselineMetrics.median,
+              sampleResult.metrics.median,
+            ),
+            mean: calculateDelta(
+              baselineMetrics.mean,
+              sampleResult.metrics.mean,
+            ),
+            hz: calculateDelta(baselineMetrics.hz, sampleResult.metrics.hz),
+          },
+        }
+      }),
+    })),
+  }))
+
+  if (matchedSamplesCount === 0) {
+    console.warn(
+      'No samples from the current run matched the baseline report. Make sure test and case names did not change.',
+    )
+  }
+
+  return comparedResults
+}
@@ -0,0 +1,16 @@
+/**
+ * Builds the key used to match a code sample between a baseline report and the
+ * current run.
+ *
+ * @param testSpecName - Name of the test specification.
+ * @param testCaseName - Name of the test case within the specification.
+ * @param sampleName - Name of the code sample (usually its filename).
+ * @returns A key that uniquely identifies the sample.
+ */
+export function getBaselineKey(
+  testSpecName: string,
+  testCaseName: string,
+  sampleName: string,
+): string {
+  return JSON.stringify([testSpecName, testCaseName, sampleName])
+}
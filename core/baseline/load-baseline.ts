@@ -0,0 +1,133 @@
+import fs from 'node:fs/promises'
+
+import type {
+  JsonBenchmarkReport,
+  JsonSampleResult,
+} from '../../reporters/use-json-report'
+import type { BaselineMetrics } from '../../types/baseline-comparison'
+
+import { getBaselineKey } from './get-baseline-key'
+
+/**
+ * Loads a JSON report produced by the JSON reporter and indexes its samples so
+ * they can be compared with the results of the current run.
+ *
+ * Samples are keyed by test specification name, test case name and sample name
+ * (see `getBaselineKey`). Samples without metrics, such as failed ones, are
+ * skipped.
+ *
+ * @example
+ *   const baseline = await loadBaseline('./benchmark/baseline.json')
+ *   const metrics = baseline.get(
+ *     getBaselineKey('My Rule', 'My Rule - Case 1', 'sample.js'),
+ *   )
+ *
+ * @param baselinePath - Absolute path to the baseline JSON report.
+ * @returns A promise that resolves to a map of baseline metrics by sample key.
+ * @throws {Error} If the file cannot be read or is not a valid JSON report.
+ */
+export async function loadBaseline(
+  baselinePath: string,
+): Promise<Map<string, BaselineMetrics>> {
+  let content: string
+  try {
+    content = await fs.readFile(baselinePath, 'utf8')
+  } catch (error) {
+    let errorValue = error as Error
+    throw new Error(
+      `Failed to read baseline report "${baselinePath}": ${errorValue.message}`,
+      { cause: error },
+    )
+  }
+
+  let report: Partial<JsonBenchmarkReport>
+  try {
+    report = JSON.parse(content) as Partial<JsonBenchmarkReport>
+  } catch (error) {
+    let errorValue = error as Error
+    throw new Error(
+      `Baseline report "${baselinePath}" is not valid JSON: ${errorValue.message}`,
+      { cause: error },
+    )
+  }
+
+  if (!Array.isArray(report.testSpecifications)) {
+    throw new TypeError(
+      `Baseline report "${baselinePath}" does not contain "testSpecifications". Use a report created with "--report json".`,
+    )
+  }
+
+  let baseline = new Map<string, BaselineMetrics>()
+
+  for (let testSpec of report.testSpecifications) {
+    for (let testCase of testSpec.testCases) {
+      for (let sample of testCase.samples) {
+        let metrics = extractBaselineMetrics(sample)
+        if (metrics) {
+          baseline.set(
+            getBaselineKey(testSpec.name, testCase.name, sample.sampleName),
+            metrics,
+          )
+        }
+      }
+    }
+  }
+
+  return baseline
+}
+
+/**
+ * Extracts the metrics used for comparison from a sample of a JSON report.
+ *
+ * Reports created by earlier versions only contain formatted metrics, so the
+ * values are parsed back from their string representation when raw metrics are
+ * not available.
+ *
+ * @param sample - A sample result from a JSON report.
+ * @returns The baseline metrics, or null if the sample has no usable metrics.
+ */
+function extractBaselineMetrics(
+  sample: JsonSampleResult,
+): BaselineMetrics | null {
+  if (sample.rawMetrics) {
+    return {
+      median: sample.rawMetrics.median,
+      mean: sample.rawMetrics.mean,
+      hz: sample.rawMetrics.hz,
+      samples: sample.samples,
+    }
+  }
+
+  if (!sample.metrics) {
+    return null
+  }
+
+  let median = parseFormattedMs(sample.metrics.medianTime)
+  let mean = parseFormattedMs(sample.metrics.averageTime)
+
+  if (median === null || mean === null) {
+    return null
+  }
+
+  return {
+    hz: sample.metrics.operationsPerSecond,
+    median,
+    mean,
+  }
+}
+
+/**
+ * Parses a value formatted by `formatMs` (e.g. "1,234.567 ms") back into a
+ * number of milliseconds.
+ *
+ * @param value - Milliseconds formatted as a string, or null.
+ * @returns The number of milliseconds, or null if the value cannot be parsed.
+ */
+function parseFormattedMs(value: string | null): number | null {
+  if (!value) {
+    return null
+  }
+
+  let milliseconds = Number(value.replace(/\s*ms$/u, '').replaceAll(',', ''))
+  return Number.isFinite(milliseconds) ? milliseconds : null
+}
@@ -0,0 +1,93 @@
+/**
+ * Performs a two-sided Mann-Whitney U test to check whether two independent
+ * samples come from the same distribution.
+ *
+ * The p-value is computed with the normal approximation, including correction
+ * for ties and continuity correction, which is accurate for the sample sizes
+ * produced by benchmarks.
+ *
+ * @example
+ *   const pValue = mannWhitneyUTest(baselineSamples, currentSamples)
+ *   const isSignificant = pValue < 0.05
+ *
+ * @param first - Values of the first sample.
+ * @param second - Values of the second sample.
+ * @returns The two-sided p-value. Returns 1 if either sample is empty or all
+ *   values are equal.
+ */
+export function mannWhitneyUTest(first: number[], second: number[]): number {
+  let firstCount = first.length
+  let secondCount = second.length
+
+  if (firstCount === 0 || secondCount === 0) {
+    return 1
+  }
+
+  let values = [
+    ...first.map(value => ({ fromFirst: true, value })),
+    ...second.map(value => ({ fromFirst: false, value })),
+  ].toSorted((a, b) => a.value - b.value)
+
+  let totalCount = values.length
+  let firstRankSum = 0
+  let tieCorrection = 0
+
+  for (let start = 0; start < totalCount; ) {
+    let end = start
+    while (
+      end + 1 < totalCount &&
+      values[end + 1]!.value === values[start]!.value
+    ) {
+      end++
+    }
+
+    let tiedCount = end - start + 1
+    let averageRank = (start + end) / 2 + 1
+
+    for (let index = start; index <= end; index++) {
+      if (values[index]!.fromFirst) {
+        firstRankSum += averageRank
+      }
+    }
+
+    tieCorrection += tiedCount ** 3 - tiedCount
+    start = end + 1
+  }
+
+  let uStatistic = firstRankSum - (firstCount * (firstCount + 1)) / 2
+  let expectedU = (firstCount * secondCount) / 2
+  let variance =
+    ((firstCount * secondCount) / 12) *
+    (totalCount + 1 - tieCorrection / (totalCount * (totalCount - 1)))
+
+  if (variance <= 0) {
+    return 1
+  }
+
+  let deviation = Math.max(Math.abs(uStatistic - expectedU) - 0.5, 0)
+  let zScore = deviation / Math.sqrt(variance)
+
+  return Math.min(1, 2 * (1 - normalCdf(zScore)))
+}
+
+/**
+ * Calculates the cumulative distribution function of the standard normal
+ * distribution using the Abramowitz and Stegun approximation of the error
+ * function (maximum error 1.5e-7).
+ *
+ * @param value - Point to evaluate the distribution function at.
+ * @returns Probability that a standard normal variable is less than the value.
+ */
+function normalCdf(value: number): number {
+  let x = Math.abs(value) / Math.SQRT2
+  let t = 1 / (1 + 0.3275911 * x)
+  let polynomial =
+    t *
+    (0.254829592 +
+      t *
+        (-0.284496736 +
+          t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))))
+  let erf = 1 - polynomial * Math.exp(-x * x)
+
+  return value >= 0 ? (1 + erf) / 2 : (1 - erf) / 2
+}
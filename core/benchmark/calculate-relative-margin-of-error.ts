@@ -0,0 +1,64 @@
+/**
+ * Two-sided critical values of Student's t-distribution for a 95% confidence
+ * level, indexed by degrees of freedom minus one.
+ */
+const T_CRITICAL_VALUES = [
+  12.706, 4.303, 3.182, 2.776, 2.571, 2.447, 2.365, 2.306, 2.262, 2.228, 2.201,
+  2.179, 2.16, 2.145, 2.131, 2.12, 2.11, 2.101, 2.093, 2.086, 2.08, 2.074,
+  2.069, 2.064, 2.06, 2.056, 2.052, 2.048, 2.045, 2.042,
+]
+
+/** Two-sided critical value of the normal distribution for 95% confidence. */
+const Z_CRITICAL_VALUE = 1.959_964
+
+/**
+ * Calculates the relative margin of error of the mean: the half-width of its
+ * 95% confidence interval divided by the mean. The interval uses Student's
+ * t-distribution, so it stays honest for small numbers of samples.
+ *
+ * @example
+ *   const rme = calculateRelativeMarginOfError(samples)
+ *   const isPrecise = rme <= 0.01
+ *
+ * @param samples - Execution times in milliseconds.
+ * @returns The relative margin of error as a fraction (e.g., 0.01 for ±1%), or
+ *   Infinity if there are fewer than two samples.
+ */
+export function calculateRelativeMarginOfError(samples: number[]): number {
+  let count = samples.length
+  if (count < 2) {
+    return Infinity
+  }
+
+  let mean = samples.reduce((sum, sample) => sum + sample, 0) / count
+  let variance =
+    samples.reduce((sum, sample) => sum + (sample - mean) ** 2, 0) / (count - 1)
+  let standardError = Math.sqrt(variance / count)
+
+  if (standardError === 0) {
+    return 0
+  }
+
+  return (getTCriticalValue(count - 1) * standardError) / Math.abs(mean)
+}
+
+/**
+ * Returns the two-sided 95% critical value of Student's t-distribution. Beyond
+ * the table, it is approximated with the Cornish-Fisher expansion around the
+ * normal distribution.
+ *
+ * @param degreesOfFreedom - Degrees of freedom, at least one.
+ * @returns The critical value.
+ */
+function getTCriticalValue(degreesOfFreedom: number): number {
+  if (degreesOfFreedom <= T_CRITICAL_VALUES.length) {
+    return T_CRITICAL_VALUES[degreesOfFreedom - 1]!
+  }
+
+  let z = Z_CRITICAL_VALUE
+  return (
+    z +
+    (z ** 3 + z) / (4 * degreesOfFreedom) +
+    (5 * z ** 5 + 16 * z ** 3 + 3 * z) / (96 * degreesOfFreedom ** 2)
+  )
+}
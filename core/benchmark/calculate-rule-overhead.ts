@@ -0,0 +1,33 @@
+import type { BenchmarkMetrics } from '../../types/benchmark-metrics'
+import type { RuleOverhead } from '../../types/rule-overhead'
+
+/**
+ * Calculates the time spent in the rule by subtracting the metrics of a control
+ * run, which lints the same sample with the rule disabled, from the metrics of
+ * the regular run.
+ *
+ * @example
+ *   calculateRuleOverhead(
+ *     { ...metrics, mean: 1.5, median: 1.4 },
+ *     { ...controlMetrics, mean: 1, median: 1 },
+ *   )
+ *   // { mean: 0.5, median: 0.4, controlMean: 1, controlMedian: 1, percent: 33.3 }
+ *
+ * @param metrics - Metrics of the run with the rule enabled.
+ * @param controlMetrics - Metrics of the control run with the rule disabled.
+ * @returns The time attributable to the rule.
+ */
+export function calculateRuleOverhead(
+  metrics: BenchmarkMetrics,
+  controlMetrics: BenchmarkMetrics,
+): RuleOverhead {
+  let mean = metrics.mean - controlMetrics.mean
+
+  return {
+    percent: metrics.mean === 0 ? null : (mean / metrics.mean) * 100,
+    median: metrics.median - controlMetrics.median,
+    controlMedian: controlMetrics.median,
+    controlMean: controlMetrics.mean,
+    mean,
+  }
+}
@@ -0,0 +1,34 @@
+import type { FnOptions, FnHook } from 'tinybench'
+
+const HOOK_NAMES = ['beforeAll', 'beforeEach', 'afterEach', 'afterAll'] as const
+
+/**
+ * Combines several sets of tinybench task hooks into one. Hooks of the same
+ * kind are awaited one after another in the order the sets were passed.
+ *
+ * @example
+ *   bench.add(name, fn, combineHooks(memoryTracker.hooks, cpuProfiler.hooks))
+ *
+ * @param hookSets - Sets of task hooks to combine.
+ * @returns Task hooks that call the hooks of all sets.
+ */
+export function combineHooks(...hookSets: FnOptions[]): FnOptions {
+  let combinedHooks: FnOptions = {}
+
+  for (let hookName of HOOK_NAMES) {
+    let hooks = hookSets
+      .map(hookSet => hookSet[hookName])
+      .filter((hook): hook is FnHook => hook !== undefined)
+
+    if (hooks.length > 0) {
+      combinedHooks[hookName] = async function (mode) {
+        for (let hook of hooks) {
+          // eslint-disable-next-line no-await-in-loop
+          await hook.call(this, mode)
+        }
+      }
+    }
+  }
+
+  return combinedHooks
+}
@@ -0,0 +1,102 @@
+import type { FnOptions } from 'tinybench'
+
+import { PerformanceObserver } from 'node:perf_hooks'
+
+import type { MemoryMetrics } from '../../types/benchmark-metrics'
+
+/** Collects memory metrics of a single benchmark task. */
+export interface MemoryTracker {
+  /**
+   * Returns the metrics collected so far.
+   *
+   * @returns The memory metrics, or null if no operations were measured.
+   */
+  getMetrics(): MemoryMetrics | null
+
+  /** Tinybench task hooks that take the measurements. */
+  hooks: FnOptions
+}
+
+/**
+ * Creates a tracker that measures heap usage and garbage collections of a
+ * benchmark task.
+ *
+ * The returned hooks are passed to `bench.add`. They read the heap usage before
+ * and after each lint call and observe garbage collections while the task is
+ * measured. Hooks are not included in the measured execution time, and the
+ * warmup phase is ignored. The same tracker can be used for several runs of a
+ * task, in which case the metrics of all runs are combined.
+ *
+ * Node.js reports garbage collections from an immediate callback, which never
+ * runs while lint calls only await microtasks. The pending entries are
+ * therefore collected after the event loop had a chance to run at the end of
+ * each run.
+ *
+ * @example
+ *   const memoryTracker = createMemoryTracker()
+ *   bench.add(name, fn, memoryTracker.hooks)
+ *   await bench.run()
+ *   const memoryMetrics = memoryTracker.getMetrics()
+ *
+ * @returns A memory tracker for a single benchmark task.
+ */
+export function createMemoryTracker(): MemoryTracker {
+  let heapDeltas: number[] = []
+  let gcDurations: number[] = []
+  let heapUsedBefore = 0
+  let observer: PerformanceObserver | null = null
+
+  function collectGcEntries(entries: PerformanceEntry[]): void {
+    for (let entry of entries) {
+      gcDurations.push(entry.duration)
+    }
+  }
+
+  return {
+    hooks: {
+      afterAll: async () => {
+        if (!observer) {
+          return
+        }
+        await new Promise(resolve => {
+          setImmediate(resolve)
+        })
+        collectGcEntries(observer.takeRecords())
+        observer.disconnect()
+        observer = null
+      },
+      beforeAll: mode => {
+        if (mode !== 'run') {
+          return
+        }
+        observer = new PerformanceObserver(list => {
+          collectGcEntries(list.getEntries())
+        })
+        observer.observe({ entryTypes: ['gc'] })
+      },
+      afterEach: mode => {
+        if (mode === 'run') {
+          heapDeltas.push(process.memoryUsage().heapUsed - heapUsedBefore)
+        }
+      },
+      beforeEach: mode => {
+        if (mode === 'run') {
+          heapUsedBefore = process.memoryUsage().heapUsed
+        }
+      },
+    },
+    getMetrics: () => {
+      if (heapDeltas.length === 0) {
+        return null
+      }
+
+      let heapGrowth = heapDeltas.reduce((sum, delta) => sum + delta, 0)
+
+      return {
+        gcDurationMs: gcDurations.reduce((sum, duration) => sum + duration, 0),
+        memoryUsageBytes: heapGrowth / heapDeltas.length,
+        gcCount: gcDurations.length,
+      }
+    },
+  }
+}
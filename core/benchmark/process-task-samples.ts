@@ -0,0 +1,42 @@
+import type { MemoryMetrics } from '../../types/benchmark-metrics'
+import type { ProcessedBenchmarkTask } from './run-benchmark'
+
+import { calculateStatistics } from './calculate-statistics'
+import { filterOutliers } from './filter-outliers'
+
+/**
+ * Removes outliers from the raw samples of a benchmark task and calculates its
+ * metrics. If every sample is considered an outlier, the original samples are
+ * used instead.
+ *
+ * @param name - Name of the benchmark task.
+ * @param samples - Raw execution times of the task in milliseconds.
+ * @param memoryMetrics - Optional memory metrics of the task to include in its
+ *   metrics.
+ * @returns The processed benchmark task, including the samples its metrics were
+ *   calculated from.
+ */
+export function processTaskSamples(
+  name: string,
+  samples: number[],
+  memoryMetrics?: MemoryMetrics | null,
+): ProcessedBenchmarkTask {
+  let { filteredSamples } = filterOutliers(samples)
+
+  let samplesToProcess = filteredSamples.length > 0 ? filteredSamples : samples
+
+  if (filteredSamples.length === 0 && samples.length > 0) {
+    console.warn(
+      `All ${samples.length} samples for task "${name}" were filtered out as outliers. Statistics will be based on original samples or appear as zero if original was also empty.`,
+    )
+  }
+
+  return {
+    metrics: {
+      ...calculateStatistics(samplesToProcess),
+      ...memoryMetrics,
+    },
+    samples: samplesToProcess,
+    name,
+  }
+}
@@ -1,26 +1,112 @@
 import type { ESLint } from 'eslint'
+import type { Fn } from 'tinybench'
 
+import type { VisitorProfiler } from '../profiling/create-visitor-profiler'
+import type { BaselineComparison } from '../../types/baseline-comparison'
+import type { LintMessageCounts } from '../../types/lint-message-counts'
 import type { BenchmarkMetrics } from '../../types/benchmark-metrics'
+import type { SampleScaling, TestCase } from '../../types/test-case'
 import type { BenchmarkConfig } from '../../types/benchmark-config'
-import type { TestCase } from '../../types/test-case'
+import type { VisitorProfile } from '../../types/visitor-profile'
+import type { PassCounter } from '../eslint/create-pass-counter'
+import type { RuleOverhead } from '../../types/rule-overhead'
+import type { MemoryTracker } from './create-memory-tracker'
+import type { RepeatableTask } from './sample-until-precise'
 import type { LANGUAGES } from '../../constants'
 
+import { calculateRelativeMarginOfError } from './calculate-relative-margin-of-error'
+import { createVisitorProfiler } from '../profiling/create-visitor-profiler'
 import { createESLintInstance } from '../eslint/create-eslint-instance'
+import { createCpuProfiler } from '../profiling/create-cpu-profiler'
+import { getBenchmarkRuleId } from '../eslint/get-benchmark-rule-id'
+import { createPassCounter } from '../eslint/create-pass-counter'
+import { countLintMessages } from '../eslint/count-lint-messages'
+import { getLintFilePath } from '../test-case/get-lint-file-path'
+import { calculateRuleOverhead } from './calculate-rule-overhead'
+import { createMemoryTracker } from './create-memory-tracker'
 import { calculateStatistics } from './calculate-statistics'
-import { filterOutliers } from './filter-outliers'
+import { sampleUntilPrecise } from './sample-until-precise'
+import { processTaskSamples } from './process-task-samples'
+import { getParseError } from '../eslint/get-parse-error'
+import { MIN_PRECISION_SAMPLES } from '../../constants'
+import { isTypeAware } from '../eslint/is-type-aware'
+import { combineHooks } from './combine-hooks'
 import { createBench } from './create-bench'
 
 /** Processed benchmark result for a single task. */
 export interface ProcessedBenchmarkTask {
+  /**
+   * Comparison with the same sample in the baseline report. Only present when a
+   * baseline was provided and contains this sample.
+   */
+  comparison?: BaselineComparison
+
+  /**
+   * Number of problems the rule reported for the sample in a lint without
+   * fixes. Collected before the measurements.
+   */
+  messages?: LintMessageCounts
+
+  /**
+   * Time spent in each listener of the rule, ordered from the slowest. Only
+   * present when visitor profiling was enabled.
+   */
+  visitors?: VisitorProfile[]
+
   /** Metrics calculated from the benchmark samples. */
   metrics: BenchmarkMetrics
 
+  /**
+   * Source sample and input size of a sample generated for the scaling
+   * analysis. Fix modes of the same source are analyzed separately.
+   */
+  scaling?: SampleScaling
+
+  /**
+   * Time spent in the rule without parsing and traversal. Only present when the
+   * overhead measurement was enabled.
+   */
+  overhead?: RuleOverhead
+
+  /**
+   * Time of the first, cold lint of the test case in milliseconds. It includes
+   * one-time setup such as creating the TypeScript program, which the steady
+   * state metrics leave out. Only present on the first sample of type-aware
+   * test cases, as later samples reuse the program.
+   */
+  firstLintTime?: number
+
+  /**
+   * Number of passes ESLint needed to lint the sample with fixes applied. More
+   * than one pass means that the rule fixed the code. Only present when fixes
+   * were enabled.
+   */
+  fixPasses?: number
+
+  /**
+   * Execution times in milliseconds the metrics were calculated from, after
+   * outlier filtering. Used for significance testing.
+   */
+  samples?: number[]
+
+  /**
+   * Error that prevented the sample from being benchmarked, such as a parsing
+   * error. The metrics of a failed sample are all zero and must not be used.
+   */
+  error?: string
+
+  /**
+   * Relative margin of error of the mean at 95% confidence, as a fraction. Only
+   * present when sampling until a target precision.
+   */
+  rme?: number
+
   /** Name of the benchmark task. */
   name: string
 }
 
 /** Parameters for running a benchmark. */
-interface RunBenchmarkParameters {
+export interface RunBenchmarkParameters {
   /** Optional path to custom ESLint config file. */
   eslintConfigFile?: string
 
@@ -34,6 +120,21 @@ interface RunBenchmarkParameters {
   testCases: TestCase[]
 }
 
+/** ESLint instances that lint the samples of a test case in one fix mode. */
+interface LintMode {
+  /** Instance with the rule disabled, if control tasks are enabled. */
+  controlESLint: ESLint | null
+
+  /** Counter of the fix passes. Only present if fixes are applied. */
+  passCounter?: PassCounter
+
+  /** Appended to the task names, to tell the fix modes apart. */
+  suffix: string
+
+  /** Instance that runs the benchmarked rule. */
+  eslint: ESLint
+}
+
 /** Language type for benchmarking. */
 type Language = (typeof LANGUAGES)[number]
 
@@ -44,7 +145,39 @@ type Language = (typeof LANGUAGES)[number]
  * creates a new ESLint instance for each unique TestCase (based on its rule
  * configuration) to ensure isolation. Each code sample within a TestCase is
  * then added as an individual task to a tinybench Bench instance. Finally, it
- * runs all collected tasks and returns their results.
+ * runs all collected tasks and returns their results. Besides execution times,
+ * heap usage and garbage collections are measured around each lint call. If
+ * `config.profileVisitors` is enabled, every listener of the rule is timed as
+ * well. If `config.measureOverhead` is enabled, every sample gets a control
+ * task that lints it with the rule disabled, and the difference between both
+ * tasks is reported as the time spent in the rule. If `config.fullConfig` is
+ * enabled, the rule runs together with all rules of the ESLint config, and the
+ * control task disables only the benchmarked rule, so the difference is the
+ * marginal cost of the rule within the config. If `config.cpuProfileDirectory`
+ * is set, a CPU profile of every sample is written to that directory.
+ *
+ * Fixes are applied unless `config.fix` is false. With `config.fix` set to
+ * "both", every sample gets a report-only task and a task with fixes, named
+ * with a " (report only)" and " (with fixes)" suffix. When fixes are applied,
+ * every sample is linted once before the measurements to count the passes
+ * ESLint needs to fix it.
+ *
+ * Before the measurements, every sample is linted once without fixes. If the
+ * sample cannot be parsed, it is not benchmarked and its result only contains
+ * the parsing error, so that the fast path of a failed parse is not reported as
+ * the speed of the rule. Otherwise, the problems reported by the rule are
+ * counted, and a warning is printed if the rule reports nothing, which often
+ * points to a wrong rule ID, parser or sample.
+ *
+ * Samples are linted by their real path. For type-aware test cases, the time of
+ * this first lint is reported separately, so the one-time cost of creating the
+ * TypeScript program is reported apart from the steady state.
+ *
+ * With a precision setting, the fixed iterations and time are replaced by
+ * adaptive sampling: the first round only takes a few samples of every task,
+ * and each task is then measured in additional rounds until the relative margin
+ * of error of its mean reaches the target or its measured time reaches the
+ * limit. The achieved margin of error is reported for every task.
  *
  * If no test cases are provided, or if no valid benchmark tasks can be
  * generated (e.g., due to errors in ESLint instance creation or lack of
@@ -77,12 +210,26 @@ export async function runBenchmark(
   }
 
   let bench = createBench({
+    iterations: config.precision ? MIN_PRECISION_SAMPLES : config.iterations,
+    timeoutMs: config.precision ? 0 : config.timeout,
     warmupIterations: config.warmup.iterations,
-    iterations: config.iterations,
     warmup: config.warmup.enabled,
-    timeoutMs: config.timeout,
   })
 
+  let memoryTrackers = new Map<string, MemoryTracker>()
+  let repeatableTasks = new Map<string, RepeatableTask>()
+  let firstLintTimes = new Map<string, number>()
+  let fixPasses = new Map<string, number>()
+  let lintMessages = new Map<string, LintMessageCounts>()
+  let sampleErrors = new Map<string, string>()
+  let sampleScalings = new Map<string, SampleScaling>()
+  let taskNames: string[] = []
+  let fixModes = config.fix === 'both' ? [false, true] : [config.fix ?? true]
+  let controlTaskNames = new Map<string, string>()
+  let visitorProfiler: VisitorProfiler | undefined = config.profileVisitors
+    ? createVisitorProfiler()
+    : undefined
+
   for (let testCase of testCases) {
     /* eslint-disable no-await-in-loop */
     let currentTestCaseLanguages: Language[] = []
@@ -99,15 +246,57 @@ export async function runBenchmark(
       continue
     }
 
-    let eslint: ESLint
+    let instanceOptions = {
+      languageOptions: testCase.languageOptions,
+      languages: currentTestCaseLanguages,
+      extensions: testCase.extensions,
+      processor: testCase.processor,
+      fullConfig: config.fullConfig,
+      language: testCase.language,
+      settings: testCase.settings,
+      parser: testCase.parser,
+      eslintConfigFile,
+      configDirectory,
+    }
+    let lintModes: LintMode[] = []
+    let reportOnlyESLint: ESLint
     try {
-      eslint = await createESLintInstance({
-        languages: currentTestCaseLanguages,
-        rule: testCase.rule,
-        eslintConfigFile,
-        configDirectory,
-      })
-      await eslint.lintText('/* eslint-disable */')
+      for (let fix of fixModes) {
+        let passCounter = fix ? createPassCounter() : undefined
+        let eslint = await createESLintInstance({
+          ...instanceOptions,
+          rule: testCase.rule,
+          visitorProfiler,
+          passCounter,
+          fix,
+        })
+        await eslint.lintText('/* eslint-disable */')
+
+        let controlESLint: ESLint | null = null
+        if (config.measureOverhead || config.fullConfig) {
+          controlESLint = await createESLintInstance({
+            ...instanceOptions,
+            rule: { ...testCase.rule, severity: 0 },
+            fix,
+          })
+          await controlESLint.lintText('/* eslint-disable */')
+        }
+
+        lintModes.push({
+          suffix: getTaskNameSuffix(config.fix, fix),
+          controlESLint,
+          passCounter,
+          eslint,
+        })
+      }
+
+      reportOnlyESLint =
+        lintModes.find(({ passCounter }) => !passCounter)?.eslint ??
+        (await createESLintInstance({
+          ...instanceOptions,
+          rule: testCase.rule,
+          fix: false,
+        }))
     } catch (error: unknown) {
       let errorValue = error as Error
       console.error(
@@ -116,22 +305,134 @@ export async function runBenchmark(
       continue
     }
 
+    let typeAware = isTypeAware(testCase.languageOptions)
+    let isColdLint = typeAware
+    let benchmarkRuleId = getBenchmarkRuleId(testCase.rule.ruleId)
+
     for (let sample of testCase.samples) {
-      bench.add(`${testCase.name} on ${sample.filename}`, async () => {
-        await eslint.lintText(sample.code, { filePath: sample.filename })
-      })
+      let filePath = getLintFilePath(sample)
+      let sampleTaskNames = lintModes.map(
+        ({ suffix }) => `${testCase.name} on ${sample.filename}${suffix}`,
+      )
+      taskNames.push(...sampleTaskNames)
+
+      if (sample.scaling) {
+        for (let [index, { suffix }] of lintModes.entries()) {
+          sampleScalings.set(sampleTaskNames[index]!, {
+            source: `${sample.scaling.source}${suffix}`,
+            size: sample.scaling.size,
+          })
+        }
+      }
+
+      let startTime = performance.now()
+      let preflightResults: ESLint.LintResult[]
+      try {
+        preflightResults = await reportOnlyESLint.lintText(sample.code, {
+          filePath,
+        })
+      } catch (error: unknown) {
+        let errorValue = error as Error
+        console.error(
+          `Failed to lint "${sample.filename}" in TestCase "${testCase.name}": ${errorValue.message}. Skipping this sample.`,
+        )
+        for (let taskName of sampleTaskNames) {
+          sampleErrors.set(taskName, errorValue.message)
+        }
+        continue
+      }
+      let coldLintTime = isColdLint ? performance.now() - startTime : undefined
+      isColdLint = false
+
+      let parseError = getParseError(preflightResults)
+      if (parseError) {
+        console.error(
+          `Failed to parse "${sample.filename}" in TestCase "${testCase.name}": ${parseError}. Skipping this sample.`,
+        )
+        for (let taskName of sampleTaskNames) {
+          sampleErrors.set(taskName, parseError)
+        }
+        continue
+      }
+
+      let messages = countLintMessages(preflightResults, benchmarkRuleId)
+      if (messages.errors + messages.warnings === 0) {
+        console.warn(
+          `Rule "${testCase.rule.ruleId}" reported no problems on "${sample.filename}" in TestCase "${testCase.name}". Check the rule ID, the parser and the sample.`,
+        )
+      }
+
+      for (let [
+        index,
+        { controlESLint, passCounter, eslint },
+      ] of lintModes.entries()) {
+        let taskName = sampleTaskNames[index]!
+        lintMessages.set(taskName, messages)
+
+        if (coldLintTime !== undefined) {
+          firstLintTimes.set(taskName, coldLintTime)
+        }
+
+        if (passCounter) {
+          try {
+            fixPasses.set(
+              taskName,
+              await passCounter.count(() =>
+                eslint.lintText(sample.code, { filePath }),
+              ),
+            )
+          } catch (error: unknown) {
+            let errorValue = error as Error
+            console.error(
+              `Failed to lint "${sample.filename}" with fixes in TestCase "${testCase.name}": ${errorValue.message}. Skipping this sample.`,
+            )
+            sampleErrors.set(taskName, errorValue.message)
+            continue
+          }
+        }
+
+        let memoryTracker = createMemoryTracker()
+        memoryTrackers.set(taskName, memoryTracker)
+        let lintSample: Fn = async () => {
+          if (visitorProfiler) {
+            await visitorProfiler.measure(taskName, () =>
+              eslint.lintText(sample.code, { filePath }),
+            )
+          } else {
+            await eslint.lintText(sample.code, { filePath })
+          }
+        }
+        let hooks = config.cpuProfileDirectory
+          ? combineHooks(
+              memoryTracker.hooks,
+              createCpuProfiler(config.cpuProfileDirectory, taskName).hooks,
+            )
+          : memoryTracker.hooks
+        bench.add(taskName, lintSample, hooks)
+        repeatableTasks.set(taskName, { fn: lintSample, hooks })
+
+        if (controlESLint) {
+          let controlTaskName = `${taskName} (control)`
+          let lintControl: Fn = async () => {
+            await controlESLint.lintText(sample.code, { filePath })
+          }
+          controlTaskNames.set(taskName, controlTaskName)
+          bench.add(controlTaskName, lintControl)
+          repeatableTasks.set(controlTaskName, { fn: lintControl })
+        }
+      }
     }
     /* eslint-enable no-await-in-loop */
   }
 
-  if (bench.tasks.length === 0) {
+  if (bench.tasks.length === 0 && sampleErrors.size === 0) {
     console.warn('No benchmark tasks were added. Nothing to run.')
     return null
   }
 
-  let tinybenchTasks = await bench.run()
+  let tinybenchTasks = bench.tasks.length > 0 ? await bench.run() : []
 
-  let processedResults: ProcessedBenchmarkTask[] = []
+  let taskSamples = new Map<string, number[]>()
 
   for (let task of tinybenchTasks) {
     if (!task.result?.samples) {
@@ -141,26 +442,109 @@ export async function runBenchmark(
       continue
     }
 
-    let originalSamples = task.result.samples
-    let { outliersRemovedCount: _outliersRemovedCount, filteredSamples } =
-      filterOutliers(originalSamples)
+    taskSamples.set(task.name, task.result.samples)
+  }
 
-    let samplesToProcess =
-      filteredSamples.length > 0 ? filteredSamples : originalSamples
+  if (config.precision) {
+    taskSamples = await sampleUntilPrecise(
+      repeatableTasks,
+      taskSamples,
+      config.precision,
+    )
+  }
 
-    if (filteredSamples.length === 0 && originalSamples.length > 0) {
-      console.warn(
-        `All ${originalSamples.length} samples for task "${task.name}" were filtered out as outliers. Statistics will be based on original samples or appear as zero if original was also empty.`,
+  let processedTasks = new Map<string, ProcessedBenchmarkTask>()
+
+  for (let [taskName, samples] of taskSamples) {
+    processedTasks.set(
+      taskName,
+      processTaskSamples(
+        taskName,
+        samples,
+        memoryTrackers.get(taskName)?.getMetrics(),
+      ),
+    )
+  }
+
+  let processedResults: ProcessedBenchmarkTask[] = []
+
+  for (let taskName of taskNames) {
+    let error = sampleErrors.get(taskName)
+    if (error) {
+      processedResults.push({
+        scaling: sampleScalings.get(taskName),
+        metrics: calculateStatistics([]),
+        name: taskName,
+        error,
+      })
+      continue
+    }
+
+    let processedTask = processedTasks.get(taskName)
+    if (!processedTask) {
+      continue
+    }
+
+    let visitors = visitorProfiler?.getProfile(taskName)
+    if (visitors) {
+      processedTask.visitors = visitors
+    }
+
+    let firstLintTime = firstLintTimes.get(taskName)
+    if (firstLintTime !== undefined) {
+      processedTask.firstLintTime = firstLintTime
+    }
+
+    let passes = fixPasses.get(taskName)
+    if (passes !== undefined) {
+      processedTask.fixPasses = passes
+    }
+
+    let messages = lintMessages.get(taskName)
+    if (messages) {
+      processedTask.messages = messages
+    }
+
+    if (config.precision) {
+      processedTask.rme = calculateRelativeMarginOfError(
+        processedTask.samples ?? [],
       )
     }
 
-    let calculatedMetrics = calculateStatistics(samplesToProcess)
+    let scaling = sampleScalings.get(taskName)
+    if (scaling) {
+      processedTask.scaling = scaling
+    }
 
-    processedResults.push({
-      metrics: calculatedMetrics,
-      name: task.name,
-    })
+    let controlTaskName = controlTaskNames.get(taskName)
+    let controlTask = controlTaskName && processedTasks.get(controlTaskName)
+    if (controlTask) {
+      processedTask.overhead = calculateRuleOverhead(
+        processedTask.metrics,
+        controlTask.metrics,
+      )
+    }
+
+    processedResults.push(processedTask)
   }
 
   return processedResults.length > 0 ? processedResults : null
 }
+
+/**
+ * Returns the suffix of the task names for a fix mode. Task names only get a
+ * suffix if every sample is benchmarked with and without fixes.
+ *
+ * @param fixOption - The `fix` option of the benchmark configuration.
+ * @param fix - Whether the task applies fixes.
+ * @returns The suffix to append to the task name.
+ */
+function getTaskNameSuffix(
+  fixOption: BenchmarkConfig['fix'],
+  fix: boolean,
+): string {
+  if (fixOption !== 'both') {
+    return ''
+  }
+  return fix ? ' (with fixes)' : ' (report only)'
+}
@@ -0,0 +1,167 @@
+import type { ESLint } from 'eslint'
+
+import type { BenchmarkConfig } from '../../types/benchmark-config'
+import type { ProcessedBenchmarkTask } from './run-benchmark'
+import type { MemoryTracker } from './create-memory-tracker'
+import type { TestCase } from '../../types/test-case'
+import type { LANGUAGES } from '../../constants'
+
+import { createESLintInstance } from '../eslint/create-eslint-instance'
+import { getLintFilePath } from '../test-case/get-lint-file-path'
+import { createMemoryTracker } from './create-memory-tracker'
+import { DEFAULT_INTERLEAVED_ROUNDS } from '../../constants'
+import { processTaskSamples } from './process-task-samples'
+import { createBench } from './create-bench'
+
+/** Parameters for running an interleaved benchmark. */
+interface RunInterleavedBenchmarkParameters {
+  /** Optional path to custom ESLint config file. */
+  eslintConfigFile?: string
+
+  /** Configuration for the benchmark. */
+  config: BenchmarkConfig
+
+  /** Path to the configuration directory. */
+  configDirectory: string
+
+  /** Test cases to benchmark against each other. */
+  testCases: TestCase[]
+}
+
+/** A benchmark task that lints one code sample with one test case's rule. */
+interface InterleavedTask {
+  /** Collects memory metrics of the task across all rounds. */
+  memoryTracker: MemoryTracker
+
+  /** Lints the code sample once. */
+  run(): Promise<void>
+
+  /** Name of the benchmark task. */
+  name: string
+}
+
+/** Language type for benchmarking. */
+type Language = (typeof LANGUAGES)[number]
+
+/**
+ * Runs benchmarks for several test cases so that their measurements are
+ * interleaved in time.
+ *
+ * Unlike `runBenchmark`, which measures every task to completion before
+ * starting the next one, this function splits the configured iterations and
+ * time into rounds. Each round measures every task once, alternating the task
+ * order between rounds. Changes in machine load therefore affect all test cases
+ * in the same way, which makes the results directly comparable.
+ *
+ * Samples collected in all rounds are merged, filtered for outliers and turned
+ * into metrics in the same way as in `runBenchmark`, including memory metrics.
+ * Warmup only happens in the first round.
+ *
+ * @example
+ *   const results = await runInterleavedBenchmark({
+ *     testCases: [baseTestCase, headTestCase],
+ *     configDirectory,
+ *     config,
+ *   })
+ *
+ * @param parameters - The parameters for running the benchmark.
+ * @returns A promise that resolves to the processed results of every task, or
+ *   null if no tasks were run.
+ */
+export async function runInterleavedBenchmark(
+  parameters: RunInterleavedBenchmarkParameters,
+): Promise<ProcessedBenchmarkTask[] | null> {
+  let { eslintConfigFile, configDirectory, testCases, config } = parameters
+  let rounds = DEFAULT_INTERLEAVED_ROUNDS
+
+  let tasks: InterleavedTask[] = []
+
+  for (let testCase of testCases) {
+    /* eslint-disable no-await-in-loop */
+    let languages: Language[] = [
+      ...new Set(testCase.samples.map(sample => sample.language)),
+    ]
+
+    let eslint: ESLint
+    try {
+      eslint = await createESLintInstance({
+        languageOptions: testCase.languageOptions,
+        extensions: testCase.extensions,
+        processor: testCase.processor,
+        language: testCase.language,
+        settings: testCase.settings,
+        parser: testCase.parser,
+        rule: testCase.rule,
+        eslintConfigFile,
+        configDirectory,
+        languages,
+      })
+      await eslint.lintText('/* eslint-disable */')
+    } catch (error: unknown) {
+      let errorValue = error as Error
+      console.error(
+        `Failed to create ESLint instance for TestCase "${testCase.name}": ${errorValue.message}. Skipping this test case.`,
+      )
+      continue
+    }
+
+    for (let sample of testCase.samples) {
+      tasks.push({
+        run: async () => {
+          await eslint.lintText(sample.code, {
+            filePath: getLintFilePath(sample),
+          })
+        },
+        name: `${testCase.name} on ${sample.filename}`,
+        memoryTracker: createMemoryTracker(),
+      })
+    }
+    /* eslint-enable no-await-in-loop */
+  }
+
+  if (tasks.length === 0) {
+    console.warn('No benchmark tasks were added. Nothing to run.')
+    return null
+  }
+
+  let collectedSamples = new Map<string, number[]>(
+    tasks.map(task => [task.name, []]),
+  )
+
+  for (let round = 0; round < rounds; round++) {
+    let bench = createBench({
+      iterations: Math.ceil(config.iterations / rounds),
+      warmup: config.warmup.enabled && round === 0,
+      warmupIterations: config.warmup.iterations,
+      timeoutMs: config.timeout / rounds,
+    })
+
+    let orderedTasks = round % 2 === 0 ? tasks : tasks.toReversed()
+    for (let task of orderedTasks) {
+      bench.add(task.name, task.run, task.memoryTracker.hooks)
+    }
+
+    // eslint-disable-next-line no-await-in-loop
+    let tinybenchTasks = await bench.run()
+
+    for (let task of tinybenchTasks) {
+      collectedSamples.get(task.name)!.push(...(task.result?.samples ?? []))
+    }
+  }
+
+  let processedResults: ProcessedBenchmarkTask[] = []
+
+  for (let task of tasks) {
+    let samples = collectedSamples.get(task.name)!
+    if (samples.length === 0) {
+      console.warn(`Task "${task.name}" ran but has no samples. Skipping.`)
+      continue
+    }
+
+    processedResults.push(
+      processTaskSamples(task.name, samples, task.memoryTracker.getMetrics()),
+    )
+  }
+
+  return processedResults.length > 0 ? processedResults : null
+}
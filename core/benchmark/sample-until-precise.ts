@@ -0,0 +1,100 @@
+import type { FnOptions, Fn } from 'tinybench'
+
+import type { PrecisionConfig } from '../../types/benchmark-config'
+
+import { calculateRelativeMarginOfError } from './calculate-relative-margin-of-error'
+import { MIN_PRECISION_SAMPLES } from '../../constants'
+import { filterOutliers } from './filter-outliers'
+import { createBench } from './create-bench'
+
+/** A benchmark task that can be measured again in another round. */
+export interface RepeatableTask {
+  /** Tinybench task hooks, such as the ones of a memory tracker. */
+  hooks?: FnOptions
+
+  /** Function that is measured. */
+  fn: Fn
+}
+
+/**
+ * Measures benchmark tasks in additional rounds until the 95% confidence
+ * interval of their mean is within the target relative margin of error, or
+ * until the total measured time of a task reaches the limit.
+ *
+ * Tasks are extended one after another, without warmup, since they were warmed
+ * up in the first round. The size of each round is estimated from the current
+ * margin of error, which shrinks with the square root of the number of samples,
+ * and is capped by the remaining time. The margin of error is checked on the
+ * samples left after outlier filtering, as in the reported metrics.
+ *
+ * @example
+ *   const samples = await sampleUntilPrecise(tasks, firstRoundSamples, {
+ *     targetRme: 0.01,
+ *     maxTime: 30_000,
+ *   })
+ *
+ * @param tasks - Tasks to measure, by name.
+ * @param initialSamples - Execution times in milliseconds from the first round,
+ *   by task name. Tasks without samples are not extended.
+ * @param precision - Target relative margin of error and time limit.
+ * @returns Execution times of all rounds, by task name.
+ */
+export async function sampleUntilPrecise(
+  tasks: Map<string, RepeatableTask>,
+  initialSamples: Map<string, number[]>,
+  precision: PrecisionConfig,
+): Promise<Map<string, number[]>> {
+  let collectedSamples = new Map<string, number[]>()
+
+  for (let [name, firstRoundSamples] of initialSamples) {
+    let samples = [...firstRoundSamples]
+    collectedSamples.set(name, samples)
+
+    let task = tasks.get(name)
+    if (!task || samples.length === 0) {
+      continue
+    }
+
+    /* eslint-disable no-await-in-loop */
+    for (;;) {
+      let { filteredSamples } = filterOutliers(samples)
+      let rme = calculateRelativeMarginOfError(filteredSamples)
+      let measuredTime = samples.reduce((sum, sample) => sum + sample, 0)
+
+      if (rme <= precision.targetRme || measuredTime >= precision.maxTime) {
+        break
+      }
+
+      let mean = measuredTime / samples.length
+      let neededSamples = Math.ceil(
+        samples.length * ((rme / precision.targetRme) ** 2 - 1),
+      )
+      let remainingSamples =
+        mean > 0
+          ? Math.ceil((precision.maxTime - measuredTime) / mean)
+          : MIN_PRECISION_SAMPLES
+
+      let bench = createBench({
+        iterations: Math.max(
+          MIN_PRECISION_SAMPLES,
+          Math.min(neededSamples, remainingSamples),
+        ),
+        timeoutMs: 0,
+      })
+      bench.add(name, task.fn, task.hooks)
+
+      let [tinybenchTask] = await bench.run()
+      let roundSamples = tinybenchTask?.result?.samples ?? []
+      if (roundSamples.length === 0) {
+        console.warn(
+          `Task "${name}" has no samples in an additional round. Stopping at a relative margin of error of ${(rme * 100).toFixed(2)}%.`,
+        )
+        break
+      }
+      samples.push(...roundSamples)
+    }
+    /* eslint-enable no-await-in-loop */
+  }
+
+  return collectedSamples
+}
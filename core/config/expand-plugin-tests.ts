@@ -0,0 +1,76 @@
+import { createJiti } from 'jiti'
+
+import type {
+  BaseBenchmarkSettings,
+  Plugin,
+  Test,
+} from '../../types/user-benchmark-config'
+
+import { loadPluginRuleIds } from '../eslint/load-plugin-rule-ids'
+
+/** Test specification generated for a single rule of a plugin. */
+type PluginTest = {
+  /** Name of the plugin the rule belongs to. */
+  plugin: string
+} & BaseBenchmarkSettings &
+  Test
+
+/**
+ * Creates a Jiti instance for module loading.
+ *
+ * This instance is configured to handle ES modules and CommonJS modules
+ * seamlessly, allowing for dynamic imports of ESLint plugins.
+ */
+let jiti = createJiti(import.meta.url, {
+  interopDefault: true,
+  requireCache: false,
+})
+
+/**
+ * Expands the `plugins` section of the configuration into test specifications,
+ * one for every rule exported by each plugin. The generated specifications
+ * share the cases and benchmark settings of their plugin, and are named after
+ * the plugin and the rule (e.g., "my-plugin/no-foo").
+ *
+ * Plugins that cannot be loaded are skipped with a warning.
+ *
+ * @param plugins - Plugins from the user configuration.
+ * @param configDirectory - Directory used to resolve relative plugin paths.
+ * @returns A promise that resolves to the generated test specifications.
+ */
+export async function expandPluginTests(
+  plugins: (BaseBenchmarkSettings & Plugin)[],
+  configDirectory: string,
+): Promise<PluginTest[]> {
+  let pluginTests = await Promise.all(
+    plugins.map(async plugin => {
+      let { pluginPath, cases, name, ...settings } = plugin
+
+      try {
+        let ruleIds = await loadPluginRuleIds(jiti, {
+          configDirectory,
+          pluginPath,
+        })
+
+        return ruleIds.map(
+          (ruleId): PluginTest => ({
+            ...settings,
+            name: `${name}/${ruleId}`,
+            rulePath: pluginPath,
+            plugin: name,
+            ruleId,
+            cases,
+          }),
+        )
+      } catch (error) {
+        let errorValue = error as Error
+        console.warn(
+          `Skipping plugin "${name}" due to an error: ${errorValue.message}`,
+        )
+        return []
+      }
+    }),
+  )
+
+  return pluginTests.flat()
+}
@@ -0,0 +1,52 @@
+import type { Linter } from 'eslint'
+
+import path from 'node:path'
+
+/** Parameters for resolving the language options of a test specification. */
+interface ResolveLanguageOptionsParameters {
+  /** Language options from the test specification. */
+  languageOptions?: Linter.LanguageOptions
+
+  /** The path to the user configuration directory. */
+  configDirectory: string
+
+  /** Path to a tsconfig file, relative to the configuration directory. */
+  tsconfigPath?: string
+}
+
+/**
+ * Resolves the language options of a test specification. If `tsconfigPath` is
+ * set, it is turned into `parserOptions.project` and
+ * `parserOptions.tsconfigRootDir`, which take precedence over the same keys in
+ * `languageOptions`.
+ *
+ * @example
+ *   resolveLanguageOptions({
+ *     tsconfigPath: './tsconfig.json',
+ *     configDirectory: '/project',
+ *   })
+ *   // { parserOptions: { project: '/project/tsconfig.json', tsconfigRootDir: '/project' } }
+ *
+ * @param parameters - Parameters for resolving the language options.
+ * @returns The resolved language options, or undefined if there are none.
+ */
+export function resolveLanguageOptions(
+  parameters: ResolveLanguageOptionsParameters,
+): Linter.LanguageOptions | undefined {
+  let { languageOptions, configDirectory, tsconfigPath } = parameters
+
+  if (!tsconfigPath) {
+    return languageOptions
+  }
+
+  let project = path.resolve(configDirectory, tsconfigPath)
+
+  return {
+    ...languageOptions,
+    parserOptions: {
+      ...languageOptions?.parserOptions,
+      tsconfigRootDir: path.dirname(project),
+      project,
+    },
+  }
+}
@@ -1,3 +1,4 @@
+import { builtinRules } from 'eslint/use-at-your-own-risk'
 import fs from 'node:fs/promises'
 import path from 'node:path'
 
@@ -5,6 +6,29 @@ import type {
   BaseBenchmarkSettings,
   UserBenchmarkConfig,
 } from '../../types/user-benchmark-config'
+import type {
+  InlineCodeSample,
+  ScalingConfig,
+  Case,
+} from '../../types/test-case'
+import type { PrecisionConfig } from '../../types/benchmark-config'
+
+import { ISOLATION_MODES, SCALING_MODES, LANGUAGES } from '../../constants'
+import { isSupportedFile } from '../utilities/is-supported-file'
+import { getGlobBase } from '../utilities/get-glob-base'
+import { isGlob } from '../utilities/is-glob'
+
+/** Context shared by the validation of all cases. */
+interface CaseValidationContext {
+  /** Custom extensions from the user configuration. */
+  extensions: UserBenchmarkConfig['extensions']
+
+  /**
+   * The absolute path to the directory containing the configuration file. Used
+   * for resolving relative paths.
+   */
+  configDirectory: string
+}
 
 /**
  * Validates the user benchmark configuration according to the new structure,
@@ -13,15 +37,24 @@ import type {
  *
  * Checks for:
  *
- * - Presence of the `tests` array.
+ * - Presence of the `tests` or `plugins` array.
+ * - Keys, languages and parsers of the custom `extensions`.
  * - Validity of global and per-test `BaseBenchmarkSettings` (iterations, timeout,
- *   warmup).
- * - Required properties for each `testSpec` (`name`, `ruleId`, `rulePath`,
- *   `cases` array).
- * - Existence of `rulePath` file.
- * - Required properties for each `caseItem` within `testSpec.cases` (`testPath`).
- * - Existence of `testPath` files/directories.
- * - Correct types and values for `severity` and `options` within `caseItem`.
+ *   warmup, thresholds, isolation, profileVisitors, measureOverhead,
+ *   fullConfig, fix, precision).
+ * - Required properties for each `testSpec` (`name`, `ruleId`, `cases` array).
+ * - Existence of `rulePath` file, or of the core rule if `rulePath` is omitted.
+ * - Existence of `tsconfigPath` file, if provided.
+ * - Types of `languageOptions`, `settings`, `parser`, `processor` and `language`
+ *   of each `testSpec` and `caseItem`.
+ * - Required properties for each plugin (`name`, `pluginPath`, `cases` array) and
+ *   existence of the `pluginPath` file. Plugin cases cannot have `options`.
+ * - Required properties for each `caseItem` within `testSpec.cases` (`testPath`
+ *   or `code`), and filenames of inline `code` samples.
+ * - Existence of `testPath` files/directories, or of the directories of glob
+ *   patterns.
+ * - Correct types and values for `severity`, `options`, `ignore`, `maxFiles` and
+ *   `scaling` within `caseItem`.
  *
  * @param config - The user benchmark configuration object to validate.
  * @param configDirectory - The absolute path to the directory containing the
@@ -35,20 +68,32 @@ export async function validateConfig(
 ): Promise<string[]> {
   let errors: string[] = []
 
-  if (
-    !config.tests ||
-    !Array.isArray(config.tests) ||
-    config.tests.length === 0
-  ) {
+  if (config.tests !== undefined && !Array.isArray(config.tests)) {
+    errors.push('"tests" must be an array.')
+    return errors
+  }
+
+  if (config.plugins !== undefined && !Array.isArray(config.plugins)) {
+    errors.push('"plugins" must be an array.')
+    return errors
+  }
+
+  let tests = config.tests ?? []
+  let plugins = config.plugins ?? []
+
+  if (tests.length === 0 && plugins.length === 0) {
     errors.push(
-      'Configuration must include at least one test in the "tests" array.',
+      'Configuration must include at least one test in the "tests" array or one plugin in the "plugins" array.',
     )
     return errors
   }
 
-  errors.push(...validateBaseBenchmarkSettings(config))
+  errors.push(
+    ...validateBaseBenchmarkSettings(config),
+    ...validateExtensions(config.extensions),
+  )
 
-  let validationPromises = config.tests.map(async (testSpec, testIndex) => {
+  let validationPromises = tests.map(async (testSpec, testIndex) => {
     let testSpecErrors: string[] = []
     let testPrefix = `Test "${testSpec.name || `at index ${testIndex}`}"`
 
@@ -69,10 +114,34 @@ export async function validateConfig(
           `${testPrefix}: Rule file not found at "${testSpec.rulePath}".`,
         )
       }
-    } else {
-      testSpecErrors.push(`${testPrefix}: "rulePath" is required.`)
+    } else if (
+      testSpec.ruleId &&
+      !testSpec.ruleId.includes('/') &&
+      !builtinRules.has(testSpec.ruleId)
+    ) {
+      testSpecErrors.push(
+        `${testPrefix}: "${testSpec.ruleId}" is not a core ESLint rule, "rulePath" is required.`,
+      )
     }
 
+    if (testSpec.tsconfigPath !== undefined) {
+      if (typeof testSpec.tsconfigPath === 'string') {
+        try {
+          await fs.access(path.resolve(configDirectory, testSpec.tsconfigPath))
+        } catch {
+          testSpecErrors.push(
+            `${testPrefix}: tsconfig file not found at "${testSpec.tsconfigPath}".`,
+          )
+        }
+      } else {
+        testSpecErrors.push(`${testPrefix}: "tsconfigPath" must be a string.`)
+      }
+    }
+
+    testSpecErrors.push(
+      ...validateLintOptions(testSpec).map(error => `${testPrefix}: ${error}`),
+    )
+
     let baseSettingsErrors = validateBaseBenchmarkSettings(testSpec)
     if (baseSettingsErrors.length > 0) {
       testSpecErrors.push(
@@ -80,82 +149,188 @@ export async function validateConfig(
       )
     }
 
-    if (!Array.isArray(testSpec.cases) || testSpec.cases.length === 0) {
-      testSpecErrors.push(
-        `${testPrefix}: must include at least one case in the "cases" array.`,
-      )
-    } else {
-      let caseValidationPromises = testSpec.cases.map(
-        async (caseItem, caseIndex) => {
-          let caseErrors: string[] = []
-          let casePrefix = `${testPrefix}, Case ${caseIndex + 1}`
-
-          if (caseItem.testPath) {
-            let pathsToTest = Array.isArray(caseItem.testPath)
-              ? caseItem.testPath
-              : [caseItem.testPath]
-
-            if (pathsToTest.length === 0) {
-              caseErrors.push(
-                `${casePrefix}: "testPath" array cannot be empty.`,
-              )
-            }
-
-            let pathCheckPromises = pathsToTest.map(
-              async (pathToTest: string) => {
-                if (typeof pathToTest !== 'string') {
-                  return `${casePrefix}: each item in "testPath" must be a string.`
-                }
-                try {
-                  let testFilePath = path.resolve(configDirectory, pathToTest)
-                  await fs.access(testFilePath)
-                  return null
-                } catch {
-                  return `${casePrefix}: Test file/directory not found at "${pathToTest}".`
-                }
-              },
-            )
-            let pathErrors = (await Promise.all(pathCheckPromises)).filter(
-              Boolean,
-            ) as string[]
-            caseErrors.push(...pathErrors)
-          } else {
-            caseErrors.push(`${casePrefix}: "testPath" is required.`)
-          }
+    testSpecErrors.push(
+      ...(await validateCases(testSpec.cases, testPrefix, {
+        extensions: config.extensions,
+        configDirectory,
+      })),
+    )
 
-          if (
-            caseItem.severity !== undefined &&
-            (typeof caseItem.severity !== 'number' ||
-              ![0, 1, 2].includes(caseItem.severity))
-          ) {
-            caseErrors.push(`${casePrefix}: "severity" must be 0, 1, or 2.`)
-          }
+    return testSpecErrors
+  })
 
-          if (
-            caseItem.options !== undefined &&
-            !Array.isArray(caseItem.options)
-          ) {
-            caseErrors.push(`${casePrefix}: "options" must be an array.`)
-          }
-          return caseErrors
-        },
+  let pluginValidationPromises = plugins.map(async (plugin, pluginIndex) => {
+    let pluginErrors: string[] = []
+    let pluginPrefix = `Plugin "${plugin.name || `at index ${pluginIndex}`}"`
+
+    if (!plugin.name) {
+      pluginErrors.push(`Plugin at index ${pluginIndex}: "name" is required.`)
+    }
+
+    if (plugin.pluginPath) {
+      try {
+        let pluginPath = path.resolve(configDirectory, plugin.pluginPath)
+        await fs.access(pluginPath)
+      } catch {
+        pluginErrors.push(
+          `${pluginPrefix}: Plugin file not found at "${plugin.pluginPath}".`,
+        )
+      }
+    } else {
+      pluginErrors.push(`${pluginPrefix}: "pluginPath" is required.`)
+    }
+
+    let baseSettingsErrors = validateBaseBenchmarkSettings(plugin)
+    if (baseSettingsErrors.length > 0) {
+      pluginErrors.push(
+        ...baseSettingsErrors.map(error => `${pluginPrefix}: ${error}`),
       )
-      let allCaseErrors = await Promise.all(caseValidationPromises)
-      testSpecErrors.push(...allCaseErrors.flat())
     }
 
-    return testSpecErrors
+    pluginErrors.push(
+      ...(await validateCases(plugin.cases, pluginPrefix, {
+        extensions: config.extensions,
+        configDirectory,
+      })),
+    )
+
+    if (Array.isArray(plugin.cases)) {
+      for (let [caseIndex, caseItem] of plugin.cases.entries()) {
+        if ('options' in caseItem) {
+          pluginErrors.push(
+            `${pluginPrefix}, Case ${caseIndex + 1}: "options" is not supported for plugins.`,
+          )
+        }
+      }
+    }
+
+    return pluginErrors
   })
 
   let allTestErrors = await Promise.all(validationPromises)
+  let allPluginErrors = await Promise.all(pluginValidationPromises)
 
-  errors.push(...allTestErrors.flat())
+  errors.push(...allTestErrors.flat(), ...allPluginErrors.flat())
 
   return errors
 }
 
 /**
- * Validates BaseBenchmarkSettings (iterations, timeout, warmup).
+ * Validates the cases of a test specification or plugin: the `testPath` of each
+ * case must exist, inline `code` must have supported filenames, and `severity`,
+ * `options`, `ignore`, `maxFiles` and `scaling` must have correct types.
+ *
+ * @param cases - The cases to validate.
+ * @param prefix - Prefix of the error messages that identifies the test
+ *   specification or plugin.
+ * @param context - The configuration directory and custom extensions.
+ * @returns A promise that resolves to an array of validation error messages.
+ */
+async function validateCases(
+  cases: Partial<Case>[] | undefined,
+  prefix: string,
+  context: CaseValidationContext,
+): Promise<string[]> {
+  let { configDirectory, extensions } = context
+  if (!Array.isArray(cases) || cases.length === 0) {
+    return [`${prefix}: must include at least one case in the "cases" array.`]
+  }
+
+  let caseValidationPromises = cases.map(async (caseItem, caseIndex) => {
+    let caseErrors: string[] = []
+    let casePrefix = `${prefix}, Case ${caseIndex + 1}`
+
+    if (caseItem.testPath) {
+      let pathsToTest = Array.isArray(caseItem.testPath)
+        ? caseItem.testPath
+        : [caseItem.testPath]
+
+      if (pathsToTest.length === 0) {
+        caseErrors.push(`${casePrefix}: "testPath" array cannot be empty.`)
+      }
+
+      let pathCheckPromises = pathsToTest.map(async (pathToTest: string) => {
+        if (typeof pathToTest !== 'string') {
+          return `${casePrefix}: each item in "testPath" must be a string.`
+        }
+        try {
+          let testFilePath = path.resolve(configDirectory, pathToTest)
+          await fs.access(testFilePath)
+          return null
+        } catch {
+          if (isGlob(pathToTest)) {
+            return validateGlobBase(pathToTest, casePrefix, configDirectory)
+          }
+          return `${casePrefix}: Test file/directory not found at "${pathToTest}".`
+        }
+      })
+      let pathErrors = (await Promise.all(pathCheckPromises)).filter(
+        Boolean,
+      ) as string[]
+      caseErrors.push(...pathErrors)
+    } else if (caseItem.code === undefined) {
+      caseErrors.push(`${casePrefix}: "testPath" or "code" is required.`)
+    }
+
+    if (caseItem.code !== undefined) {
+      caseErrors.push(
+        ...validateInlineCode(caseItem.code, extensions).map(
+          error => `${casePrefix}: ${error}`,
+        ),
+      )
+    }
+
+    if (
+      caseItem.severity !== undefined &&
+      (typeof caseItem.severity !== 'number' ||
+        ![0, 1, 2].includes(caseItem.severity))
+    ) {
+      caseErrors.push(`${casePrefix}: "severity" must be 0, 1, or 2.`)
+    }
+
+    if (caseItem.options !== undefined && !Array.isArray(caseItem.options)) {
+      caseErrors.push(`${casePrefix}: "options" must be an array.`)
+    }
+
+    if (
+      caseItem.ignore !== undefined &&
+      typeof caseItem.ignore !== 'string' &&
+      (!Array.isArray(caseItem.ignore) ||
+        caseItem.ignore.some(pattern => typeof pattern !== 'string'))
+    ) {
+      caseErrors.push(
+        `${casePrefix}: "ignore" must be a string or an array of strings.`,
+      )
+    }
+
+    if (
+      caseItem.maxFiles !== undefined &&
+      (!Number.isInteger(caseItem.maxFiles) || caseItem.maxFiles <= 0)
+    ) {
+      caseErrors.push(`${casePrefix}: "maxFiles" must be a positive integer.`)
+    }
+
+    if (caseItem.scaling !== undefined) {
+      caseErrors.push(
+        ...validateScaling(caseItem.scaling).map(
+          error => `${casePrefix}: ${error}`,
+        ),
+      )
+    }
+
+    caseErrors.push(
+      ...validateLintOptions(caseItem).map(error => `${casePrefix}: ${error}`),
+    )
+    return caseErrors
+  })
+
+  let allCaseErrors = await Promise.all(caseValidationPromises)
+  return allCaseErrors.flat()
+}
+
+/**
+ * Validates BaseBenchmarkSettings (iterations, timeout, warmup, thresholds,
+ * isolation, profileVisitors, measureOverhead, fullConfig, fix, precision).
  *
  * @param [settings] - The settings object to validate. Defaults to an empty
  *   object if not provided.
@@ -199,5 +374,301 @@ function validateBaseBenchmarkSettings(
       errors.push(`"warmup" must be an object`)
     }
   }
+
+  if (settings.thresholds !== undefined) {
+    if (
+      typeof settings.thresholds === 'object' &&
+      (settings.thresholds as unknown) !== null &&
+      !Array.isArray(settings.thresholds)
+    ) {
+      let { maxRegressionPercent, maxMeanMs } = settings.thresholds
+      if (
+        maxRegressionPercent !== undefined &&
+        (typeof maxRegressionPercent !== 'number' ||
+          Number.isNaN(maxRegressionPercent) ||
+          maxRegressionPercent < 0)
+      ) {
+        errors.push(
+          `"thresholds.maxRegressionPercent" must be a non-negative number`,
+        )
+      }
+      if (
+        maxMeanMs !== undefined &&
+        (typeof maxMeanMs !== 'number' ||
+          Number.isNaN(maxMeanMs) ||
+          maxMeanMs <= 0)
+      ) {
+        errors.push(`"thresholds.maxMeanMs" must be a positive number`)
+      }
+    } else {
+      errors.push(`"thresholds" must be an object`)
+    }
+  }
+
+  if (
+    settings.isolation !== undefined &&
+    !(ISOLATION_MODES as readonly string[]).includes(settings.isolation)
+  ) {
+    errors.push(`"isolation" must be one of: ${ISOLATION_MODES.join(', ')}`)
+  }
+
+  if (
+    settings.profileVisitors !== undefined &&
+    typeof settings.profileVisitors !== 'boolean'
+  ) {
+    errors.push(`"profileVisitors" must be a boolean`)
+  }
+
+  if (
+    settings.measureOverhead !== undefined &&
+    typeof settings.measureOverhead !== 'boolean'
+  ) {
+    errors.push(`"measureOverhead" must be a boolean`)
+  }
+
+  if (
+    settings.fullConfig !== undefined &&
+    typeof settings.fullConfig !== 'boolean'
+  ) {
+    errors.push(`"fullConfig" must be a boolean`)
+  }
+
+  if (
+    settings.fix !== undefined &&
+    typeof settings.fix !== 'boolean' &&
+    (settings.fix as unknown) !== 'both'
+  ) {
+    errors.push(`"fix" must be a boolean or "both"`)
+  }
+  if (settings.precision !== undefined) {
+    errors.push(...validatePrecision(settings.precision))
+  }
+  return errors
+}
+
+/**
+ * Validates the custom extensions: every key must be an extension with a
+ * leading dot, mapped to a supported language and an optional parser.
+ *
+ * @param extensions - The custom extensions to validate.
+ * @returns An array of validation error messages.
+ */
+function validateExtensions(
+  extensions: UserBenchmarkConfig['extensions'],
+): string[] {
+  if (extensions === undefined) {
+    return []
+  }
+
+  if (typeof extensions !== 'object' || Array.isArray(extensions)) {
+    return ['"extensions" must be an object.']
+  }
+
+  let errors: string[] = []
+
+  for (let [extension, mapping] of Object.entries(extensions)) {
+    let prefix = `Extension "${extension}"`
+
+    if (!/^\.[^./]+$/u.test(extension)) {
+      errors.push(`${prefix}: must start with a dot, e.g. ".gts".`)
+    }
+
+    if (
+      typeof mapping !== 'object' ||
+      (mapping as unknown) === null ||
+      Array.isArray(mapping)
+    ) {
+      errors.push(`${prefix}: must be an object.`)
+      continue
+    }
+
+    if (!(LANGUAGES as readonly string[]).includes(mapping.language)) {
+      errors.push(
+        `${prefix}: "language" must be one of: ${LANGUAGES.join(', ')}.`,
+      )
+    }
+
+    if (
+      mapping.parser !== undefined &&
+      (typeof mapping.parser !== 'string' || !mapping.parser)
+    ) {
+      errors.push(`${prefix}: "parser" must be a non-empty string.`)
+    }
+  }
+
+  return errors
+}
+
+/**
+ * Validates the options of a test specification or case that are added to the
+ * generated ESLint config: `languageOptions` and `settings` must be objects,
+ * `parser`, `processor` and `language` must be strings, and IDs of processors
+ * and languages must be prefixed with the plugin name.
+ *
+ * @param options - The test specification or case to validate.
+ * @returns An array of validation error messages.
+ */
+function validateLintOptions(options: Partial<Case>): string[] {
+  let errors: string[] = []
+
+  for (let key of ['languageOptions', 'settings'] as const) {
+    let value = options[key]
+    if (
+      value !== undefined &&
+      (typeof value !== 'object' ||
+        (value as unknown) === null ||
+        Array.isArray(value))
+    ) {
+      errors.push(`"${key}" must be an object.`)
+    }
+  }
+
+  for (let key of ['parser', 'processor', 'language'] as const) {
+    let value = options[key]
+    if (value !== undefined && (typeof value !== 'string' || !value)) {
+      errors.push(`"${key}" must be a non-empty string.`)
+    }
+  }
+
+  let examples = { processor: 'markdown/markdown', language: 'markdown/gfm' }
+  for (let [key, example] of Object.entries(examples)) {
+    let value = options[key as keyof typeof examples]
+    if (typeof value === 'string' && value && !value.includes('/')) {
+      errors.push(
+        `"${key}" must be prefixed with the plugin name (e.g. "${example}").`,
+      )
+    }
+  }
+
+  return errors
+}
+
+/**
+ * Validates the inline code of a case: a non-empty string, or an array of
+ * samples with a `filename` of a supported extension and non-empty `code`.
+ *
+ * @param code - The `code` of the case.
+ * @param extensions - Custom extensions from the user configuration, which are
+ *   supported in addition to the built-in ones.
+ * @returns An array of validation error messages.
+ */
+function validateInlineCode(
+  code: unknown,
+  extensions: UserBenchmarkConfig['extensions'],
+): string[] {
+  if (typeof code === 'string') {
+    return code ? [] : ['"code" must not be empty.']
+  }
+  if (!Array.isArray(code) || code.length === 0) {
+    return ['"code" must be a string or a non-empty array of samples.']
+  }
+
+  let errors: string[] = []
+  for (let [index, sample] of (code as Partial<InlineCodeSample>[]).entries()) {
+    let prefix = `Inline sample ${index + 1}`
+    if (typeof sample.filename !== 'string' || !sample.filename) {
+      errors.push(`${prefix}: "filename" must be a non-empty string.`)
+    } else if (!isSupportedFile(sample.filename, extensions)) {
+      errors.push(
+        `${prefix}: "${sample.filename}" has an unsupported extension.`,
+      )
+    }
+    if (typeof sample.code !== 'string' || !sample.code) {
+      errors.push(`${prefix}: "code" must be a non-empty string.`)
+    }
+  }
   return errors
 }
+
+/**
+ * Validates the scaling analysis settings of a case: a boolean, or an object
+ * with one of the scaling modes and at least three distinct positive integer
+ * sizes to fit complexity models to.
+ *
+ * @param scaling - The `scaling` of the case.
+ * @returns An array of validation error messages.
+ */
+function validateScaling(scaling: unknown): string[] {
+  if (typeof scaling === 'boolean') {
+    return []
+  }
+  if (typeof scaling !== 'object' || scaling === null) {
+    return ['"scaling" must be a boolean or an object.']
+  }
+
+  let errors: string[] = []
+  let { sizes, mode } = scaling as Partial<ScalingConfig>
+  if (
+    mode !== undefined &&
+    !(SCALING_MODES as readonly string[]).includes(mode)
+  ) {
+    errors.push(`"scaling.mode" must be one of: ${SCALING_MODES.join(', ')}.`)
+  }
+  if (
+    sizes !== undefined &&
+    (!Array.isArray(sizes) ||
+      sizes.some(size => !Number.isInteger(size) || size <= 0) ||
+      new Set(sizes).size < 3)
+  ) {
+    errors.push(
+      '"scaling.sizes" must be an array of at least 3 distinct positive integers.',
+    )
+  }
+  return errors
+}
+
+/**
+ * Validates the settings of sampling until a target precision: an object with a
+ * relative margin of error between 0 and 1 and an optional positive time
+ * limit.
+ *
+ * @param precision - The `precision` of the benchmark settings.
+ * @returns An array of validation error messages.
+ */
+function validatePrecision(precision: unknown): string[] {
+  if (typeof precision !== 'object' || precision === null) {
+    return ['"precision" must be an object']
+  }
+
+  let errors: string[] = []
+  let { targetRme, maxTime } = precision as Partial<PrecisionConfig>
+  if (
+    typeof targetRme !== 'number' ||
+    Number.isNaN(targetRme) ||
+    targetRme <= 0 ||
+    targetRme >= 1
+  ) {
+    errors.push(`"precision.targetRme" must be a number between 0 and 1`)
+  }
+  if (
+    maxTime !== undefined &&
+    (typeof maxTime !== 'number' || Number.isNaN(maxTime) || maxTime <= 0)
+  ) {
+    errors.push(`"precision.maxTime" must be a positive number`)
+  }
+  return errors
+}
+
+/**
+ * Checks that the directory a glob `testPath` is searched in exists.
+ *
+ * @param pattern - The `testPath` with glob syntax.
+ * @param casePrefix - Prefix of the error message that identifies the case.
+ * @param configDirectory - The absolute path to the directory containing the
+ *   configuration file. Used for resolving relative paths.
+ * @returns A promise that resolves to an error message, or null if the
+ *   directory exists.
+ */
+async function validateGlobBase(
+  pattern: string,
+  casePrefix: string,
+  configDirectory: string,
+): Promise<string | null> {
+  let base = getGlobBase(pattern)
+  try {
+    await fs.access(path.resolve(configDirectory, base))
+    return null
+  } catch {
+    return `${casePrefix}: Directory "${base}" of the glob "${pattern}" not found.`
+  }
+}
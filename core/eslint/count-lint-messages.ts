@@ -0,0 +1,48 @@
+import type { ESLint } from 'eslint'
+
+import type { LintMessageCounts } from '../../types/lint-message-counts'
+
+/**
+ * Counts the problems a rule reported in the results of a lint. Fatal messages
+ * and messages of other rules are skipped.
+ *
+ * @param results - Lint results returned by `ESLint#lintText`.
+ * @param ruleId - ID of the rule within the ESLint instance.
+ * @returns Number of errors, warnings, fixable problems and problems with
+ *   suggestions.
+ */
+export function countLintMessages(
+  results: ESLint.LintResult[],
+  ruleId: string,
+): LintMessageCounts {
+  let counts: LintMessageCounts = {
+    suggestions: 0,
+    warnings: 0,
+    fixable: 0,
+    errors: 0,
+  }
+
+  for (let result of results) {
+    for (let message of result.messages) {
+      if (message.ruleId !== ruleId) {
+        continue
+      }
+
+      if (message.severity === 2) {
+        counts.errors++
+      } else {
+        counts.warnings++
+      }
+
+      if (message.fix) {
+        counts.fixable++
+      }
+
+      if (message.suggestions && message.suggestions.length > 0) {
+        counts.suggestions++
+      }
+    }
+  }
+
+  return counts
+}
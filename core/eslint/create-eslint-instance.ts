@@ -3,16 +3,51 @@ import type { ESLint, Linter, Rule } from 'eslint'
 import { loadESLint } from 'eslint'
 import { createJiti } from 'jiti'
 
+import type { VisitorProfiler } from '../profiling/create-visitor-profiler'
+import type { ExtensionMapping } from '../../types/user-benchmark-config'
+import type { PassCounter } from './create-pass-counter'
 import type { RuleConfig } from '../../types/test-case'
 import type { LANGUAGES } from '../../constants'
 
-import { loadLanguageParser } from './load-language-parser'
+import {
+  BENCHMARK_PLUGIN_NAMESPACE,
+  SUPPORTED_EXTENSIONS,
+} from '../../constants'
+import { createExtensionConfig } from './create-extension-config'
+import { mergeLanguageOptions } from './merge-language-options'
+import { createLanguageConfig } from './create-language-config'
+import { parsePluginReference } from './parse-plugin-reference'
+import { getBenchmarkRuleId } from './get-benchmark-rule-id'
+import { loadLanguagePlugin } from './load-language-plugin'
 import { loadRuleFromFile } from './load-rule-from-file'
-import { SUPPORTED_EXTENSIONS } from '../../constants'
+import { loadRuleById } from './load-rule-by-id'
+import { loadProcessor } from './load-processor'
+import { loadParser } from './load-parser'
 import { toSeverity } from './to-severity'
 
 /** Options for creating an ESLint instance. */
 interface CreateESLintInstanceOptions {
+  /**
+   * Optional custom extensions from the user configuration. Files with these
+   * extensions are linted with the parser of their mapping.
+   */
+  extensions?: Record<string, ExtensionMapping>
+
+  /**
+   * Optional language options merged over the ones derived from the languages,
+   * e.g. `parserOptions.project` for type-aware rules.
+   */
+  languageOptions?: Linter.LanguageOptions
+
+  /** Optional shared settings available to the rule as `context.settings`. */
+  settings?: Record<string, unknown>
+
+  /** Optional profiler that times the listeners of the rule. */
+  visitorProfiler?: VisitorProfiler
+
+  /** Optional counter of the passes ESLint needs to fix a sample. */
+  passCounter?: PassCounter
+
   /** Optional path to custom ESLint config file. */
   eslintConfigFile?: string
 
@@ -22,8 +57,35 @@ interface CreateESLintInstanceOptions {
   /** Languages to be tested. */
   languages: Language[]
 
+  /**
+   * Whether to keep all rules of the ESLint config enabled instead of running
+   * the benchmarked rule alone.
+   */
+  fullConfig?: boolean
+
+  /** Optional ID of a processor provided by a plugin package. */
+  processor?: string
+
+  /**
+   * Optional ID of an ESLint language provided by a plugin package. Replaces
+   * the languages derived from the file extensions.
+   */
+  language?: string
+
   /** The rule to be tested. */
   rule: RuleConfig
+
+  /**
+   * Optional path to a parser module or name of a parser package. Replaces the
+   * parser derived from the languages.
+   */
+  parser?: string
+
+  /**
+   * Whether to apply the fixes of the rule, which makes ESLint lint the code
+   * again until no fixes are left. Defaults to true.
+   */
+  fix?: boolean
 }
 
 type Language = (typeof LANGUAGES)[number]
@@ -42,111 +104,198 @@ let jiti = createJiti(import.meta.url, {
 /**
  * Creates an ESLint instance configured to test a specific rule.
  *
+ * By default, all other rules of the ESLint config are filtered out. With
+ * `fullConfig`, they stay enabled, and only the rule under its original ID is
+ * filtered out, so it does not run twice if the config enables it as well.
+ * Ignore patterns of the config are disabled, because code samples are chosen
+ * explicitly.
+ *
+ * Every language gets its own config block that applies its parser only to the
+ * files with its extensions, so test cases can mix languages. Custom extensions
+ * get blocks of their own after these, based on their mapped language. Language
+ * options, settings, a parser, a processor and an ESLint language of the test
+ * case are added after these blocks and take precedence over them and over the
+ * ESLint config.
+ *
+ * Fixes are applied unless `fix` is false, so the measurements include the
+ * fixers of the rule and the additional passes ESLint makes over fixed code.
+ *
  * @param instanceOptions - Options for creating the ESLint instance.
  * @returns Promise resolving to configured ESLint instance.
  */
 export async function createESLintInstance(
   instanceOptions: CreateESLintInstanceOptions,
 ): Promise<ESLint> {
-  let { eslintConfigFile, configDirectory, languages, rule } = instanceOptions
+  let {
+    language: customLanguage,
+    parser: customParser,
+    eslintConfigFile,
+    visitorProfiler,
+    languageOptions,
+    configDirectory,
+    passCounter,
+    extensions,
+    fullConfig,
+    fix = true,
+    processor,
+    languages,
+    settings,
+    rule,
+  } = instanceOptions
 
   let { path: rulePath, severity, options, ruleId } = rule
 
-  let ruleModule: Rule.RuleModule | undefined
-
-  if (rulePath) {
-    let loadResult = await loadRuleFromFile(jiti, {
-      configDirectory,
-      rulePath,
-      ruleId,
-    })
-    if (loadResult.error) {
-      throw new Error(`Failed to load rule: ${loadResult.error}`)
-    }
-    ruleModule = loadResult.rule as Rule.RuleModule
+  let loadResult = rulePath
+    ? await loadRuleFromFile(jiti, {
+        configDirectory,
+        rulePath,
+        ruleId,
+      })
+    : await loadRuleById(jiti, {
+        configDirectory,
+        ruleId,
+      })
+  if (loadResult.error) {
+    throw new Error(`Failed to load rule: ${loadResult.error}`)
   }
 
-  if (rulePath && !ruleModule) {
+  let ruleModule = loadResult.rule as Rule.RuleModule | undefined
+
+  if (!ruleModule) {
     throw new Error(`Rule module not found: ${ruleId}`)
   }
 
-  let uniqueNamespace = 'eslint-rule-benchmark'
+  if (visitorProfiler) {
+    ruleModule = visitorProfiler.wrapRule(ruleModule)
+  }
+
+  if (passCounter) {
+    ruleModule = passCounter.wrapRule(ruleModule)
+  }
 
-  let localName = ruleId.includes('/') ? ruleId.split('/')[1]! : ruleId
+  let localName = parsePluginReference(ruleId)?.name ?? ruleId
 
   let severityString = toSeverity(severity)
   let ruleEntry: Linter.RuleEntry = options
     ? [severityString, ...options]
     : severityString
 
-  let uniqueRuleId = `${uniqueNamespace}/${localName}`
+  let uniqueRuleId = getBenchmarkRuleId(ruleId)
 
-  let plugins = ruleModule
-    ? {
-        [uniqueNamespace]: {
-          rules: {
-            [localName]: ruleModule,
-          },
-        },
-      }
-    : undefined
+  let plugins = {
+    [BENCHMARK_PLUGIN_NAMESPACE]: {
+      rules: {
+        [localName]: ruleModule,
+      },
+    },
+  }
 
   let additionalOptions: Partial<Linter.Config> = {}
 
-  let parserResults = await Promise.all(
-    languages.map(language => loadLanguageParser(jiti, language)),
+  let languageConfigs = await Promise.all(
+    languages.map(language =>
+      createLanguageConfig(jiti, { configDirectory, language }),
+    ),
   )
-  let loadedParsers = parserResults
-    .filter(result => !result.error && result.parser)
-    .map(result => result.parser!)
-
-  if (loadedParsers.length > 0) {
-    let [parser] = loadedParsers
-    additionalOptions.languageOptions = {
-      parser,
+
+  let extensionConfigs = await Promise.all(
+    Object.entries(extensions ?? {})
+      .filter(([, mapping]) => languages.includes(mapping.language))
+      .map(([extension, mapping]) =>
+        createExtensionConfig(jiti, { configDirectory, extension, mapping }),
+      ),
+  )
+
+  let overrideLanguageOptions: Linter.LanguageOptions | undefined
+
+  if (customParser) {
+    let parserResult = await loadParser(jiti, {
+      parser: customParser,
+      configDirectory,
+    })
+    if (parserResult.error) {
+      throw new Error(parserResult.error)
+    }
+    overrideLanguageOptions = {
+      parser: parserResult.parser,
     }
   }
 
-  if (
-    languages.includes('javascript-react') ||
-    languages.includes('typescript-react')
-  ) {
-    if (additionalOptions.languageOptions) {
-      additionalOptions.languageOptions.parserOptions = {
-        ...additionalOptions.languageOptions.parserOptions,
-        ecmaFeatures: {
-          jsx: true,
-        },
-      }
-    } else {
-      additionalOptions.languageOptions = {
-        parserOptions: {
-          ecmaFeatures: {
-            jsx: true,
-          },
-        },
-      }
+  if (languageOptions) {
+    overrideLanguageOptions = mergeLanguageOptions(
+      overrideLanguageOptions,
+      languageOptions,
+    )
+  }
+
+  if (processor) {
+    let processorResult = await loadProcessor(jiti, {
+      configDirectory,
+      processor,
+    })
+    if (processorResult.error) {
+      throw new Error(processorResult.error)
     }
+    additionalOptions.processor = processorResult.processor
+  }
+
+  if (settings) {
+    additionalOptions.settings = settings
   }
 
+  let files = [
+    ...SUPPORTED_EXTENSIONS.map(extension => `**/*.${extension}`),
+    ...Object.keys(extensions ?? {}).map(extension => `**/*${extension}`),
+  ]
+
   let flatConfig: Linter.Config = {
-    files: SUPPORTED_EXTENSIONS.map(extension => `**/*.${extension}`),
     rules: {
       [uniqueRuleId]: ruleEntry,
     },
     plugins,
+    files,
     ...additionalOptions,
   }
 
+  let overrideConfig: Linter.Config[] = [
+    flatConfig,
+    ...languageConfigs,
+    ...extensionConfigs,
+  ]
+
+  if (customLanguage) {
+    let languageResult = await loadLanguagePlugin(jiti, {
+      language: customLanguage,
+      configDirectory,
+    })
+    if (languageResult.error) {
+      throw new Error(languageResult.error)
+    }
+    overrideConfig.push({
+      plugins: { [languageResult.namespace!]: languageResult.plugin! },
+      language: customLanguage,
+      files,
+    })
+  }
+
+  if (overrideLanguageOptions) {
+    overrideConfig.push({
+      languageOptions: overrideLanguageOptions,
+      files,
+    })
+  }
+
   let FlatESLint = await loadESLint({
     useFlatConfig: true,
   })
 
   return new FlatESLint({
-    ruleFilter: ({ ruleId: currentRuleId }) => currentRuleId === uniqueRuleId,
+    ruleFilter: ({ ruleId: currentRuleId }) =>
+      fullConfig ? currentRuleId !== ruleId : currentRuleId === uniqueRuleId,
     overrideConfigFile: eslintConfigFile ?? null,
-    overrideConfig: [flatConfig],
     allowInlineConfig: false,
-    fix: true,
+    overrideConfig,
+    ignore: false,
+    fix,
   })
 }
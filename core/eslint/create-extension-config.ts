@@ -0,0 +1,64 @@
+import type { Linter } from 'eslint'
+import type { Jiti } from 'jiti'
+
+import type { ExtensionMapping } from '../../types/user-benchmark-config'
+
+import { createLanguageConfig } from './create-language-config'
+import { loadParser } from './load-parser'
+
+interface CreateExtensionConfigOptions {
+  /** Language and parser of the files with this extension. */
+  mapping: ExtensionMapping
+
+  /**
+   * The path to the user configuration directory. The parser is resolved from
+   * it.
+   */
+  configDirectory: string
+
+  /** Custom extension with the leading dot, e.g. ".gts". */
+  extension: string
+}
+
+/**
+ * Creates a flat config block for the files with a custom extension. The block
+ * is based on the config block of the mapped language, with its parser replaced
+ * by the parser of the mapping, if one is set.
+ *
+ * @param jiti - Jiti instance for dynamic imports.
+ * @param options - Options for creating the config block.
+ * @returns Promise resolving to the config block of the extension.
+ * @throws {Error} If the parser of the mapping or the required plugin or parser
+ *   of the mapped language cannot be loaded.
+ */
+export async function createExtensionConfig(
+  jiti: Jiti,
+  options: CreateExtensionConfigOptions,
+): Promise<Linter.Config> {
+  let { configDirectory, extension, mapping } = options
+
+  let languageConfig = await createLanguageConfig(jiti, {
+    language: mapping.language,
+    configDirectory,
+  })
+  let config: Linter.Config = {
+    ...languageConfig,
+    files: [`**/*${extension}`],
+  }
+
+  if (mapping.parser) {
+    let parserResult = await loadParser(jiti, {
+      parser: mapping.parser,
+      configDirectory,
+    })
+    if (parserResult.error) {
+      throw new Error(parserResult.error)
+    }
+    config.languageOptions = {
+      ...config.languageOptions,
+      parser: parserResult.parser,
+    }
+  }
+
+  return config
+}
@@ -0,0 +1,130 @@
+import type { Linter } from 'eslint'
+import type { Jiti } from 'jiti'
+
+import type { LANGUAGES } from '../../constants'
+
+import { getExtensionsByLanguage } from '../utilities/get-extensions-by-language'
+import { loadLanguageParser } from './load-language-parser'
+import { loadLanguagePlugin } from './load-language-plugin'
+
+type Language = (typeof LANGUAGES)[number]
+
+/**
+ * Languages whose parser handles the template itself and delegates the embedded
+ * scripts to another parser via `parserOptions.parser`.
+ */
+const TEMPLATE_LANGUAGES = new Set<Language>(['svelte', 'astro', 'vue'])
+
+/** IDs of the ESLint languages that handle languages other than JavaScript. */
+const ESLINT_LANGUAGE_IDS: Partial<Record<Language, string>> = {
+  markdown: 'markdown/commonmark',
+  jsonc: 'json/jsonc',
+  json5: 'json/json5',
+  json: 'json/json',
+  css: 'css/css',
+}
+
+/**
+ * Languages whose parser is required, because ESLint cannot parse them as
+ * JavaScript.
+ */
+const REQUIRED_PARSER_LANGUAGES = new Set<Language>(['yaml'])
+
+/** Languages that need JSX support. */
+const JSX_LANGUAGES = new Set<Language>([
+  'javascript-react',
+  'typescript-react',
+])
+
+interface CreateLanguageConfigOptions {
+  /**
+   * The path to the user configuration directory. Parsers and plugins are
+   * resolved from it.
+   */
+  configDirectory: string
+
+  /** The language to create the config block for. */
+  language: Language
+}
+
+/**
+ * Creates a flat config block that applies the parser of a language to the
+ * files with the extensions of this language. JSX is enabled for React
+ * languages, and template languages (Vue, Svelte, Astro) delegate their scripts
+ * to the TypeScript parser, so `<script lang="ts">` blocks can be parsed. JSON,
+ * Markdown and CSS use the languages of the official ESLint plugins instead of
+ * a parser. Parsers of JavaScript, TypeScript and template languages that fail
+ * to load are left out, so ESLint falls back to its defaults. The plugins of
+ * JSON, Markdown and CSS and the YAML parser are required, since linting these
+ * files as JavaScript would only measure parsing errors.
+ *
+ * @param jiti - Jiti instance for dynamic imports.
+ * @param options - Options for creating the config block.
+ * @returns Promise resolving to the config block of the language.
+ * @throws {Error} If the plugin or the required parser of the language cannot
+ *   be loaded.
+ */
+export async function createLanguageConfig(
+  jiti: Jiti,
+  options: CreateLanguageConfigOptions,
+): Promise<Linter.Config> {
+  let { configDirectory, language } = options
+
+  let files = getExtensionsByLanguage(language).map(
+    extension => `**/*.${extension}`,
+  )
+
+  let languageId = ESLINT_LANGUAGE_IDS[language]
+  if (languageId) {
+    let { namespace, plugin, error } = await loadLanguagePlugin(jiti, {
+      language: languageId,
+      configDirectory,
+    })
+    if (error) {
+      throw new Error(`${error}. Install it to lint ${language} samples`)
+    }
+    return { plugins: { [namespace!]: plugin! }, language: languageId, files }
+  }
+
+  let languageOptions: Linter.LanguageOptions = {}
+
+  let { parser, error } = await loadLanguageParser(
+    jiti,
+    language,
+    configDirectory,
+  )
+  if (error && REQUIRED_PARSER_LANGUAGES.has(language)) {
+    throw new Error(
+      `Failed to load the ${language} parser: ${error}. Install it to lint ${language} samples`,
+    )
+  }
+  if (parser) {
+    languageOptions.parser = parser
+  }
+
+  if (JSX_LANGUAGES.has(language)) {
+    languageOptions.parserOptions = {
+      ecmaFeatures: {
+        jsx: true,
+      },
+    }
+  }
+
+  if (TEMPLATE_LANGUAGES.has(language)) {
+    let { parser: scriptParser } = await loadLanguageParser(
+      jiti,
+      'typescript',
+      configDirectory,
+    )
+    if (scriptParser) {
+      languageOptions.parserOptions = {
+        parser: scriptParser,
+      }
+    }
+  }
+
+  return {
+    languageOptions,
+    files,
+  }
+}
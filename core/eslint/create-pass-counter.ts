@@ -0,0 +1,62 @@
+import type { Rule } from 'eslint'
+
+/** Counts how often ESLint runs a rule within a lint call. */
+export interface PassCounter {
+  /**
+   * Runs a callback while counting the passes of the wrapped rule.
+   *
+   * @param callback - Lints a code sample.
+   * @returns A promise that resolves to the number of passes.
+   */
+  count(callback: () => Promise<unknown>): Promise<number>
+
+  /**
+   * Wraps a rule so that every call of its `create` function is counted.
+   *
+   * @param rule - The rule module to wrap.
+   * @returns A rule module that behaves like the original one.
+   */
+  wrapRule(rule: Rule.RuleModule): Rule.RuleModule
+}
+
+/**
+ * Creates a counter of the passes ESLint needs to fix a code sample.
+ *
+ * With fixes enabled, ESLint lints the code again after applying fixes, until
+ * no more fixes are left or the limit of 10 passes is reached. The rule is
+ * created once per pass, so counting the calls of its `create` function gives
+ * the number of passes. Code blocks extracted by a processor are linted
+ * separately and count as passes of their own.
+ *
+ * @example
+ *   const passCounter = createPassCounter()
+ *   const rule = passCounter.wrapRule(ruleModule)
+ *   const passes = await passCounter.count(() => eslint.lintText(code))
+ *
+ * @returns A pass counter.
+ */
+export function createPassCounter(): PassCounter {
+  let passes: number | null = null
+
+  return {
+    wrapRule: rule => ({
+      ...rule,
+      create: context => {
+        if (passes !== null) {
+          passes++
+        }
+        return rule.create(context)
+      },
+      meta: rule.meta,
+    }),
+    count: async callback => {
+      passes = 0
+      try {
+        await callback()
+        return passes
+      } finally {
+        passes = null
+      }
+    },
+  }
+}
@@ -0,0 +1,47 @@
+import type { Linter } from 'eslint'
+
+/**
+ * Extracts a parser from the imported module.
+ *
+ * This function handles different module export formats:
+ *
+ * 1. Direct parser export
+ * 2. Default export that could be the parser.
+ *
+ * @param moduleExport - The imported module.
+ * @returns The parser if found, undefined otherwise.
+ */
+export function extractParser(
+  moduleExport: unknown,
+): Linter.Parser | undefined {
+  if (
+    moduleExport &&
+    typeof moduleExport === 'object' &&
+    (('parse' in moduleExport && typeof moduleExport.parse === 'function') ||
+      ('parseForESLint' in moduleExport &&
+        typeof moduleExport.parseForESLint === 'function'))
+  ) {
+    return moduleExport as Linter.Parser
+  }
+
+  if (
+    moduleExport &&
+    typeof moduleExport === 'object' &&
+    'default' in moduleExport
+  ) {
+    let defaultExport = moduleExport.default
+
+    if (
+      defaultExport &&
+      typeof defaultExport === 'object' &&
+      (('parse' in defaultExport &&
+        typeof defaultExport.parse === 'function') ||
+        ('parseForESLint' in defaultExport &&
+          typeof defaultExport.parseForESLint === 'function'))
+    ) {
+      return defaultExport as Linter.Parser
+    }
+  }
+
+  return undefined
+}
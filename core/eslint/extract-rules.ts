@@ -0,0 +1,26 @@
+import type { Rule } from 'eslint'
+
+import type { ESLintRuleImport } from '../../types/eslint-rule-import'
+
+/**
+ * Extracts the collection of rules from an imported plugin module.
+ *
+ * Rules can be exported as `module.rules` or as `rules` of the default export.
+ * If both are present, they are merged and `module.rules` takes precedence.
+ *
+ * @param moduleExport - The imported module.
+ * @returns Rules of the module indexed by rule ID. Empty if the module does not
+ *   export a rules collection.
+ */
+export function extractRules(
+  moduleExport: ESLintRuleImport,
+): Record<string, Rule.RuleModule> {
+  let defaultExport = moduleExport.default
+  let defaultRules =
+    defaultExport && 'rules' in defaultExport ? defaultExport.rules : undefined
+
+  return {
+    ...defaultRules,
+    ...moduleExport.rules,
+  }
+}
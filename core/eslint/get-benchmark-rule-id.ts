@@ -0,0 +1,17 @@
+import { parsePluginReference } from './parse-plugin-reference'
+import { BENCHMARK_PLUGIN_NAMESPACE } from '../../constants'
+
+/**
+ * Returns the ID under which the benchmarked rule is registered in the ESLint
+ * instance. Lint messages of the rule carry this ID instead of the original
+ * one. The plugin prefix is replaced, so "@scope/name/rule" becomes
+ * "eslint-rule-benchmark/rule".
+ *
+ * @param ruleId - Rule ID from the benchmark configuration, with or without a
+ *   plugin prefix.
+ * @returns The rule ID within the benchmark plugin namespace.
+ */
+export function getBenchmarkRuleId(ruleId: string): string {
+  let localName = parsePluginReference(ruleId)?.name ?? ruleId
+  return `${BENCHMARK_PLUGIN_NAMESPACE}/${localName}`
+}
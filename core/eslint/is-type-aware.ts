@@ -0,0 +1,18 @@
+import type { Linter } from 'eslint'
+
+/**
+ * Checks whether the language options enable type-aware linting with
+ * `@typescript-eslint/parser`, either through `parserOptions.project` or
+ * `parserOptions.projectService`.
+ *
+ * @param languageOptions - Language options of a test case.
+ * @returns True if the parser creates a TypeScript program.
+ */
+export function isTypeAware(languageOptions?: Linter.LanguageOptions): boolean {
+  let parserOptions = languageOptions?.parserOptions
+
+  return (
+    Boolean(parserOptions?.['project']) ||
+    Boolean(parserOptions?.['projectService'])
+  )
+}
@@ -1,8 +1,13 @@
 import type { Linter } from 'eslint'
 import type { Jiti } from 'jiti'
 
+import { pathToFileURL } from 'node:url'
+import path from 'node:path'
+
 import type { LANGUAGES } from '../../constants'
 
+import { extractParser } from './extract-parser'
+
 /** Result of loading a parser from a package. */
 interface ParserLoadResult {
   /** The loaded parser module. */
@@ -19,16 +24,23 @@ type Language = (typeof LANGUAGES)[number]
  *
  * This mapping allows for dynamic loading of the appropriate parser based on
  * the language being tested. The parsers are used to parse the code samples
- * before running ESLint rules against them.
+ * before running ESLint rules against them. JSON, Markdown and CSS have no
+ * parser, because they are handled by ESLint language plugins instead.
  */
 const LANGUAGE_PARSER_MAP = {
   'typescript-react': '@typescript-eslint/parser',
   typescript: '@typescript-eslint/parser',
   svelte: 'svelte-eslint-parser',
   astro: 'astro-eslint-parser',
+  yaml: 'yaml-eslint-parser',
   vue: 'vue-eslint-parser',
   'javascript-react': null,
   javascript: null,
+  markdown: null,
+  jsonc: null,
+  json5: null,
+  json: null,
+  css: null,
 } as const
 
 /**
@@ -36,11 +48,14 @@ const LANGUAGE_PARSER_MAP = {
  *
  * @param jiti - Jiti instance for dynamic imports.
  * @param language - The language to load parser for.
+ * @param configDirectory - Optional directory the parser package is resolved
+ *   from. Defaults to the location of this package.
  * @returns Promise resolving to the parser load result.
  */
 export async function loadLanguageParser(
   jiti: Jiti,
   language: Language,
+  configDirectory?: string,
 ): Promise<ParserLoadResult> {
   let result: ParserLoadResult = {}
 
@@ -50,7 +65,11 @@ export async function loadLanguageParser(
   }
 
   try {
-    let moduleExport = await jiti.import(parserName)
+    let moduleExport = configDirectory
+      ? await jiti.import(parserName, {
+          parentURL: pathToFileURL(path.join(configDirectory, path.sep)),
+        })
+      : await jiti.import(parserName)
     result.parser = extractParser(moduleExport)
 
     if (!result.parser) {
@@ -63,47 +82,3 @@ export async function loadLanguageParser(
 
   return result
 }
-
-/**
- * Extracts a parser from the imported module.
- *
- * This function handles different module export formats:
- *
- * 1. Direct parser export
- * 2. Default export that could be the parser.
- *
- * @param moduleExport - The imported module.
- * @returns The parser if found, undefined otherwise.
- */
-function extractParser(moduleExport: unknown): Linter.Parser | undefined {
-  if (
-    moduleExport &&
-    typeof moduleExport === 'object' &&
-    (('parse' in moduleExport && typeof moduleExport.parse === 'function') ||
-      ('parseForESLint' in moduleExport &&
-        typeof moduleExport.parseForESLint === 'function'))
-  ) {
-    return moduleExport as Linter.Parser
-  }
-
-  if (
-    moduleExport &&
-    typeof moduleExport === 'object' &&
-    'default' in moduleExport
-  ) {
-    let defaultExport = (moduleExport as { default: unknown }).default
-
-    if (
-      defaultExport &&
-      typeof defaultExport === 'object' &&
-      (('parse' in defaultExport &&
-        typeof defaultExport.parse === 'function') ||
-        ('parseForESLint' in defaultExport &&
-          typeof defaultExport.parseForESLint === 'function'))
-    ) {
-      return defaultExport as Linter.Parser
-    }
-  }
-
-  return undefined
-}
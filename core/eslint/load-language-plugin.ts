@@ -0,0 +1,90 @@
+import type { ESLint } from 'eslint'
+import type { Jiti } from 'jiti'
+
+import { pathToFileURL } from 'node:url'
+import path from 'node:path'
+
+import { parsePluginReference } from './parse-plugin-reference'
+
+interface LoadLanguagePluginOptions {
+  /**
+   * Optional directory the plugin package is resolved from. Defaults to the
+   * location of this package.
+   */
+  configDirectory?: string
+
+  /** ID of the language, e.g. "json/jsonc" or "markdown/gfm". */
+  language: string
+}
+
+/** Result of loading the plugin that provides a language. */
+interface LanguagePluginLoadResult {
+  /** The loaded plugin. */
+  plugin?: ESLint.Plugin
+
+  /** Name the plugin has to be registered under, e.g. "json". */
+  namespace?: string
+
+  /** Error message if loading failed. */
+  error?: string
+}
+
+/**
+ * Packages of the official ESLint language plugins, which do not follow the
+ * naming convention of plugin packages.
+ */
+const LANGUAGE_PLUGIN_PACKAGES: Record<string, string> = {
+  markdown: '@eslint/markdown',
+  json: '@eslint/json',
+  css: '@eslint/css',
+}
+
+/**
+ * Loads the plugin that provides an ESLint language. The official plugins
+ * ("json", "markdown" and "css") are loaded from their `@eslint` packages,
+ * other plugins follow the naming convention of plugin packages, so "html/html"
+ * is loaded from "eslint-plugin-html".
+ *
+ * @param jiti - Jiti instance for dynamic imports.
+ * @param options - Options for loading the language plugin.
+ * @returns Promise resolving to the language plugin load result.
+ */
+export async function loadLanguagePlugin(
+  jiti: Jiti,
+  options: LoadLanguagePluginOptions,
+): Promise<LanguagePluginLoadResult> {
+  let { configDirectory, language } = options
+
+  let reference = parsePluginReference(language)
+
+  if (!reference) {
+    return {
+      error: `Language "${language}" must be prefixed with the plugin name`,
+    }
+  }
+
+  let namespace = language.slice(0, language.lastIndexOf('/'))
+  let packageName = LANGUAGE_PLUGIN_PACKAGES[namespace] ?? reference.packageName
+
+  try {
+    let moduleExport: { default?: ESLint.Plugin } & ESLint.Plugin =
+      await jiti.import(
+        packageName,
+        configDirectory
+          ? { parentURL: pathToFileURL(path.join(configDirectory, path.sep)) }
+          : {},
+      )
+    let plugin = moduleExport.languages ? moduleExport : moduleExport.default
+
+    return plugin?.languages?.[reference.name]
+      ? { namespace, plugin }
+      : {
+          error: `Language "${reference.name}" not found in plugin "${packageName}"`,
+        }
+  } catch (error) {
+    let errorValue = error as Error
+    return {
+      error: `Failed to load plugin "${packageName}": ${errorValue.message}`,
+    }
+  }
+}
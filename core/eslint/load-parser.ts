@@ -0,0 +1,56 @@
+import type { Linter } from 'eslint'
+import type { Jiti } from 'jiti'
+
+import { pathToFileURL } from 'node:url'
+import path from 'node:path'
+
+import { extractParser } from './extract-parser'
+
+interface LoadParserOptions {
+  /**
+   * The path to the user configuration directory. Parser paths and packages are
+   * resolved from it.
+   */
+  configDirectory: string
+
+  /** Path to the parser module or name of the parser package. */
+  parser: string
+}
+
+/** Result of loading a parser configured by the user. */
+interface ParserLoadResult {
+  /** The loaded parser module. */
+  parser?: Linter.Parser
+
+  /** Error message if loading failed. */
+  error?: string
+}
+
+/**
+ * Loads a parser configured in the benchmark config, either from a module path
+ * (e.g., "./parser.js") or by package name (e.g., "@babel/eslint-parser").
+ *
+ * @param jiti - Jiti instance for dynamic imports.
+ * @param options - Options for loading the parser.
+ * @returns Promise resolving to the parser load result.
+ */
+export async function loadParser(
+  jiti: Jiti,
+  options: LoadParserOptions,
+): Promise<ParserLoadResult> {
+  let { configDirectory, parser } = options
+
+  try {
+    let moduleExport = await jiti.import(parser, {
+      parentURL: pathToFileURL(path.join(configDirectory, path.sep)),
+    })
+    let loadedParser = extractParser(moduleExport)
+
+    return loadedParser
+      ? { parser: loadedParser }
+      : { error: `Parser not found in module: ${parser}` }
+  } catch (error) {
+    let errorValue = error as Error
+    return { error: `Failed to load parser "${parser}": ${errorValue.message}` }
+  }
+}
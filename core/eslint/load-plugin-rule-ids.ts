@@ -0,0 +1,56 @@
+import type { Jiti } from 'jiti'
+
+import path from 'node:path'
+
+import type { ESLintRuleImport } from '../../types/eslint-rule-import'
+
+import { extractRules } from './extract-rules'
+
+/** Options for loading the rule IDs of a plugin. */
+interface LoadPluginRuleIdsOptions {
+  /** The path to the user configuration directory. */
+  configDirectory: string
+
+  /** The path to the plugin module. */
+  pluginPath: string
+}
+
+/**
+ * Imports an ESLint plugin and lists the IDs of all rules it exports. Rules are
+ * found the same way as when a single rule is loaded from a plugin file, so
+ * every returned ID can be used as `ruleId` together with the plugin path as
+ * `rulePath`.
+ *
+ * @param jiti - Jiti instance for dynamic imports.
+ * @param options - Options for loading the plugin.
+ * @returns Promise resolving to the rule IDs in the order they are exported.
+ * @throws {Error} If the plugin cannot be imported or exports no rules.
+ */
+export async function loadPluginRuleIds(
+  jiti: Jiti,
+  options: LoadPluginRuleIdsOptions,
+): Promise<string[]> {
+  let { configDirectory, pluginPath } = options
+
+  let absolutePath = path.isAbsolute(pluginPath)
+    ? pluginPath
+    : path.resolve(configDirectory, pluginPath)
+
+  let moduleExport: ESLintRuleImport
+  try {
+    moduleExport = await jiti.import(absolutePath)
+  } catch (error) {
+    let errorValue = error as Error
+    throw new Error(
+      `Failed to load plugin "${pluginPath}": ${errorValue.message}`,
+      { cause: error },
+    )
+  }
+
+  let ruleIds = Object.keys(extractRules(moduleExport))
+  if (ruleIds.length === 0) {
+    throw new Error(`Plugin "${pluginPath}" does not export any rules`)
+  }
+
+  return ruleIds
+}
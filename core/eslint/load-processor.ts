@@ -0,0 +1,82 @@
+import type { Linter } from 'eslint'
+import type { Jiti } from 'jiti'
+
+import { pathToFileURL } from 'node:url'
+import path from 'node:path'
+
+import { parsePluginReference } from './parse-plugin-reference'
+
+/** Possible structure of an imported plugin module with processors. */
+interface ProcessorPluginImport {
+  /** Possible default export containing the processors. */
+  default?: { processors?: Record<string, Linter.Processor> }
+
+  /** Collection of processors indexed by name. */
+  processors?: Record<string, Linter.Processor>
+}
+
+interface LoadProcessorOptions {
+  /**
+   * The path to the user configuration directory. Plugin packages are resolved
+   * from it.
+   */
+  configDirectory: string
+
+  /** ID of the processor, e.g. "markdown/markdown". */
+  processor: string
+}
+
+/** Result of loading a processor by its ID. */
+interface ProcessorLoadResult {
+  /** The loaded processor. */
+  processor?: Linter.Processor
+
+  /** Error message if loading failed. */
+  error?: string
+}
+
+/**
+ * Loads a processor by its ID from the plugin package that provides it. IDs
+ * follow the same convention as rule IDs of plugins, so "markdown/markdown"
+ * refers to the processor "markdown" of "eslint-plugin-markdown".
+ *
+ * @param jiti - Jiti instance for dynamic imports.
+ * @param options - Options for loading the processor.
+ * @returns Promise resolving to the processor load result.
+ */
+export async function loadProcessor(
+  jiti: Jiti,
+  options: LoadProcessorOptions,
+): Promise<ProcessorLoadResult> {
+  let { configDirectory, processor } = options
+
+  let reference = parsePluginReference(processor)
+
+  if (!reference) {
+    return {
+      error: `Processor "${processor}" must be prefixed with the plugin name`,
+    }
+  }
+
+  let { name: processorName, packageName } = reference
+
+  try {
+    let moduleExport: ProcessorPluginImport = await jiti.import(packageName, {
+      parentURL: pathToFileURL(path.join(configDirectory, path.sep)),
+    })
+    let loadedProcessor =
+      moduleExport.processors?.[processorName] ??
+      moduleExport.default?.processors?.[processorName]
+
+    return loadedProcessor
+      ? { processor: loadedProcessor }
+      : {
+          error: `Processor "${processorName}" not found in plugin "${packageName}"`,
+        }
+  } catch (error) {
+    let errorValue = error as Error
+    return {
+      error: `Failed to load plugin "${packageName}": ${errorValue.message}`,
+    }
+  }
+}
@@ -0,0 +1,79 @@
+import type { Rule } from 'eslint'
+import type { Jiti } from 'jiti'
+
+import { builtinRules } from 'eslint/use-at-your-own-risk'
+import { pathToFileURL } from 'node:url'
+import path from 'node:path'
+
+import type { ESLintRuleImport } from '../../types/eslint-rule-import'
+
+import { parsePluginReference } from './parse-plugin-reference'
+import { extractRules } from './extract-rules'
+
+interface LoadRuleByIdOptions {
+  /**
+   * The path to the user configuration directory. Plugin packages are resolved
+   * from it.
+   */
+  configDirectory: string
+
+  /** The ID of the rule to load. */
+  ruleId: string
+}
+
+/** Result of loading a rule by its ID. */
+interface RuleLoadResult {
+  /** The loaded rule module. */
+  rule?: Rule.RuleModule
+
+  /** Error message if loading failed. */
+  error?: string
+}
+
+/**
+ * Loads an ESLint rule that has no `rulePath` by its ID.
+ *
+ * IDs without a plugin prefix (e.g., "no-unused-vars") refer to core ESLint
+ * rules. Prefixed IDs refer to rules of installed plugins and follow the naming
+ * convention of ESLint:
+ *
+ * - "react/jsx-key" - rule "jsx-key" of "eslint-plugin-react"
+ * - "@typescript-eslint/no-unused-vars" - rule "no-unused-vars" of
+ *   "@typescript-eslint/eslint-plugin"
+ * - "@scope/name/rule" - rule "rule" of "@scope/eslint-plugin-name".
+ *
+ * @param jiti - Jiti instance for dynamic imports.
+ * @param options - Options for loading the rule.
+ * @returns Promise resolving to the rule load result.
+ */
+export async function loadRuleById(
+  jiti: Jiti,
+  options: LoadRuleByIdOptions,
+): Promise<RuleLoadResult> {
+  let { configDirectory, ruleId } = options
+
+  let reference = parsePluginReference(ruleId)
+
+  if (!reference) {
+    let rule = builtinRules.get(ruleId)
+    return rule ? { rule } : { error: `Unknown core ESLint rule "${ruleId}"` }
+  }
+
+  let { name: ruleName, packageName } = reference
+
+  try {
+    let moduleExport: ESLintRuleImport = await jiti.import(packageName, {
+      parentURL: pathToFileURL(path.join(configDirectory, path.sep)),
+    })
+    let rule = extractRules(moduleExport)[ruleName]
+
+    return rule
+      ? { rule }
+      : { error: `Rule "${ruleName}" not found in plugin "${packageName}"` }
+  } catch (error) {
+    let errorValue = error as Error
+    return {
+      error: `Failed to load plugin "${packageName}": ${errorValue.message}`,
+    }
+  }
+}
@@ -3,38 +3,9 @@ import type { Jiti } from 'jiti'
 
 import path from 'node:path'
 
-/**
- * Represents the possible structure of an imported ESLint rule module.
- *
- * This interface handles various export patterns found in ESLint plugins and
- * rule modules:
- *
- * - Direct rule export (with meta and create properties)
- * - Rules collection export (module.rules object with rule IDs as keys)
- * - Default export patterns (either a direct rule or an object containing rules).
- *
- * The flexible structure allows for proper typing of dynamically imported
- * modules regardless of their export format.
- */
-interface ESLintRuleImport {
-  /**
-   * Possible default export - either a rule module or an object containing
-   * rules.
-   */
-  default?: { rules?: Record<string, Rule.RuleModule> } | Rule.RuleModule
-
-  /** Collection of rules indexed by rule ID - common in plugin exports. */
-  rules?: Record<string, Rule.RuleModule>
+import type { ESLintRuleImport } from '../../types/eslint-rule-import'
 
-  /** Rule creation function - present if the module directly exports a rule. */
-  create?: Rule.RuleModule['create']
-
-  /** Rule metadata - present if the module directly exports a rule. */
-  meta?: Rule.RuleModule['meta']
-
-  /** Additional properties that might be present in the module. */
-  [key: string]: unknown
-}
+import { extractRules } from './extract-rules'
 
 interface LoadRuleFromFileOptions {
   /** The path to the user configuration directory. */
@@ -91,8 +62,9 @@ export async function loadRuleFromFile(
  * This function handles different module export formats:
  *
  * 1. Direct export where the module itself is a rule (has meta and create)
- * 2. Named export in module.rules[ruleId]
- * 3. Default export that could either be a rule or an object with rules.
+ * 2. Rules collection in module.rules or in the default export (see
+ *    `extractRules`)
+ * 3. Default export that is a rule itself.
  *
  * @param moduleExport - The imported module.
  * @param ruleId - ID of the rule to extract.
@@ -106,20 +78,16 @@ function extractRule(
     return moduleExport as Rule.RuleModule
   }
 
-  if (moduleExport.rules?.[ruleId]) {
-    return moduleExport.rules[ruleId]
+  let rule = extractRules(moduleExport)[ruleId]
+
+  if (rule) {
+    return rule
   }
 
   let defaultExport = moduleExport.default
 
-  if (defaultExport) {
-    if ('meta' in defaultExport && 'create' in defaultExport) {
-      return defaultExport
-    }
-
-    if ('rules' in defaultExport && defaultExport.rules?.[ruleId]) {
-      return defaultExport.rules[ruleId]
-    }
+  if (defaultExport && 'meta' in defaultExport && 'create' in defaultExport) {
+    return defaultExport
   }
 
   return undefined
@@ -0,0 +1,27 @@
+import type { Linter } from 'eslint'
+
+/**
+ * Merges two sets of language options. Options of `override` take precedence,
+ * and `parserOptions` are merged instead of replaced.
+ *
+ * @param base - Language options to start from.
+ * @param override - Language options that take precedence.
+ * @returns The merged language options, or undefined if both are undefined.
+ */
+export function mergeLanguageOptions(
+  base: Linter.LanguageOptions | undefined,
+  override: Linter.LanguageOptions | undefined,
+): Linter.LanguageOptions | undefined {
+  if (!base || !override) {
+    return override ?? base
+  }
+
+  return {
+    ...base,
+    ...override,
+    parserOptions: {
+      ...base.parserOptions,
+      ...override.parserOptions,
+    },
+  }
+}
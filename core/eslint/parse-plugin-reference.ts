@@ -0,0 +1,41 @@
+/** Package of a plugin and the name of a rule or processor inside it. */
+interface PluginReference {
+  /** Name of the plugin package. */
+  packageName: string
+
+  /** Name of the rule or processor without the plugin prefix. */
+  name: string
+}
+
+/**
+ * Splits a prefixed ID of a rule or processor into the plugin package name and
+ * the name inside the plugin, following the naming convention of ESLint:
+ *
+ * - "react/jsx-key" - "jsx-key" of "eslint-plugin-react"
+ * - "@typescript-eslint/no-unused-vars" - "no-unused-vars" of
+ *   "@typescript-eslint/eslint-plugin"
+ * - "@scope/name/rule" - "rule" of "@scope/eslint-plugin-name".
+ *
+ * @param id - ID of a rule or processor, optionally prefixed with the plugin
+ *   name.
+ * @returns The plugin package and name, or undefined for IDs without a plugin
+ *   prefix.
+ */
+export function parsePluginReference(id: string): PluginReference | undefined {
+  let segments = id.split('/')
+
+  if (id.startsWith('@')) {
+    let [scope, name, rule] = segments
+    if (segments.length === 2) {
+      return { packageName: `${scope}/eslint-plugin`, name: name! }
+    }
+    return { packageName: `${scope}/eslint-plugin-${name}`, name: rule! }
+  }
+
+  if (segments.length === 1) {
+    return undefined
+  }
+
+  let [name, rule] = segments
+  return { packageName: `eslint-plugin-${name}`, name: rule! }
+}
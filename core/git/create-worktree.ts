@@ -0,0 +1,52 @@
+import fs from 'node:fs/promises'
+import path from 'node:path'
+
+import { runGit } from './run-git'
+
+/**
+ * Checks out a git revision into a new temporary worktree.
+ *
+ * Worktrees are created inside `node_modules/.cache` of the repository, so
+ * modules imported by the checked out rule are resolved from the dependencies
+ * installed in the repository.
+ *
+ * @example
+ *   const worktreePath = await createWorktree(repositoryRoot, 'origin/main')
+ *
+ * @param repositoryRoot - Absolute path to the root of the git repository.
+ * @param revision - Branch, tag or commit to check out.
+ * @returns A promise that resolves to the absolute path of the new worktree.
+ * @throws {Error} If the revision cannot be checked out.
+ */
+export async function createWorktree(
+  repositoryRoot: string,
+  revision: string,
+): Promise<string> {
+  let cacheDirectory = path.join(
+    repositoryRoot,
+    'node_modules',
+    '.cache',
+    'eslint-rule-benchmark',
+  )
+  await fs.mkdir(cacheDirectory, { recursive: true })
+
+  let worktreePath = await fs.mkdtemp(path.join(cacheDirectory, 'worktree-'))
+
+  try {
+    await runGit(
+      ['worktree', 'add', '--detach', worktreePath, revision],
+      repositoryRoot,
+    )
+  } catch (error) {
+    await fs.rm(worktreePath, { recursive: true, force: true })
+    let errorValue = error as Error
+    throw new Error(
+      `Failed to check out "${revision}": ${errorValue.message}`,
+      {
+        cause: error,
+      },
+    )
+  }
+
+  return worktreePath
+}
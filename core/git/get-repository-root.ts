@@ -0,0 +1,13 @@
+import { runGit } from './run-git'
+
+/**
+ * Finds the root directory of the git repository that contains the given
+ * directory.
+ *
+ * @param directory - Any directory inside the repository.
+ * @returns A promise that resolves to the absolute path of the repository root.
+ * @throws {Error} If the directory is not inside a git repository.
+ */
+export async function getRepositoryRoot(directory: string): Promise<string> {
+  return await runGit(['rev-parse', '--show-toplevel'], directory)
+}
@@ -0,0 +1,26 @@
+import { runGit } from './run-git'
+
+/**
+ * Removes a worktree created by `createWorktree`. Failures are reported as
+ * warnings, because they should not hide the results of a finished benchmark.
+ *
+ * @param repositoryRoot - Absolute path to the root of the git repository.
+ * @param worktreePath - Absolute path to the worktree to remove.
+ * @returns A promise that resolves when the worktree has been removed.
+ */
+export async function removeWorktree(
+  repositoryRoot: string,
+  worktreePath: string,
+): Promise<void> {
+  try {
+    await runGit(
+      ['worktree', 'remove', '--force', worktreePath],
+      repositoryRoot,
+    )
+  } catch (error) {
+    let errorValue = error as Error
+    console.warn(
+      `Failed to remove temporary worktree "${worktreePath}": ${errorValue.message}`,
+    )
+  }
+}
@@ -0,0 +1,30 @@
+import { execFile } from 'node:child_process'
+
+/**
+ * Runs a git command and returns its trimmed standard output.
+ *
+ * @param gitArguments - Arguments passed to the `git` executable.
+ * @param cwd - Directory to run the command in.
+ * @returns A promise that resolves to the trimmed standard output.
+ * @throws {Error} If git is not available or the command exits with a non-zero
+ *   code. The message contains the standard error output of git.
+ */
+export async function runGit(
+  gitArguments: string[],
+  cwd: string,
+): Promise<string> {
+  return await new Promise((resolve, reject) => {
+    execFile('git', gitArguments, { cwd }, (error, stdout, stderr) => {
+      if (error) {
+        let details = stderr.trim() === '' ? error.message : stderr.trim()
+        reject(
+          new Error(`git ${gitArguments[0]} failed: ${details}`, {
+            cause: error,
+          }),
+        )
+        return
+      }
+      resolve(stdout.trim())
+    })
+  })
+}
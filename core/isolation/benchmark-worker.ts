@@ -0,0 +1,26 @@
+import { parentPort } from 'node:worker_threads'
+
+import type { RunBenchmarkParameters } from '../benchmark/run-benchmark'
+
+import { executeIsolatedBenchmark } from './execute-isolated-benchmark'
+
+/**
+ * Entry point of isolated benchmark runs. The same file is loaded as a worker
+ * thread and as a forked child process. It waits for the benchmark parameters
+ * from the parent, runs the benchmark and sends the results back. The parent is
+ * responsible for shutting the worker or process down afterwards.
+ */
+if (parentPort) {
+  let port = parentPort
+  port.once('message', (parameters: RunBenchmarkParameters) => {
+    void executeIsolatedBenchmark(parameters).then(message => {
+      port.postMessage(message)
+    })
+  })
+} else {
+  process.once('message', (parameters: RunBenchmarkParameters) => {
+    void executeIsolatedBenchmark(parameters).then(message => {
+      process.send?.(message)
+    })
+  })
+}
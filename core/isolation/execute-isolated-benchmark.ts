@@ -0,0 +1,33 @@
+import type { IsolatedBenchmarkMessage } from '../../types/isolated-benchmark-message'
+import type { RunBenchmarkParameters } from '../benchmark/run-benchmark'
+
+import { runBenchmark } from '../benchmark/run-benchmark'
+
+/**
+ * Runs a benchmark inside an isolated worker thread or child process and wraps
+ * the outcome into a message that can be sent back to the parent.
+ *
+ * Errors are not thrown, because an exception in the isolated environment would
+ * only surface in the parent as an unspecific exit code. Instead, the error
+ * message is passed along so the parent can report it.
+ *
+ * @param parameters - The parameters received from the parent.
+ * @returns A promise that resolves to a message with the benchmark results or
+ *   the error message.
+ */
+export async function executeIsolatedBenchmark(
+  parameters: RunBenchmarkParameters,
+): Promise<IsolatedBenchmarkMessage> {
+  try {
+    return {
+      results: await runBenchmark(parameters),
+      type: 'result',
+    }
+  } catch (error) {
+    let errorValue = error as Error
+    return {
+      message: errorValue.message,
+      type: 'error',
+    }
+  }
+}
@@ -0,0 +1,122 @@
+import { Worker } from 'node:worker_threads'
+import { fork } from 'node:child_process'
+import { fileURLToPath } from 'node:url'
+import path from 'node:path'
+
+import type {
+  RunBenchmarkParameters,
+  ProcessedBenchmarkTask,
+} from '../benchmark/run-benchmark'
+import type { IsolatedBenchmarkMessage } from '../../types/isolated-benchmark-message'
+import type { IsolationMode } from '../../types/benchmark-config'
+
+/**
+ * Runs a benchmark in a fresh worker thread or forked Node.js process, so that
+ * JIT optimizations, caches and garbage left by previous benchmarks cannot
+ * affect the measurements.
+ *
+ * The parameters are sent to the isolated environment, which runs the benchmark
+ * and sends the processed results back. The worker or process is shut down as
+ * soon as the results arrive.
+ *
+ * @example
+ *   const results = await runIsolatedBenchmark(
+ *     { testCases, config, configDirectory },
+ *     'worker',
+ *   )
+ *
+ * @param parameters - The parameters for running the benchmark. They must be
+ *   serializable with the structured clone algorithm.
+ * @param isolation - Whether to use a worker thread or a child process.
+ * @returns A promise that resolves to the processed benchmark results, or null
+ *   if no tasks were run or the isolated run failed.
+ */
+export async function runIsolatedBenchmark(
+  parameters: RunBenchmarkParameters,
+  isolation: Exclude<IsolationMode, 'none'>,
+): Promise<ProcessedBenchmarkTask[] | null> {
+  /* `import.meta.filename` is not available in Node.js 18. */
+  // eslint-disable-next-line unicorn/prefer-import-meta-properties
+  let currentFilePath = fileURLToPath(import.meta.url)
+  let entryPath = path.join(
+    path.dirname(currentFilePath),
+    `benchmark-worker${path.extname(currentFilePath)}`,
+  )
+
+  try {
+    let message =
+      isolation === 'worker'
+        ? await runInWorker(entryPath, parameters)
+        : await runInChildProcess(entryPath, parameters)
+
+    if (message.type === 'error') {
+      throw new Error(message.message)
+    }
+
+    return message.results
+  } catch (error) {
+    let errorValue = error as Error
+    console.error(
+      `Isolated benchmark run in a ${isolation} failed: ${errorValue.message}`,
+    )
+    return null
+  }
+}
+
+/**
+ * Runs the benchmark entry point in a forked Node.js process.
+ *
+ * @param entryPath - Absolute path to the benchmark entry point.
+ * @param parameters - The parameters for running the benchmark.
+ * @returns A promise that resolves to the message sent by the child process.
+ */
+function runInChildProcess(
+  entryPath: string,
+  parameters: RunBenchmarkParameters,
+): Promise<IsolatedBenchmarkMessage> {
+  return new Promise((resolve, reject) => {
+    let child = fork(entryPath, [], { serialization: 'advanced' })
+
+    child.once('message', message => {
+      resolve(message as IsolatedBenchmarkMessage)
+      child.disconnect()
+    })
+    child.once('error', reject)
+    child.once('exit', code => {
+      reject(
+        new Error(`Process exited with code ${code} before sending results`),
+      )
+    })
+
+    child.send(parameters)
+  })
+}
+
+/**
+ * Runs the benchmark entry point in a worker thread.
+ *
+ * @param entryPath - Absolute path to the benchmark entry point.
+ * @param parameters - The parameters for running the benchmark.
+ * @returns A promise that resolves to the message sent by the worker.
+ */
+function runInWorker(
+  entryPath: string,
+  parameters: RunBenchmarkParameters,
+): Promise<IsolatedBenchmarkMessage> {
+  return new Promise((resolve, reject) => {
+    let worker = new Worker(entryPath)
+
+    worker.once('message', (message: IsolatedBenchmarkMessage) => {
+      resolve(message)
+      void worker.terminate()
+    })
+    worker.once('error', reject)
+    worker.once('exit', code => {
+      reject(
+        new Error(`Worker exited with code ${code} before sending results`),
+      )
+    })
+
+    worker.postMessage(parameters)
+  })
+}
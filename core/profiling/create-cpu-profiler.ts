@@ -0,0 +1,109 @@
+import type { Profiler } from 'node:inspector'
+import type { FnOptions } from 'tinybench'
+
+import { Session } from 'node:inspector'
+import fs from 'node:fs/promises'
+import path from 'node:path'
+
+/** Records a V8 CPU profile while a benchmark task is measured. */
+export interface CpuProfiler {
+  /** Tinybench task hooks that start and stop the profiler. */
+  hooks: FnOptions
+}
+
+/**
+ * Creates a profiler that records a V8 CPU profile of a benchmark task through
+ * the inspector protocol and writes it to a `.cpuprofile` file.
+ *
+ * Profiling starts before the first measured iteration and stops after the last
+ * one, so the warmup phase is not recorded. The file name is derived from the
+ * task name, with characters that are not safe in file names replaced. The
+ * profile can be opened in Chrome DevTools or VS Code.
+ *
+ * @example
+ *   const cpuProfiler = createCpuProfiler('./profiles', 'My Rule on a.js')
+ *   bench.add(name, fn, cpuProfiler.hooks)
+ *   await bench.run()
+ *   // ./profiles/My-Rule-on-a.js.cpuprofile
+ *
+ * @param directory - Absolute path to the directory to write the profile to. It
+ *   is created if it does not exist.
+ * @param taskName - Name of the benchmark task.
+ * @returns A CPU profiler for a single benchmark task.
+ */
+export function createCpuProfiler(
+  directory: string,
+  taskName: string,
+): CpuProfiler {
+  let profilePath = path.join(
+    directory,
+    `${taskName.replaceAll(/[^\w.]+/gu, '-')}.cpuprofile`,
+  )
+  let session: Session | null = null
+
+  return {
+    hooks: {
+      afterAll: async () => {
+        if (!session) {
+          return
+        }
+        let profile = await stopProfiler(session)
+        session.disconnect()
+        session = null
+
+        await fs.mkdir(directory, { recursive: true })
+        await fs.writeFile(profilePath, JSON.stringify(profile))
+      },
+      beforeAll: async mode => {
+        if (mode !== 'run') {
+          return
+        }
+        session = new Session()
+        session.connect()
+        await startProfiler(session)
+      },
+    },
+  }
+}
+
+/**
+ * Enables and starts the CPU profiler of an inspector session.
+ *
+ * @param session - Connected inspector session.
+ * @returns A promise that resolves when the profiler is running.
+ */
+function startProfiler(session: Session): Promise<void> {
+  return new Promise((resolve, reject) => {
+    session.post('Profiler.enable', enableError => {
+      if (enableError) {
+        reject(enableError)
+        return
+      }
+      session.post('Profiler.start', startError => {
+        if (startError) {
+          reject(startError)
+          return
+        }
+        resolve()
+      })
+    })
+  })
+}
+
+/**
+ * Stops the CPU profiler of an inspector session.
+ *
+ * @param session - Inspector session with a running profiler.
+ * @returns A promise that resolves to the recorded profile.
+ */
+function stopProfiler(session: Session): Promise<Profiler.Profile> {
+  return new Promise((resolve, reject) => {
+    session.post('Profiler.stop', (error, result) => {
+      if (error) {
+        reject(error)
+        return
+      }
+      resolve(result.profile)
+    })
+  })
+}
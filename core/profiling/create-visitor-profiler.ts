@@ -0,0 +1,157 @@
+import type { Rule } from 'eslint'
+
+import { performance } from 'node:perf_hooks'
+
+import type { VisitorProfile } from '../../types/visitor-profile'
+
+/** Measures the listeners of a rule separately for each benchmark task. */
+export interface VisitorProfiler {
+  /**
+   * Runs a callback while attributing all listener calls of the wrapped rule to
+   * the given task.
+   *
+   * @param taskName - Name of the benchmark task.
+   * @param callback - Lints the code sample of the task.
+   * @returns A promise that resolves once the callback has finished.
+   */
+  measure(taskName: string, callback: () => Promise<unknown>): Promise<void>
+
+  /**
+   * Returns the listeners of a task ordered by the time spent in them.
+   *
+   * @param taskName - Name of the benchmark task.
+   * @returns The visitor profile, or null if the rule did not run for the task.
+   */
+  getProfile(taskName: string): VisitorProfile[] | null
+
+  /**
+   * Wraps a rule so that every listener returned by its `create` function is
+   * timed.
+   *
+   * @param rule - The rule module to wrap.
+   * @returns A rule module that behaves like the original one.
+   */
+  wrapRule(rule: Rule.RuleModule): Rule.RuleModule
+}
+
+/** Listener statistics collected for a single benchmark task. */
+interface TaskProfile {
+  /** Number of calls and total time in milliseconds by selector. */
+  listeners: Map<string, { calls: number; time: number }>
+
+  /** Whether the rule was created during any of the measured lint calls. */
+  isCreated: boolean
+
+  /**
+   * Number of measured lint calls. The rule can be created more than once per
+   * call, such as in every fix pass.
+   */
+  runs: number
+}
+
+/** A listener function of a rule. */
+type Listener = (...listenerArguments: unknown[]) => void
+
+/**
+ * Creates a profiler that measures how much time a rule spends in each of its
+ * listeners (e.g. `Identifier` or `Program:exit`) and how often they fire.
+ *
+ * The rule is wrapped before it is passed to ESLint. Each lint call of a task
+ * is run through `measure`, so that the listeners created during this call are
+ * attributed to the task. Lint runs outside of `measure` are not recorded.
+ *
+ * Timing every listener call adds overhead, so execution times measured with an
+ * active profiler are higher than usual. The relative cost of the listeners is
+ * still representative.
+ *
+ * @example
+ *   const visitorProfiler = createVisitorProfiler()
+ *   const rule = visitorProfiler.wrapRule(ruleModule)
+ *   await visitorProfiler.measure('task', () => eslint.lintText(code))
+ *   const profile = visitorProfiler.getProfile('task')
+ *
+ * @returns A visitor profiler.
+ */
+export function createVisitorProfiler(): VisitorProfiler {
+  let taskProfiles = new Map<string, TaskProfile>()
+  let activeProfile: TaskProfile | null = null
+
+  function wrapListener(
+    profile: TaskProfile,
+    selector: string,
+    listener: Listener,
+  ): Listener {
+    let statistics = profile.listeners.get(selector) ?? { calls: 0, time: 0 }
+    profile.listeners.set(selector, statistics)
+
+    return (...listenerArguments) => {
+      let start = performance.now()
+      try {
+        listener(...listenerArguments)
+      } finally {
+        statistics.time += performance.now() - start
+        statistics.calls++
+      }
+    }
+  }
+
+  return {
+    getProfile: taskName => {
+      let profile = taskProfiles.get(taskName)
+      if (!profile?.isCreated) {
+        return null
+      }
+
+      let listeners = [...profile.listeners]
+      let totalTime = listeners.reduce(
+        (sum, [, statistics]) => sum + statistics.time,
+        0,
+      )
+
+      return listeners
+        .map(([selector, statistics]) => ({
+          percentOfTotal:
+            totalTime > 0 ? (statistics.time / totalTime) * 100 : 0,
+          callsPerRun: statistics.calls / profile.runs,
+          timePerRun: statistics.time / profile.runs,
+          selector,
+        }))
+        .toSorted((first, second) => second.timePerRun - first.timePerRun)
+    },
+    wrapRule: rule => ({
+      ...rule,
+      create: context => {
+        let listeners = rule.create(context)
+        let profile = activeProfile
+        if (!profile) {
+          return listeners
+        }
+
+        profile.isCreated = true
+
+        return Object.fromEntries(
+          Object.entries(listeners).map(([selector, listener]) => [
+            selector,
+            wrapListener(profile, selector, listener as Listener),
+          ]),
+        )
+      },
+      meta: rule.meta,
+    }),
+    measure: async (taskName, callback) => {
+      let profile = taskProfiles.get(taskName)
+      if (!profile) {
+        profile = { listeners: new Map(), isCreated: false, runs: 0 }
+        taskProfiles.set(taskName, profile)
+      }
+
+      activeProfile = profile
+      try {
+        await callback()
+      } finally {
+        activeProfile = null
+        profile.runs++
+      }
+    },
+  }
+}
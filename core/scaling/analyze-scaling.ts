@@ -0,0 +1,79 @@
+import type { ProcessedBenchmarkTask } from '../benchmark/run-benchmark'
+import type { ScalingAnalysis } from '../../types/scaling-analysis'
+
+import { SCALING_FIT_TOLERANCE, SCALING_MIN_R_SQUARED } from '../../constants'
+import { fitComplexityModels } from './fit-complexity-models'
+
+/** Minimum number of input sizes to fit complexity models to. */
+const MIN_SCALING_POINTS = 3
+
+/**
+ * Analyzes how the execution time of a rule grows with the input size.
+ *
+ * Results of samples generated for the scaling analysis are grouped by their
+ * source sample. The mean times of every group are fitted to complexity models,
+ * and the simplest model whose coefficient of determination is within
+ * `SCALING_FIT_TOLERANCE` of the best one is chosen. A rule is super-linear if
+ * the chosen model is not linear, the time grows with the size and the fit
+ * reaches `SCALING_MIN_R_SQUARED`. Failed samples are left out, and groups with
+ * fewer than three sizes left are skipped with a warning.
+ *
+ * @example
+ *   const analyses = analyzeScaling(testCaseResult.samplesResults)
+ *   const slow = analyses.filter(analysis => analysis.superLinear)
+ *
+ * @param samplesResults - Results of the samples of a test case.
+ * @returns The analysis of every source sample, in the order of the results.
+ */
+export function analyzeScaling(
+  samplesResults: ProcessedBenchmarkTask[],
+): ScalingAnalysis[] {
+  let groups = new Map<string, ProcessedBenchmarkTask[]>()
+
+  for (let sampleResult of samplesResults) {
+    if (!sampleResult.scaling) {
+      continue
+    }
+    let group = groups.get(sampleResult.scaling.source) ?? []
+    group.push(sampleResult)
+    groups.set(sampleResult.scaling.source, group)
+  }
+
+  let analyses: ScalingAnalysis[] = []
+
+  for (let [sample, group] of groups) {
+    let points = group
+      .filter(sampleResult => !sampleResult.error)
+      .map(sampleResult => ({
+        size: sampleResult.scaling!.size,
+        mean: sampleResult.metrics.mean,
+      }))
+      .toSorted((first, second) => first.size - second.size)
+
+    if (points.length < MIN_SCALING_POINTS) {
+      console.warn(
+        `Scaling analysis of "${sample}" needs at least ${MIN_SCALING_POINTS} sizes, but only ${points.length} of ${group.length} could be benchmarked. Check the failed samples.`,
+      )
+      continue
+    }
+
+    let fits = fitComplexityModels(points)
+    let bestRSquared = Math.max(...fits.map(fit => fit.rSquared))
+    let bestFit = fits.find(
+      fit => fit.rSquared >= bestRSquared - SCALING_FIT_TOLERANCE,
+    )!
+
+    analyses.push({
+      superLinear:
+        bestFit.model !== 'linear' &&
+        bestFit.slope > 0 &&
+        bestFit.rSquared >= SCALING_MIN_R_SQUARED,
+      bestFit,
+      points,
+      sample,
+      fits,
+    })
+  }
+
+  return analyses
+}
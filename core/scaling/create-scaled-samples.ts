@@ -0,0 +1,178 @@
+import type {
+  ScalingConfig,
+  SampleScaling,
+  CodeSample,
+} from '../../types/test-case'
+import type { LANGUAGES } from '../../constants'
+
+import {
+  SCALING_NEST_PLACEHOLDER,
+  DEFAULT_SCALING_SIZES,
+} from '../../constants'
+
+type Language = (typeof LANGUAGES)[number]
+
+/**
+ * Languages whose repeated code is wrapped in blocks, so the top-level
+ * declarations of the copies do not collide.
+ */
+const SCRIPT_LANGUAGES = new Set<Language>([
+  'javascript-react',
+  'typescript-react',
+  'javascript',
+  'typescript',
+])
+
+/** Languages whose repeated code is wrapped in an array. */
+const JSON_LANGUAGES = new Set<Language>(['jsonc', 'json5', 'json'])
+
+/**
+ * Top-level static imports and a leading hashbang, which are kept once before
+ * the repeated blocks.
+ */
+const HOISTED_DECLARATION =
+  /^(?:#!.*|import(?=[\s"'*{])[^"']*["'][^\n"']*["'][^\n;]*;?)/gmu
+
+/**
+ * Top-level export lists and re-exports, which are removed from the repeated
+ * blocks.
+ */
+const EXPORT_LIST =
+  /^export(?:\s+type)?\s*(?:\*(?:\s+as\s+[\w$]+)?|\{[^}]*\})(?:\s*from\s*["'][^\n"']*["'][^\n;]*)?;?/gmu
+
+/** Default exports of named functions, classes and interfaces. */
+const DEFAULT_EXPORT_DECLARATION =
+  /^export\s+default\s+(?=(?:async\s+)?function(?:\s*\*\s*|\s+)[\w$]|(?:abstract\s+)?class\s+(?!extends\b)[\w$]|interface\b)/gmu
+
+/**
+ * Creates inputs of growing size from code samples for the scaling analysis.
+ *
+ * In the "repeat" mode, the code of a sample is repeated as many times as the
+ * size. In JavaScript and TypeScript, every copy is wrapped in a block, so
+ * top-level `let`, `const` and `class` declarations are not redeclared. Module
+ * declarations are not allowed in blocks: imports are kept once before the
+ * copies, and exports are turned into plain declarations and expressions. JSON
+ * copies are items of an array, and YAML copies are separate documents. In the
+ * "nest" mode, the sample is inserted into itself at the nesting placeholder,
+ * so the size is the nesting depth. The generated samples are named after their
+ * source with the size before the extension, such as `sample.x4.ts`, and keep
+ * its path, so they are linted with the same config.
+ *
+ * @example
+ *   const samples = createScaledSamples(codeSamples, { sizes: [1, 2, 4] })
+ *
+ * @param samples - The code samples to create inputs from.
+ * @param scaling - Settings of the scaling analysis, or `true` for the
+ *   defaults.
+ * @returns The generated samples, grouped by their source sample and ordered by
+ *   size.
+ * @throws {Error} If a sample has no placeholder in the "nest" mode.
+ */
+export function createScaledSamples(
+  samples: CodeSample[],
+  scaling: ScalingConfig | true,
+): CodeSample[] {
+  let { sizes = [...DEFAULT_SCALING_SIZES], mode = 'repeat' } =
+    scaling === true ? {} : scaling
+  let sortedSizes = [...new Set(sizes)].toSorted((a, b) => a - b)
+
+  return samples.flatMap(sample => {
+    if (mode === 'nest' && !sample.code.includes(SCALING_NEST_PLACEHOLDER)) {
+      throw new Error(
+        `Sample "${sample.filename}" has no "${SCALING_NEST_PLACEHOLDER}" placeholder for nested scaling.`,
+      )
+    }
+
+    return sortedSizes.map(size => {
+      let sampleScaling: SampleScaling = { source: sample.filename, size }
+      return {
+        ...sample,
+        code:
+          mode === 'nest'
+            ? nestCode(sample.code, size)
+            : repeatCode(sample, size),
+        filename: addSizeToFilename(sample.filename, size),
+        scaling: sampleScaling,
+      }
+    })
+  })
+}
+
+/**
+ * Repeats the code, separated by line breaks. Copies of scripts are wrapped in
+ * blocks, each with its own scope, after their module declarations. Copies of
+ * JSON and YAML are combined so the result stays a valid document without
+ * duplicate keys.
+ *
+ * @param sample - The code sample to repeat.
+ * @param count - How many times the code is repeated.
+ * @returns The repeated code.
+ */
+function repeatCode(sample: CodeSample, count: number): string {
+  let code = sample.code.trimEnd()
+
+  if (JSON_LANGUAGES.has(sample.language)) {
+    return `[\n${Array.from({ length: count }, () => code).join('\n,\n')}\n]\n`
+  }
+  if (sample.language === 'yaml') {
+    return `${Array.from({ length: count }, () => code).join('\n---\n')}\n`
+  }
+  if (!SCRIPT_LANGUAGES.has(sample.language)) {
+    return `${Array.from({ length: count }, () => code).join('\n\n')}\n`
+  }
+
+  let declarations = code.match(HOISTED_DECLARATION) ?? []
+  let block = `{\n${stripExports(code.replaceAll(HOISTED_DECLARATION, '')).trim()}\n}`
+  return `${[
+    ...declarations,
+    ...Array.from({ length: count }, () => block),
+  ].join('\n\n')}\n`
+}
+
+/**
+ * Inserts the size between the name and the extensions of a filename, so the
+ * extensions still determine the language.
+ *
+ * @param filename - Filename of the source sample, possibly with directories.
+ * @param size - Size of the generated input.
+ * @returns The filename of the generated sample.
+ */
+function addSizeToFilename(filename: string, size: number): string {
+  let nameStart = filename.lastIndexOf('/') + 1
+  let extensionStart = filename.indexOf('.', nameStart + 1)
+  if (extensionStart === -1) {
+    return `${filename}.x${size}`
+  }
+  return `${filename.slice(0, extensionStart)}.x${size}${filename.slice(extensionStart)}`
+}
+
+/**
+ * Inserts the code into itself at the placeholder.
+ *
+ * @param code - Code with the nesting placeholder.
+ * @param depth - How many copies of the code are nested into each other.
+ * @returns The nested code without placeholders.
+ */
+function nestCode(code: string, depth: number): string {
+  let nestedCode = code
+  for (let level = 1; level < depth; level++) {
+    let innerCode = nestedCode
+    nestedCode = code.replace(SCALING_NEST_PLACEHOLDER, () => innerCode)
+  }
+  return nestedCode.replace(SCALING_NEST_PLACEHOLDER, '')
+}
+
+/**
+ * Removes the top-level exports from a script, keeping the exported
+ * declarations. Anonymous default exports become `void` expressions.
+ *
+ * @param code - Code of the script without imports.
+ * @returns The code without module declarations.
+ */
+function stripExports(code: string): string {
+  return code
+    .replaceAll(EXPORT_LIST, '')
+    .replaceAll(DEFAULT_EXPORT_DECLARATION, '')
+    .replaceAll(/^export\s+default\s+/gmu, 'void ')
+    .replaceAll(/^export\s+/gmu, '')
+}
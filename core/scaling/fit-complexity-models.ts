@@ -0,0 +1,81 @@
+import type {
+  ComplexityModel,
+  ComplexityFit,
+  ScalingPoint,
+} from '../../types/scaling-analysis'
+
+/** Complexity models ordered from the simplest one. */
+const COMPLEXITY_MODELS: ComplexityModel[] = [
+  'linear',
+  'linearithmic',
+  'quadratic',
+]
+
+/**
+ * Fits execution times of growing inputs to linear, linearithmic and quadratic
+ * models with simple linear regression on the model function of the size.
+ *
+ * @param points - Mean execution times by input size. At least two different
+ *   sizes are required.
+ * @returns Fits of all models, from the simplest one.
+ */
+export function fitComplexityModels(points: ScalingPoint[]): ComplexityFit[] {
+  return COMPLEXITY_MODELS.map(model => {
+    let xs = points.map(point => evaluateModel(model, point.size))
+    let ys = points.map(point => point.mean)
+    let meanX = average(xs)
+    let meanY = average(ys)
+
+    let covariance = 0
+    let varianceX = 0
+    for (let [index, x] of xs.entries()) {
+      covariance += (x - meanX) * (ys[index]! - meanY)
+      varianceX += (x - meanX) ** 2
+    }
+
+    let slope = varianceX > 0 ? covariance / varianceX : 0
+    let intercept = meanY - slope * meanX
+
+    let residualSum = 0
+    let totalSum = 0
+    for (let [index, y] of ys.entries()) {
+      residualSum += (y - intercept - slope * xs[index]!) ** 2
+      totalSum += (y - meanY) ** 2
+    }
+
+    return {
+      rSquared: totalSum > 0 ? 1 - residualSum / totalSum : 1,
+      intercept,
+      model,
+      slope,
+    }
+  })
+}
+
+/**
+ * Evaluates the function of a complexity model.
+ *
+ * @param model - The complexity model.
+ * @param size - Size of the input.
+ * @returns The value of the model function for the size.
+ */
+export function evaluateModel(model: ComplexityModel, size: number): number {
+  switch (model) {
+    case 'linearithmic':
+      return size * Math.log2(size)
+    case 'quadratic':
+      return size ** 2
+    case 'linear':
+      return size
+  }
+}
+
+/**
+ * Calculates the arithmetic mean of numbers.
+ *
+ * @param values - Numbers to average. Must not be empty.
+ * @returns The mean of the numbers.
+ */
+function average(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length
+}
@@ -0,0 +1,56 @@
+import path from 'node:path'
+
+import type { InlineCodeSample, CodeSample } from '../../types/test-case'
+import type { ExtensionMapping } from '../../types/user-benchmark-config'
+
+import { getLanguageByFileName } from '../utilities/get-language-by-file-name'
+import { isSupportedFile } from '../utilities/is-supported-file'
+
+/** Filename of a code sample declared as a plain string. */
+const DEFAULT_INLINE_FILENAME = 'inline.js'
+
+/**
+ * Creates code samples from code declared inline in the configuration.
+ *
+ * A string becomes a single JavaScript sample named `inline.js`. Named samples
+ * get the language inferred from their filename. Samples are linted as if they
+ * were located in the configuration directory, so path-based config blocks
+ * apply to them like to files.
+ *
+ * @example
+ *   const samples = createInlineCodeSamples(
+ *     [{ filename: 'button.tsx', code: 'let button = <button />' }],
+ *     configDirectory,
+ *   )
+ *
+ * @param code - The inline code of a case.
+ * @param configDirectory - The path to the user configuration directory.
+ * @param extensions - Optional custom extensions from the user configuration.
+ * @returns The code samples, in the order they are declared.
+ * @throws {Error} If a filename has an unsupported extension.
+ */
+export function createInlineCodeSamples(
+  code: InlineCodeSample[] | string,
+  configDirectory: string,
+  extensions?: Record<string, ExtensionMapping>,
+): CodeSample[] {
+  let inlineSamples =
+    typeof code === 'string'
+      ? [{ filename: DEFAULT_INLINE_FILENAME, code }]
+      : code
+
+  return inlineSamples.map(sample => {
+    if (!isSupportedFile(sample.filename, extensions)) {
+      throw new Error(
+        `Inline code sample "${sample.filename}" has an unsupported extension.`,
+      )
+    }
+
+    return {
+      language: getLanguageByFileName(sample.filename, extensions),
+      filePath: path.resolve(configDirectory, sample.filename),
+      filename: sample.filename,
+      code: sample.code,
+    }
+  })
+}
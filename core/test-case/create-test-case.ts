@@ -1,19 +1,55 @@
+import type { Linter } from 'eslint'
+
 import type { RuleConfig, CodeSample, TestCase } from '../../types/test-case'
+import type { ExtensionMapping } from '../../types/user-benchmark-config'
 
 /** Parameters for creating a test case for ESLint rule benchmarking. */
 interface CreateTestCaseParameters {
+  /**
+   * Custom extensions from the user configuration, needed to lint code samples
+   * with these extensions.
+   */
+  extensions?: Record<string, ExtensionMapping>
+
+  /**
+   * Language options merged into the ESLint config, such as `parserOptions` for
+   * type-aware linting.
+   */
+  languageOptions?: Linter.LanguageOptions
+
+  /**
+   * Shared settings available to the rule as `context.settings`, such as
+   * `react.version`.
+   */
+  settings?: Record<string, unknown>
+
   /**
    * Array of code samples to benchmark the ESLint rule against. Each sample
    * represents a piece of code that will be linted.
    */
   samples: CodeSample[]
 
+  /** ID of the processor applied to the code samples. */
+  processor?: string
+
+  /**
+   * ID of the ESLint language used for all code samples, such as
+   * "markdown/gfm".
+   */
+  language?: string
+
   /**
    * Configuration for the ESLint rule being tested. Includes rule ID, options,
    * and severity level.
    */
   rule: RuleConfig
 
+  /**
+   * Path to the parser module or name of the parser package. Replaces the
+   * parser derived from the languages of the samples.
+   */
+  parser?: string
+
   /**
    * Human-readable name for this test case. Typically follows format "Test Spec
    * Name - Case Description".
@@ -35,7 +71,13 @@ interface CreateTestCaseParameters {
  */
 export function createTestCase(parameters: CreateTestCaseParameters): TestCase {
   return {
+    languageOptions: parameters.languageOptions,
+    extensions: parameters.extensions,
+    processor: parameters.processor,
+    language: parameters.language,
+    settings: parameters.settings,
     samples: parameters.samples,
+    parser: parameters.parser,
     name: parameters.name,
     rule: parameters.rule,
     id: parameters.id,
@@ -0,0 +1,177 @@
+import type { Dirent } from 'node:fs'
+
+import fs from 'node:fs/promises'
+import path from 'node:path'
+
+import type { GitignoreRule } from './parse-gitignore'
+
+import { toPosixPath } from '../utilities/to-posix-path'
+import { parseGitignore } from './parse-gitignore'
+
+/** Directories that never contain code samples. */
+const IGNORED_DIRECTORIES = new Set(['node_modules', '.git'])
+
+/**
+ * Recursively finds all files in a directory.
+ *
+ * Patterns of `.gitignore` files in the directory, its subdirectories and its
+ * parent directories up to the root of the Git repository are respected, with
+ * patterns of deeper files taking precedence. `node_modules` and `.git`
+ * directories as well as symbolic links are skipped. Directories for which
+ * `isIgnored` returns true are not walked.
+ *
+ * Files are returned in a deterministic order: entries of every directory are
+ * sorted by name, and files of a subdirectory are placed where the subdirectory
+ * is.
+ *
+ * @param directory - The absolute path of the directory to walk.
+ * @param isIgnored - Optional predicate for files and directories to skip.
+ * @returns A promise that resolves to the absolute paths of the found files.
+ */
+export async function findFiles(
+  directory: string,
+  isIgnored: (filePath: string) => boolean = () => false,
+): Promise<string[]> {
+  return walkDirectory(
+    directory,
+    await collectParentRules(directory),
+    isIgnored,
+  )
+}
+
+/**
+ * Walks a directory, collecting the files that are not ignored.
+ *
+ * @param directory - The absolute path of the directory to walk.
+ * @param inheritedRules - Rules of the `.gitignore` files of the parent
+ *   directories.
+ * @param isIgnored - Predicate for files and directories to skip.
+ * @returns A promise that resolves to the absolute paths of the found files.
+ */
+async function walkDirectory(
+  directory: string,
+  inheritedRules: GitignoreRule[],
+  isIgnored: (filePath: string) => boolean,
+): Promise<string[]> {
+  let entries = await fs.readdir(directory, { withFileTypes: true })
+  let rules = inheritedRules
+
+  if (entries.some(entry => entry.isFile() && entry.name === '.gitignore')) {
+    let content = await fs.readFile(path.join(directory, '.gitignore'), 'utf8')
+    rules = [...inheritedRules, ...parseGitignore(content, directory)]
+  }
+
+  let sortedEntries = entries.toSorted((first, second) =>
+    compareNames(first, second),
+  )
+
+  let filesByEntry = await Promise.all(
+    sortedEntries.map(async entry => {
+      let entryPath = path.join(directory, entry.name)
+      let isDirectory = entry.isDirectory()
+
+      if (
+        (isDirectory && IGNORED_DIRECTORIES.has(entry.name)) ||
+        (!isDirectory && (!entry.isFile() || entry.name === '.gitignore')) ||
+        isIgnoredByGitignore(entryPath, isDirectory, rules) ||
+        isIgnored(entryPath)
+      ) {
+        return []
+      }
+
+      return isDirectory
+        ? walkDirectory(entryPath, rules, isIgnored)
+        : [entryPath]
+    }),
+  )
+
+  return filesByEntry.flat()
+}
+
+/**
+ * Collects the rules of the `.gitignore` files in the parent directories of a
+ * directory, up to the root of its Git repository. Outside of a repository, or
+ * if a parent directory cannot be read, no rules are collected.
+ *
+ * @param directory - The absolute path of the directory to walk.
+ * @returns A promise that resolves to the rules, outermost first.
+ */
+async function collectParentRules(directory: string): Promise<GitignoreRule[]> {
+  let rulesByDirectory: GitignoreRule[][] = []
+  let currentDirectory = directory
+
+  /* eslint-disable no-await-in-loop */
+  for (;;) {
+    let entries: Dirent[]
+    try {
+      entries = await fs.readdir(currentDirectory, { withFileTypes: true })
+    } catch {
+      return []
+    }
+
+    if (
+      currentDirectory !== directory &&
+      entries.some(entry => entry.isFile() && entry.name === '.gitignore')
+    ) {
+      let content = await fs.readFile(
+        path.join(currentDirectory, '.gitignore'),
+        'utf8',
+      )
+      rulesByDirectory.unshift(parseGitignore(content, currentDirectory))
+    }
+
+    if (entries.some(entry => entry.name === '.git')) {
+      return rulesByDirectory.flat()
+    }
+
+    let parentDirectory = path.dirname(currentDirectory)
+    if (parentDirectory === currentDirectory) {
+      return []
+    }
+    currentDirectory = parentDirectory
+  }
+  /* eslint-enable no-await-in-loop */
+}
+
+/**
+ * Checks whether a path is ignored by `.gitignore` rules. The last matching
+ * rule wins, so negated patterns can re-include paths.
+ *
+ * @param filePath - The absolute path of the file or directory.
+ * @param isDirectory - Whether the path is a directory.
+ * @param rules - The rules of all `.gitignore` files that apply to the path.
+ * @returns True if the path is ignored.
+ */
+function isIgnoredByGitignore(
+  filePath: string,
+  isDirectory: boolean,
+  rules: GitignoreRule[],
+): boolean {
+  let ignored = false
+
+  for (let rule of rules) {
+    if (rule.directoryOnly && !isDirectory) {
+      continue
+    }
+    if (
+      rule.pattern.test(toPosixPath(path.relative(rule.directory, filePath)))
+    ) {
+      ignored = !rule.negated
+    }
+  }
+
+  return ignored
+}
+
+/**
+ * Compares directory entries by name, independent of the locale. Entries of the
+ * same directory never share a name, so they are never equal.
+ *
+ * @param first - The first entry.
+ * @param second - The second entry.
+ * @returns A negative number if the first entry goes first, a positive number
+ *   if the second one does.
+ */
+function compareNames(first: Dirent, second: Dirent): number {
+  return first.name < second.name ? -1 : 1
+}
@@ -0,0 +1,23 @@
+import path from 'node:path'
+
+import type { CodeSample } from '../../types/test-case'
+
+/**
+ * Returns the path a code sample is linted by. Samples inside the current
+ * working directory are linted by their real absolute path, so type-aware rules
+ * can find them in the TypeScript program and path-based config blocks apply.
+ * ESLint ignores files outside its base path, so other samples fall back to
+ * their file name.
+ *
+ * @param sample - The code sample to lint.
+ * @returns The path to pass to `lintText` as `filePath`.
+ */
+export function getLintFilePath(sample: CodeSample): string {
+  let relativePath = path.relative(process.cwd(), sample.filePath)
+
+  if (relativePath.startsWith('..') || path.isAbsolute(relativePath)) {
+    return sample.filename
+  }
+
+  return sample.filePath
+}
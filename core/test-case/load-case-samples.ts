@@ -0,0 +1,48 @@
+import type { ExtensionMapping } from '../../types/user-benchmark-config'
+import type { CodeSample, Case } from '../../types/test-case'
+
+import { createScaledSamples } from '../scaling/create-scaled-samples'
+import { createInlineCodeSamples } from './create-inline-code-samples'
+import { loadCodeSamples } from './load-code-samples'
+
+/**
+ * Loads the code samples of a case: the files of its `testPath`, followed by
+ * its inline `code`. If the case has `scaling` enabled, every sample is
+ * replaced by inputs of growing size created from it.
+ *
+ * @param caseItem - The case to load the samples of.
+ * @param configDirectory - The path to the user configuration directory.
+ * @param extensions - Optional custom extensions from the user configuration.
+ * @returns A promise that resolves to the code samples of the case.
+ * @throws {Error} If the case has neither `testPath` nor `code`, or if its
+ *   samples cannot be loaded or scaled.
+ */
+export async function loadCaseSamples(
+  caseItem: Pick<Case, 'testPath' | 'maxFiles' | 'scaling' | 'ignore' | 'code'>,
+  configDirectory: string,
+  extensions?: Record<string, ExtensionMapping>,
+): Promise<CodeSample[]> {
+  if (!caseItem.testPath && !caseItem.code) {
+    throw new Error('Case must have "testPath" or "code".')
+  }
+
+  let samples = caseItem.testPath
+    ? await loadCodeSamples(caseItem.testPath, configDirectory, {
+        maxFiles: caseItem.maxFiles,
+        ignore: caseItem.ignore,
+        extensions,
+      })
+    : []
+
+  if (caseItem.code) {
+    samples.push(
+      ...createInlineCodeSamples(caseItem.code, configDirectory, extensions),
+    )
+  }
+
+  if (caseItem.scaling) {
+    return createScaledSamples(samples, caseItem.scaling)
+  }
+
+  return samples
+}
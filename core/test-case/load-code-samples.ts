@@ -0,0 +1,285 @@
+import type { Stats } from 'node:fs'
+
+import fs from 'node:fs/promises'
+import path from 'node:path'
+
+import type { ExtensionMapping } from '../../types/user-benchmark-config'
+import type { CodeSample } from '../../types/test-case'
+
+import { getLanguageByFileName } from '../utilities/get-language-by-file-name'
+import { isSupportedFile } from '../utilities/is-supported-file'
+import { globToRegExp } from '../utilities/glob-to-regexp'
+import { getGlobBase } from '../utilities/get-glob-base'
+import { toPosixPath } from '../utilities/to-posix-path'
+import { isGlob } from '../utilities/is-glob'
+import { findFiles } from './find-files'
+
+/** Options for loading code samples. */
+interface LoadCodeSamplesOptions {
+  /** Custom extensions from the user configuration. */
+  extensions?: Record<string, ExtensionMapping>
+
+  /**
+   * Glob patterns of files and directories to skip, relative to the
+   * configuration directory.
+   */
+  ignore?: string[] | string
+
+  /** Maximum number of files to load. Further files are skipped. */
+  maxFiles?: number
+}
+
+/** A file found for a test path. */
+interface FoundFile {
+  /** Name of the file, relative to the searched directory. */
+  filename: string
+
+  /** Absolute path of the file. */
+  filePath: string
+}
+
+/** Maximum number of skipped files listed in a warning. */
+const MAX_LISTED_FILES = 5
+
+/**
+ * Asynchronously loads code samples from a specified path or an array of paths.
+ *
+ * This function processes each given path. If a path points to a directory, it
+ * recursively reads files with supported extensions within that directory and
+ * its subdirectories, respecting `.gitignore` files. If a path is a glob
+ * pattern such as `src/**\/*.tsx`, files matching the pattern are read. If a
+ * path points to a file with a supported extension, it reads that file. The
+ * content of each valid file is read, and a CodeSample object is created,
+ * including its content, filename, and determined language. Files found in a
+ * directory are named by their path relative to that directory. Unsupported
+ * files or paths leading to errors are skipped with a console warning. Custom
+ * extensions from the user configuration are supported in addition to the
+ * built-in ones.
+ *
+ * Files matching the `ignore` patterns are skipped while searching directories
+ * and globs. Samples are returned in a deterministic order: in the order of the
+ * paths, and sorted by path within a directory. Files found by several paths
+ * are loaded once. If `maxFiles` is set, only the first files are loaded.
+ *
+ * @example
+ *   const samples = await loadCodeSamples('./src/my-rule/test-cases/')
+ *   const specificSamples = await loadCodeSamples([
+ *     './src/a.js',
+ *     './src/b.ts',
+ *   ])
+ *   const componentSamples = await loadCodeSamples('./src/**\/*.tsx', '.', {
+ *     ignore: '**\/*.test.tsx',
+ *     maxFiles: 100,
+ *   })
+ *
+ * @param testPath - A single path (string) or an array of paths to files or
+ *   directories containing code samples, or glob patterns.
+ * @param configDirectory - The path to the user configuration directory.
+ * @param options - Optional custom extensions, ignore patterns and file limit.
+ * @returns A promise that resolves to an array of CodeSample objects. Each
+ *   object represents a successfully loaded code sample.
+ * @throws {Error} If no supported source files are found across all provided
+ *   paths, or if no valid code samples could be loaded from the found files.
+ */
+export async function loadCodeSamples(
+  testPath: string[] | string,
+  configDirectory: string,
+  options: LoadCodeSamplesOptions = {},
+): Promise<CodeSample[]> {
+  let { extensions, maxFiles, ignore } = options
+  let pathsToProcess = Array.isArray(testPath) ? testPath : [testPath]
+  let isIgnored = createIgnoreMatcher(ignore ?? [], configDirectory)
+
+  let fileArrays = await Promise.all(
+    pathsToProcess.map(async currentPath => {
+      let filesForCurrentPath: FoundFile[] = []
+      try {
+        let resolvedPath = path.resolve(configDirectory, currentPath)
+        let stats = await getStats(resolvedPath, isGlob(currentPath))
+
+        if (!stats || stats.isDirectory()) {
+          let root = stats
+            ? resolvedPath
+            : path.resolve(configDirectory, getGlobBase(currentPath))
+          let matchesGlob = stats
+            ? () => true
+            : createPathMatcher(currentPath, configDirectory)
+          let unsupportedFiles: string[] = []
+
+          for (let filePath of await findFiles(root, isIgnored)) {
+            if (!matchesGlob(filePath)) {
+              continue
+            }
+            let filename = toPosixPath(path.relative(root, filePath))
+            if (isSupportedFile(filePath, extensions)) {
+              filesForCurrentPath.push({ filePath, filename })
+            } else {
+              unsupportedFiles.push(filename)
+            }
+          }
+          if (unsupportedFiles.length > 0) {
+            console.warn(
+              `Warning: Skipping ${unsupportedFiles.length} file(s) with unsupported extensions in ${currentPath}: ${formatFileList(unsupportedFiles)}. Map their extensions to a language with "extensions" in the config.`,
+            )
+          }
+        } else if (stats.isFile()) {
+          if (isSupportedFile(resolvedPath, extensions)) {
+            filesForCurrentPath.push({
+              filename: path.basename(resolvedPath),
+              filePath: resolvedPath,
+            })
+          } else {
+            console.warn(
+              `Warning: Skipping ${currentPath} with an unsupported extension. Map its extension to a language with "extensions" in the config.`,
+            )
+          }
+        }
+      } catch (error: unknown) {
+        if (error instanceof Error) {
+          console.warn(
+            `Warning: Could not process path ${currentPath}: ${error.message}. Skipping.`,
+          )
+        } else {
+          console.warn(
+            `Warning: Could not process path ${currentPath}: ${String(error)}. Skipping.`,
+          )
+        }
+      }
+      return filesForCurrentPath
+    }),
+  )
+
+  let filesByPath = new Map<string, FoundFile>()
+  for (let file of fileArrays.flat()) {
+    if (!filesByPath.has(file.filePath)) {
+      filesByPath.set(file.filePath, file)
+    }
+  }
+  let sourceFiles = [...filesByPath.values()]
+
+  if (sourceFiles.length === 0) {
+    throw new Error(
+      `No supported source files found for testPath: ${JSON.stringify(testPath)}`,
+    )
+  }
+
+  if (maxFiles !== undefined && sourceFiles.length > maxFiles) {
+    console.warn(
+      `Warning: Found ${sourceFiles.length} files for testPath ${JSON.stringify(testPath)}, loading only the first ${maxFiles} ("maxFiles").`,
+    )
+    sourceFiles = sourceFiles.slice(0, maxFiles)
+  }
+
+  let loadedSamples = await Promise.all(
+    sourceFiles.map(async ({ filePath, filename }) => {
+      try {
+        let code = await fs.readFile(filePath, 'utf8')
+        return {
+          language: getLanguageByFileName(filePath, extensions),
+          filename,
+          filePath,
+          code,
+        }
+      } catch (error: unknown) {
+        if (error instanceof Error) {
+          console.warn(
+            `Warning: Skipping file ${filePath} due to read error: ${error.message}`,
+          )
+        } else {
+          console.warn(
+            `Warning: Skipping file ${filePath} due to read error: ${String(error)}`,
+          )
+        }
+        return null
+      }
+    }),
+  )
+  let codeSamples = loadedSamples.filter(
+    (sample): sample is CodeSample => sample !== null,
+  )
+
+  if (codeSamples.length === 0) {
+    throw new Error(
+      `No valid code samples could be loaded from testPath: ${JSON.stringify(testPath)}`,
+    )
+  }
+  return codeSamples
+}
+
+/**
+ * Creates a function that checks whether an absolute path matches a glob
+ * pattern. Relative patterns are matched against the path relative to the
+ * configuration directory.
+ *
+ * @param pattern - The glob pattern.
+ * @param configDirectory - The path to the user configuration directory.
+ * @returns A function that returns true if a path matches the pattern.
+ */
+function createPathMatcher(
+  pattern: string,
+  configDirectory: string,
+): (filePath: string) => boolean {
+  let isAbsolute = path.isAbsolute(pattern)
+  let regExp = globToRegExp(path.posix.normalize(toPosixPath(pattern)))
+  return filePath =>
+    regExp.test(
+      toPosixPath(
+        isAbsolute ? filePath : path.relative(configDirectory, filePath),
+      ),
+    )
+}
+
+/**
+ * Creates a function that checks whether an absolute path matches any of the
+ * ignore patterns.
+ *
+ * @param ignore - Glob patterns of files and directories to skip.
+ * @param configDirectory - The path to the user configuration directory.
+ * @returns A function that returns true if a path is ignored.
+ */
+function createIgnoreMatcher(
+  ignore: string[] | string,
+  configDirectory: string,
+): (filePath: string) => boolean {
+  let matchers = (Array.isArray(ignore) ? ignore : [ignore]).map(pattern =>
+    createPathMatcher(pattern, configDirectory),
+  )
+  return filePath => matchers.some(matches => matches(filePath))
+}
+
+/**
+ * Formats a list of files for a warning, listing only the first files.
+ *
+ * @param files - The names of the files.
+ * @returns The names joined by commas.
+ */
+function formatFileList(files: string[]): string {
+  let listedFiles = files.slice(0, MAX_LISTED_FILES).join(', ')
+  return files.length > MAX_LISTED_FILES
+    ? `${listedFiles} and ${files.length - MAX_LISTED_FILES} more`
+    : listedFiles
+}
+
+/**
+ * Get the stats of a path. Paths that do not exist but are glob patterns
+ * resolve to null, so that literal files with glob characters in their names,
+ * such as `[id].tsx`, still take precedence over the pattern.
+ *
+ * @param filePath - The absolute path.
+ * @param isPattern - Whether the path is a glob pattern.
+ * @returns A promise that resolves to the stats, or null for glob patterns.
+ * @throws {Error} If the path does not exist and is not a glob pattern.
+ */
+async function getStats(
+  filePath: string,
+  isPattern: boolean,
+): Promise<Stats | null> {
+  try {
+    return await fs.stat(filePath)
+  } catch (error) {
+    if (isPattern) {
+      return null
+    }
+    throw error
+  }
+}
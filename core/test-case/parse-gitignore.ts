@@ -0,0 +1,68 @@
+import { globToRegExp } from '../utilities/glob-to-regexp'
+
+/** A single pattern of a `.gitignore` file. */
+export interface GitignoreRule {
+  /** Whether the pattern only matches directories (ends with a slash). */
+  directoryOnly: boolean
+
+  /** Directory of the `.gitignore` file the pattern is relative to. */
+  directory: string
+
+  /** Whether the pattern re-includes matching paths (starts with `!`). */
+  negated: boolean
+
+  /** Matches paths relative to the directory, with forward slashes. */
+  pattern: RegExp
+}
+
+/**
+ * Parses the content of a `.gitignore` file.
+ *
+ * Blank lines and comments are skipped. A leading `!` negates the pattern, a
+ * trailing slash restricts it to directories. Patterns with a slash at the
+ * beginning or in the middle are relative to the directory of the file, other
+ * patterns match at any depth, as in Git.
+ *
+ * @param content - The content of the `.gitignore` file.
+ * @param directory - The directory containing the `.gitignore` file.
+ * @returns The rules of the file, in the order they are defined.
+ */
+export function parseGitignore(
+  content: string,
+  directory: string,
+): GitignoreRule[] {
+  let rules: GitignoreRule[] = []
+
+  for (let line of content.split(/\r?\n/u)) {
+    let pattern = line.trimEnd()
+    if (!pattern || pattern.startsWith('#')) {
+      continue
+    }
+
+    let negated = pattern.startsWith('!')
+    if (negated || pattern.startsWith('\\')) {
+      pattern = pattern.slice(1)
+    }
+
+    let directoryOnly = pattern.endsWith('/')
+    if (directoryOnly) {
+      pattern = pattern.slice(0, -1)
+    }
+    if (!pattern) {
+      continue
+    }
+
+    pattern = pattern.includes('/')
+      ? pattern.replace(/^\//u, '')
+      : `**/${pattern}`
+
+    rules.push({
+      pattern: globToRegExp(pattern),
+      directoryOnly,
+      directory,
+      negated,
+    })
+  }
+
+  return rules
+}
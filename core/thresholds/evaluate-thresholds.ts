@@ -0,0 +1,91 @@
+import type { TestSpecResult } from '../../types/benchmark-config'
+
+/** A sample that exceeded one of the configured performance budgets. */
+interface ThresholdViolation {
+  /** The threshold that was exceeded. */
+  threshold: 'maxRegressionPercent' | 'maxMeanMs'
+
+  /** Name of the test specification the sample belongs to. */
+  testSpecName: string
+
+  /** Full name of the benchmark task (e.g. "Case 1 on sample.js"). */
+  sampleName: string
+
+  /** Human-readable description of the violation. */
+  message: string
+
+  /** Measured value (milliseconds or percent, depending on the threshold). */
+  actual: number
+
+  /** Configured limit (milliseconds or percent, depending on the threshold). */
+  limit: number
+}
+
+/**
+ * Checks every sample against the thresholds configured for its test
+ * specification.
+ *
+ * - `maxMeanMs` is compared with the mean execution time of the sample.
+ * - `maxRegressionPercent` is compared with the relative change of the mean
+ *   execution time against the baseline. Samples without a baseline comparison
+ *   are not checked.
+ *
+ * @example
+ *   const violations = evaluateThresholds(results)
+ *   if (violations.length > 0) {
+ *     process.exitCode = 1
+ *   }
+ *
+ * @param results - Results of all test specifications, with thresholds stored
+ *   in their benchmark configuration.
+ * @returns An array of threshold violations. Empty if all samples are within
+ *   their budgets.
+ */
+export function evaluateThresholds(
+  results: TestSpecResult[],
+): ThresholdViolation[] {
+  let violations: ThresholdViolation[] = []
+
+  for (let testSpecResult of results) {
+    let { thresholds } = testSpecResult.benchmarkConfig
+    if (!thresholds) {
+      continue
+    }
+
+    for (let testCaseResult of testSpecResult.testCaseResults) {
+      for (let sampleResult of testCaseResult.samplesResults) {
+        let { mean } = sampleResult.metrics
+
+        if (thresholds.maxMeanMs !== undefined && mean > thresholds.maxMeanMs) {
+          violations.push({
+            message: `mean time ${mean.toFixed(3)} ms exceeds "maxMeanMs" of ${thresholds.maxMeanMs} ms`,
+            testSpecName: testSpecResult.name,
+            sampleName: sampleResult.name,
+            limit: thresholds.maxMeanMs,
+            threshold: 'maxMeanMs',
+            actual: mean,
+          })
+        }
+
+        let regressionPercent = sampleResult.comparison?.mean.percent
+
+        if (
+          thresholds.maxRegressionPercent !== undefined &&
+          typeof regressionPercent === 'number' &&
+          regressionPercent > thresholds.maxRegressionPercent
+        ) {
+          violations.push({
+            message: `mean time regressed by ${regressionPercent.toFixed(1)}%, exceeding "maxRegressionPercent" of ${thresholds.maxRegressionPercent}%`,
+            limit: thresholds.maxRegressionPercent,
+            threshold: 'maxRegressionPercent',
+            testSpecName: testSpecResult.name,
+            sampleName: sampleResult.name,
+            actual: regressionPercent,
+          })
+        }
+      }
+    }
+  }
+
+  return violations
+}
@@ -0,0 +1,21 @@
+import type { LANGUAGES } from '../../constants'
+
+import { getLanguageByFileName } from './get-language-by-file-name'
+import { SUPPORTED_EXTENSIONS } from '../../constants'
+
+type Language = (typeof LANGUAGES)[number]
+
+/**
+ * Get the supported file extensions that belong to a language.
+ *
+ * @example
+ *   getExtensionsByLanguage('typescript') // ['ts', 'mts', 'cts']
+ *
+ * @param language - The language to get the extensions for.
+ * @returns The extensions of the language without the leading dot.
+ */
+export function getExtensionsByLanguage(language: Language): string[] {
+  return SUPPORTED_EXTENSIONS.filter(
+    extension => getLanguageByFileName(`file.${extension}`) === language,
+  )
+}
@@ -0,0 +1,23 @@
+import { isGlob } from './is-glob'
+
+/**
+ * Get the static part of a glob pattern: the leading path segments without glob
+ * syntax. Files matching the pattern can only be found in this directory.
+ *
+ * @example
+ *   getGlobBase('src/**\/*.tsx') // 'src'
+ *   getGlobBase('*.ts') // '.'
+ *
+ * @param pattern - Pattern with forward slashes, such as `src/**\/*.ts`.
+ * @returns The directory to search for matching files.
+ */
+export function getGlobBase(pattern: string): string {
+  let segments = pattern.split('/')
+  let globIndex = segments.findIndex(segment => isGlob(segment))
+  let base = segments.slice(0, globIndex === -1 ? -1 : globIndex).join('/')
+
+  if (base === '' && pattern.startsWith('/')) {
+    return '/'
+  }
+  return base || '.'
+}
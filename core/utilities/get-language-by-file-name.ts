@@ -1,3 +1,4 @@
+import type { ExtensionMapping } from '../../types/user-benchmark-config'
 import type { SUPPORTED_EXTENSIONS, LANGUAGES } from '../../constants'
 
 import { isSupportedExtension } from './is-supported-extension'
@@ -24,6 +25,13 @@ let extensionMap = {
   ts: 'typescript',
   svelte: 'svelte',
   astro: 'astro',
+  jsonc: 'jsonc',
+  json5: 'json5',
+  md: 'markdown',
+  json: 'json',
+  yaml: 'yaml',
+  yml: 'yaml',
+  css: 'css',
   vue: 'vue',
 } satisfies Record<Extensions, Language>
 
@@ -31,12 +39,22 @@ let extensionMap = {
  * Get the language of a file based on its extension.
  *
  * @param filePath - The path to the file.
+ * @param extensions - Optional custom extensions from the user configuration.
+ *   They take precedence over the built-in extensions.
  * @returns The language of the file or 'javascript' if the extension is not
  *   supported.
  */
-export function getLanguageByFileName(filePath: string): Language {
+export function getLanguageByFileName(
+  filePath: string,
+  extensions?: Record<string, ExtensionMapping>,
+): Language {
   let extension = getFileExtension(filePath)
 
+  let customMapping = extensions?.[`.${extension}`]
+  if (customMapping) {
+    return customMapping.language
+  }
+
   if (isSupportedExtension(extension)) {
     return extensionMap[extension]
   }
@@ -0,0 +1,96 @@
+/** Characters with a special meaning in regular expressions. */
+const REGEXP_SYNTAX_CHARACTERS = new Set(String.raw`$()*+.?[\]^{|}`)
+
+/**
+ * Converts a glob pattern to a regular expression that matches whole paths with
+ * forward slashes.
+ *
+ * Supported syntax: `*` matches any characters except `/`, `**` matches any
+ * number of directories, `?` matches a single character except `/`, `[abc]` and
+ * `[!abc]` match a character from a set, and `{a,b}` matches one of the
+ * alternatives.
+ *
+ * @example
+ *   globToRegExp('src/**\/*.{ts,tsx}').test('src/components/button.tsx') // true
+ *
+ * @param pattern - Pattern with forward slashes, such as `src/**\/*.ts`.
+ * @returns A regular expression matching the paths described by the pattern.
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = ''
+  let braceDepth = 0
+  let index = 0
+
+  while (index < pattern.length) {
+    let character = pattern[index]!
+
+    if (character === '*' && pattern[index + 1] === '*') {
+      let startsSegment = index === 0 || pattern[index - 1] === '/'
+      if (startsSegment && pattern[index + 2] === '/') {
+        source += '(?:.*/)?'
+        index += 3
+      } else {
+        source += '.*'
+        index += 2
+      }
+      continue
+    }
+
+    let closingIndex = pattern.indexOf(']', index + 2)
+    if (character === '[' && closingIndex !== -1) {
+      let set = pattern.slice(index + 1, closingIndex)
+      let negated = set.startsWith('!')
+      source += `[${negated ? '^' : ''}${escapeSet(negated ? set.slice(1) : set)}]`
+      index = closingIndex + 1
+      continue
+    }
+
+    switch (character) {
+      case '}':
+        source += braceDepth > 0 ? ')' : escapeCharacter(character)
+        braceDepth = Math.max(braceDepth - 1, 0)
+        break
+      case ',':
+        source += braceDepth > 0 ? '|' : character
+        break
+      case '{':
+        braceDepth++
+        source += '(?:'
+        break
+      case '*':
+        source += '[^/]*'
+        break
+      case '?':
+        source += '[^/]'
+        break
+      default:
+        source += escapeCharacter(character)
+    }
+    index++
+  }
+
+  return new RegExp(`^${source}${')'.repeat(braceDepth)}$`, 'u')
+}
+
+/**
+ * Escapes the characters of a glob set, so they can be used in a character
+ * class of a regular expression. Ranges such as `a-z` are kept.
+ *
+ * @param set - The characters between the square brackets.
+ * @returns The escaped characters.
+ */
+function escapeSet(set: string): string {
+  return [...set]
+    .map(character => (character === '-' ? '-' : escapeCharacter(character)))
+    .join('')
+}
+
+/**
+ * Escapes a character with a special meaning in regular expressions.
+ *
+ * @param character - The character to escape.
+ * @returns The escaped character.
+ */
+function escapeCharacter(character: string): string {
+  return REGEXP_SYNTAX_CHARACTERS.has(character) ? `\\${character}` : character
+}
@@ -0,0 +1,13 @@
+/**
+ * Checks whether a path contains glob syntax: `*`, `?`, `[...]` or `{...}`.
+ *
+ * @example
+ *   isGlob('src/**\/*.tsx') // true
+ *   isGlob('src/index.ts') // false
+ *
+ * @param value - The path to check.
+ * @returns True if the path is a glob pattern.
+ */
+export function isGlob(value: string): boolean {
+  return /[*?[{]/u.test(value)
+}
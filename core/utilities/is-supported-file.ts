@@ -0,0 +1,21 @@
+import type { ExtensionMapping } from '../../types/user-benchmark-config'
+
+import { isSupportedExtension } from './is-supported-extension'
+import { getFileExtension } from './get-file-extension'
+
+/**
+ * Checks whether a file has a built-in or a custom extension.
+ *
+ * @param fileName - The name or path of the file.
+ * @param extensions - Optional custom extensions from the user configuration.
+ * @returns True if code samples can be loaded from the file.
+ */
+export function isSupportedFile(
+  fileName: string,
+  extensions?: Record<string, ExtensionMapping>,
+): boolean {
+  let extension = getFileExtension(fileName)
+  return (
+    isSupportedExtension(extension) || Boolean(extensions?.[`.${extension}`])
+  )
+}
@@ -0,0 +1,12 @@
+import path from 'node:path'
+
+/**
+ * Converts a path of the current platform to a path with forward slashes, as
+ * used by glob and `.gitignore` patterns.
+ *
+ * @param filePath - The path to convert.
+ * @returns The path with forward slashes.
+ */
+export function toPosixPath(filePath: string): string {
+  return filePath.split(path.sep).join('/')
+}
@@ -3,9 +3,17 @@ import type { KnipConfig } from 'knip'
 export default {
   ignoreDependencies: [
     '@typescript-eslint/parser',
+    'yaml-eslint-parser',
+    '@eslint/markdown',
+    '@eslint/json',
+    '@eslint/css',
     'astro-eslint-parser',
     'svelte-eslint-parser',
     'vue-eslint-parser',
   ],
-  entry: ['cli/index.ts', 'core/index.ts'],
+  entry: [
+    'cli/index.ts',
+    'core/index.ts',
+    'core/isolation/benchmark-worker.ts',
+  ],
 } satisfies KnipConfig
@@ -3,6 +3,7 @@ import type { UserBenchmarkConfig } from '../types/user-benchmark-config'
 
 import { useMarkdownReport } from './use-markdown-report'
 import { useConsoleReport } from './use-console-report'
+import { useHtmlReport } from './use-html-report'
 import { useJsonReport } from './use-json-report'
 
 /** Registry of available reporters. */
@@ -13,6 +14,7 @@ let reporters: Record<
   markdown: useMarkdownReport,
   console: useConsoleReport,
   json: useJsonReport,
+  html: useHtmlReport,
 }
 
 /**
@@ -0,0 +1,21 @@
+const HTML_ENTITIES: Record<string, string> = {
+  '"': '&quot;',
+  '&': '&amp;',
+  "'": '&#39;',
+  '<': '&lt;',
+  '>': '&gt;',
+}
+
+/**
+ * Escapes characters that have a special meaning in HTML, so that the value can
+ * be safely inserted into element content and attribute values.
+ *
+ * @example
+ *   escapeHtml('<Program:exit>') // '&lt;Program:exit&gt;'
+ *
+ * @param value - The text to escape.
+ * @returns The escaped text.
+ */
+export function escapeHtml(value: string): string {
+  return value.replaceAll(/["&'<>]/gu, character => HTML_ENTITIES[character]!)
+}
@@ -0,0 +1,29 @@
+const BYTE_UNITS = ['B', 'KB', 'MB', 'GB'] as const
+
+const BYTES_PER_UNIT = 1024
+
+/**
+ * Formats a number of bytes into a human-readable string using binary multiples
+ * (e.g. "512 B", "1.5 KB" or "12.3 MB").
+ *
+ * @param bytes - The number of bytes to format.
+ * @returns A string representation of the formatted size.
+ */
+export function formatBytes(bytes?: number): string {
+  if (typeof bytes !== 'number' || !Number.isFinite(bytes)) {
+    return 'N/A'
+  }
+
+  let value = bytes
+  let unitIndex = 0
+  while (
+    Math.abs(value) >= BYTES_PER_UNIT &&
+    unitIndex < BYTE_UNITS.length - 1
+  ) {
+    value /= BYTES_PER_UNIT
+    unitIndex++
+  }
+
+  let formatted = unitIndex === 0 ? Math.round(value) : value.toFixed(1)
+  return `${formatted} ${BYTE_UNITS[unitIndex]}`
+}
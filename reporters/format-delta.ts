@@ -0,0 +1,28 @@
+import type { MetricDelta } from '../types/baseline-comparison'
+
+/**
+ * Formats the change of a metric relative to the baseline, showing both the
+ * absolute and the relative change (e.g. "+0.012 ms (+4.3%)").
+ *
+ * @param delta - The change of the metric. If missing, returns 'N/A'.
+ * @param formatValue - Formatter for the absolute change (e.g. `formatMs`).
+ * @returns A string representation of the change.
+ */
+export function formatDelta(
+  delta: MetricDelta | undefined,
+  formatValue: (value: number) => string,
+): string {
+  if (!delta || !Number.isFinite(delta.difference)) {
+    return 'N/A'
+  }
+
+  let sign = delta.difference < 0 ? '-' : '+'
+  let formatted = `${sign}${formatValue(Math.abs(delta.difference))}`
+
+  if (delta.percent === null || !Number.isFinite(delta.percent)) {
+    return formatted
+  }
+
+  let percentSign = delta.percent < 0 ? '-' : '+'
+  return `${formatted} (${percentSign}${Math.abs(delta.percent).toFixed(1)}%)`
+}
@@ -0,0 +1,19 @@
+/**
+ * Formats the table row of a sample that failed before the measurements. The
+ * first metric column marks the sample as failed and all other columns are
+ * 'N/A', so the row cannot be mistaken for a very fast sample.
+ *
+ * @param sampleName - Name of the sample for the first column.
+ * @param columnCount - Number of columns in the table.
+ * @returns Values of the table row.
+ */
+export function formatFailedRow(
+  sampleName: string,
+  columnCount: number,
+): string[] {
+  return [
+    sampleName,
+    'Failed',
+    ...Array.from({ length: columnCount - 2 }, () => 'N/A'),
+  ]
+}
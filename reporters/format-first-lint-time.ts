@@ -0,0 +1,12 @@
+import { formatMs } from './format-ms'
+
+/**
+ * Formats the time of the first, cold lint of a test case.
+ *
+ * @param firstLintTime - Time of the first lint in milliseconds, or undefined
+ *   if it was not measured.
+ * @returns Formatted time, or 'N/A' if not measured.
+ */
+export function formatFirstLintTime(firstLintTime?: number): string {
+  return firstLintTime === undefined ? 'N/A' : formatMs(firstLintTime)
+}
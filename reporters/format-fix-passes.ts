@@ -0,0 +1,10 @@
+/**
+ * Formats the number of passes ESLint needed to fix a sample.
+ *
+ * @param fixPasses - Number of passes, or undefined if the sample was linted
+ *   without fixes.
+ * @returns Formatted number of passes, or 'N/A' if fixes were not applied.
+ */
+export function formatFixPasses(fixPasses?: number): string {
+  return fixPasses === undefined ? 'N/A' : String(fixPasses)
+}
@@ -0,0 +1,19 @@
+import type { BenchmarkMetrics } from '../types/benchmark-metrics'
+
+import { formatMs } from './format-ms'
+
+/**
+ * Formats the number of garbage collections together with the time spent in
+ * them (e.g. "12 (3.456 ms)").
+ *
+ * @param metrics - The benchmark metrics of a sample.
+ * @returns A string representation of the garbage collection metrics, or 'N/A'
+ *   if they were not measured.
+ */
+export function formatGc(metrics: BenchmarkMetrics): string {
+  if (metrics.gcCount === undefined) {
+    return 'N/A'
+  }
+
+  return `${metrics.gcCount} (${formatMs(metrics.gcDurationMs)})`
+}
@@ -0,0 +1,21 @@
+import type { LintMessageCounts } from '../types/lint-message-counts'
+
+/**
+ * Formats the problems the rule reported for a sample as errors, warnings,
+ * fixable problems and problems with suggestions, separated by slashes.
+ *
+ * @param messages - Counts of the reported problems, or undefined if they were
+ *   not collected.
+ * @returns Formatted counts, or 'N/A' if they were not collected.
+ */
+export function formatLintMessages(messages?: LintMessageCounts): string {
+  if (!messages) {
+    return 'N/A'
+  }
+  return [
+    messages.errors,
+    messages.warnings,
+    messages.fixable,
+    messages.suggestions,
+  ].join('/')
+}
@@ -0,0 +1,22 @@
+import type { RankedRule } from '../types/plugin-ranking'
+
+import { formatMs } from './format-ms'
+
+/**
+ * Formats a rule of a plugin ranking into table row values: the position in the
+ * ranking, rule ID, total time, average time per sample and share of the total
+ * time of the plugin.
+ *
+ * @param rule - Ranked rule of the plugin.
+ * @param index - Zero-based position of the rule in the ranking.
+ * @returns Array of formatted values for the ranking row.
+ */
+export function formatRankedRuleRow(rule: RankedRule, index: number): string[] {
+  return [
+    String(index + 1),
+    rule.ruleId,
+    formatMs(rule.totalTime),
+    formatMs(rule.averageTime),
+    `${rule.percentOfTotal.toFixed(1)}%`,
+  ]
+}
@@ -0,0 +1,13 @@
+/**
+ * Formats the relative margin of error of the mean of a sample as a percentage.
+ *
+ * @param rme - Relative margin of error as a fraction, or undefined if the
+ *   sample was not measured until a target precision.
+ * @returns Formatted margin of error, or 'N/A' if it is unknown.
+ */
+export function formatRelativeMarginOfError(rme?: number): string {
+  if (rme === undefined || !Number.isFinite(rme)) {
+    return 'N/A'
+  }
+  return `±${(rme * 100).toFixed(2)}%`
+}
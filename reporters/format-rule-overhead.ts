@@ -0,0 +1,50 @@
+import type { RuleOverhead } from '../types/rule-overhead'
+
+import { formatMs } from './format-ms'
+
+/**
+ * Formats the rule overhead of a sample into table row values: the mean time of
+ * the control run, the mean time spent in the rule with its share of the total
+ * time, and the median time spent in the rule.
+ *
+ * @example
+ *   formatRuleOverhead({
+ *     controlMean: 1,
+ *     controlMedian: 1,
+ *     percent: 33.3,
+ *     median: 0.4,
+ *     mean: 0.5,
+ *   })
+ *   // ['1.000 ms', '0.500 ms (33.3%)', '0.400 ms']
+ *
+ * @param overhead - The rule overhead, or undefined if it was not measured.
+ * @returns Array of formatted values, or 'N/A' values if not measured.
+ */
+export function formatRuleOverhead(overhead?: RuleOverhead): string[] {
+  if (!overhead) {
+    return ['N/A', 'N/A', 'N/A']
+  }
+
+  let mean = formatSignedMs(overhead.mean)
+
+  return [
+    formatMs(overhead.controlMean),
+    overhead.percent === null
+      ? mean
+      : `${mean} (${overhead.percent.toFixed(1)}%)`,
+    formatSignedMs(overhead.median),
+  ]
+}
+
+/**
+ * Formats milliseconds that can be negative when the rule is cheaper than the
+ * measurement noise.
+ *
+ * @param milliseconds - The number of milliseconds.
+ * @returns Formatted milliseconds with a leading minus sign if negative.
+ */
+function formatSignedMs(milliseconds: number): string {
+  return milliseconds < 0
+    ? `-${formatMs(Math.abs(milliseconds))}`
+    : formatMs(milliseconds)
+}
@@ -0,0 +1,57 @@
+import type {
+  ScalingAnalysis,
+  ComplexityModel,
+} from '../types/scaling-analysis'
+
+/** Terms of the input size in the complexity models. */
+const MODEL_TERMS: Record<ComplexityModel, string> = {
+  linearithmic: 'n log n',
+  quadratic: 'n²',
+  linear: 'n',
+}
+
+/**
+ * Formats the scaling analysis of a sample into table row values: the sample,
+ * the complexity of the best fitting model, its fitted curve, the coefficient
+ * of determination and how the time grows.
+ *
+ * @param analysis - Scaling analysis of a source sample.
+ * @returns Array of formatted values for the scaling row.
+ */
+export function formatScalingRow(analysis: ScalingAnalysis): string[] {
+  let { intercept, rSquared, model, slope } = analysis.bestFit
+  let sign = intercept < 0 ? '−' : '+'
+
+  return [
+    analysis.sample,
+    `O(${MODEL_TERMS[model]})`,
+    `${formatCoefficient(slope)} × ${MODEL_TERMS[model]} ${sign} ${formatCoefficient(Math.abs(intercept))}`,
+    rSquared.toFixed(3),
+    formatGrowth(analysis),
+  ]
+}
+
+/**
+ * Formats how the time of a sample grows. A super-linear model that fits poorly
+ * is not flagged, so its growth is inconclusive.
+ *
+ * @param analysis - Scaling analysis of a source sample.
+ * @returns The growth of the time with the input size.
+ */
+function formatGrowth(analysis: ScalingAnalysis): string {
+  if (analysis.superLinear) {
+    return 'Super-linear'
+  }
+  return analysis.bestFit.model === 'linear' ? 'Linear' : 'Inconclusive'
+}
+
+/**
+ * Formats a coefficient of a fitted curve in milliseconds with three
+ * significant digits, so that small per-element costs stay visible.
+ *
+ * @param value - The coefficient in milliseconds.
+ * @returns The formatted coefficient.
+ */
+function formatCoefficient(value: number): string {
+  return `${Number(value.toPrecision(3))} ms`
+}
@@ -0,0 +1,23 @@
+import type { SignificanceResult } from '../types/baseline-comparison'
+
+/**
+ * Formats the verdict of a significance test together with its p-value (e.g.
+ * "slower (p=0.012)" or "no change (p=0.430)").
+ *
+ * @param significance - The significance result. If missing, returns 'N/A'.
+ * @returns A string representation of the verdict.
+ */
+export function formatSignificance(
+  significance: SignificanceResult | undefined,
+): string {
+  if (!significance) {
+    return 'N/A'
+  }
+
+  let pValue =
+    significance.pValue < 0.001
+      ? 'p<0.001'
+      : `p=${significance.pValue.toFixed(3)}`
+
+  return `${significance.verdict} (${pValue})`
+}
@@ -0,0 +1,21 @@
+import type { VisitorProfile } from '../types/visitor-profile'
+
+import { formatNumber } from './format-number'
+import { formatMs } from './format-ms'
+
+/**
+ * Formats the profile of a single rule listener into table row values: the
+ * selector, calls per lint run, time per lint run and share of the total
+ * listener time.
+ *
+ * @param visitor - Profile of the rule listener.
+ * @returns Array of formatted values for the visitor row.
+ */
+export function formatVisitorRow(visitor: VisitorProfile): string[] {
+  return [
+    visitor.selector,
+    formatNumber(Math.round(visitor.callsPerRun)),
+    formatMs(visitor.timePerRun),
+    `${visitor.percentOfTotal.toFixed(1)}%`,
+  ]
+}
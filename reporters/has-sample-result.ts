@@ -0,0 +1,28 @@
+import type { ProcessedBenchmarkTask } from '../core/benchmark/run-benchmark'
+import type { TestSpecResult } from '../types/benchmark-config'
+
+/**
+ * Checks whether at least one sample in the results matches the predicate.
+ * Reporters use it to decide whether to render optional columns, such as the
+ * baseline comparison.
+ *
+ * @param results - An array of results for all test specifications.
+ * @param predicate - Function that checks a single sample result and the result
+ *   of its test specification.
+ * @returns True if any sample matches the predicate.
+ */
+export function hasSampleResult(
+  results: TestSpecResult[],
+  predicate: (
+    sampleResult: ProcessedBenchmarkTask,
+    testSpecResult: TestSpecResult,
+  ) => boolean,
+): boolean {
+  return results.some(testSpecResult =>
+    testSpecResult.testCaseResults.some(testCaseResult =>
+      testCaseResult.samplesResults.some(sampleResult =>
+        predicate(sampleResult, testSpecResult),
+      ),
+    ),
+  )
+}
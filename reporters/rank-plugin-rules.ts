@@ -0,0 +1,57 @@
+import type { PluginRanking, RankedRule } from '../types/plugin-ranking'
+import type { TestSpecResult } from '../types/benchmark-config'
+
+/**
+ * Groups the results of rules benchmarked through the `plugins` section by
+ * plugin and orders the rules of each plugin from the slowest. The time of a
+ * rule is the sum of the mean execution times of all its samples, so rules are
+ * compared by the time they take to lint the whole sample set once. Failed
+ * samples are left out.
+ *
+ * @param results - An array of results for all test specifications.
+ * @returns Rankings of all plugins in the order they first appear in the
+ *   results. Empty if no plugins were benchmarked.
+ */
+export function rankPluginRules(results: TestSpecResult[]): PluginRanking[] {
+  let rulesByPlugin = new Map<string, Omit<RankedRule, 'percentOfTotal'>[]>()
+
+  for (let testSpecResult of results) {
+    if (!testSpecResult.plugin) {
+      continue
+    }
+
+    let sampleMeans = testSpecResult.testCaseResults.flatMap(testCaseResult =>
+      testCaseResult.samplesResults
+        .filter(sample => !sample.error)
+        .map(sample => sample.metrics.mean),
+    )
+    if (sampleMeans.length === 0) {
+      continue
+    }
+
+    let totalTime = sampleMeans.reduce((sum, mean) => sum + mean, 0)
+    let rules = rulesByPlugin.get(testSpecResult.plugin) ?? []
+    rules.push({
+      averageTime: totalTime / sampleMeans.length,
+      sampleCount: sampleMeans.length,
+      ruleId: testSpecResult.ruleId,
+      totalTime,
+    })
+    rulesByPlugin.set(testSpecResult.plugin, rules)
+  }
+
+  return [...rulesByPlugin].map(([plugin, rules]) => {
+    let pluginTime = rules.reduce((sum, rule) => sum + rule.totalTime, 0)
+
+    return {
+      rules: rules
+        .toSorted((first, second) => second.totalTime - first.totalTime)
+        .map(rule => ({
+          ...rule,
+          percentOfTotal:
+            pluginTime > 0 ? (rule.totalTime / pluginTime) * 100 : 0,
+        })),
+      plugin,
+    }
+  })
+}
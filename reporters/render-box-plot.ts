@@ -0,0 +1,70 @@
+import { formatMs } from './format-ms'
+
+const WIDTH = 320
+
+const HEIGHT = 40
+
+const PADDING = 4
+
+/**
+ * Renders the spread of execution times as an inline SVG box plot. The box
+ * spans the first to the third quartile, the line inside it marks the median
+ * and the whiskers reach the minimum and maximum. Outliers are filtered out
+ * before the samples reach the reporters, so they are not drawn separately.
+ *
+ * @param samples - Execution times in milliseconds.
+ * @returns SVG markup, or an empty string if there are no samples.
+ */
+export function renderBoxPlot(samples: number[]): string {
+  if (samples.length === 0) {
+    return ''
+  }
+
+  let sorted = samples.toSorted((first, second) => first - second)
+  let min = sorted[0]!
+  let max = sorted.at(-1)!
+  let firstQuartile = getQuantile(sorted, 0.25)
+  let median = getQuantile(sorted, 0.5)
+  let thirdQuartile = getQuantile(sorted, 0.75)
+
+  let range = max - min
+  function toX(value: number): string {
+    let ratio = range === 0 ? 0.5 : (value - min) / range
+    return (PADDING + ratio * (WIDTH - PADDING * 2)).toFixed(2)
+  }
+
+  let middle = HEIGHT / 2
+  let summary = [
+    `Min: ${formatMs(min)}`,
+    `Q1: ${formatMs(firstQuartile)}`,
+    `Median: ${formatMs(median)}`,
+    `Q3: ${formatMs(thirdQuartile)}`,
+    `Max: ${formatMs(max)}`,
+  ].join(', ')
+
+  return [
+    `<svg class="box-plot" viewBox="0 0 ${WIDTH} ${HEIGHT}" width="${WIDTH}" height="${HEIGHT}" role="img" aria-label="${summary}">`,
+    `<title>${summary}</title>`,
+    `<line x1="${toX(min)}" y1="${middle}" x2="${toX(max)}" y2="${middle}" />`,
+    `<line x1="${toX(min)}" y1="${PADDING}" x2="${toX(min)}" y2="${HEIGHT - PADDING}" />`,
+    `<line x1="${toX(max)}" y1="${PADDING}" x2="${toX(max)}" y2="${HEIGHT - PADDING}" />`,
+    `<rect x="${toX(firstQuartile)}" y="${PADDING}" width="${(Number(toX(thirdQuartile)) - Number(toX(firstQuartile))).toFixed(2)}" height="${HEIGHT - PADDING * 2}" />`,
+    `<line class="median" x1="${toX(median)}" y1="${PADDING}" x2="${toX(median)}" y2="${HEIGHT - PADDING}" />`,
+    '</svg>',
+  ].join('')
+}
+
+/**
+ * Calculates a quantile of sorted values with linear interpolation between the
+ * closest ranks.
+ *
+ * @param sorted - Values sorted in ascending order.
+ * @param quantile - Quantile between 0 and 1.
+ * @returns The quantile value.
+ */
+function getQuantile(sorted: number[], quantile: number): number {
+  let position = (sorted.length - 1) * quantile
+  let lower = Math.floor(position)
+  let upper = Math.ceil(position)
+  return sorted[lower]! + (sorted[upper]! - sorted[lower]!) * (position - lower)
+}
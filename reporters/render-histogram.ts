@@ -0,0 +1,61 @@
+import { formatMs } from './format-ms'
+
+const WIDTH = 320
+
+const HEIGHT = 120
+
+const MAX_BINS = 30
+
+/**
+ * Renders the distribution of execution times as an inline SVG histogram. The
+ * number of bins is the square root of the number of samples, limited to 30.
+ * Hovering a bar shows its time range and the number of samples in it.
+ *
+ * @param samples - Execution times in milliseconds.
+ * @returns SVG markup, or an empty string if there are no samples.
+ */
+export function renderHistogram(samples: number[]): string {
+  if (samples.length === 0) {
+    return ''
+  }
+
+  let min = samples.reduce(
+    (result, sample) => Math.min(result, sample),
+    Infinity,
+  )
+  let max = samples.reduce(
+    (result, sample) => Math.max(result, sample),
+    -Infinity,
+  )
+  let binCount = Math.min(MAX_BINS, Math.ceil(Math.sqrt(samples.length)))
+  let binWidth = (max - min) / binCount
+  let counts = Array.from({ length: binCount }, () => 0)
+
+  for (let sample of samples) {
+    let index =
+      binWidth === 0
+        ? 0
+        : Math.min(binCount - 1, Math.floor((sample - min) / binWidth))
+    counts[index]!++
+  }
+
+  let maxCount = Math.max(...counts)
+  let barWidth = WIDTH / binCount
+
+  let bars = counts.map((count, index) => {
+    let height = (count / maxCount) * HEIGHT
+    let from = min + index * binWidth
+    return [
+      `<rect x="${(index * barWidth).toFixed(2)}" y="${(HEIGHT - height).toFixed(2)}"`,
+      ` width="${Math.max(barWidth - 1, 1).toFixed(2)}" height="${height.toFixed(2)}">`,
+      `<title>${formatMs(from)} – ${formatMs(from + binWidth)}: ${count}</title>`,
+      '</rect>',
+    ].join('')
+  })
+
+  return [
+    `<svg class="histogram" viewBox="0 0 ${WIDTH} ${HEIGHT}" width="${WIDTH}" height="${HEIGHT}" role="img" aria-label="Distribution of execution times">`,
+    ...bars,
+    '</svg>',
+  ].join('')
+}
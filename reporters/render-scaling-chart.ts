@@ -0,0 +1,89 @@
+import type { ScalingAnalysis } from '../types/scaling-analysis'
+
+import { evaluateModel } from '../core/scaling/fit-complexity-models'
+import { formatMs } from './format-ms'
+
+const WIDTH = 320
+
+const HEIGHT = 120
+
+const PADDING = 6
+
+const CURVE_STEPS = 50
+
+/**
+ * Renders the mean execution times by input size as an inline SVG scatter plot
+ * with the curve of the best fitting complexity model. Hovering a point shows
+ * its size and mean time.
+ *
+ * @param analysis - Scaling analysis of a source sample.
+ * @returns SVG markup, or an empty string if there are no points.
+ */
+export function renderScalingChart(analysis: ScalingAnalysis): string {
+  let { bestFit, points } = analysis
+  if (points.length === 0) {
+    return ''
+  }
+
+  let minSize = Math.min(...points.map(point => point.size))
+  let maxSize = Math.max(...points.map(point => point.size))
+  let curve = Array.from({ length: CURVE_STEPS + 1 }, (_, index) => {
+    let size = minSize + ((maxSize - minSize) * index) / CURVE_STEPS
+    return {
+      mean:
+        bestFit.intercept + bestFit.slope * evaluateModel(bestFit.model, size),
+      size,
+    }
+  })
+  let maxMean = Math.max(
+    ...points.map(point => point.mean),
+    ...curve.map(point => point.mean),
+  )
+
+  let curvePoints = curve
+    .map(
+      point =>
+        `${toX(point.size, minSize, maxSize)},${toY(point.mean, maxMean)}`,
+    )
+    .join(' ')
+  let circles = points.map(point =>
+    [
+      `<circle cx="${toX(point.size, minSize, maxSize)}" cy="${toY(point.mean, maxMean)}" r="3">`,
+      `<title>n = ${point.size}: ${formatMs(point.mean)}</title>`,
+      '</circle>',
+    ].join(''),
+  )
+
+  return [
+    `<svg class="scaling-chart" viewBox="0 0 ${WIDTH} ${HEIGHT}" width="${WIDTH}" height="${HEIGHT}" role="img" aria-label="Execution time by input size">`,
+    `<polyline points="${curvePoints}" />`,
+    ...circles,
+    '</svg>',
+  ].join('')
+}
+
+/**
+ * Converts an input size to the horizontal chart coordinate.
+ *
+ * @param size - Size of the input.
+ * @param minSize - Smallest size on the chart.
+ * @param maxSize - Largest size on the chart.
+ * @returns The x coordinate.
+ */
+function toX(size: number, minSize: number, maxSize: number): string {
+  let ratio = maxSize === minSize ? 0.5 : (size - minSize) / (maxSize - minSize)
+  return (PADDING + ratio * (WIDTH - 2 * PADDING)).toFixed(2)
+}
+
+/**
+ * Converts a mean execution time to the vertical chart coordinate. Negative
+ * times of the fitted curve are clamped to the bottom of the chart.
+ *
+ * @param mean - Execution time in milliseconds.
+ * @param maxMean - Largest time on the chart.
+ * @returns The y coordinate.
+ */
+function toY(mean: number, maxMean: number): string {
+  let ratio = maxMean > 0 ? Math.max(mean, 0) / maxMean : 0
+  return (HEIGHT - PADDING - ratio * (HEIGHT - 2 * PADDING)).toFixed(2)
+}
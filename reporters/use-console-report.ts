@@ -1,13 +1,53 @@
 import type { ProcessedBenchmarkTask } from '../core/benchmark/run-benchmark'
 import type { UserBenchmarkConfig } from '../types/user-benchmark-config'
+import type { BaselineComparison } from '../types/baseline-comparison'
 import type { TestSpecResult } from '../types/benchmark-config'
 import type { SystemInfo } from './collect-system-info'
 
+import { formatRelativeMarginOfError } from './format-relative-margin-of-error'
+import { formatRankedRuleRow } from './format-ranked-rule-row'
+import { formatFirstLintTime } from './format-first-lint-time'
+import { formatRuleOverhead } from './format-rule-overhead'
+import { formatLintMessages } from './format-lint-messages'
+import { formatSignificance } from './format-significance'
 import { collectSystemInfo } from './collect-system-info'
+import { formatVisitorRow } from './format-visitor-row'
+import { formatScalingRow } from './format-scaling-row'
+import { hasSampleResult } from './has-sample-result'
+import { formatFixPasses } from './format-fix-passes'
+import { formatFailedRow } from './format-failed-row'
+import { rankPluginRules } from './rank-plugin-rules'
 import { formatDeviation } from './format-deviation'
+import { formatBytes } from './format-bytes'
+import { formatDelta } from './format-delta'
+import { formatGc } from './format-gc'
 import { formatHz } from './format-hz'
 import { formatMs } from './format-ms'
 
+/** Optional column groups rendered in the result tables. */
+interface TableColumns {
+  /** Whether baseline comparison columns are rendered. */
+  comparison: boolean
+
+  /** Whether the first lint column of type-aware samples is rendered. */
+  firstLint: boolean
+
+  /** Whether the fix passes column is rendered. */
+  fixPasses: boolean
+
+  /** Whether the problems column is rendered. */
+  messages: boolean
+
+  /** Whether control run and rule time columns are rendered. */
+  overhead: boolean
+
+  /** Whether memory and garbage collection columns are rendered. */
+  memory: boolean
+
+  /** Whether the relative margin of error column is rendered. */
+  rme: boolean
+}
+
 type Alignment = 'center' | 'left'
 
 const MIN_COLUMN_WIDTH = 5
@@ -24,6 +64,37 @@ const TABLE_HEADERS = [
   'StdDev',
 ]
 
+const RME_TABLE_HEADERS = ['RME']
+
+const FIRST_LINT_TABLE_HEADERS = ['First Lint']
+
+const FIX_PASSES_TABLE_HEADERS = ['Fix Passes']
+
+const LINT_MESSAGES_TABLE_HEADERS = ['Problems E/W/F/S']
+
+const OVERHEAD_TABLE_HEADERS = ['Control Avg', 'Rule Avg', 'Rule Median']
+
+const MEMORY_TABLE_HEADERS = ['Heap/op', 'GC']
+
+const VISITOR_TABLE_HEADERS = ['Visitor', 'Calls/run', 'Time/run', 'Share']
+
+const SCALING_TABLE_HEADERS = [
+  'Sample',
+  'Best Fit',
+  'Fitted Curve',
+  'R²',
+  'Growth',
+]
+
+const RANKING_TABLE_HEADERS = ['#', 'Rule', 'Total Time', 'Avg/sample', 'Share']
+
+const COMPARISON_TABLE_HEADERS = [
+  'Δ Ops/sec',
+  'Δ Avg Time',
+  'Δ Median',
+  'Change',
+]
+
 const EMPTY_ROW_VALUES = [
   'No samples',
   'N/A',
@@ -51,7 +122,52 @@ export async function useConsoleReport(
     return 'No benchmark results available.'
   }
 
-  let uniformColumnWidths = calculateUniformColumnWidths(results)
+  let columns: TableColumns = {
+    fixPasses: hasSampleResult(
+      results,
+      (sampleResult, testSpecResult) =>
+        testSpecResult.benchmarkConfig.fix === 'both' ||
+        (sampleResult.fixPasses ?? 0) > 1,
+    ),
+    memory: hasSampleResult(
+      results,
+      sampleResult => sampleResult.metrics.memoryUsageBytes !== undefined,
+    ),
+    firstLint: hasSampleResult(
+      results,
+      sampleResult => sampleResult.firstLintTime !== undefined,
+    ),
+    comparison: hasSampleResult(
+      results,
+      sampleResult => sampleResult.comparison !== undefined,
+    ),
+    overhead: hasSampleResult(
+      results,
+      sampleResult => sampleResult.overhead !== undefined,
+    ),
+    messages: hasSampleResult(
+      results,
+      sampleResult => sampleResult.messages !== undefined,
+    ),
+    rme: hasSampleResult(
+      results,
+      sampleResult => sampleResult.rme !== undefined,
+    ),
+  }
+  let tableHeaders = getTableHeaders(columns)
+  let emptyRowValues = getEmptyRowValues(columns)
+  let uniformColumnWidths = calculateUniformColumnWidths(results, columns)
+
+  for (let ranking of rankPluginRules(results)) {
+    outputLines.push(
+      renderContentTable(
+        `Slowest Rules: ${ranking.plugin}`,
+        RANKING_TABLE_HEADERS,
+        ranking.rules.map(formatRankedRuleRow),
+      ),
+      '',
+    )
+  }
 
   for (let testSpecResult of results) {
     if (testSpecResult.testCaseResults.length === 0) {
@@ -61,14 +177,15 @@ export async function useConsoleReport(
       continue
     }
 
-    let tableRows: string[][] = [[testSpecResult.name], TABLE_HEADERS]
-    let alignments = Array.from({ length: TABLE_HEADERS.length }).fill(
+    let tableRows: string[][] = [[testSpecResult.name], tableHeaders]
+    let errorLines: string[] = []
+    let alignments = Array.from({ length: tableHeaders.length }).fill(
       'left',
     ) as Alignment[]
 
     for (let testCaseResult of testSpecResult.testCaseResults) {
       if (testCaseResult.samplesResults.length === 0) {
-        tableRows.push(EMPTY_ROW_VALUES)
+        tableRows.push(emptyRowValues)
         continue
       }
 
@@ -77,11 +194,49 @@ export async function useConsoleReport(
           sampleResult.name,
           testCaseResult.name,
         )
-        tableRows.push(formatMetricsRow(sampleName, sampleResult))
+        tableRows.push(formatMetricsRow(sampleName, sampleResult, columns))
+
+        if (sampleResult.error) {
+          errorLines.push(`  ${sampleName}: ${sampleResult.error}`)
+        }
       }
     }
 
     outputLines.push(renderTable(tableRows, uniformColumnWidths, alignments))
+
+    if (errorLines.length > 0) {
+      outputLines.push('', 'Failed samples:', ...errorLines)
+    }
+
+    for (let testCaseResult of testSpecResult.testCaseResults) {
+      if (testCaseResult.scaling) {
+        outputLines.push(
+          '',
+          renderContentTable(
+            `Scaling: ${testCaseResult.name}`,
+            SCALING_TABLE_HEADERS,
+            testCaseResult.scaling.map(formatScalingRow),
+          ),
+        )
+      }
+
+      for (let sampleResult of testCaseResult.samplesResults) {
+        if (sampleResult.visitors) {
+          let sampleName = extractSampleName(
+            sampleResult.name,
+            testCaseResult.name,
+          )
+          outputLines.push(
+            '',
+            renderContentTable(
+              `Visitors: ${sampleName}`,
+              VISITOR_TABLE_HEADERS,
+              sampleResult.visitors.map(formatVisitorRow),
+            ),
+          )
+        }
+      }
+    }
   }
 
   let systemInfo = await collectSystemInfo()
@@ -145,19 +300,84 @@ function renderTable(
   return lines.join('\n')
 }
 
+/**
+ * Formats metrics from a benchmark result into table row values.
+ *
+ * @param sampleName - Name of the sample (extracted from the full task name).
+ * @param sample - Processed benchmark task.
+ * @param columns - Optional column groups to append values for.
+ * @returns Array of formatted values for the metrics row.
+ */
+function formatMetricsRow(
+  sampleName: string,
+  sample: ProcessedBenchmarkTask,
+  columns: TableColumns,
+): string[] {
+  if (sample.error) {
+    return formatFailedRow(sampleName, getTableHeaders(columns).length)
+  }
+
+  let row = [
+    sampleName,
+    formatHz(sample.metrics.hz),
+    formatMs(sample.metrics.mean),
+    formatMs(sample.metrics.median),
+    formatMs(sample.metrics.min),
+    formatMs(sample.metrics.max),
+    formatDeviation(sample.metrics.stdDev),
+  ]
+
+  if (columns.rme) {
+    row.push(formatRelativeMarginOfError(sample.rme))
+  }
+
+  if (columns.firstLint) {
+    row.push(formatFirstLintTime(sample.firstLintTime))
+  }
+
+  if (columns.fixPasses) {
+    row.push(formatFixPasses(sample.fixPasses))
+  }
+
+  if (columns.messages) {
+    row.push(formatLintMessages(sample.messages))
+  }
+
+  if (columns.overhead) {
+    row.push(...formatRuleOverhead(sample.overhead))
+  }
+
+  if (columns.memory) {
+    row.push(
+      formatBytes(sample.metrics.memoryUsageBytes),
+      formatGc(sample.metrics),
+    )
+  }
+
+  if (columns.comparison) {
+    row.push(...formatComparisonCells(sample.comparison))
+  }
+
+  return row
+}
+
 /**
  * Calculates uniform column widths across all tables to ensure consistency.
  *
  * @param results - An array of results for all test specifications.
+ * @param columns - Optional column groups rendered in the tables.
  * @returns Array of column widths for the result tables.
  */
-function calculateUniformColumnWidths(results: TestSpecResult[]): number[] {
-  let columnWidths = TABLE_HEADERS.map(header => header.length)
+function calculateUniformColumnWidths(
+  results: TestSpecResult[],
+  columns: TableColumns,
+): number[] {
+  let columnWidths = getTableHeaders(columns).map(header => header.length)
 
   for (let testSpecResult of results) {
     for (let testCaseResult of testSpecResult.testCaseResults) {
       if (testCaseResult.samplesResults.length === 0) {
-        for (let [i, value] of EMPTY_ROW_VALUES.entries()) {
+        for (let [i, value] of getEmptyRowValues(columns).entries()) {
           columnWidths[i] = Math.max(columnWidths[i]!, value.length)
         }
         continue
@@ -168,7 +388,7 @@ function calculateUniformColumnWidths(results: TestSpecResult[]): number[] {
           sampleResult.name,
           testCaseResult.name,
         )
-        let rowValues = formatMetricsRow(sampleName, sampleResult)
+        let rowValues = formatMetricsRow(sampleName, sampleResult, columns)
 
         for (let [i, value] of rowValues.entries()) {
           columnWidths[i] = Math.max(columnWidths[i]!, value.length)
@@ -216,6 +436,49 @@ function formatSystemInfo(systemInfo: SystemInfo): string {
   ].join('\n')
 }
 
+/**
+ * Returns the headers of the optional column groups in the order they are
+ * rendered.
+ *
+ * @param columns - Optional column groups rendered in the tables.
+ * @returns Array of optional table headers.
+ */
+function getOptionalHeaders(columns: TableColumns): string[] {
+  return [
+    ...(columns.rme ? RME_TABLE_HEADERS : []),
+    ...(columns.firstLint ? FIRST_LINT_TABLE_HEADERS : []),
+    ...(columns.fixPasses ? FIX_PASSES_TABLE_HEADERS : []),
+    ...(columns.messages ? LINT_MESSAGES_TABLE_HEADERS : []),
+    ...(columns.overhead ? OVERHEAD_TABLE_HEADERS : []),
+    ...(columns.memory ? MEMORY_TABLE_HEADERS : []),
+    ...(columns.comparison ? COMPARISON_TABLE_HEADERS : []),
+  ]
+}
+
+/**
+ * Renders a standalone table, such as the time spent in each listener of the
+ * rule or the ranking of plugin rules. Column widths are calculated from the
+ * table content.
+ *
+ * @param title - Title displayed above the table.
+ * @param headers - Column headers.
+ * @param bodyRows - Formatted rows of the table.
+ * @returns Formatted table as a string.
+ */
+function renderContentTable(
+  title: string,
+  headers: string[],
+  bodyRows: string[][],
+): string {
+  let rows = [headers, ...bodyRows]
+  let columnWidths = headers.map((_, column) =>
+    Math.max(MIN_COLUMN_WIDTH, ...rows.map(row => row[column]!.length)),
+  )
+  let alignments = headers.map((): Alignment => 'left')
+
+  return renderTable([[title], ...rows], columnWidths, alignments)
+}
+
 /**
  * Pads a cell value to fit the target width. If the value is longer than the
  * target width, it will be returned as is. If the value is shorter, it will be
@@ -246,24 +509,17 @@ function padCell(
 }
 
 /**
- * Formats metrics from a benchmark result into table row values.
+ * Formats the comparison of a sample with the baseline into table cells.
  *
- * @param sampleName - Name of the sample (extracted from the full task name).
- * @param sample - Processed benchmark task.
- * @returns Array of formatted values for the metrics row.
+ * @param comparison - Comparison with the baseline, if the sample has one.
+ * @returns Formatted deltas of hz, mean and median, and the significance.
  */
-function formatMetricsRow(
-  sampleName: string,
-  sample: ProcessedBenchmarkTask,
-): string[] {
+function formatComparisonCells(comparison?: BaselineComparison): string[] {
   return [
-    sampleName,
-    formatHz(sample.metrics.hz),
-    formatMs(sample.metrics.mean),
-    formatMs(sample.metrics.median),
-    formatMs(sample.metrics.min),
-    formatMs(sample.metrics.max),
-    formatDeviation(sample.metrics.stdDev),
+    formatDelta(comparison?.hz, formatHz),
+    formatDelta(comparison?.mean, formatMs),
+    formatDelta(comparison?.median, formatMs),
+    formatSignificance(comparison?.significance),
   ]
 }
 
@@ -285,6 +541,16 @@ function buildSeparator(
     .join('-')
 }
 
+/**
+ * Returns the row values used for a test case without samples.
+ *
+ * @param columns - Optional column groups rendered in the tables.
+ * @returns Array of placeholder values.
+ */
+function getEmptyRowValues(columns: TableColumns): string[] {
+  return [...EMPTY_ROW_VALUES, ...getOptionalHeaders(columns).map(() => 'N/A')]
+}
+
 /**
  * Extracts the sample name from the full task name.
  *
@@ -296,3 +562,14 @@ function buildSeparator(
 function extractSampleName(fullName: string, testCaseName: string): string {
   return fullName.replace(`${testCaseName} on `, '')
 }
+
+/**
+ * Returns the table headers, including overhead, memory and baseline comparison
+ * columns if needed.
+ *
+ * @param columns - Optional column groups rendered in the tables.
+ * @returns Array of table headers.
+ */
+function getTableHeaders(columns: TableColumns): string[] {
+  return [...TABLE_HEADERS, ...getOptionalHeaders(columns)]
+}
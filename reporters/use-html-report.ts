@@ -0,0 +1,546 @@
+import type { ProcessedBenchmarkTask } from '../core/benchmark/run-benchmark'
+import type { UserBenchmarkConfig } from '../types/user-benchmark-config'
+import type { TestSpecResult } from '../types/benchmark-config'
+import type { SystemInfo } from './collect-system-info'
+
+import { formatRelativeMarginOfError } from './format-relative-margin-of-error'
+import { formatRankedRuleRow } from './format-ranked-rule-row'
+import { formatFirstLintTime } from './format-first-lint-time'
+import { formatRuleOverhead } from './format-rule-overhead'
+import { formatLintMessages } from './format-lint-messages'
+import { renderScalingChart } from './render-scaling-chart'
+import { formatSignificance } from './format-significance'
+import { collectSystemInfo } from './collect-system-info'
+import { formatVisitorRow } from './format-visitor-row'
+import { formatScalingRow } from './format-scaling-row'
+import { hasSampleResult } from './has-sample-result'
+import { formatFixPasses } from './format-fix-passes'
+import { formatFailedRow } from './format-failed-row'
+import { rankPluginRules } from './rank-plugin-rules'
+import { renderHistogram } from './render-histogram'
+import { formatDeviation } from './format-deviation'
+import { renderBoxPlot } from './render-box-plot'
+import { formatBytes } from './format-bytes'
+import { formatDelta } from './format-delta'
+import { escapeHtml } from './escape-html'
+import { formatGc } from './format-gc'
+import { formatHz } from './format-hz'
+import { formatMs } from './format-ms'
+
+/** A table cell with the value used for sorting the table by its column. */
+interface TableCell {
+  /** Value compared when sorting. Defaults to the displayed text. */
+  sortValue?: number
+
+  /** Displayed text. */
+  text: string
+}
+
+const TABLE_HEADERS = [
+  'Sample',
+  'Ops/sec',
+  'Avg Time',
+  'Median',
+  'Min',
+  'Max',
+  'StdDev',
+]
+
+const RME_TABLE_HEADERS = ['RME']
+
+const FIRST_LINT_TABLE_HEADERS = ['First Lint']
+
+const FIX_PASSES_TABLE_HEADERS = ['Fix Passes']
+
+const LINT_MESSAGES_TABLE_HEADERS = ['Problems E/W/F/S']
+
+const OVERHEAD_TABLE_HEADERS = ['Control Avg', 'Rule Avg', 'Rule Median']
+
+const MEMORY_TABLE_HEADERS = ['Heap/op', 'GC']
+
+const VISITOR_TABLE_HEADERS = ['Visitor', 'Calls/run', 'Time/run', 'Share']
+
+const SCALING_TABLE_HEADERS = [
+  'Sample',
+  'Best Fit',
+  'Fitted Curve',
+  'R²',
+  'Growth',
+]
+
+const RANKING_TABLE_HEADERS = ['#', 'Rule', 'Total Time', 'Avg/sample', 'Share']
+
+const COMPARISON_TABLE_HEADERS = [
+  'Δ Ops/sec',
+  'Δ Avg Time',
+  'Δ Median',
+  'Change',
+]
+
+const STYLES = `
+body { font-family: system-ui, sans-serif; margin: 2rem auto; max-width: 1200px; padding: 0 1rem; color: #1f2328; }
+h1, h2, h3 { font-weight: 600; }
+table { border-collapse: collapse; margin: 1rem 0; width: 100%; font-variant-numeric: tabular-nums; }
+th, td { border: 1px solid #d0d7de; padding: 0.4rem 0.6rem; text-align: left; white-space: nowrap; }
+th { background: #f6f8fa; cursor: pointer; user-select: none; }
+th[aria-sort="ascending"]::after { content: " ▲"; }
+th[aria-sort="descending"]::after { content: " ▼"; }
+.charts { display: flex; flex-wrap: wrap; gap: 1.5rem; }
+figure { margin: 0; }
+figcaption { font-weight: 600; margin-bottom: 0.5rem; }
+.histogram rect { fill: #324cc2; }
+.histogram rect:hover { fill: #ffa500; }
+.box-plot line { stroke: #1f2328; stroke-width: 1.5; }
+.box-plot rect { fill: #dbe2fb; stroke: #324cc2; stroke-width: 1.5; }
+.box-plot .median { stroke: #ffa500; stroke-width: 2.5; }
+.scaling-chart polyline { fill: none; stroke: #ffa500; stroke-width: 1.5; }
+.scaling-chart circle { fill: #324cc2; }
+dl { display: grid; grid-template-columns: max-content 1fr; gap: 0.25rem 1rem; }
+dt { font-weight: 600; }
+`
+
+const SORT_SCRIPT = `
+for (let header of document.querySelectorAll('table.sortable th')) {
+  header.addEventListener('click', () => {
+    let table = header.closest('table')
+    let body = table.tBodies[0]
+    let column = header.cellIndex
+    let ascending = header.getAttribute('aria-sort') !== 'ascending'
+    for (let other of table.querySelectorAll('th')) {
+      other.removeAttribute('aria-sort')
+    }
+    header.setAttribute('aria-sort', ascending ? 'ascending' : 'descending')
+    let getValue = row => {
+      let cell = row.cells[column]
+      return cell.dataset.sort === undefined ? cell.textContent : Number(cell.dataset.sort)
+    }
+    let rows = [...body.rows].sort((first, second) => {
+      let a = getValue(first)
+      let b = getValue(second)
+      let result = typeof a === 'number' && typeof b === 'number' ? a - b : String(a).localeCompare(String(b))
+      return ascending ? result : -result
+    })
+    body.append(...rows)
+  })
+}
+`
+
+/**
+ * Creates a self-contained HTML page with the benchmark results. Rules of
+ * benchmarked plugins are ranked from the slowest first. Each test
+ * specification gets a table that can be sorted by clicking its headers,
+ * followed by a histogram and a box plot of the execution times of every
+ * sample, and by the complexity fits of cases with a scaling analysis. Styles
+ * and scripts are inlined, so the file can be attached as a CI artifact and
+ * opened without network access.
+ *
+ * @param results - An array of results for all test specifications.
+ * @param _userConfig - The user's benchmark configuration (currently unused).
+ * @returns HTML document as a string.
+ */
+export async function useHtmlReport(
+  results: TestSpecResult[],
+  _userConfig?: UserBenchmarkConfig,
+): Promise<string> {
+  let bodyLines: string[] = ['<h1>ESLint Rule Benchmark Report</h1>']
+
+  if (results.length === 0) {
+    bodyLines.push('<p>No benchmark results available.</p>')
+    return renderDocument(bodyLines)
+  }
+
+  let withComparison = hasSampleResult(
+    results,
+    sampleResult => sampleResult.comparison !== undefined,
+  )
+  let withFirstLint = hasSampleResult(
+    results,
+    sampleResult => sampleResult.firstLintTime !== undefined,
+  )
+  let withRme = hasSampleResult(
+    results,
+    sampleResult => sampleResult.rme !== undefined,
+  )
+  let withFixPasses = hasSampleResult(
+    results,
+    (sampleResult, testSpecResult) =>
+      testSpecResult.benchmarkConfig.fix === 'both' ||
+      (sampleResult.fixPasses ?? 0) > 1,
+  )
+  let withLintMessages = hasSampleResult(
+    results,
+    sampleResult => sampleResult.messages !== undefined,
+  )
+  let withOverhead = hasSampleResult(
+    results,
+    sampleResult => sampleResult.overhead !== undefined,
+  )
+  let withMemory = hasSampleResult(
+    results,
+    sampleResult => sampleResult.metrics.memoryUsageBytes !== undefined,
+  )
+  let tableHeaders = [
+    ...TABLE_HEADERS,
+    ...(withRme ? RME_TABLE_HEADERS : []),
+    ...(withFirstLint ? FIRST_LINT_TABLE_HEADERS : []),
+    ...(withFixPasses ? FIX_PASSES_TABLE_HEADERS : []),
+    ...(withLintMessages ? LINT_MESSAGES_TABLE_HEADERS : []),
+    ...(withOverhead ? OVERHEAD_TABLE_HEADERS : []),
+    ...(withMemory ? MEMORY_TABLE_HEADERS : []),
+    ...(withComparison ? COMPARISON_TABLE_HEADERS : []),
+  ]
+
+  for (let ranking of rankPluginRules(results)) {
+    bodyLines.push(
+      '<section>',
+      `<h2>Slowest Rules: ${escapeHtml(ranking.plugin)}</h2>`,
+      renderTable(
+        RANKING_TABLE_HEADERS,
+        ranking.rules.map((rule, index) => {
+          let [position, ruleId, total, average, share] = formatRankedRuleRow(
+            rule,
+            index,
+          )
+          return [
+            { sortValue: index + 1, text: position! },
+            { text: ruleId! },
+            { sortValue: rule.totalTime, text: total! },
+            { sortValue: rule.averageTime, text: average! },
+            { sortValue: rule.percentOfTotal, text: share! },
+          ]
+        }),
+      ),
+      '</section>',
+    )
+  }
+
+  for (let testSpecResult of results) {
+    bodyLines.push('<section>', `<h2>${escapeHtml(testSpecResult.name)}</h2>`)
+
+    if (testSpecResult.testCaseResults.length === 0) {
+      bodyLines.push(
+        '<p>No test cases found or all failed for this specification.</p>',
+        '</section>',
+      )
+      continue
+    }
+
+    let tableRows: TableCell[][] = []
+    let charts: string[] = []
+    let visitorTables: string[] = []
+    let scalingSections: string[] = []
+    let errorItems: string[] = []
+
+    for (let testCaseResult of testSpecResult.testCaseResults) {
+      if (testCaseResult.scaling) {
+        scalingSections.push(
+          `<h3>Scaling: ${escapeHtml(testCaseResult.name)}</h3>`,
+          renderTable(
+            SCALING_TABLE_HEADERS,
+            testCaseResult.scaling.map(analysis => {
+              let [sample, model, curve, rSquared, growth] =
+                formatScalingRow(analysis)
+              return [
+                { text: sample! },
+                { text: model! },
+                { text: curve! },
+                { sortValue: analysis.bestFit.rSquared, text: rSquared! },
+                { text: growth! },
+              ]
+            }),
+          ),
+          '<div class="charts">',
+          ...testCaseResult.scaling.flatMap(analysis => [
+            '<figure>',
+            `<figcaption>${escapeHtml(analysis.sample)}</figcaption>`,
+            renderScalingChart(analysis),
+            '</figure>',
+          ]),
+          '</div>',
+        )
+      }
+
+      if (testCaseResult.samplesResults.length === 0) {
+        tableRows.push([
+          { text: 'No samples' },
+          ...tableHeaders.slice(1).map(() => ({ text: 'N/A' })),
+        ])
+        continue
+      }
+
+      for (let sampleResult of testCaseResult.samplesResults) {
+        let sampleName = sampleResult.name.replace(
+          `${testCaseResult.name} on `,
+          '',
+        )
+
+        if (sampleResult.error) {
+          tableRows.push(
+            formatFailedRow(sampleName, tableHeaders.length).map(text => ({
+              text,
+            })),
+          )
+          errorItems.push(
+            `<li><code>${escapeHtml(sampleName)}</code>: ${escapeHtml(sampleResult.error)}</li>`,
+          )
+          continue
+        }
+
+        let row = formatMetricsCells(sampleName, sampleResult)
+
+        if (withRme) {
+          row.push({
+            text: formatRelativeMarginOfError(sampleResult.rme),
+            sortValue: sampleResult.rme,
+          })
+        }
+
+        if (withFirstLint) {
+          row.push({
+            text: formatFirstLintTime(sampleResult.firstLintTime),
+            sortValue: sampleResult.firstLintTime,
+          })
+        }
+
+        if (withFixPasses) {
+          row.push({
+            text: formatFixPasses(sampleResult.fixPasses),
+            sortValue: sampleResult.fixPasses,
+          })
+        }
+
+        if (withLintMessages) {
+          row.push({
+            sortValue: sampleResult.messages
+              ? sampleResult.messages.errors + sampleResult.messages.warnings
+              : undefined,
+            text: formatLintMessages(sampleResult.messages),
+          })
+        }
+
+        if (withOverhead) {
+          let overheadValues = formatRuleOverhead(sampleResult.overhead)
+          row.push(
+            {
+              sortValue: sampleResult.overhead?.controlMean,
+              text: overheadValues[0]!,
+            },
+            {
+              sortValue: sampleResult.overhead?.mean,
+              text: overheadValues[1]!,
+            },
+            {
+              sortValue: sampleResult.overhead?.median,
+              text: overheadValues[2]!,
+            },
+          )
+        }
+
+        if (withMemory) {
+          row.push(
+            {
+              text: formatBytes(sampleResult.metrics.memoryUsageBytes),
+              sortValue: sampleResult.metrics.memoryUsageBytes,
+            },
+            {
+              sortValue: sampleResult.metrics.gcDurationMs,
+              text: formatGc(sampleResult.metrics),
+            },
+          )
+        }
+
+        if (withComparison) {
+          row.push(
+            {
+              text: formatDelta(sampleResult.comparison?.hz, formatHz),
+              sortValue: sampleResult.comparison?.hz.difference,
+            },
+            {
+              text: formatDelta(sampleResult.comparison?.mean, formatMs),
+              sortValue: sampleResult.comparison?.mean.difference,
+            },
+            {
+              text: formatDelta(sampleResult.comparison?.median, formatMs),
+              sortValue: sampleResult.comparison?.median.difference,
+            },
+            {
+              text: formatSignificance(sampleResult.comparison?.significance),
+            },
+          )
+        }
+
+        tableRows.push(row)
+
+        if (sampleResult.samples && sampleResult.samples.length > 0) {
+          charts.push(
+            '<figure>',
+            `<figcaption>${escapeHtml(sampleName)}</figcaption>`,
+            renderHistogram(sampleResult.samples),
+            renderBoxPlot(sampleResult.samples),
+            '</figure>',
+          )
+        }
+
+        if (sampleResult.visitors) {
+          visitorTables.push(
+            `<h3>Visitors: ${escapeHtml(sampleName)}</h3>`,
+            renderTable(
+              VISITOR_TABLE_HEADERS,
+              sampleResult.visitors.map(visitor => {
+                let [selector, calls, time, share] = formatVisitorRow(visitor)
+                return [
+                  { text: selector! },
+                  { sortValue: visitor.callsPerRun, text: calls! },
+                  { sortValue: visitor.timePerRun, text: time! },
+                  { sortValue: visitor.percentOfTotal, text: share! },
+                ]
+              }),
+            ),
+          )
+        }
+      }
+    }
+
+    bodyLines.push(renderTable(tableHeaders, tableRows))
+
+    if (errorItems.length > 0) {
+      bodyLines.push('<h3>Failed Samples</h3>', '<ul>', ...errorItems, '</ul>')
+    }
+
+    if (charts.length > 0) {
+      bodyLines.push(
+        '<h3>Distribution of Execution Times</h3>',
+        '<div class="charts">',
+        ...charts,
+        '</div>',
+      )
+    }
+
+    bodyLines.push(...scalingSections, ...visitorTables, '</section>')
+  }
+
+  let systemInfo = await collectSystemInfo()
+  bodyLines.push(formatSystemInfoHtml(systemInfo))
+
+  return renderDocument(bodyLines)
+}
+
+/**
+ * Formats system information into an HTML description list.
+ *
+ * @param systemInfo - System information to format.
+ * @returns Formatted system information in HTML.
+ */
+function formatSystemInfoHtml(systemInfo: SystemInfo): string {
+  let runTime = [
+    `Node.js ${systemInfo.nodeVersion}`,
+    `V8 ${systemInfo.v8Version}`,
+    `ESLint ${systemInfo.eslintVersion}`,
+  ]
+
+  let platform = [
+    `${systemInfo.platform} ${systemInfo.arch} (${systemInfo.osRelease})`,
+  ]
+
+  let hardware = [
+    `${systemInfo.cpuModel} (${systemInfo.cpuCount} cores, ${systemInfo.cpuSpeedMHz} MHz)`,
+    `${systemInfo.totalMemoryGb} GB RAM`,
+  ]
+
+  let formatList = new Intl.ListFormat('en-US', {
+    type: 'conjunction',
+    style: 'narrow',
+  })
+
+  return [
+    '<section>',
+    '<h2>System Information</h2>',
+    '<dl>',
+    `<dt>Runtime</dt><dd>${escapeHtml(formatList.format(runTime))}</dd>`,
+    `<dt>Platform</dt><dd>${escapeHtml(formatList.format(platform))}</dd>`,
+    `<dt>Hardware</dt><dd>${escapeHtml(formatList.format(hardware))}</dd>`,
+    '</dl>',
+    '</section>',
+  ].join('\n')
+}
+
+/**
+ * Renders a sortable HTML table.
+ *
+ * @param headers - Column headers.
+ * @param rows - Rows of table cells.
+ * @returns HTML table markup.
+ */
+function renderTable(headers: string[], rows: TableCell[][]): string {
+  let headerCells = headers
+    .map(header => `<th scope="col">${escapeHtml(header)}</th>`)
+    .join('')
+  let bodyRows = rows.map(row => {
+    let cells = row.map(cell => {
+      let sortAttribute =
+        cell.sortValue === undefined || !Number.isFinite(cell.sortValue)
+          ? ''
+          : ` data-sort="${cell.sortValue}"`
+      return `<td${sortAttribute}>${escapeHtml(cell.text)}</td>`
+    })
+    return `<tr>${cells.join('')}</tr>`
+  })
+
+  return [
+    '<table class="sortable">',
+    `<thead><tr>${headerCells}</tr></thead>`,
+    '<tbody>',
+    ...bodyRows,
+    '</tbody>',
+    '</table>',
+  ].join('\n')
+}
+
+/**
+ * Formats the core metrics of a benchmark result into table cells.
+ *
+ * @param sampleName - Name of the sample (extracted from the full task name).
+ * @param sample - Processed benchmark task.
+ * @returns Array of cells for the metrics row.
+ */
+function formatMetricsCells(
+  sampleName: string,
+  sample: ProcessedBenchmarkTask,
+): TableCell[] {
+  let { metrics } = sample
+
+  return [
+    { text: sampleName },
+    { text: formatHz(metrics.hz), sortValue: metrics.hz },
+    { text: formatMs(metrics.mean), sortValue: metrics.mean },
+    { text: formatMs(metrics.median), sortValue: metrics.median },
+    { text: formatMs(metrics.min), sortValue: metrics.min },
+    { text: formatMs(metrics.max), sortValue: metrics.max },
+    { text: formatDeviation(metrics.stdDev), sortValue: metrics.stdDev },
+  ]
+}
+
+/**
+ * Wraps the body content into a complete HTML document with inlined styles and
+ * the table sorting script.
+ *
+ * @param bodyLines - HTML markup placed inside the `<body>` element.
+ * @returns HTML document as a string.
+ */
+function renderDocument(bodyLines: string[]): string {
+  return [
+    '<!doctype html>',
+    '<html lang="en">',
+    '<head>',
+    '<meta charset="utf-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1">',
+    '<title>ESLint Rule Benchmark Report</title>',
+    `<style>${STYLES}</style>`,
+    '</head>',
+    '<body>',
+    ...bodyLines,
+    `<script>${SORT_SCRIPT}</script>`,
+    '</body>',
+    '</html>',
+  ].join('\n')
+}
@@ -5,13 +5,81 @@ import type {
 } from '../types/benchmark-config'
 import type { ProcessedBenchmarkTask } from '../core/benchmark/run-benchmark'
 import type { UserBenchmarkConfig } from '../types/user-benchmark-config'
+import type { BaselineComparison } from '../types/baseline-comparison'
+import type { LintMessageCounts } from '../types/lint-message-counts'
 import type { BenchmarkMetrics } from '../types/benchmark-metrics'
+import type { ScalingAnalysis } from '../types/scaling-analysis'
+import type { VisitorProfile } from '../types/visitor-profile'
+import type { PluginRanking } from '../types/plugin-ranking'
+import type { RuleOverhead } from '../types/rule-overhead'
 import type { SystemInfo } from './collect-system-info'
 
 import { collectSystemInfo } from './collect-system-info'
+import { rankPluginRules } from './rank-plugin-rules'
 import { formatDeviation } from './format-deviation'
+import { formatBytes } from './format-bytes'
 import { formatMs } from './format-ms'
 
+/** JSON representation of benchmark results for a single code sample. */
+export interface JsonSampleResult {
+  /**
+   * Comparison with the same sample in the baseline report (if a baseline was
+   * provided and contains this sample).
+   */
+  comparison?: BaselineComparison
+
+  /**
+   * Unformatted metrics for this sample. Used when this report is loaded as a
+   * baseline for a later run.
+   */
+  rawMetrics?: BenchmarkMetrics
+
+  /**
+   * Number of problems the rule reported for the sample in a lint without
+   * fixes.
+   */
+  messages?: LintMessageCounts
+
+  /** Performance metrics for this sample (null if benchmark failed). */
+  metrics?: JsonSampleMetrics
+
+  /** Time spent in each listener of the rule (if visitor profiling was enabled). */
+  visitors?: VisitorProfile[]
+
+  /**
+   * Time spent in the rule without parsing (if the overhead measurement was
+   * enabled).
+   */
+  overhead?: RuleOverhead
+
+  /**
+   * Time of the first, cold lint in milliseconds, including the creation of the
+   * TypeScript program (for the first sample of type-aware test cases).
+   */
+  firstLintTime?: number
+
+  /** Number of passes ESLint needed to fix the sample (if fixes were applied). */
+  fixPasses?: number
+
+  /**
+   * Execution times in milliseconds after outlier filtering. Used for
+   * significance testing when this report is loaded as a baseline.
+   */
+  samples?: number[]
+
+  /** Name identifier of the code sample. */
+  sampleName: string
+
+  /** Error message if the benchmark failed for this sample. */
+  error?: string
+
+  /**
+   * Relative margin of error of the mean at 95% confidence, as a fraction (if
+   * the sample was measured until a target precision).
+   */
+  rme?: number
+}
+
 /**
  * Top-level JSON report structure containing benchmark results and system
  * information.
@@ -20,6 +88,12 @@ export interface JsonBenchmarkReport {
   /** Array of test specification results in JSON format. */
   testSpecifications: TestSpecJsonReport[]
 
+  /**
+   * Rules of every benchmarked plugin ordered from the slowest (if the
+   * `plugins` section was used).
+   */
+  pluginRankings?: PluginRanking[]
+
   /** Information about the system where benchmarks were executed. */
   systemInfo: SystemInfo
 }
@@ -32,6 +106,9 @@ interface JsonSampleMetrics {
   /** Number of operations executed per second. */
   operationsPerSecond: number
 
+  /** Average heap growth per operation in formatted string. */
+  memoryPerOperation?: string
+
   /** Average execution time in formatted string. */
   averageTime: string | null
 
@@ -55,6 +132,12 @@ interface JsonSampleMetrics {
 
   /** 99th percentile execution time in formatted string. */
   p99: string | null
+
+  /** Number of garbage collections during the measurement. */
+  gcCount?: number
+
+  /** Time spent in garbage collection in formatted string. */
+  gcTime?: string
 }
 
 /** JSON representation of benchmark results for a single test specification. */
@@ -71,6 +154,9 @@ interface TestSpecJsonReport {
   /** Optional file path to the ESLint rule being tested. */
   rulePath?: string
 
+  /** Name of the plugin the rule belongs to (for rules of plugins). */
+  plugin?: string
+
   /** Identifier of the ESLint rule being tested. */
   ruleId: string
 
@@ -83,6 +169,9 @@ interface JsonTestCaseReport {
   /** Array of sample benchmark results for this test case. */
   samples: JsonSampleResult[]
 
+  /** Complexity fits by input size (if scaling was enabled for the case). */
+  scaling?: ScalingAnalysis[]
+
   /** Configuration options passed to the ESLint rule. */
   ruleOptions?: unknown
 
@@ -99,18 +188,6 @@ interface JsonTestCaseReport {
   id: string
 }
 
-/** JSON representation of benchmark results for a single code sample. */
-interface JsonSampleResult {
-  /** Performance metrics for this sample (null if benchmark failed). */
-  metrics?: JsonSampleMetrics
-
-  /** Name identifier of the code sample. */
-  sampleName: string
-
-  /** Error message if the benchmark failed for this sample. */
-  error?: string
-}
-
 /**
  * Creates a JSON report string from aggregated benchmark results.
  *
@@ -124,8 +201,10 @@ export async function useJsonReport(
 ): Promise<string> {
   let systemInfo = await collectSystemInfo()
   let testSpecifications = results.map(mapTestSpecResultToJsonReport)
+  let pluginRankings = rankPluginRules(results)
 
   let report: JsonBenchmarkReport = {
+    pluginRankings: pluginRankings.length > 0 ? pluginRankings : undefined,
     testSpecifications,
     systemInfo,
   }
@@ -148,8 +227,20 @@ function mapTestSpecResultToJsonReport(
         let samplesReport: JsonSampleResult[] = testCase.samplesResults.map(
           (sample: ProcessedBenchmarkTask): JsonSampleResult => {
             let sampleName = sample.name.replace(`${testCase.name} on `, '')
+            if (sample.error) {
+              return { error: sample.error, sampleName }
+            }
             return {
               metrics: mapMetricsToJson(sample.metrics),
+              firstLintTime: sample.firstLintTime,
+              comparison: sample.comparison,
+              fixPasses: sample.fixPasses,
+              rawMetrics: sample.metrics,
+              messages: sample.messages,
+              overhead: sample.overhead,
+              visitors: sample.visitors,
+              samples: sample.samples,
+              rme: sample.rme,
               sampleName,
             }
           },
@@ -159,6 +250,7 @@ function mapTestSpecResultToJsonReport(
           ruleOptions: testCase.rule.options,
           description: testCase.description,
           ruleId: testCase.rule.ruleId,
+          scaling: testCase.scaling,
           samples: samplesReport,
           name: testCase.name,
           id: testCase.id,
@@ -169,6 +261,7 @@ function mapTestSpecResultToJsonReport(
   return {
     benchmarkConfig: testSpecResult.benchmarkConfig,
     rulePath: testSpecResult.rulePath,
+    plugin: testSpecResult.plugin,
     ruleId: testSpecResult.ruleId,
     testCases: testCasesReport,
     name: testSpecResult.name,
@@ -193,5 +286,12 @@ function mapMetricsToJson(metrics: BenchmarkMetrics): JsonSampleMetrics {
     periodInSeconds: metrics.period,
     p75: formatMs(metrics.p75),
     p99: formatMs(metrics.p99),
+    ...(metrics.memoryUsageBytes === undefined
+      ? {}
+      : {
+          memoryPerOperation: formatBytes(metrics.memoryUsageBytes),
+          gcTime: formatMs(metrics.gcDurationMs),
+          gcCount: metrics.gcCount,
+        }),
   }
 }
@@ -2,11 +2,67 @@ import type { UserBenchmarkConfig } from '../types/user-benchmark-config'
 import type { TestSpecResult } from '../types/benchmark-config'
 import type { SystemInfo } from './collect-system-info'
 
+import { formatRelativeMarginOfError } from './format-relative-margin-of-error'
+import { formatRankedRuleRow } from './format-ranked-rule-row'
+import { formatFirstLintTime } from './format-first-lint-time'
+import { formatRuleOverhead } from './format-rule-overhead'
+import { formatLintMessages } from './format-lint-messages'
+import { formatSignificance } from './format-significance'
 import { collectSystemInfo } from './collect-system-info'
+import { formatVisitorRow } from './format-visitor-row'
+import { formatScalingRow } from './format-scaling-row'
+import { hasSampleResult } from './has-sample-result'
+import { formatFixPasses } from './format-fix-passes'
+import { formatFailedRow } from './format-failed-row'
+import { rankPluginRules } from './rank-plugin-rules'
 import { formatDeviation } from './format-deviation'
+import { formatBytes } from './format-bytes'
+import { formatDelta } from './format-delta'
+import { formatGc } from './format-gc'
 import { formatMs } from './format-ms'
 import { formatHz } from './format-hz'
 
+const TABLE_HEADERS = [
+  'Sample',
+  'Ops/sec',
+  'Avg Time',
+  'Median',
+  'Min',
+  'Max',
+  'StdDev',
+]
+
+const RME_TABLE_HEADERS = ['RME']
+
+const FIRST_LINT_TABLE_HEADERS = ['First Lint']
+
+const FIX_PASSES_TABLE_HEADERS = ['Fix Passes']
+
+const LINT_MESSAGES_TABLE_HEADERS = ['Problems E/W/F/S']
+
+const OVERHEAD_TABLE_HEADERS = ['Control Avg', 'Rule Avg', 'Rule Median']
+
+const MEMORY_TABLE_HEADERS = ['Heap/op', 'GC']
+
+const VISITOR_TABLE_HEADERS = ['Visitor', 'Calls/run', 'Time/run', 'Share']
+
+const SCALING_TABLE_HEADERS = [
+  'Sample',
+  'Best Fit',
+  'Fitted Curve',
+  'R²',
+  'Growth',
+]
+
+const RANKING_TABLE_HEADERS = ['#', 'Rule', 'Total Time', 'Avg/sample', 'Share']
+
+const COMPARISON_TABLE_HEADERS = [
+  'Δ Ops/sec',
+  'Δ Avg Time',
+  'Δ Median',
+  'Change',
+]
+
 /**
  * Creates a markdown reporter for aggregated benchmark results.
  *
@@ -26,6 +82,60 @@ export async function useMarkdownReport(
 
   outputLines.push('## ESLint Rule Benchmark Report')
 
+  let withComparison = hasSampleResult(
+    results,
+    sampleResult => sampleResult.comparison !== undefined,
+  )
+  let withFirstLint = hasSampleResult(
+    results,
+    sampleResult => sampleResult.firstLintTime !== undefined,
+  )
+  let withRme = hasSampleResult(
+    results,
+    sampleResult => sampleResult.rme !== undefined,
+  )
+  let withFixPasses = hasSampleResult(
+    results,
+    (sampleResult, testSpecResult) =>
+      testSpecResult.benchmarkConfig.fix === 'both' ||
+      (sampleResult.fixPasses ?? 0) > 1,
+  )
+  let withLintMessages = hasSampleResult(
+    results,
+    sampleResult => sampleResult.messages !== undefined,
+  )
+  let withOverhead = hasSampleResult(
+    results,
+    sampleResult => sampleResult.overhead !== undefined,
+  )
+  let withMemory = hasSampleResult(
+    results,
+    sampleResult => sampleResult.metrics.memoryUsageBytes !== undefined,
+  )
+  let tableHeaders = [
+    ...TABLE_HEADERS,
+    ...(withRme ? RME_TABLE_HEADERS : []),
+    ...(withFirstLint ? FIRST_LINT_TABLE_HEADERS : []),
+    ...(withFixPasses ? FIX_PASSES_TABLE_HEADERS : []),
+    ...(withLintMessages ? LINT_MESSAGES_TABLE_HEADERS : []),
+    ...(withOverhead ? OVERHEAD_TABLE_HEADERS : []),
+    ...(withMemory ? MEMORY_TABLE_HEADERS : []),
+    ...(withComparison ? COMPARISON_TABLE_HEADERS : []),
+  ]
+
+  for (let ranking of rankPluginRules(results)) {
+    outputLines.push(
+      '',
+      `### Slowest Rules: ${ranking.plugin}`,
+      '',
+      `| ${RANKING_TABLE_HEADERS.join(' | ')} |`,
+      `| ${RANKING_TABLE_HEADERS.map(header => '-'.repeat(header.length)).join(' | ')} |`,
+      ...ranking.rules.map(
+        (rule, index) => `| ${formatRankedRuleRow(rule, index).join(' | ')} |`,
+      ),
+    )
+  }
+
   for (let i = 0; i < results.length; i++) {
     let testSpecResult = results[i]!
 
@@ -38,16 +148,19 @@ export async function useMarkdownReport(
       continue
     }
 
-    let tableRows: string[] = []
-
-    tableRows.push(
-      '| Sample | Ops/sec | Avg Time | Median | Min | Max | StdDev |',
-      '| ------ | ------- | -------- | ------ | --- | --- | ------ |',
-    )
+    let tableRows: string[] = [
+      `| ${tableHeaders.join(' | ')} |`,
+      `| ${tableHeaders.map(header => '-'.repeat(header.length)).join(' | ')} |`,
+    ]
+    let errorLines: string[] = []
 
     for (let testCaseResult of testSpecResult.testCaseResults) {
       if (testCaseResult.samplesResults.length === 0) {
-        tableRows.push(`| No samples | N/A | N/A | N/A | N/A | N/A | N/A |`)
+        let emptyRowData = [
+          'No samples',
+          ...tableHeaders.slice(1).map(() => 'N/A'),
+        ]
+        tableRows.push(`| ${emptyRowData.join(' | ')} |`)
         continue
       }
 
@@ -56,6 +169,15 @@ export async function useMarkdownReport(
           `${testCaseResult.name} on `,
           '',
         )
+
+        if (sampleResult.error) {
+          tableRows.push(
+            `| ${formatFailedRow(sampleName, tableHeaders.length).join(' | ')} |`,
+          )
+          errorLines.push(`- \`${sampleName}\`: ${sampleResult.error}`)
+          continue
+        }
+
         let rowData = [
           sampleName,
           formatHz(sampleResult.metrics.hz),
@@ -66,12 +188,86 @@ export async function useMarkdownReport(
           formatDeviation(sampleResult.metrics.stdDev),
         ]
 
+        if (withRme) {
+          rowData.push(formatRelativeMarginOfError(sampleResult.rme))
+        }
+
+        if (withFirstLint) {
+          rowData.push(formatFirstLintTime(sampleResult.firstLintTime))
+        }
+
+        if (withFixPasses) {
+          rowData.push(formatFixPasses(sampleResult.fixPasses))
+        }
+
+        if (withLintMessages) {
+          rowData.push(formatLintMessages(sampleResult.messages))
+        }
+
+        if (withOverhead) {
+          rowData.push(...formatRuleOverhead(sampleResult.overhead))
+        }
+
+        if (withMemory) {
+          rowData.push(
+            formatBytes(sampleResult.metrics.memoryUsageBytes),
+            formatGc(sampleResult.metrics),
+          )
+        }
+
+        if (withComparison) {
+          rowData.push(
+            formatDelta(sampleResult.comparison?.hz, formatHz),
+            formatDelta(sampleResult.comparison?.mean, formatMs),
+            formatDelta(sampleResult.comparison?.median, formatMs),
+            formatSignificance(sampleResult.comparison?.significance),
+          )
+        }
+
         tableRows.push(`| ${rowData.join(' | ')} |`)
       }
     }
 
     outputLines.push(...tableRows)
 
+    if (errorLines.length > 0) {
+      outputLines.push('', '#### Failed Samples', '', ...errorLines)
+    }
+
+    for (let testCaseResult of testSpecResult.testCaseResults) {
+      if (testCaseResult.scaling) {
+        outputLines.push(
+          '',
+          `#### Scaling: ${testCaseResult.name}`,
+          '',
+          `| ${SCALING_TABLE_HEADERS.join(' | ')} |`,
+          `| ${SCALING_TABLE_HEADERS.map(header => '-'.repeat(header.length)).join(' | ')} |`,
+          ...testCaseResult.scaling.map(
+            analysis => `| ${formatScalingRow(analysis).join(' | ')} |`,
+          ),
+        )
+      }
+
+      for (let sampleResult of testCaseResult.samplesResults) {
+        if (sampleResult.visitors) {
+          let sampleName = sampleResult.name.replace(
+            `${testCaseResult.name} on `,
+            '',
+          )
+          outputLines.push(
+            '',
+            `#### Visitors: ${sampleName}`,
+            '',
+            `| ${VISITOR_TABLE_HEADERS.join(' | ')} |`,
+            `| ${VISITOR_TABLE_HEADERS.map(header => '-'.repeat(header.length)).join(' | ')} |`,
+            ...sampleResult.visitors.map(
+              visitor => `| ${formatVisitorRow(visitor).join(' | ')} |`,
+            ),
+          )
+        }
+      }
+    }
+
     if (i < results.length - 1) {
       outputLines.push('')
     }
@@ -1,4 +1,3 @@
-import fs from 'node:fs/promises'
 import path from 'node:path'
 
 import type {
@@ -7,22 +6,34 @@ import type {
   TestSpecResult,
   TestCaseResult,
 } from '../types/benchmark-config'
-import type { CodeSample, RuleConfig, TestCase, Case } from '../types/test-case'
+import type {
+  BaseBenchmarkSettings,
+  UserBenchmarkConfig,
+  Test,
+} from '../types/user-benchmark-config'
 import type { ProcessedBenchmarkTask } from '../core/benchmark/run-benchmark'
-import type { UserBenchmarkConfig } from '../types/user-benchmark-config'
+import type { RuleConfig, TestCase, Case } from '../types/test-case'
 
 import {
+  DEFAULT_PRECISION_MAX_TIME_MS,
   DEFAULT_WARMUP_ITERATIONS,
   DEFAULT_WARMUP_ENABLED,
   DEFAULT_ITERATIONS,
   DEFAULT_TIMEOUT_MS,
+  DEFAULT_ISOLATION,
   DEFAULT_SEVERITY,
 } from '../constants'
-import { getLanguageByFileName } from '../core/utilities/get-language-by-file-name'
-import { isSupportedExtension } from '../core/utilities/is-supported-extension'
-import { getFileExtension } from '../core/utilities/get-file-extension'
+import { resolveLanguageOptions } from '../core/config/resolve-language-options'
+import { runIsolatedBenchmark } from '../core/isolation/run-isolated-benchmark'
+import { mergeLanguageOptions } from '../core/eslint/merge-language-options'
+import { compareWithBaseline } from '../core/baseline/compare-with-baseline'
+import { evaluateThresholds } from '../core/thresholds/evaluate-thresholds'
+import { expandPluginTests } from '../core/config/expand-plugin-tests'
+import { loadCaseSamples } from '../core/test-case/load-case-samples'
 import { createTestCase } from '../core/test-case/create-test-case'
+import { analyzeScaling } from '../core/scaling/analyze-scaling'
 import { runBenchmark } from '../core/benchmark/run-benchmark'
+import { loadBaseline } from '../core/baseline/load-baseline'
 import { runReporters } from '../reporters/run-reporters'
 
 /** Parameters for running benchmarks based on a user configuration. */
@@ -33,11 +44,23 @@ interface RunBenchmarksFromConfigParameters {
   /** The user-defined benchmark configuration. */
   userConfig: UserBenchmarkConfig
 
+  /**
+   * Optional directory to write a V8 CPU profile of every benchmarked sample
+   * to.
+   */
+  cpuProfileDirectory?: string
+
   /** Optional path to custom ESLint config file. */
   eslintConfigFile?: string
 
   /** User configuration directory path. */
   configDirectory: string
+
+  /**
+   * Optional path to a JSON report of a previous run. When provided, every
+   * sample is compared against its counterpart in this report.
+   */
+  baselinePath?: string
 }
 
 /**
@@ -47,29 +70,35 @@ interface RunBenchmarksFromConfigParameters {
  * This function takes a `UserBenchmarkConfig` object and reporter options. It
  * performs the following main stages:
  *
- * 1. **Parallel Preparation**: a. For each test specification (`testSpec`) in
- *    `userConfig.tests`: i. Determines the specific benchmark settings
+ * 1. **Parallel Preparation**: a. Every rule of the plugins in
+ *    `userConfig.plugins` is turned into an additional test specification. For
+ *    each test specification (`testSpec`) in `userConfig.tests` and the
+ *    generated ones: i. Determines the specific benchmark settings
  *    (`specBenchmarkConfig`) by merging global `userConfig` settings with any
  *    overrides from the current `testSpec`. Ii. For each `caseItem` within the
- *    `testSpec.cases` array: - Loads code samples using `loadCodeSamples` based
- *    on `caseItem.testPath`. - Creates a `RuleConfig` using the `testSpec`'s
- *    rule information (`ruleId`, `rulePath`) and the `caseItem`'s specific
- *    `options` and `severity`. - Generates a `TestCase` object which includes
- *    the loaded samples and the `RuleConfig`. B. All these preparation tasks
- *    (for all `testSpec`s and their `caseItem`s) are executed in parallel using
- *    `Promise.all`. Errors during individual case processing are caught, and
- *    problematic cases are skipped.
+ *    `testSpec.cases` array: - Loads code samples using `loadCaseSamples` from
+ *    `caseItem.testPath` and `caseItem.code`. - Creates a `RuleConfig` using
+ *    the `testSpec`'s rule information (`ruleId`, `rulePath`) and the
+ *    `caseItem`'s specific `options` and `severity`. - Generates a `TestCase`
+ *    object which includes the loaded samples and the `RuleConfig`. B. All
+ *    these preparation tasks (for all `testSpec`s and their `caseItem`s) are
+ *    executed in parallel using `Promise.all`. Errors during individual case
+ *    processing are caught, and problematic cases are skipped.
  * 2. **Sequential Benchmarking**: a. After all test cases are prepared, the
  *    function iterates through the data मौसम for each `testSpec`. B. For each
  *    `testSpec` that has valid `TestCase`s, it calls `runBenchmark`
  *    _sequentially_. This ensures that benchmark runs for different test
  *    specifications do not interfere with each other. The call to
  *    `runBenchmark` uses the `testCases` prepared for that specific `testSpec`
- *    and its determined `specBenchmarkConfig`.
+ *    and its determined `specBenchmarkConfig`. If `isolation` is set to
+ *    "worker" or "process", `runIsolatedBenchmark` is used instead to run the
+ *    test specification in a fresh worker thread or child process.
  * 3. **Reporting**: a. All `Task` results from all `runBenchmark` calls are
  *    aggregated. B. For each `Task` result, the corresponding `TestCase` (which
- *    contains the rule context) is identified. C. `runReporters` is called for
- *    each task to output or save the benchmark results.
+ *    contains the rule context) is identified. C. If a `baselinePath` is
+ *    provided, each sample is compared with the same sample of the baseline
+ *    report. D. `runReporters` is called for each task to output or save the
+ *    benchmark results.
  *
  * If no valid `TestCase` objects can be generated from the entire
  * configuration, an error is logged, and the process may exit with an error
@@ -92,17 +121,35 @@ interface RunBenchmarksFromConfigParameters {
 export async function runBenchmarksFromConfig(
   parameters: RunBenchmarksFromConfigParameters,
 ): Promise<void> {
-  let { eslintConfigFile, reporterOptions, configDirectory, userConfig } =
-    parameters
-
-  if (userConfig.tests.length === 0) {
+  let {
+    cpuProfileDirectory,
+    eslintConfigFile,
+    reporterOptions,
+    configDirectory,
+    baselinePath,
+    userConfig,
+  } = parameters
+
+  let testSpecs: (BaseBenchmarkSettings & { plugin?: string } & Test)[] = [
+    ...(userConfig.tests ?? []),
+    ...(await expandPluginTests(userConfig.plugins ?? [], configDirectory)),
+  ]
+
+  if (testSpecs.length === 0) {
     console.warn('User configuration contains no tests. Exiting.')
     return
   }
 
+  let baseline = baselinePath
+    ? await loadBaseline(path.resolve(baselinePath))
+    : null
+
   let allTestSpecResults: TestSpecResult[] = []
 
-  let allTestCasePreparationTasks = userConfig.tests.map(async testSpec => {
+  let allTestCasePreparationTasks = testSpecs.map(async testSpec => {
+    let isolation =
+      testSpec.isolation ?? userConfig.isolation ?? DEFAULT_ISOLATION
+    let precision = testSpec.precision ?? userConfig.precision
     let specBenchmarkConfig: BenchmarkConfig = {
       warmup: {
         iterations:
@@ -114,19 +161,39 @@ export async function runBenchmarksFromConfig(
           userConfig.warmup?.enabled ??
           DEFAULT_WARMUP_ENABLED,
       },
+      precision: precision
+        ? {
+            maxTime: precision.maxTime ?? DEFAULT_PRECISION_MAX_TIME_MS,
+            targetRme: precision.targetRme,
+          }
+        : undefined,
+      thresholds:
+        testSpec.thresholds || userConfig.thresholds
+          ? { ...userConfig.thresholds, ...testSpec.thresholds }
+          : undefined,
+      cpuProfileDirectory: cpuProfileDirectory
+        ? path.resolve(cpuProfileDirectory)
+        : undefined,
       iterations:
         testSpec.iterations ?? userConfig.iterations ?? DEFAULT_ITERATIONS,
+      profileVisitors: testSpec.profileVisitors ?? userConfig.profileVisitors,
+      measureOverhead: testSpec.measureOverhead ?? userConfig.measureOverhead,
       timeout: testSpec.timeout ?? userConfig.timeout ?? DEFAULT_TIMEOUT_MS,
+      fullConfig: testSpec.fullConfig ?? userConfig.fullConfig,
+      fix: testSpec.fix ?? userConfig.fix,
       reporters: reporterOptions,
       name: testSpec.name,
+      baselinePath,
+      isolation,
     }
 
     let caseProcessingPromises = testSpec.cases.map(
       async (caseItem: Case, caseIndex) => {
         try {
-          let codeSamples = await loadCodeSamples(
-            caseItem.testPath,
+          let codeSamples = await loadCaseSamples(
+            caseItem,
             configDirectory,
+            userConfig.extensions,
           )
 
           let ruleConfig: RuleConfig = {
@@ -141,6 +208,22 @@ export async function runBenchmarksFromConfig(
           let testCaseId = `config-test-${testSpec.name.replaceAll(/\s+/gu, '-')}-case-${caseIndex}-${Date.now()}`
 
           return createTestCase({
+            languageOptions: resolveLanguageOptions({
+              languageOptions: mergeLanguageOptions(
+                testSpec.languageOptions,
+                caseItem.languageOptions,
+              ),
+              tsconfigPath: testSpec.tsconfigPath,
+              configDirectory,
+            }),
+            settings:
+              testSpec.settings || caseItem.settings
+                ? { ...testSpec.settings, ...caseItem.settings }
+                : undefined,
+            processor: caseItem.processor ?? testSpec.processor,
+            language: caseItem.language ?? testSpec.language,
+            parser: caseItem.parser ?? testSpec.parser,
+            extensions: userConfig.extensions,
             samples: codeSamples,
             name: testCaseName,
             rule: ruleConfig,
@@ -160,27 +243,36 @@ export async function runBenchmarksFromConfig(
     let validTestCases = resolvedTestCases.filter(
       (tc): tc is TestCase => tc !== null,
     )
-    return { testCases: validTestCases, specBenchmarkConfig, testSpec }
+    return {
+      testCases: validTestCases,
+      specBenchmarkConfig,
+      isolation,
+      testSpec,
+    }
   })
 
   let preparedDataForAllSpecs = await Promise.all(allTestCasePreparationTasks)
 
   for (let preparedData of preparedDataForAllSpecs) {
-    let { specBenchmarkConfig, testCases, testSpec } = preparedData
+    let { specBenchmarkConfig, isolation, testCases, testSpec } = preparedData
 
     if (testCases.length > 0) {
       console.info(
         `Starting benchmark run for test spec "${testSpec.name}" with ${testCases.length} test case(s)...`,
       )
 
+      let benchmarkParameters = {
+        config: specBenchmarkConfig,
+        eslintConfigFile,
+        configDirectory,
+        testCases,
+      }
       let specRunSampleResults: ProcessedBenchmarkTask[] | null =
-        // eslint-disable-next-line no-await-in-loop
-        await runBenchmark({
-          config: specBenchmarkConfig,
-          eslintConfigFile,
-          configDirectory,
-          testCases,
-        })
+        isolation === 'none'
+          ? // eslint-disable-next-line no-await-in-loop
+            await runBenchmark(benchmarkParameters)
+          : // eslint-disable-next-line no-await-in-loop
+            await runIsolatedBenchmark(benchmarkParameters, isolation)
 
       if (specRunSampleResults && specRunSampleResults.length > 0) {
         let currentTestCaseResults: TestCaseResult[] = []
@@ -191,7 +283,9 @@ export async function runBenchmarksFromConfig(
           )
 
           if (samplesForThisTestCase.length > 0) {
+            let scaling = analyzeScaling(samplesForThisTestCase)
             currentTestCaseResults.push({
+              scaling: scaling.length > 0 ? scaling : undefined,
               samplesResults: samplesForThisTestCase,
               description: tc.description,
               name: tc.name,
@@ -204,12 +298,20 @@ export async function runBenchmarksFromConfig(
         if (currentTestCaseResults.length > 0) {
           allTestSpecResults.push({
             benchmarkConfig: {
+              profileVisitors: specBenchmarkConfig.profileVisitors,
+              measureOverhead: specBenchmarkConfig.measureOverhead,
+              fullConfig: specBenchmarkConfig.fullConfig,
+              thresholds: specBenchmarkConfig.thresholds,
               iterations: specBenchmarkConfig.iterations,
+              isolation: specBenchmarkConfig.isolation,
+              precision: specBenchmarkConfig.precision,
               timeout: specBenchmarkConfig.timeout,
               warmup: specBenchmarkConfig.warmup,
+              fix: specBenchmarkConfig.fix,
             },
             testCaseResults: currentTestCaseResults,
             rulePath: testSpec.rulePath,
+            plugin: testSpec.plugin,
             ruleId: testSpec.ruleId,
             name: testSpec.name,
           })
@@ -230,114 +332,52 @@ export async function runBenchmarksFromConfig(
     console.info(
       `Benchmark run completed. ${allTestSpecResults.length} test specifications processed.`,
     )
-    await runReporters(allTestSpecResults, userConfig, reporterOptions)
+    let reportedResults = baseline
+      ? compareWithBaseline(allTestSpecResults, baseline)
+      : allTestSpecResults
+    await runReporters(reportedResults, userConfig, reporterOptions)
+
+    checkThresholds(reportedResults, baseline !== null)
   }
 
   console.info('Benchmark run finished.')
 }
 
 /**
- * Asynchronously loads code samples from a specified path or an array of paths.
- *
- * This function processes each given path. If a path points to a directory, it
- * reads files with supported extensions within that directory. If a path points
- * to a file with a supported extension, it reads that file. The content of each
- * valid file is read, and a CodeSample object is created, including its
- * content, filename, and determined language. Unsupported files or paths
- * leading to errors are skipped with a console warning.
- *
- * @example
- *   const samples = await loadCodeSamples('./src/my-rule/test-cases/')
- *   const specificSamples = await loadCodeSamples([
- *     './src/a.js',
- *     './src/b.ts',
- *   ])
+ * Evaluates the configured performance thresholds against the benchmark
+ * results. If any sample exceeds its budget, prints a failure summary and sets
+ * a non-zero exit code so that CI jobs fail.
  *
- * @param testPath - A single path (string) or an array of paths to files or
- *   directories containing code samples.
- * @param configDirectory - The path to the user configuration directory.
- * @returns A promise that resolves to an array of CodeSample objects. Each
- *   object represents a successfully loaded code sample.
- * @throws {Error} If no supported source files are found across all provided
- *   paths, or if no valid code samples could be loaded from the found files.
+ * @param results - Results of all test specifications, including baseline
+ *   comparisons if a baseline was provided.
+ * @param hasBaseline - Whether the results were compared against a baseline.
  */
-async function loadCodeSamples(
-  testPath: string[] | string,
-  configDirectory: string,
-): Promise<CodeSample[]> {
-  let pathsToProcess = Array.isArray(testPath) ? testPath : [testPath]
-
-  let fileArrays = await Promise.all(
-    pathsToProcess.map(async currentPath => {
-      let filesForCurrentPath: string[] = []
-      try {
-        let resolvedPath = path.resolve(configDirectory, currentPath)
-        let stats = await fs.stat(resolvedPath)
-
-        if (stats.isDirectory()) {
-          let filesInDirectory = await fs.readdir(resolvedPath)
-          for (let fileName of filesInDirectory.filter(item =>
-            isSupportedExtension(getFileExtension(item)),
-          )) {
-            filesForCurrentPath.push(path.join(resolvedPath, fileName))
-          }
-        } else if (
-          stats.isFile() &&
-          isSupportedExtension(getFileExtension(resolvedPath))
-        ) {
-          filesForCurrentPath.push(resolvedPath)
-        }
-      } catch (error: unknown) {
-        if (error instanceof Error) {
-          console.warn(
-            `Warning: Could not process path ${currentPath}: ${error.message}. Skipping.`,
-          )
-        } else {
-          console.warn(
-            `Warning: Could not process path ${currentPath}: ${String(error)}. Skipping.`,
-          )
-        }
-      }
-      return filesForCurrentPath
-    }),
+function checkThresholds(
+  results: TestSpecResult[],
+  hasBaseline: boolean,
+): void {
+  let usesRegressionThreshold = results.some(
+    testSpecResult =>
+      testSpecResult.benchmarkConfig.thresholds?.maxRegressionPercent !==
+      undefined,
   )
 
-  let sourceFiles: string[] = fileArrays.flat()
-
-  if (sourceFiles.length === 0) {
-    throw new Error(
-      `No supported source files found for testPath: ${JSON.stringify(testPath)}`,
+  if (usesRegressionThreshold && !hasBaseline) {
+    console.warn(
+      '"maxRegressionPercent" is set but no baseline was provided. Skipping regression checks.',
     )
   }
 
-  let codeSamples: CodeSample[] = []
-  await Promise.all(
-    sourceFiles.map(async file => {
-      try {
-        let code = await fs.readFile(file, 'utf8')
-        codeSamples.push({
-          language: getLanguageByFileName(file),
-          filename: path.basename(file),
-          code,
-        })
-      } catch (error: unknown) {
-        if (error instanceof Error) {
-          console.warn(
-            `Warning: Skipping file ${file} due to read error: ${error.message}`,
-          )
-        } else {
-          console.warn(
-            `Warning: Skipping file ${file} due to read error: ${String(error)}`,
-          )
-        }
-      }
-    }),
-  )
+  let violations = evaluateThresholds(results)
+  if (violations.length === 0) {
+    return
+  }
 
-  if (codeSamples.length === 0) {
-    throw new Error(
-      `No valid code samples could be loaded from testPath: ${JSON.stringify(testPath)}`,
-    )
+  console.error(
+    `Performance thresholds exceeded by ${violations.length} sample(s):`,
+  )
+  for (let violation of violations) {
+    console.error(`- ${violation.sampleName}: ${violation.message}`)
   }
-  return codeSamples
+  process.exitCode = 1
 }
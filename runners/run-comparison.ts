@@ -0,0 +1,266 @@
+import path from 'node:path'
+
+import type {
+  ReporterOptions,
+  TestSpecResult,
+  TestCaseResult,
+} from '../types/benchmark-config'
+import type { UserBenchmarkConfig } from '../types/user-benchmark-config'
+import type { BaselineMetrics } from '../types/baseline-comparison'
+import type { TestCase } from '../types/test-case'
+
+import { runInterleavedBenchmark } from '../core/benchmark/run-interleaved-benchmark'
+import { createBenchmarkConfig } from '../core/benchmark/create-benchmark-config'
+import { compareWithBaseline } from '../core/baseline/compare-with-baseline'
+import { loadCaseSamples } from '../core/test-case/load-case-samples'
+import { getRepositoryRoot } from '../core/git/get-repository-root'
+import { createTestCase } from '../core/test-case/create-test-case'
+import { getBaselineKey } from '../core/baseline/get-baseline-key'
+import { removeWorktree } from '../core/git/remove-worktree'
+import { createWorktree } from '../core/git/create-worktree'
+import { runReporters } from '../reporters/run-reporters'
+import { DEFAULT_SEVERITY } from '../constants'
+
+/** Parameters for comparing two git revisions of the benchmarked rules. */
+interface RunComparisonParameters {
+  /** Options for the reporters. */
+  reporterOptions: ReporterOptions[]
+
+  /**
+   * The benchmark configuration. Rule paths are resolved in the checked out
+   * revisions, code samples are read from the current working tree.
+   */
+  userConfig: UserBenchmarkConfig
+
+  /** Optional path to custom ESLint config file. */
+  eslintConfigFile?: string
+
+  /** User configuration directory path. */
+  configDirectory: string
+
+  /**
+   * Git revision to compare. If not provided, the rule files from the current
+   * working tree, including uncommitted changes, are used.
+   */
+  headRef?: string
+
+  /**
+   * Git revision to compare against. Its results are used as the baseline for
+   * the comparison columns of the reports.
+   */
+  baseRef: string
+}
+
+/**
+ * Benchmarks the rules of a configuration at two git revisions within one run.
+ *
+ * Both revisions are checked out into temporary worktrees (the head revision
+ * falls back to the current working tree). For every test specification, the
+ * rule is loaded from both checkouts and benchmarked on the same code samples
+ * with `runInterleavedBenchmark`, so that both versions are measured under the
+ * same machine load. Each revision is reported as a separate test
+ * specification, and the head results are compared with the base results using
+ * the same comparison columns as `--baseline`.
+ *
+ * Worktrees are removed once the benchmarks finish, even if they fail.
+ *
+ * @example
+ *   await runComparison({
+ *     baseRef: 'origin/main',
+ *     headRef: 'HEAD',
+ *     reporterOptions,
+ *     configDirectory,
+ *     userConfig,
+ *   })
+ *
+ * @param parameters - The revisions to compare, the benchmark configuration and
+ *   the reporter options.
+ * @returns A promise that resolves when the benchmarks have been run and
+ *   reported.
+ * @throws {Error} If the configuration directory is not inside a git
+ *   repository, a revision cannot be checked out or a rule file lies outside of
+ *   the repository.
+ */
+export async function runComparison(
+  parameters: RunComparisonParameters,
+): Promise<void> {
+  let {
+    eslintConfigFile,
+    reporterOptions,
+    configDirectory,
+    userConfig,
+    headRef,
+    baseRef,
+  } = parameters
+
+  let tests = userConfig.tests ?? []
+
+  if (tests.length === 0) {
+    console.warn('User configuration contains no tests. Exiting.')
+    return
+  }
+
+  let repositoryRoot = await getRepositoryRoot(configDirectory)
+  let createdWorktrees: string[] = []
+
+  try {
+    let baseWorktree = await createWorktree(repositoryRoot, baseRef)
+    createdWorktrees.push(baseWorktree)
+
+    let headWorktree = repositoryRoot
+    if (headRef) {
+      headWorktree = await createWorktree(repositoryRoot, headRef)
+      createdWorktrees.push(headWorktree)
+    }
+
+    let revisions = [
+      { worktreePath: baseWorktree, label: `base: ${baseRef}` },
+      {
+        label: `head: ${headRef ?? 'working tree'}`,
+        worktreePath: headWorktree,
+      },
+    ]
+
+    let allTestSpecResults: TestSpecResult[] = []
+    let baseline = new Map<string, BaselineMetrics>()
+
+    for (let testSpec of tests) {
+      if (!testSpec.rulePath) {
+        throw new Error(
+          `Test "${testSpec.name}" has no "rulePath" to compare between revisions.`,
+        )
+      }
+
+      let relativeRulePath = path.relative(
+        repositoryRoot,
+        path.resolve(configDirectory, testSpec.rulePath),
+      )
+      if (
+        relativeRulePath.startsWith('..') ||
+        path.isAbsolute(relativeRulePath)
+      ) {
+        throw new Error(
+          `Rule file "${testSpec.rulePath}" of test "${testSpec.name}" is outside of the git repository.`,
+        )
+      }
+
+      let specBenchmarkConfig = createBenchmarkConfig({
+        iterations: testSpec.iterations ?? userConfig.iterations,
+        timeout: testSpec.timeout ?? userConfig.timeout,
+        warmup: testSpec.warmup ?? userConfig.warmup,
+        reporters: reporterOptions,
+        name: testSpec.name,
+      })
+
+      let specNames = revisions.map(
+        revision => `${testSpec.name} (${revision.label})`,
+      )
+      let testCasesByRevision: TestCase[][] = revisions.map(() => [])
+
+      for (let [caseIndex, caseItem] of testSpec.cases.entries()) {
+        // eslint-disable-next-line no-await-in-loop
+        let codeSamples = await loadCaseSamples(
+          caseItem,
+          configDirectory,
+          userConfig.extensions,
+        )
+
+        for (let [revisionIndex, revision] of revisions.entries()) {
+          let specName = specNames[revisionIndex]!
+          testCasesByRevision[revisionIndex]!.push(
+            createTestCase({
+              rule: {
+                path: path.join(revision.worktreePath, relativeRulePath),
+                severity: caseItem.severity ?? DEFAULT_SEVERITY,
+                options: caseItem.options,
+                ruleId: testSpec.ruleId,
+              },
+              id: `compare-${specName.replaceAll(/\s+/gu, '-')}-case-${caseIndex}`,
+              name: `${specName} - Case ${caseIndex + 1}`,
+              extensions: userConfig.extensions,
+              samples: codeSamples,
+            }),
+          )
+        }
+      }
+
+      console.info(
+        `Comparing "${testSpec.name}" between ${revisions[0]!.label} and ${revisions[1]!.label}...`,
+      )
+
+      // eslint-disable-next-line no-await-in-loop
+      let sampleResults = await runInterleavedBenchmark({
+        testCases: testCasesByRevision.flat(),
+        config: specBenchmarkConfig,
+        eslintConfigFile,
+        configDirectory,
+      })
+
+      for (let [revisionIndex, testCases] of testCasesByRevision.entries()) {
+        let testCaseResults: TestCaseResult[] = []
+
+        for (let [caseIndex, testCase] of testCases.entries()) {
+          let samplesResults = (sampleResults ?? []).filter(sampleResult =>
+            sampleResult.name.startsWith(`${testCase.name} on `),
+          )
+          if (samplesResults.length === 0) {
+            continue
+          }
+
+          testCaseResults.push({
+            description: testCase.description,
+            rule: testCase.rule,
+            name: testCase.name,
+            id: testCase.id,
+            samplesResults,
+          })
+
+          if (revisionIndex === 0) {
+            let headTestCase = testCasesByRevision[1]![caseIndex]!
+            for (let sampleResult of samplesResults) {
+              let sampleName = sampleResult.name.replace(
+                `${testCase.name} on `,
+                '',
+              )
+              baseline.set(
+                getBaselineKey(specNames[1]!, headTestCase.name, sampleName),
+                { ...sampleResult.metrics, samples: sampleResult.samples },
+              )
+            }
+          }
+        }
+
+        if (testCaseResults.length > 0) {
+          allTestSpecResults.push({
+            benchmarkConfig: {
+              iterations: specBenchmarkConfig.iterations,
+              timeout: specBenchmarkConfig.timeout,
+              warmup: specBenchmarkConfig.warmup,
+            },
+            name: specNames[revisionIndex]!,
+            rulePath: testSpec.rulePath,
+            ruleId: testSpec.ruleId,
+            testCaseResults,
+          })
+        }
+      }
+    }
+
+    if (allTestSpecResults.length === 0) {
+      console.error('No benchmark results could be generated. Exiting.')
+      process.exitCode = 1
+      return
+    }
+
+    await runReporters(
+      compareWithBaseline(allTestSpecResults, baseline),
+      userConfig,
+      reporterOptions,
+    )
+  } finally {
+    for (let worktreePath of createdWorktrees) {
+      // eslint-disable-next-line no-await-in-loop
+      await removeWorktree(repositoryRoot, worktreePath)
+    }
+  }
+}
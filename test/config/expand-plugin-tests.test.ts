@@ -0,0 +1,79 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { loadPluginRuleIds } from '../../core/eslint/load-plugin-rule-ids'
+import { expandPluginTests } from '../../core/config/expand-plugin-tests'
+
+vi.mock('../../core/eslint/load-plugin-rule-ids', () => ({
+  loadPluginRuleIds: vi.fn(),
+}))
+
+describe('expandPluginTests', () => {
+  beforeEach(() => {
+    vi.resetAllMocks()
+  })
+
+  it('creates a test specification for every rule of a plugin', async () => {
+    vi.mocked(loadPluginRuleIds).mockResolvedValueOnce(['no-foo', 'no-bar'])
+    let cases = [{ testPath: './samples', severity: 1 as const }]
+
+    let tests = await expandPluginTests(
+      [
+        {
+          pluginPath: './plugin.js',
+          name: 'my-plugin',
+          iterations: 10,
+          cases,
+        },
+      ],
+      '/config',
+    )
+
+    expect(loadPluginRuleIds).toHaveBeenCalledWith(expect.anything(), {
+      configDirectory: '/config',
+      pluginPath: './plugin.js',
+    })
+    expect(tests).toEqual([
+      {
+        name: 'my-plugin/no-foo',
+        rulePath: './plugin.js',
+        plugin: 'my-plugin',
+        ruleId: 'no-foo',
+        iterations: 10,
+        cases,
+      },
+      {
+        name: 'my-plugin/no-bar',
+        rulePath: './plugin.js',
+        plugin: 'my-plugin',
+        ruleId: 'no-bar',
+        iterations: 10,
+        cases,
+      },
+    ])
+  })
+
+  it('skips plugins that cannot be loaded', async () => {
+    let consoleWarnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {})
+    vi.mocked(loadPluginRuleIds)
+      .mockRejectedValueOnce(new Error('Plugin "broken.js" exports no rules'))
+      .mockResolvedValueOnce(['no-foo'])
+
+    let tests = await expandPluginTests(
+      [
+        {
+          cases: [{ testPath: './samples' }],
+          pluginPath: 'broken.js',
+          name: 'broken',
+        },
+        { cases: [{ testPath: './samples' }], pluginPath: 'ok.js', name: 'ok' },
+      ],
+      '/config',
+    )
+
+    expect(tests.map(test => test.name)).toEqual(['ok/no-foo'])
+    expect(consoleWarnSpy).toHaveBeenCalledWith(
+      'Skipping plugin "broken" due to an error: Plugin "broken.js" exports no rules',
+    )
+    consoleWarnSpy.mockRestore()
+  })
+})
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest'
+import path from 'node:path'
+
+import { resolveLanguageOptions } from '../../core/config/resolve-language-options'
+
+describe('resolveLanguageOptions', () => {
+  it('returns the language options as is without tsconfigPath', () => {
+    let languageOptions = { globals: { window: 'readonly' as const } }
+
+    expect(
+      resolveLanguageOptions({ configDirectory: '/config', languageOptions }),
+    ).toBe(languageOptions)
+    expect(
+      resolveLanguageOptions({ configDirectory: '/config' }),
+    ).toBeUndefined()
+  })
+
+  it('sets the TypeScript project from tsconfigPath', () => {
+    let project = path.resolve('/config', '../tsconfig.json')
+
+    expect(
+      resolveLanguageOptions({
+        languageOptions: {
+          parserOptions: { extraFileExtensions: ['.vue'], project: 'ignored' },
+          ecmaVersion: 2022,
+        },
+        tsconfigPath: '../tsconfig.json',
+        configDirectory: '/config',
+      }),
+    ).toEqual({
+      parserOptions: {
+        tsconfigRootDir: path.dirname(project),
+        extraFileExtensions: ['.vue'],
+        project,
+      },
+      ecmaVersion: 2022,
+    })
+  })
+})
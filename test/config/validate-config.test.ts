@@ -4,9 +4,11 @@ import { beforeEach, describe, expect, it, vi } from 'vitest'
 import fs from 'node:fs/promises'
 import path from 'node:path'
 
+import type { InlineCodeSample, ScalingConfig } from '../../types/test-case'
 import type { UserBenchmarkConfig } from '../../core'
 
 import { validateConfig } from '../../core/config/validate-config'
+import { LANGUAGES } from '../../constants'
 
 vi.mock('node:fs/promises', () => {
   let access = vi.fn().mockResolvedValue(undefined)
@@ -38,7 +40,7 @@ describe('validateConfig', () => {
     let config = { iterations: 10 } as Partial<UserBenchmarkConfig>
     let errors = await validateConfig(config, '')
     expect(errors).toEqual([
-      'Configuration must include at least one test in the "tests" array.',
+      'Configuration must include at least one test in the "tests" array or one plugin in the "plugins" array.',
     ])
   })
 
@@ -46,7 +48,7 @@ describe('validateConfig', () => {
     let config = { tests: [] } as Partial<UserBenchmarkConfig>
     let errors = await validateConfig(config, '')
     expect(errors).toEqual([
-      'Configuration must include at least one test in the "tests" array.',
+      'Configuration must include at least one test in the "tests" array or one plugin in the "plugins" array.',
     ])
   })
 
@@ -130,6 +132,431 @@ describe('validateConfig', () => {
     expect(errors).toContain('"warmup.enabled" must be a boolean')
   })
 
+  it('should validate global thresholds', async () => {
+    let tests: UserBenchmarkConfig['tests'] = [
+      {
+        cases: [{ testPath: 'test.js' }],
+        rulePath: 'rule.js',
+        ruleId: 'rule',
+        name: 'test',
+      },
+    ]
+
+    let errors = await validateConfig(
+      {
+        thresholds: 'not-an-object' as UserBenchmarkConfig['thresholds'],
+        tests,
+      },
+      '',
+    )
+    expect(errors).toContain('"thresholds" must be an object')
+
+    errors = await validateConfig(
+      {
+        thresholds: null as unknown as UserBenchmarkConfig['thresholds'],
+        tests,
+      },
+      '',
+    )
+    expect(errors).toEqual(['"thresholds" must be an object'])
+
+    errors = await validateConfig(
+      { thresholds: [] as UserBenchmarkConfig['thresholds'], tests },
+      '',
+    )
+    expect(errors).toEqual(['"thresholds" must be an object'])
+
+    errors = await validateConfig(
+      { thresholds: { maxRegressionPercent: -5, maxMeanMs: 0 }, tests },
+      '',
+    )
+    expect(errors).toContain(
+      '"thresholds.maxRegressionPercent" must be a non-negative number',
+    )
+    expect(errors).toContain('"thresholds.maxMeanMs" must be a positive number')
+
+    errors = await validateConfig(
+      {
+        thresholds: {
+          maxMeanMs: 'fast' as unknown as number,
+          maxRegressionPercent: Number.NaN,
+        },
+        tests,
+      },
+      '',
+    )
+    expect(errors).toHaveLength(2)
+
+    errors = await validateConfig(
+      { thresholds: { maxRegressionPercent: 0, maxMeanMs: 1.5 }, tests },
+      '',
+    )
+    expect(errors).toEqual([])
+  })
+
+  it('should validate isolation mode', async () => {
+    let tests: UserBenchmarkConfig['tests'] = [
+      {
+        isolation: 'thread' as UserBenchmarkConfig['isolation'],
+        cases: [{ testPath: 'test.js' }],
+        rulePath: 'rule.js',
+        ruleId: 'rule',
+        name: 'test',
+      },
+    ]
+
+    let errors = await validateConfig(
+      { isolation: 42 as unknown as UserBenchmarkConfig['isolation'], tests },
+      '',
+    )
+    expect(errors).toEqual([
+      '"isolation" must be one of: none, worker, process',
+      'Test "test": "isolation" must be one of: none, worker, process',
+    ])
+
+    errors = await validateConfig(
+      { tests: [{ ...tests[0]!, isolation: 'process' }], isolation: 'worker' },
+      '',
+    )
+    expect(errors).toEqual([])
+  })
+
+  it('should validate profileVisitors flag', async () => {
+    let tests: UserBenchmarkConfig['tests'] = [
+      {
+        profileVisitors: 'yes' as unknown as boolean,
+        cases: [{ testPath: 'test.js' }],
+        rulePath: 'rule.js',
+        ruleId: 'rule',
+        name: 'test',
+      },
+    ]
+
+    let errors = await validateConfig(
+      { profileVisitors: 1 as unknown as boolean, tests },
+      '',
+    )
+    expect(errors).toEqual([
+      '"profileVisitors" must be a boolean',
+      'Test "test": "profileVisitors" must be a boolean',
+    ])
+
+    errors = await validateConfig(
+      {
+        tests: [{ ...tests[0]!, profileVisitors: false }],
+        profileVisitors: true,
+      },
+      '',
+    )
+    expect(errors).toEqual([])
+  })
+
+  it('should validate measureOverhead flag', async () => {
+    let tests: UserBenchmarkConfig['tests'] = [
+      {
+        measureOverhead: 'yes' as unknown as boolean,
+        cases: [{ testPath: 'test.js' }],
+        rulePath: 'rule.js',
+        ruleId: 'rule',
+        name: 'test',
+      },
+    ]
+
+    let errors = await validateConfig(
+      { measureOverhead: 1 as unknown as boolean, tests },
+      '',
+    )
+    expect(errors).toEqual([
+      '"measureOverhead" must be a boolean',
+      'Test "test": "measureOverhead" must be a boolean',
+    ])
+
+    errors = await validateConfig(
+      {
+        tests: [{ ...tests[0]!, measureOverhead: false }],
+        measureOverhead: true,
+      },
+      '',
+    )
+    expect(errors).toEqual([])
+  })
+
+  it('should validate tsconfigPath and languageOptions', async () => {
+    vi.mocked(fs.access)
+      .mockResolvedValueOnce(undefined)
+      .mockRejectedValueOnce(new Error('File not found'))
+    let errors = await validateConfig(
+      {
+        tests: [
+          {
+            languageOptions: [] as unknown as Linter.LanguageOptions,
+            cases: [{ testPath: 'test.js' }],
+            tsconfigPath: 'tsconfig.json',
+            rulePath: 'rule.js',
+            ruleId: 'rule',
+            name: 'test',
+          },
+        ],
+      },
+      '',
+    )
+    expect(errors).toEqual([
+      'Test "test": tsconfig file not found at "tsconfig.json".',
+      'Test "test": "languageOptions" must be an object.',
+    ])
+  })
+
+  it('should accept existing tsconfig files and validate the type', async () => {
+    let errors = await validateConfig(
+      {
+        tests: [
+          {
+            cases: [{ testPath: 'test.js' }],
+            tsconfigPath: 'tsconfig.json',
+            rulePath: 'rule.js',
+            ruleId: 'rule',
+            name: 'valid',
+          },
+          {
+            tsconfigPath: 42 as unknown as string,
+            cases: [{ testPath: 'test.js' }],
+            rulePath: 'rule.js',
+            ruleId: 'rule',
+            name: 'test',
+          },
+        ],
+      },
+      '',
+    )
+    expect(errors).toEqual(['Test "test": "tsconfigPath" must be a string.'])
+  })
+
+  it('should validate settings, parser and processor of tests and cases', async () => {
+    let errors = await validateConfig(
+      {
+        tests: [
+          {
+            cases: [
+              {
+                settings: 'react' as unknown as Record<string, unknown>,
+                processor: 'markdown',
+                testPath: 'test.js',
+                language: 'gfm',
+              },
+              {
+                languageOptions: null as unknown as Linter.LanguageOptions,
+                settings: null as unknown as Record<string, unknown>,
+                testPath: 'test.js',
+              },
+            ],
+            parser: 42 as unknown as string,
+            processor: 'markdown/markdown',
+            settings: { react: {} },
+            rulePath: 'rule.js',
+            ruleId: 'rule',
+            name: 'test',
+          },
+        ],
+      },
+      '',
+    )
+    expect(errors).toEqual([
+      'Test "test": "parser" must be a non-empty string.',
+      'Test "test", Case 1: "settings" must be an object.',
+      'Test "test", Case 1: "processor" must be prefixed with the plugin name (e.g. "markdown/markdown").',
+      'Test "test", Case 1: "language" must be prefixed with the plugin name (e.g. "markdown/gfm").',
+      'Test "test", Case 2: "languageOptions" must be an object.',
+      'Test "test", Case 2: "settings" must be an object.',
+    ])
+  })
+
+  it('should validate custom extensions', async () => {
+    let errors = await validateConfig(
+      {
+        extensions: {
+          '.gts': { parser: 'ember-eslint-parser', language: 'typescript' },
+          '.mdx': { language: 'mdx' as 'markdown', parser: '' },
+          gjs: { language: 'javascript' },
+        },
+        tests: [
+          {
+            cases: [{ testPath: 'test.js' }],
+            rulePath: 'rule.js',
+            ruleId: 'rule',
+            name: 'test',
+          },
+        ],
+      },
+      '',
+    )
+    expect(errors).toEqual([
+      `Extension ".mdx": "language" must be one of: ${LANGUAGES.join(', ')}.`,
+      'Extension ".mdx": "parser" must be a non-empty string.',
+      'Extension "gjs": must start with a dot, e.g. ".gts".',
+    ])
+  })
+
+  it('should validate the type of custom extensions', async () => {
+    let tests = [
+      {
+        cases: [{ testPath: 'test.js' }],
+        rulePath: 'rule.js',
+        ruleId: 'rule',
+        name: 'test',
+      },
+    ]
+
+    await expect(
+      validateConfig(
+        {
+          extensions: [] as unknown as UserBenchmarkConfig['extensions'],
+          tests,
+        },
+        '',
+      ),
+    ).resolves.toEqual(['"extensions" must be an object.'])
+    await expect(
+      validateConfig(
+        {
+          extensions: {
+            '.gts': 'typescript' as unknown as { language: 'typescript' },
+          },
+          tests,
+        },
+        '',
+      ),
+    ).resolves.toEqual(['Extension ".gts": must be an object.'])
+    await expect(
+      validateConfig(
+        {
+          extensions: {
+            '.foo': null as unknown as { language: 'typescript' },
+          },
+          tests,
+        },
+        '',
+      ),
+    ).resolves.toEqual(['Extension ".foo": must be an object.'])
+  })
+
+  it('should validate fullConfig flag', async () => {
+    let errors = await validateConfig(
+      {
+        tests: [
+          {
+            fullConfig: 'yes' as unknown as boolean,
+            cases: [{ testPath: 'test.js' }],
+            rulePath: 'rule.js',
+            ruleId: 'rule',
+            name: 'test',
+          },
+        ],
+        fullConfig: true,
+      },
+      '',
+    )
+    expect(errors).toEqual(['Test "test": "fullConfig" must be a boolean'])
+  })
+
+  it('should validate fix option', async () => {
+    let errors = await validateConfig(
+      {
+        tests: [
+          {
+            fix: 'always' as unknown as boolean,
+            cases: [{ testPath: 'test.js' }],
+            rulePath: 'rule.js',
+            ruleId: 'rule',
+            name: 'test',
+          },
+        ],
+        fix: 1 as unknown as boolean,
+      },
+      '',
+    )
+    expect(errors).toEqual([
+      '"fix" must be a boolean or "both"',
+      'Test "test": "fix" must be a boolean or "both"',
+    ])
+
+    errors = await validateConfig(
+      {
+        tests: [
+          {
+            cases: [{ testPath: 'test.js' }],
+            rulePath: 'rule.js',
+            ruleId: 'rule',
+            name: 'test',
+            fix: false,
+          },
+        ],
+        fix: 'both',
+      },
+      '',
+    )
+    expect(errors).toEqual([])
+  })
+
+  it('should validate precision option', async () => {
+    let errors = await validateConfig(
+      {
+        tests: [
+          {
+            precision: { targetRme: 1.5, maxTime: -1 },
+            cases: [{ testPath: 'test.js' }],
+            rulePath: 'rule.js',
+            ruleId: 'rule',
+            name: 'test',
+          },
+        ],
+        precision: 0.01 as unknown as { targetRme: number },
+      },
+      '',
+    )
+    expect(errors).toEqual([
+      '"precision" must be an object',
+      'Test "test": "precision.targetRme" must be a number between 0 and 1',
+      'Test "test": "precision.maxTime" must be a positive number',
+    ])
+
+    errors = await validateConfig(
+      {
+        tests: [
+          {
+            precision: { targetRme: 0.02, maxTime: 10_000 },
+            cases: [{ testPath: 'test.js' }],
+            rulePath: 'rule.js',
+            ruleId: 'rule',
+            name: 'test',
+          },
+        ],
+        precision: { targetRme: 0.01 },
+      },
+      '',
+    )
+    expect(errors).toEqual([])
+  })
+
+  it('should validate testSpec thresholds', async () => {
+    let errors = await validateConfig(
+      {
+        tests: [
+          {
+            cases: [{ testPath: 'test.js' }],
+            thresholds: { maxMeanMs: -1 },
+            rulePath: 'rule.js',
+            ruleId: 'rule',
+            name: 'test',
+          },
+        ],
+      },
+      '',
+    )
+    expect(errors).toEqual([
+      'Test "test": "thresholds.maxMeanMs" must be a positive number',
+    ])
+  })
+
   it('should validate required testSpec properties', async () => {
     let config = {
       tests: [{}],
@@ -137,7 +564,7 @@ describe('validateConfig', () => {
     let errors = await validateConfig(config, '')
     expect(errors).toContain('Test at index 0: "name" is required.')
     expect(errors).toContain('Test "at index 0": "ruleId" is required.')
-    expect(errors).toContain('Test "at index 0": "rulePath" is required.')
+    expect(errors).not.toContain('Test "at index 0": "rulePath" is required.')
     expect(errors).toContain(
       'Test "at index 0": must include at least one case in the "cases" array.',
     )
@@ -147,17 +574,17 @@ describe('validateConfig', () => {
     let config: Partial<UserBenchmarkConfig> = {
       tests: [
         {
-          cases: [
-            {} as unknown as UserBenchmarkConfig['tests'][number]['cases'][number],
-          ],
           rulePath: 'rule.js',
           ruleId: 'my-rule',
           name: 'My Test',
+          cases: [{}],
         },
       ],
     }
     let errors = await validateConfig(config, '')
-    expect(errors).toContain('Test "My Test", Case 1: "testPath" is required.')
+    expect(errors).toContain(
+      'Test "My Test", Case 1: "testPath" or "code" is required.',
+    )
   })
 
   it('should validate rule file existence for testSpec', async () => {
@@ -178,6 +605,41 @@ describe('validateConfig', () => {
     )
   })
 
+  it('should accept core rules and plugin rules without rulePath', async () => {
+    let config: Partial<UserBenchmarkConfig> = {
+      tests: [
+        {
+          cases: [{ testPath: 'test.js' }],
+          ruleId: 'no-unused-vars',
+          name: 'core',
+        },
+        {
+          ruleId: '@typescript-eslint/no-unused-vars',
+          cases: [{ testPath: 'test.js' }],
+          name: 'plugin',
+        },
+      ],
+    }
+    let errors = await validateConfig(config, '')
+    expect(errors).toEqual([])
+  })
+
+  it('should reject unknown core rules without rulePath', async () => {
+    let config: Partial<UserBenchmarkConfig> = {
+      tests: [
+        {
+          cases: [{ testPath: 'test.js' }],
+          ruleId: 'no-such-rule',
+          name: 'test',
+        },
+      ],
+    }
+    let errors = await validateConfig(config, '')
+    expect(errors).toEqual([
+      'Test "test": "no-such-rule" is not a core ESLint rule, "rulePath" is required.',
+    ])
+  })
+
   it('should validate test file existence for string testPath in a case', async () => {
     vi.mocked(fs.access)
       .mockResolvedValueOnce(undefined)
@@ -222,6 +684,124 @@ describe('validateConfig', () => {
     )
   })
 
+  it('should validate the directory of a glob testPath in a case', async () => {
+    vi.mocked(fs.access).mockImplementation(filePath =>
+      /\*|missing$/u.test(filePath as string)
+        ? Promise.reject(new Error('File not found'))
+        : Promise.resolve(),
+    )
+    let config: Partial<UserBenchmarkConfig> = {
+      tests: [
+        {
+          cases: [{ testPath: 'missing/**/*.tsx' }, { testPath: 'src/*.tsx' }],
+          rulePath: 'rule.js',
+          ruleId: 'rule',
+          name: 'test',
+        },
+      ],
+    }
+    let errors = await validateConfig(config, '')
+    expect(errors).toEqual([
+      'Test "test", Case 1: Directory "missing" of the glob "missing/**/*.tsx" not found.',
+    ])
+  })
+
+  it('should validate ignore and maxFiles in a case', async () => {
+    let config: Partial<UserBenchmarkConfig> = {
+      tests: [
+        {
+          cases: [
+            {
+              ignore: [1] as unknown as string[],
+              testPath: 'test.js',
+              maxFiles: 0,
+            },
+            { ignore: ['**/*.test.ts'], testPath: 'test.js', maxFiles: 10 },
+          ],
+          rulePath: 'rule.js',
+          ruleId: 'rule',
+          name: 'test',
+        },
+      ],
+    }
+    let errors = await validateConfig(config, '')
+    expect(errors).toEqual([
+      'Test "test", Case 1: "ignore" must be a string or an array of strings.',
+      'Test "test", Case 1: "maxFiles" must be a positive integer.',
+    ])
+  })
+
+  it('should validate scaling in a case', async () => {
+    let config: Partial<UserBenchmarkConfig> = {
+      tests: [
+        {
+          cases: [
+            { scaling: 'yes' as unknown as boolean, testPath: 'test.js' },
+            {
+              scaling: {
+                mode: 'grow' as unknown as ScalingConfig['mode'],
+                sizes: [1, 2, 2],
+              },
+              testPath: 'test.js',
+            },
+            { scaling: { sizes: [1, 2.5, 4] }, testPath: 'test.js' },
+            {
+              scaling: { sizes: [1, 2, 4], mode: 'nest' },
+              testPath: 'test.js',
+            },
+            { testPath: 'test.js', scaling: true },
+          ],
+          rulePath: 'rule.js',
+          ruleId: 'rule',
+          name: 'test',
+        },
+      ],
+    }
+    let errors = await validateConfig(config, '')
+    expect(errors).toEqual([
+      'Test "test", Case 1: "scaling" must be a boolean or an object.',
+      'Test "test", Case 2: "scaling.mode" must be one of: repeat, nest.',
+      'Test "test", Case 2: "scaling.sizes" must be an array of at least 3 distinct positive integers.',
+      'Test "test", Case 3: "scaling.sizes" must be an array of at least 3 distinct positive integers.',
+    ])
+  })
+
+  it('should validate inline code in a case', async () => {
+    let config: Partial<UserBenchmarkConfig> = {
+      tests: [
+        {
+          cases: [
+            { code: 'let a = 1' },
+            {
+              code: [
+                { filename: 'a.gts', code: 'let a = 1' },
+                { code: 'let b = 2', filename: 'b.ts' },
+                { filename: 'notes.txt', code: 'a' },
+                { code: 1 } as unknown as InlineCodeSample,
+                { filename: 'c.ts', code: '' },
+              ],
+            },
+            { code: [] },
+            { code: '' },
+          ],
+          rulePath: 'rule.js',
+          ruleId: 'rule',
+          name: 'test',
+        },
+      ],
+      extensions: { '.gts': { language: 'typescript' } },
+    }
+    let errors = await validateConfig(config, '')
+    expect(errors).toEqual([
+      'Test "test", Case 2: Inline sample 3: "notes.txt" has an unsupported extension.',
+      'Test "test", Case 2: Inline sample 4: "filename" must be a non-empty string.',
+      'Test "test", Case 2: Inline sample 4: "code" must be a non-empty string.',
+      'Test "test", Case 2: Inline sample 5: "code" must be a non-empty string.',
+      'Test "test", Case 3: "code" must be a string or a non-empty array of samples.',
+      'Test "test", Case 4: "code" must not be empty.',
+    ])
+  })
+
   it('should validate severity value in a case', async () => {
     let config: Partial<UserBenchmarkConfig> = {
       tests: [
@@ -410,7 +990,7 @@ describe('validateConfig', () => {
             },
           ],
           rulePath: 'another-rule.js',
-        } as unknown as UserBenchmarkConfig['tests'][number],
+        } as unknown as NonNullable<UserBenchmarkConfig['tests']>[number],
       ],
     }
     let errors = await validateConfig(config, '')
@@ -487,4 +1067,66 @@ describe('validateConfig', () => {
     ).toHaveLength(0)
     expect(errors).toHaveLength(0)
   })
+
+  it('should return an error if tests or plugins are not arrays', async () => {
+    let testsErrors = await validateConfig(
+      { tests: {} } as unknown as Partial<UserBenchmarkConfig>,
+      '',
+    )
+    expect(testsErrors).toEqual(['"tests" must be an array.'])
+
+    let pluginsErrors = await validateConfig(
+      { plugins: 'plugin.js' } as unknown as Partial<UserBenchmarkConfig>,
+      '',
+    )
+    expect(pluginsErrors).toEqual(['"plugins" must be an array.'])
+  })
+
+  it('should accept a configuration with only plugins', async () => {
+    let config: UserBenchmarkConfig = {
+      plugins: [
+        {
+          cases: [{ testPath: 'some/path.js', severity: 1 }],
+          pluginPath: 'plugin.js',
+          name: 'my-plugin',
+          iterations: 10,
+        },
+      ],
+    }
+    let errors = await validateConfig(config, '')
+    expect(errors).toHaveLength(0)
+    expect(fs.access).toHaveBeenCalledWith('/mocked/path/plugin.js')
+  })
+
+  it('should validate required plugin properties', async () => {
+    let config = {
+      plugins: [{}],
+    } as Partial<UserBenchmarkConfig>
+    let errors = await validateConfig(config, '')
+    expect(errors).toEqual([
+      'Plugin at index 0: "name" is required.',
+      'Plugin "at index 0": "pluginPath" is required.',
+      'Plugin "at index 0": must include at least one case in the "cases" array.',
+    ])
+  })
+
+  it('should validate plugin file existence, settings and cases', async () => {
+    vi.mocked(fs.access).mockRejectedValueOnce(new Error('File not found'))
+    let config = {
+      plugins: [
+        {
+          cases: [{ options: [{ strict: true }], testPath: 'test.js' }],
+          pluginPath: 'missing-plugin.js',
+          name: 'my-plugin',
+          timeout: -1,
+        },
+      ],
+    } as unknown as Partial<UserBenchmarkConfig>
+    let errors = await validateConfig(config, '')
+    expect(errors).toEqual([
+      'Plugin "my-plugin": Plugin file not found at "missing-plugin.js".',
+      'Plugin "my-plugin": "timeout" must be a positive number',
+      'Plugin "my-plugin", Case 1: "options" is not supported for plugins.',
+    ])
+  })
 })
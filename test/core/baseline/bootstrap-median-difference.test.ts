@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest'
+
+import { bootstrapMedianDifference } from '../../../core/baseline/bootstrap-median-difference'
+
+function createSamples(center: number, count: number): number[] {
+  return Array.from(
+    { length: count },
+    (_value, index) => center + ((index % 10) - 4.5) / 100,
+  )
+}
+
+describe('bootstrapMedianDifference', () => {
+  it('returns an interval above zero when the second sample is slower', () => {
+    let interval = bootstrapMedianDifference(
+      createSamples(1, 100),
+      createSamples(1.2, 100),
+    )
+
+    expect(interval.lower).toBeGreaterThan(0.1)
+    expect(interval.upper).toBeLessThan(0.3)
+    expect(interval.lower).toBeLessThanOrEqual(interval.upper)
+  })
+
+  it('returns an interval around zero for identical distributions', () => {
+    let interval = bootstrapMedianDifference(
+      createSamples(1, 99),
+      createSamples(1, 101),
+    )
+
+    expect(interval.lower).toBeLessThanOrEqual(0)
+    expect(interval.upper).toBeGreaterThanOrEqual(0)
+  })
+
+  it('is deterministic for the same samples', () => {
+    let first = createSamples(1, 50)
+    let second = createSamples(0.9, 50)
+
+    expect(bootstrapMedianDifference(first, second)).toEqual(
+      bootstrapMedianDifference(first, second),
+    )
+  })
+
+  it('returns a zero interval for empty samples', () => {
+    expect(bootstrapMedianDifference([], [1, 2])).toEqual({
+      lower: 0,
+      upper: 0,
+    })
+  })
+})
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest'
+
+import { calculateDelta } from '../../../core/baseline/calculate-delta'
+
+describe('calculateDelta', () => {
+  it('should calculate absolute and relative change', () => {
+    expect(calculateDelta(2, 3)).toEqual({
+      difference: 1,
+      baseline: 2,
+      percent: 50,
+      current: 3,
+    })
+    expect(calculateDelta(4, 3)).toEqual({
+      difference: -1,
+      percent: -25,
+      baseline: 4,
+      current: 3,
+    })
+  })
+
+  it('should return null percent when baseline is zero', () => {
+    expect(calculateDelta(0, 5)).toEqual({
+      percent: null,
+      difference: 5,
+      baseline: 0,
+      current: 5,
+    })
+  })
+})
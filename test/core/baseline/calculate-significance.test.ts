@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest'
+
+import { calculateSignificance } from '../../../core/baseline/calculate-significance'
+
+function createSamples(center: number, count: number = 50): number[] {
+  return Array.from(
+    { length: count },
+    (_value, index) => center + ((index % 10) - 4.5) / 100,
+  )
+}
+
+describe('calculateSignificance', () => {
+  it('labels a significant increase of execution time as slower', () => {
+    let significance = calculateSignificance(
+      createSamples(1),
+      createSamples(1.2),
+    )
+
+    expect(significance?.verdict).toBe('slower')
+    expect(significance?.pValue).toBeLessThan(0.05)
+    expect(significance?.medianDifferenceInterval.lower).toBeGreaterThan(0)
+  })
+
+  it('labels a significant decrease of execution time as faster', () => {
+    let significance = calculateSignificance(
+      createSamples(1),
+      createSamples(0.8),
+    )
+
+    expect(significance?.verdict).toBe('faster')
+    expect(significance?.medianDifferenceInterval.upper).toBeLessThan(0)
+  })
+
+  it('labels samples from the same distribution as no change', () => {
+    let significance = calculateSignificance(
+      createSamples(1),
+      createSamples(1).toReversed(),
+    )
+
+    expect(significance?.verdict).toBe('no change')
+    expect(significance?.pValue).toBeGreaterThan(0.05)
+  })
+
+  it('labels a significant test with an interval that includes zero as no change', () => {
+    let significance = calculateSignificance(
+      [1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 5],
+      [1, 1, 1, 1, 1, 1, 1, 1, 1, 1, 2, 2, 2, 2, 2, 2, 2, 2, 2, 2],
+    )
+
+    expect(significance?.pValue).toBeLessThan(0.05)
+    expect(significance?.medianDifferenceInterval.lower).toBeLessThanOrEqual(0)
+    expect(significance?.verdict).toBe('no change')
+  })
+
+  it('returns undefined when there are too few samples', () => {
+    expect(calculateSignificance([1], [1, 2, 3])).toBeUndefined()
+    expect(calculateSignificance([1, 2, 3], [])).toBeUndefined()
+  })
+})
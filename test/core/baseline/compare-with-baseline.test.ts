@@ -0,0 +1,168 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+import type { ProcessedBenchmarkTask } from '../../../core/benchmark/run-benchmark'
+import type { BaselineMetrics } from '../../../types/baseline-comparison'
+import type { BenchmarkMetrics } from '../../../types/benchmark-metrics'
+import type { TestSpecResult } from '../../../types/benchmark-config'
+
+import { compareWithBaseline } from '../../../core/baseline/compare-with-baseline'
+import { getBaselineKey } from '../../../core/baseline/get-baseline-key'
+
+function createMockResults(): TestSpecResult[] {
+  return [
+    {
+      testCaseResults: [
+        {
+          samplesResults: [
+            createMockProcessedTask('Spec - Case 1 on a.js'),
+            createMockProcessedTask('Spec - Case 1 on b.js'),
+          ],
+          rule: { ruleId: 'rule', severity: 2 },
+          name: 'Spec - Case 1',
+          id: 'tc-1',
+        },
+      ],
+      benchmarkConfig: {
+        warmup: { iterations: 10, enabled: true },
+        iterations: 100,
+        timeout: 1000,
+      },
+      ruleId: 'rule',
+      name: 'Spec',
+    },
+  ]
+}
+
+function createMockProcessedTask(
+  name: string,
+  metricOverrides: Partial<BenchmarkMetrics> = {},
+): ProcessedBenchmarkTask {
+  return {
+    metrics: {
+      sampleCount: 10,
+      period: 0.001,
+      stdDev: 0.05,
+      median: 0.9,
+      p75: 1.05,
+      min: 0.8,
+      max: 1.2,
+      p99: 1.1,
+      hz: 1000,
+      mean: 1,
+      ...metricOverrides,
+    },
+    name,
+  }
+}
+
+describe('compareWithBaseline', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('should attach comparison to samples found in the baseline', () => {
+    let baseline = new Map<string, BaselineMetrics>([
+      [
+        getBaselineKey('Spec', 'Spec - Case 1', 'a.js'),
+        { median: 0.6, mean: 0.5, hz: 2000 },
+      ],
+    ])
+
+    let results = compareWithBaseline(createMockResults(), baseline)
+    let [sampleA, sampleB] = results[0]!.testCaseResults[0]!.samplesResults
+
+    expect(sampleA!.comparison).toEqual({
+      median: {
+        difference: expect.closeTo(0.3) as number,
+        percent: expect.closeTo(50) as number,
+        baseline: 0.6,
+        current: 0.9,
+      },
+      hz: {
+        difference: -1000,
+        baseline: 2000,
+        current: 1000,
+        percent: -50,
+      },
+      mean: {
+        difference: 0.5,
+        baseline: 0.5,
+        percent: 100,
+        current: 1,
+      },
+    })
+    expect(sampleB!.comparison).toBeUndefined()
+  })
+
+  it('should test the significance when samples are available on both sides', () => {
+    let results = createMockResults()
+    results[0]!.testCaseResults[0]!.samplesResults[0]!.samples = [
+      1.2, 1.25, 1.3, 1.22, 1.28, 1.24,
+    ]
+    let baseline = new Map<string, BaselineMetrics>([
+      [
+        getBaselineKey('Spec', 'Spec - Case 1', 'a.js'),
+        {
+          samples: [1, 1.05, 0.95, 1.02, 0.98, 1],
+          median: 1,
+          hz: 1000,
+          mean: 1,
+        },
+      ],
+      [
+        getBaselineKey('Spec', 'Spec - Case 1', 'b.js'),
+        { samples: [1, 1.05, 0.95], median: 1, hz: 1000, mean: 1 },
+      ],
+    ])
+
+    let [sampleA, sampleB] = compareWithBaseline(results, baseline)[0]!
+      .testCaseResults[0]!.samplesResults
+
+    expect(sampleA!.comparison?.significance?.verdict).toBe('slower')
+    expect(sampleB!.comparison?.significance).toBeUndefined()
+  })
+
+  it('should not compare failed samples', () => {
+    let results = createMockResults()
+    results[0]!.testCaseResults[0]!.samplesResults[0]!.error = 'Parsing error'
+    let baseline = new Map<string, BaselineMetrics>([
+      [
+        getBaselineKey('Spec', 'Spec - Case 1', 'a.js'),
+        { median: 1, mean: 1, hz: 1 },
+      ],
+    ])
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+    let [sampleA] = compareWithBaseline(results, baseline)[0]!
+      .testCaseResults[0]!.samplesResults
+
+    expect(sampleA!.comparison).toBeUndefined()
+  })
+
+  it('should not mutate the original results', () => {
+    let originalResults = createMockResults()
+    let baseline = new Map<string, BaselineMetrics>([
+      [
+        getBaselineKey('Spec', 'Spec - Case 1', 'a.js'),
+        { median: 1, mean: 1, hz: 1 },
+      ],
+    ])
+
+    compareWithBaseline(originalResults, baseline)
+
+    expect(
+      originalResults[0]!.testCaseResults[0]!.samplesResults[0]!.comparison,
+    ).toBeUndefined()
+  })
+
+  it('should warn when no samples match the baseline', () => {
+    let consoleWarnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+    let results = compareWithBaseline(createMockResults(), new Map())
+
+    expect(consoleWarnSpy).toHaveBeenCalledWith(
+      expect.stringContaining('No samples from the current run matched'),
+    )
+    expect(results).toEqual(createMockResults())
+  })
+})
@@ -0,0 +1,17 @@
+import { describe, expect, it } from 'vitest'
+
+import { getBaselineKey } from '../../../core/baseline/get-baseline-key'
+
+describe('getBaselineKey', () => {
+  it('should return the same key for the same sample', () => {
+    expect(getBaselineKey('Spec', 'Spec - Case 1', 'a.js')).toBe(
+      getBaselineKey('Spec', 'Spec - Case 1', 'a.js'),
+    )
+  })
+
+  it('should not collide when names contain separators', () => {
+    expect(getBaselineKey('a b', 'c', 'd')).not.toBe(
+      getBaselineKey('a', 'b c', 'd'),
+    )
+  })
+})
@@ -0,0 +1,150 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import fs from 'node:fs/promises'
+
+import { getBaselineKey } from '../../../core/baseline/get-baseline-key'
+import { loadBaseline } from '../../../core/baseline/load-baseline'
+
+vi.mock('node:fs/promises', () => ({
+  default: {
+    readFile: vi.fn(),
+  },
+}))
+
+function createReport(samples: unknown[]): string {
+  return JSON.stringify({
+    testSpecifications: [
+      {
+        testCases: [
+          {
+            name: 'Spec - Case 1',
+            ruleId: 'rule',
+            id: 'tc-1',
+            samples,
+          },
+        ],
+        ruleId: 'rule',
+        name: 'Spec',
+      },
+    ],
+    systemInfo: {},
+  })
+}
+
+describe('loadBaseline', () => {
+  beforeEach(() => {
+    vi.resetAllMocks()
+  })
+
+  it('should index samples by test spec, test case and sample name', async () => {
+    vi.mocked(fs.readFile).mockResolvedValue(
+      createReport([
+        {
+          rawMetrics: {
+            sampleCount: 10,
+            period: 0.001,
+            median: 0.9,
+            stdDev: 0.1,
+            p75: 1.1,
+            p99: 1.2,
+            hz: 1000,
+            max: 1.3,
+            min: 0.8,
+            mean: 1,
+          },
+          samples: [0.9, 1, 1.1],
+          sampleName: 'a.js',
+        },
+      ]),
+    )
+
+    let baseline = await loadBaseline('/baseline.json')
+
+    expect(fs.readFile).toHaveBeenCalledWith('/baseline.json', 'utf8')
+    expect(baseline.size).toBe(1)
+    expect(
+      baseline.get(getBaselineKey('Spec', 'Spec - Case 1', 'a.js')),
+    ).toEqual({
+      samples: [0.9, 1, 1.1],
+      median: 0.9,
+      hz: 1000,
+      mean: 1,
+    })
+  })
+
+  it('should parse formatted metrics from reports without raw metrics', async () => {
+    vi.mocked(fs.readFile).mockResolvedValue(
+      createReport([
+        {
+          metrics: {
+            averageTime: '1,234.500 ms',
+            medianTime: '0.900 ms',
+            operationsPerSecond: 1,
+          },
+          sampleName: 'a.js',
+        },
+      ]),
+    )
+
+    let baseline = await loadBaseline('/baseline.json')
+
+    expect(
+      baseline.get(getBaselineKey('Spec', 'Spec - Case 1', 'a.js')),
+    ).toEqual({
+      mean: 1234.5,
+      median: 0.9,
+      hz: 1,
+    })
+  })
+
+  it('should skip samples without usable metrics', async () => {
+    vi.mocked(fs.readFile).mockResolvedValue(
+      createReport([
+        { sampleName: 'failed.js', error: 'Boom' },
+        {
+          metrics: {
+            operationsPerSecond: 0,
+            medianTime: '0.900 ms',
+            averageTime: 'N/A',
+          },
+          sampleName: 'invalid.js',
+        },
+        {
+          metrics: {
+            averageTime: '1.000 ms',
+            operationsPerSecond: 0,
+            medianTime: null,
+          },
+          sampleName: 'missing.js',
+        },
+      ]),
+    )
+
+    let baseline = await loadBaseline('/baseline.json')
+
+    expect(baseline.size).toBe(0)
+  })
+
+  it('should throw if the file cannot be read', async () => {
+    vi.mocked(fs.readFile).mockRejectedValue(new Error('ENOENT'))
+
+    await expect(loadBaseline('/missing.json')).rejects.toThrowError(
+      'Failed to read baseline report "/missing.json": ENOENT',
+    )
+  })
+
+  it('should throw if the file is not valid JSON', async () => {
+    vi.mocked(fs.readFile).mockResolvedValue('not json')
+
+    await expect(loadBaseline('/baseline.json')).rejects.toThrowError(
+      'Baseline report "/baseline.json" is not valid JSON',
+    )
+  })
+
+  it('should throw if the file is not a JSON benchmark report', async () => {
+    vi.mocked(fs.readFile).mockResolvedValue('{}')
+
+    await expect(loadBaseline('/baseline.json')).rejects.toThrowError(
+      'does not contain "testSpecifications"',
+    )
+  })
+})
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest'
+
+import { mannWhitneyUTest } from '../../../core/baseline/mann-whitney-u-test'
+
+describe('mannWhitneyUTest', () => {
+  it('returns a small p-value for clearly separated samples', () => {
+    expect(mannWhitneyUTest([1, 2, 3, 4, 5], [6, 7, 8, 9, 10])).toBeCloseTo(
+      0.0122,
+      4,
+    )
+  })
+
+  it('is symmetric in its arguments', () => {
+    let baseline = [1.2, 0.8, 1.1, 0.95, 1.3, 1]
+    let current = [1.4, 1.25, 1.6, 1.1, 1.5, 1.35]
+
+    expect(mannWhitneyUTest(baseline, current)).toBeCloseTo(
+      mannWhitneyUTest(current, baseline),
+      10,
+    )
+  })
+
+  it('returns a large p-value for overlapping samples', () => {
+    expect(mannWhitneyUTest([1, 3, 5, 7, 9], [2, 4, 6, 8, 10])).toBeGreaterThan(
+      0.5,
+    )
+  })
+
+  it('accounts for tied values', () => {
+    let pValue = mannWhitneyUTest([1, 1, 2, 2, 3], [2, 3, 3, 4, 4])
+
+    expect(pValue).toBeGreaterThan(0)
+    expect(pValue).toBeLessThan(1)
+  })
+
+  it('returns 1 when all values are equal', () => {
+    expect(mannWhitneyUTest([1, 1, 1], [1, 1, 1])).toBe(1)
+  })
+
+  it('returns 1 for empty samples', () => {
+    expect(mannWhitneyUTest([], [1, 2, 3])).toBe(1)
+    expect(mannWhitneyUTest([1, 2, 3], [])).toBe(1)
+  })
+})
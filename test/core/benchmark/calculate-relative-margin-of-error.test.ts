@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest'
+
+import { calculateRelativeMarginOfError } from '../../../core/benchmark/calculate-relative-margin-of-error'
+
+describe('calculateRelativeMarginOfError', () => {
+  it('should use the t-distribution for few samples', () => {
+    // Mean 10, standard error 1, critical value for 4 degrees of freedom.
+    expect(calculateRelativeMarginOfError([8, 9, 10, 11, 12])).toBeCloseTo(
+      (2.776 * Math.sqrt(2.5 / 5)) / 10,
+    )
+  })
+
+  it('should approach the normal distribution for many samples', () => {
+    let samples = Array.from({ length: 1000 }, (_, index) =>
+      index % 2 === 0 ? 9 : 11,
+    )
+    let standardError = Math.sqrt(1000 / 999 / 1000)
+
+    expect(calculateRelativeMarginOfError(samples)).toBeCloseTo(
+      (1.9623 * standardError) / 10,
+      4,
+    )
+  })
+
+  it('should return zero for equal samples', () => {
+    expect(calculateRelativeMarginOfError([5, 5, 5])).toBe(0)
+  })
+
+  it('should return Infinity for fewer than two samples', () => {
+    expect(calculateRelativeMarginOfError([5])).toBe(Infinity)
+    expect(calculateRelativeMarginOfError([])).toBe(Infinity)
+  })
+})
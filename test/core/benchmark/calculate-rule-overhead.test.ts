@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest'
+
+import type { BenchmarkMetrics } from '../../../types/benchmark-metrics'
+
+import { calculateRuleOverhead } from '../../../core/benchmark/calculate-rule-overhead'
+
+function createMetrics(mean: number, median: number): BenchmarkMetrics {
+  return {
+    period: mean / 1000,
+    hz: 1000 / mean,
+    sampleCount: 10,
+    stdDev: 0.1,
+    min: median,
+    max: median,
+    p75: median,
+    p99: median,
+    median,
+    mean,
+  }
+}
+
+describe('calculateRuleOverhead', () => {
+  it('should subtract the control metrics from the total metrics', () => {
+    expect(
+      calculateRuleOverhead(createMetrics(2, 1.5), createMetrics(1.5, 1)),
+    ).toEqual({
+      controlMedian: 1,
+      controlMean: 1.5,
+      median: 0.5,
+      percent: 25,
+      mean: 0.5,
+    })
+  })
+
+  it('should keep negative values caused by measurement noise', () => {
+    expect(
+      calculateRuleOverhead(createMetrics(1, 1), createMetrics(1.25, 1)),
+    ).toMatchObject({
+      percent: -25,
+      mean: -0.25,
+      median: 0,
+    })
+  })
+
+  it('should return null percent when the total mean time is zero', () => {
+    expect(
+      calculateRuleOverhead(createMetrics(0, 0), createMetrics(0, 0)),
+    ).toMatchObject({
+      percent: null,
+      mean: 0,
+    })
+  })
+})
@@ -0,0 +1,37 @@
+import type { Task } from 'tinybench'
+
+import { describe, expect, it, vi } from 'vitest'
+
+import { combineHooks } from '../../../core/benchmark/combine-hooks'
+
+describe('combineHooks', () => {
+  it('calls hooks of all sets in order with the task and mode', async () => {
+    let calls: string[] = []
+    let task = {} as Task
+    let firstBeforeAll = vi.fn(() => {
+      calls.push('first')
+    })
+    let secondBeforeAll = vi.fn(async () => {
+      await Promise.resolve()
+      calls.push('second')
+    })
+
+    let hooks = combineHooks(
+      { beforeAll: firstBeforeAll },
+      { beforeAll: secondBeforeAll },
+    )
+    await hooks.beforeAll?.call(task, 'run')
+
+    expect(calls).toEqual(['first', 'second'])
+    expect(firstBeforeAll.mock.contexts[0]).toBe(task)
+    expect(secondBeforeAll).toHaveBeenCalledWith('run')
+  })
+
+  it('only creates hooks that are defined in at least one set', () => {
+    let afterEach = vi.fn()
+
+    let hooks = combineHooks({ afterEach }, {})
+
+    expect(Object.keys(hooks)).toEqual(['afterEach'])
+  })
+})
@@ -0,0 +1,119 @@
+import type { Task } from 'tinybench'
+
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { PerformanceObserver } from 'node:perf_hooks'
+
+import type { MemoryTracker } from '../../../core/benchmark/create-memory-tracker'
+
+import { createMemoryTracker } from '../../../core/benchmark/create-memory-tracker'
+
+vi.mock('node:perf_hooks', () => ({
+  PerformanceObserver: vi.fn(),
+}))
+
+type ObserverCallback = (list: { getEntries(): PerformanceEntry[] }) => void
+
+let observerCallback: ObserverCallback
+let pendingEntries: PerformanceEntry[]
+let observer: {
+  takeRecords: ReturnType<typeof vi.fn>
+  disconnect: ReturnType<typeof vi.fn>
+  observe: ReturnType<typeof vi.fn>
+}
+
+async function runHook(
+  tracker: MemoryTracker,
+  hook: 'beforeEach' | 'beforeAll' | 'afterEach' | 'afterAll',
+  mode: 'warmup' | 'run',
+): Promise<void> {
+  await tracker.hooks[hook]?.call({} as Task, mode)
+}
+
+function mockHeapUsed(...values: number[]): void {
+  let spy = vi.spyOn(process, 'memoryUsage')
+  for (let heapUsed of values) {
+    spy.mockReturnValueOnce({ heapUsed } as NodeJS.MemoryUsage)
+  }
+}
+
+function gcEntry(duration: number): PerformanceEntry {
+  return { duration } as PerformanceEntry
+}
+
+describe('createMemoryTracker', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks()
+    pendingEntries = []
+    observer = {
+      takeRecords: vi.fn(() => pendingEntries),
+      disconnect: vi.fn(),
+      observe: vi.fn(),
+    }
+    vi.mocked(PerformanceObserver).mockImplementation(((
+      callback: ObserverCallback,
+    ) => {
+      observerCallback = callback
+      return observer
+    }) as unknown as () => PerformanceObserver)
+  })
+
+  it('returns null when no operations were measured', () => {
+    expect(createMemoryTracker().getMetrics()).toBeNull()
+  })
+
+  it('measures heap growth and garbage collections of the run phase', async () => {
+    let tracker = createMemoryTracker()
+    mockHeapUsed(1000, 3000, 3000, 2000, 2000, 7000)
+
+    await runHook(tracker, 'beforeAll', 'run')
+    expect(observer.observe).toHaveBeenCalledWith({ entryTypes: ['gc'] })
+
+    for (let iteration = 0; iteration < 3; iteration++) {
+      // eslint-disable-next-line no-await-in-loop
+      await runHook(tracker, 'beforeEach', 'run')
+      // eslint-disable-next-line no-await-in-loop
+      await runHook(tracker, 'afterEach', 'run')
+    }
+
+    observerCallback({ getEntries: () => [gcEntry(1.5)] })
+    pendingEntries = [gcEntry(0.5)]
+    await runHook(tracker, 'afterAll', 'run')
+
+    expect(observer.disconnect).toHaveBeenCalledOnce()
+    expect(tracker.getMetrics()).toEqual({
+      memoryUsageBytes: 2000,
+      gcDurationMs: 2,
+      gcCount: 2,
+    })
+  })
+
+  it('ignores the warmup phase', async () => {
+    let tracker = createMemoryTracker()
+    let memoryUsageSpy = vi.spyOn(process, 'memoryUsage')
+
+    await runHook(tracker, 'beforeAll', 'warmup')
+    await runHook(tracker, 'beforeEach', 'warmup')
+    await runHook(tracker, 'afterEach', 'warmup')
+    await runHook(tracker, 'afterAll', 'warmup')
+
+    expect(PerformanceObserver).not.toHaveBeenCalled()
+    expect(memoryUsageSpy).not.toHaveBeenCalled()
+    expect(tracker.getMetrics()).toBeNull()
+  })
+
+  it('reports negative heap growth when every operation freed memory', async () => {
+    let tracker = createMemoryTracker()
+    mockHeapUsed(5000, 1000)
+
+    await runHook(tracker, 'beforeAll', 'run')
+    await runHook(tracker, 'beforeEach', 'run')
+    await runHook(tracker, 'afterEach', 'run')
+    await runHook(tracker, 'afterAll', 'run')
+
+    expect(tracker.getMetrics()).toEqual({
+      memoryUsageBytes: -4000,
+      gcDurationMs: 0,
+      gcCount: 0,
+    })
+  })
+})
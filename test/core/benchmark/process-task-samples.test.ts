@@ -0,0 +1,58 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { calculateStatistics } from '../../../core/benchmark/calculate-statistics'
+import { processTaskSamples } from '../../../core/benchmark/process-task-samples'
+import * as filterOutliersModule from '../../../core/benchmark/filter-outliers'
+
+describe('processTaskSamples', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks()
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+  })
+
+  it('calculates metrics from samples without outliers', () => {
+    let samples = [1, 1.1, 0.9, 1, 1.05, 50]
+
+    let result = processTaskSamples('Case 1 on a.js', samples)
+
+    let { filteredSamples } = filterOutliersModule.filterOutliers(samples)
+    expect(result).toEqual({
+      metrics: calculateStatistics(filteredSamples),
+      samples: filteredSamples,
+      name: 'Case 1 on a.js',
+    })
+    expect(result.metrics.max).toBeLessThan(50)
+  })
+
+  it('falls back to the original samples when all of them are outliers', () => {
+    vi.spyOn(filterOutliersModule, 'filterOutliers').mockReturnValue({
+      outliersRemovedCount: 3,
+      filteredSamples: [],
+    })
+
+    let result = processTaskSamples('Case 1 on a.js', [1, 2, 3])
+
+    expect(result.metrics).toEqual(calculateStatistics([1, 2, 3]))
+    expect(result.samples).toEqual([1, 2, 3])
+    expect(console.warn).toHaveBeenCalledWith(
+      expect.stringContaining(
+        'All 3 samples for task "Case 1 on a.js" were filtered out as outliers',
+      ),
+    )
+  })
+
+  it('includes memory metrics when provided', () => {
+    let result = processTaskSamples('Case 1 on a.js', [1, 2, 3], {
+      memoryUsageBytes: 2048,
+      gcDurationMs: 1.5,
+      gcCount: 2,
+    })
+
+    expect(result.metrics).toEqual({
+      ...calculateStatistics([1, 2, 3]),
+      memoryUsageBytes: 2048,
+      gcDurationMs: 1.5,
+      gcCount: 2,
+    })
+  })
+})
@@ -1,5 +1,5 @@
 import type { TaskResult, Bench } from 'tinybench'
-import type { ESLint } from 'eslint'
+import type { ESLint, Rule } from 'eslint'
 
 import { beforeEach, describe, expect, it, vi } from 'vitest'
 
@@ -12,11 +12,14 @@ import { calculateStatistics } from '../../../core/benchmark/calculate-statistic
 import { filterOutliers } from '../../../core/benchmark/filter-outliers'
 import { runBenchmark } from '../../../core/benchmark/run-benchmark'
 import { createBench } from '../../../core/benchmark/create-bench'
+import { MIN_PRECISION_SAMPLES } from '../../../constants'
 
 vi.mock('../../../core/eslint/create-eslint-instance', () => ({
   createESLintInstance: vi.fn().mockResolvedValue({
-    lintText: vi.fn().mockResolvedValue([{ warningCount: 0, errorCount: 0 }]),
-  } as unknown as ESLint),
+    lintText: vi
+      .fn()
+      .mockResolvedValue([{ warningCount: 0, errorCount: 0, messages: [] }]),
+  }),
 }))
 
 const MOCK_SAMPLES_NS_RAW = [52700, 52800, 54300, 54800, 57700, 200000, 10000]
@@ -63,7 +66,12 @@ describe('runBenchmark', () => {
 
     testCase = {
       samples: [
-        { language: 'javascript', code: 'const a = 1;', filename: 'a.js' },
+        {
+          filePath: '/samples/a.js',
+          language: 'javascript',
+          code: 'const a = 1;',
+          filename: 'a.js',
+        },
       ],
       rule: { ruleId: 'demo', severity: 2 },
       name: 'Sample case',
@@ -97,6 +105,10 @@ describe('runBenchmark', () => {
       expect(benchInstance.add).toHaveBeenCalledWith(
         `${testCase.name} on ${sample.filename}`,
         expect.any(Function),
+        expect.objectContaining({
+          beforeEach: expect.any(Function) as unknown,
+          afterEach: expect.any(Function) as unknown,
+        }),
       )
     }
   })
@@ -150,7 +162,12 @@ describe('runBenchmark', () => {
     let anotherTestCase: TestCase = {
       ...testCase,
       samples: [
-        { language: 'typescript', code: 'let b = 2;', filename: 'b.ts' },
+        {
+          filePath: '/samples/b.ts',
+          language: 'typescript',
+          code: 'let b = 2;',
+          filename: 'b.ts',
+        },
       ],
       name: 'Another Case',
       id: 'id-2',
@@ -159,32 +176,34 @@ describe('runBenchmark', () => {
 
     let mockLintTextSpy1 = vi
       .fn()
-      .mockResolvedValue([{ warningCount: 0, errorCount: 0 }])
+      .mockResolvedValue([{ warningCount: 0, errorCount: 0, messages: [] }])
     let mockESLintInstance1 = {
       lintText: mockLintTextSpy1,
     } as unknown as ESLint
 
     let mockLintTextSpy2 = vi
       .fn()
-      .mockResolvedValue([{ warningCount: 0, errorCount: 0 }])
+      .mockResolvedValue([{ warningCount: 0, errorCount: 0, messages: [] }])
     let mockESLintInstance2 = {
       lintText: mockLintTextSpy2,
     } as unknown as ESLint
 
     vi.mocked(createESLintInstance)
       .mockResolvedValueOnce(mockESLintInstance1)
+      .mockResolvedValueOnce(mockESLintInstance1)
+      .mockResolvedValueOnce(mockESLintInstance2)
       .mockResolvedValueOnce(mockESLintInstance2)
 
     await runBenchmark({ configDirectory, testCases, config })
 
-    expect(createESLintInstance).toHaveBeenCalledTimes(testCases.length)
+    expect(createESLintInstance).toHaveBeenCalledTimes(testCases.length * 2)
 
     expect(createESLintInstance).toHaveBeenNthCalledWith(
       1,
       expect.objectContaining({ rule: testCases[0]!.rule }),
     )
     expect(mockLintTextSpy1).toHaveBeenCalledTimes(
-      testCases[0]!.samples.length + 1,
+      testCases[0]!.samples.length * 3 + 1,
     )
     expect(mockLintTextSpy1).toHaveBeenCalledWith('/* eslint-disable */')
     for (let sample of testCases[0]!.samples) {
@@ -194,11 +213,11 @@ describe('runBenchmark', () => {
     }
 
     expect(createESLintInstance).toHaveBeenNthCalledWith(
-      2,
+      3,
       expect.objectContaining({ rule: testCases[1]!.rule }),
     )
     expect(mockLintTextSpy2).toHaveBeenCalledTimes(
-      testCases[1]!.samples.length + 1,
+      testCases[1]!.samples.length * 3 + 1,
     )
     expect(mockLintTextSpy2).toHaveBeenCalledWith('/* eslint-disable */')
     for (let sample of testCases[1]!.samples) {
@@ -212,7 +231,9 @@ describe('runBenchmark', () => {
     let error = new Error('boom')
     vi.mocked(createESLintInstance).mockRejectedValueOnce(error)
     vi.mocked(createESLintInstance).mockResolvedValueOnce({
-      lintText: vi.fn().mockResolvedValue([{ warningCount: 0, errorCount: 0 }]),
+      lintText: vi
+        .fn()
+        .mockResolvedValue([{ warningCount: 0, errorCount: 0, messages: [] }]),
     } as unknown as ESLint)
 
     let consoleErrorSpy = vi
@@ -249,4 +270,593 @@ describe('runBenchmark', () => {
     consoleErrorSpy.mockRestore()
     consoleWarnSpy.mockRestore()
   })
+
+  it('profiles rule listeners when visitor profiling is enabled', async () => {
+    vi.mocked(createESLintInstance).mockImplementationOnce(
+      ({ visitorProfiler }) => {
+        let rule = visitorProfiler!.wrapRule({
+          create: () => ({ Identifier: () => {} }),
+        })
+        return Promise.resolve({
+          lintText: vi.fn(() => {
+            let listeners = rule.create({} as Rule.RuleContext)
+            listeners.Identifier!({} as never)
+            return Promise.resolve([])
+          }),
+        } as unknown as ESLint)
+      },
+    )
+
+    let processedTasks = await runBenchmark({
+      config: { ...config, profileVisitors: true },
+      testCases: [testCase],
+      configDirectory,
+    })
+
+    expect(createESLintInstance).toHaveBeenCalledWith(
+      expect.objectContaining({
+        visitorProfiler: expect.any(Object) as unknown,
+      }),
+    )
+    expect(processedTasks![0]!.visitors).toEqual([
+      expect.objectContaining({
+        selector: 'Identifier',
+        callsPerRun: 1,
+      }),
+    ])
+  })
+
+  it('does not add visitor profiles when profiling is disabled', async () => {
+    let processedTasks = await runBenchmark({
+      testCases: [testCase],
+      configDirectory,
+      config,
+    })
+
+    expect(createESLintInstance).toHaveBeenCalledWith(
+      expect.objectContaining({ visitorProfiler: undefined }),
+    )
+    expect(processedTasks![0]!.visitors).toBeUndefined()
+  })
+
+  it('adds control tasks with the rule disabled when measuring overhead', async () => {
+    let lintText = vi.fn().mockResolvedValue([])
+    let controlLintText = vi.fn().mockResolvedValue([])
+    vi.mocked(createESLintInstance)
+      .mockResolvedValueOnce({ lintText } as unknown as ESLint)
+      .mockResolvedValueOnce({ lintText: controlLintText } as unknown as ESLint)
+
+    let processedTasks = await runBenchmark({
+      config: { ...config, measureOverhead: true },
+      testCases: [testCase],
+      configDirectory,
+    })
+
+    expect(createESLintInstance).toHaveBeenNthCalledWith(
+      2,
+      expect.objectContaining({
+        rule: { ...testCase.rule, severity: 0 },
+      }),
+    )
+
+    let benchInstance = vi.mocked(createBench).mock.results[0]!.value as Bench
+    expect(benchInstance.add).toHaveBeenCalledWith(
+      'Sample case on a.js (control)',
+      expect.any(Function),
+    )
+    expect(controlLintText).toHaveBeenCalledWith('const a = 1;', {
+      filePath: 'a.js',
+    })
+
+    expect(processedTasks).toHaveLength(1)
+    expect(processedTasks![0]!.name).toBe('Sample case on a.js')
+    expect(processedTasks![0]!.overhead).toEqual({
+      controlMedian: processedTasks![0]!.metrics.median,
+      controlMean: processedTasks![0]!.metrics.mean,
+      percent: 0,
+      median: 0,
+      mean: 0,
+    })
+  })
+
+  it('adds control tasks and keeps the whole config when fullConfig is set', async () => {
+    let processedTasks = await runBenchmark({
+      config: { ...config, fullConfig: true },
+      testCases: [testCase],
+      configDirectory,
+    })
+
+    expect(createESLintInstance).toHaveBeenCalledWith(
+      expect.objectContaining({ rule: testCase.rule, fullConfig: true }),
+    )
+    expect(createESLintInstance).toHaveBeenNthCalledWith(
+      2,
+      expect.objectContaining({
+        rule: { ...testCase.rule, severity: 0 },
+        fullConfig: true,
+      }),
+    )
+    expect(processedTasks![0]!.overhead).toBeDefined()
+  })
+
+  it('counts the fix passes of every sample when fixes are applied', async () => {
+    let processedTasks = await runBenchmark({
+      testCases: [testCase],
+      configDirectory,
+      config,
+    })
+
+    expect(createESLintInstance).toHaveBeenCalledWith(
+      expect.objectContaining({
+        passCounter: expect.any(Object) as unknown,
+        fix: true,
+      }),
+    )
+    expect(processedTasks![0]!.name).toBe('Sample case on a.js')
+    expect(processedTasks![0]!.fixPasses).toBe(0)
+  })
+
+  it('does not count fix passes in report-only mode', async () => {
+    let processedTasks = await runBenchmark({
+      config: { ...config, fix: false },
+      testCases: [testCase],
+      configDirectory,
+    })
+
+    expect(createESLintInstance).toHaveBeenCalledWith(
+      expect.objectContaining({ passCounter: undefined, fix: false }),
+    )
+    expect(processedTasks![0]!.fixPasses).toBeUndefined()
+  })
+
+  it('adds report-only tasks and tasks with fixes when fix is "both"', async () => {
+    let processedTasks = await runBenchmark({
+      config: { ...config, measureOverhead: true, fix: 'both' },
+      testCases: [testCase],
+      configDirectory,
+    })
+
+    expect(createESLintInstance).toHaveBeenCalledTimes(4)
+    expect(createESLintInstance).toHaveBeenNthCalledWith(
+      1,
+      expect.objectContaining({ rule: testCase.rule, fix: false }),
+    )
+    expect(createESLintInstance).toHaveBeenNthCalledWith(
+      3,
+      expect.objectContaining({ rule: testCase.rule, fix: true }),
+    )
+    expect(processedTasks!.map(task => task.name)).toEqual([
+      'Sample case on a.js (report only)',
+      'Sample case on a.js (with fixes)',
+    ])
+    expect(processedTasks![0]!.fixPasses).toBeUndefined()
+    expect(processedTasks![1]!.fixPasses).toBe(0)
+    expect(processedTasks![1]!.overhead).toBeDefined()
+  })
+
+  it('keeps the source and size of samples generated for scaling', async () => {
+    testCase.samples = [
+      {
+        ...testCase.samples[0]!,
+        scaling: { source: 'a.js', size: 4 },
+        filename: 'a.x4.js',
+      },
+    ]
+
+    let processedTasks = await runBenchmark({
+      config: { ...config, fix: 'both' },
+      testCases: [testCase],
+      configDirectory,
+    })
+
+    expect(processedTasks!.map(task => task.scaling)).toEqual([
+      { source: 'a.js (report only)', size: 4 },
+      { source: 'a.js (with fixes)', size: 4 },
+    ])
+  })
+
+  it('keeps the scaling of samples generated for scaling that fail', async () => {
+    let eslint = {
+      lintText: vi
+        .fn()
+        .mockResolvedValue([
+          { messages: [{ message: 'Parsing error', fatal: true }] },
+        ]),
+    } as unknown as ESLint
+    vi.mocked(createESLintInstance)
+      .mockResolvedValueOnce(eslint)
+      .mockResolvedValueOnce(eslint)
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    testCase.samples = [
+      {
+        ...testCase.samples[0]!,
+        scaling: { source: 'a.js', size: 4 },
+        filename: 'a.x4.js',
+      },
+    ]
+
+    let processedTasks = await runBenchmark({
+      testCases: [testCase],
+      configDirectory,
+      config,
+    })
+
+    expect(processedTasks![0]!.error).toBeDefined()
+    expect(processedTasks![0]!.scaling).toEqual({ source: 'a.js', size: 4 })
+  })
+
+  it('counts the problems of the rule in a lint without fixes', async () => {
+    let lintText = vi.fn().mockResolvedValue([])
+    let reportOnlyLintText = vi.fn().mockResolvedValue([
+      {
+        messages: [
+          {
+            ruleId: 'eslint-rule-benchmark/demo',
+            fix: { range: [0, 1], text: '' },
+            severity: 2,
+          },
+          {
+            suggestions: [{ fix: { range: [0, 1], text: '' }, desc: 'Fix' }],
+            ruleId: 'eslint-rule-benchmark/demo',
+            severity: 2,
+          },
+          { ruleId: 'no-unused-vars', severity: 2 },
+        ],
+      },
+    ])
+    vi.mocked(createESLintInstance)
+      .mockResolvedValueOnce({ lintText } as unknown as ESLint)
+      .mockResolvedValueOnce({
+        lintText: reportOnlyLintText,
+      } as unknown as ESLint)
+
+    let processedTasks = await runBenchmark({
+      testCases: [testCase],
+      configDirectory,
+      config,
+    })
+
+    expect(createESLintInstance).toHaveBeenLastCalledWith(
+      expect.objectContaining({ rule: testCase.rule, fix: false }),
+    )
+    expect(reportOnlyLintText).toHaveBeenCalledWith('const a = 1;', {
+      filePath: 'a.js',
+    })
+    expect(processedTasks![0]!.messages).toEqual({
+      suggestions: 1,
+      warnings: 0,
+      fixable: 1,
+      errors: 2,
+    })
+    expect(console.warn).not.toHaveBeenCalled()
+  })
+
+  it('reuses the report-only instance to count problems', async () => {
+    let processedTasks = await runBenchmark({
+      config: { ...config, fix: 'both' },
+      testCases: [testCase],
+      configDirectory,
+    })
+
+    expect(createESLintInstance).toHaveBeenCalledTimes(2)
+    expect(processedTasks![0]!.messages).toEqual(processedTasks![1]!.messages)
+  })
+
+  it('warns when the rule reports no problems for a sample', async () => {
+    let processedTasks = await runBenchmark({
+      testCases: [testCase],
+      configDirectory,
+      config,
+    })
+
+    expect(processedTasks![0]!.messages).toEqual({
+      suggestions: 0,
+      warnings: 0,
+      fixable: 0,
+      errors: 0,
+    })
+    expect(console.warn).toHaveBeenCalledWith(
+      'Rule "demo" reported no problems on "a.js" in TestCase "Sample case". Check the rule ID, the parser and the sample.',
+    )
+  })
+
+  it('does not benchmark samples that fail to parse', async () => {
+    let lintText = vi.fn().mockResolvedValue([])
+    let reportOnlyLintText = vi.fn().mockImplementation((code: string) => [
+      {
+        messages:
+          code === 'const ='
+            ? [
+                {
+                  message: 'Parsing error: Unexpected token',
+                  ruleId: null,
+                  severity: 2,
+                  fatal: true,
+                  column: 8,
+                  line: 1,
+                },
+              ]
+            : [{ ruleId: 'eslint-rule-benchmark/demo', severity: 2 }],
+      },
+    ])
+    vi.mocked(createESLintInstance)
+      .mockResolvedValueOnce({ lintText } as unknown as ESLint)
+      .mockResolvedValueOnce({
+        lintText: reportOnlyLintText,
+      } as unknown as ESLint)
+    let consoleErrorSpy = vi
+      .spyOn(console, 'error')
+      .mockImplementation(() => {})
+
+    let processedTasks = await runBenchmark({
+      testCases: [
+        {
+          ...testCase,
+          samples: [
+            { ...testCase.samples[0]!, filename: 'broken.js', code: 'const =' },
+            ...testCase.samples,
+          ],
+        },
+      ],
+      configDirectory,
+      config,
+    })
+
+    let benchInstance = vi.mocked(createBench).mock.results[0]!.value as Bench
+    expect(benchInstance.add).toHaveBeenCalledOnce()
+    expect(benchInstance.add).toHaveBeenCalledWith(
+      'Sample case on a.js',
+      expect.any(Function),
+      expect.any(Object),
+    )
+    expect(lintText).not.toHaveBeenCalledWith('const =', expect.anything())
+    expect(consoleErrorSpy).toHaveBeenCalledWith(
+      'Failed to parse "broken.js" in TestCase "Sample case": Parsing error: Unexpected token (1:8). Skipping this sample.',
+    )
+    expect(processedTasks!.map(task => task.name)).toEqual([
+      'Sample case on broken.js',
+      'Sample case on a.js',
+    ])
+    expect(processedTasks![0]!.error).toBe(
+      'Parsing error: Unexpected token (1:8)',
+    )
+    expect(processedTasks![0]!.metrics.sampleCount).toBe(0)
+    expect(processedTasks![1]!.error).toBeUndefined()
+  })
+
+  it('does not benchmark samples whose first lint throws', async () => {
+    let lintText = vi.fn().mockResolvedValue([])
+    let reportOnlyLintText = vi
+      .fn()
+      .mockImplementation((code: string) =>
+        code === 'throw'
+          ? Promise.reject(new Error('Rule crashed'))
+          : Promise.resolve([
+              { messages: [{ ruleId: 'eslint-rule-benchmark/demo' }] },
+            ]),
+      )
+    vi.mocked(createESLintInstance)
+      .mockResolvedValueOnce({ lintText } as unknown as ESLint)
+      .mockResolvedValueOnce({
+        lintText: reportOnlyLintText,
+      } as unknown as ESLint)
+    let consoleErrorSpy = vi
+      .spyOn(console, 'error')
+      .mockImplementation(() => {})
+
+    let processedTasks = await runBenchmark({
+      testCases: [
+        {
+          ...testCase,
+          samples: [
+            { ...testCase.samples[0]!, filename: 'crash.js', code: 'throw' },
+            ...testCase.samples,
+          ],
+        },
+      ],
+      configDirectory,
+      config,
+    })
+
+    expect(consoleErrorSpy).toHaveBeenCalledWith(
+      'Failed to lint "crash.js" in TestCase "Sample case": Rule crashed. Skipping this sample.',
+    )
+    expect(processedTasks!.map(task => task.error)).toEqual([
+      'Rule crashed',
+      undefined,
+    ])
+  })
+
+  it('does not benchmark samples whose lint with fixes throws', async () => {
+    let lintText = vi
+      .fn()
+      .mockImplementation((code: string) =>
+        code === 'throw'
+          ? Promise.reject(new Error('Fix crashed'))
+          : Promise.resolve([]),
+      )
+    let reportOnlyLintText = vi.fn().mockResolvedValue([])
+    vi.mocked(createESLintInstance)
+      .mockResolvedValueOnce({ lintText } as unknown as ESLint)
+      .mockResolvedValueOnce({
+        lintText: reportOnlyLintText,
+      } as unknown as ESLint)
+    let consoleErrorSpy = vi
+      .spyOn(console, 'error')
+      .mockImplementation(() => {})
+
+    let processedTasks = await runBenchmark({
+      testCases: [
+        {
+          ...testCase,
+          samples: [
+            { ...testCase.samples[0]!, filename: 'crash.js', code: 'throw' },
+            ...testCase.samples,
+          ],
+        },
+      ],
+      configDirectory,
+      config,
+    })
+
+    let benchInstance = vi.mocked(createBench).mock.results[0]!.value as Bench
+    expect(benchInstance.add).toHaveBeenCalledOnce()
+    expect(consoleErrorSpy).toHaveBeenCalledWith(
+      'Failed to lint "crash.js" with fixes in TestCase "Sample case": Fix crashed. Skipping this sample.',
+    )
+    expect(processedTasks!.map(task => task.error)).toEqual([
+      'Fix crashed',
+      undefined,
+    ])
+  })
+
+  it('returns failed samples even if no sample could be benchmarked', async () => {
+    let eslint = {
+      lintText: vi.fn().mockResolvedValue([
+        {
+          messages: [
+            { message: 'Parsing error', fatal: true, column: 1, line: 1 },
+          ],
+        },
+      ]),
+    } as unknown as ESLint
+    vi.mocked(createESLintInstance)
+      .mockResolvedValueOnce(eslint)
+      .mockResolvedValueOnce(eslint)
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+
+    let processedTasks = await runBenchmark({
+      config: { ...config, fix: 'both' },
+      testCases: [testCase],
+      configDirectory,
+    })
+
+    let benchInstance = vi.mocked(createBench).mock.results[0]!.value as Bench
+    expect(benchInstance.run).not.toHaveBeenCalled()
+    expect(processedTasks).toEqual([
+      {
+        metrics: expect.objectContaining({ sampleCount: 0 }) as unknown,
+        name: 'Sample case on a.js (report only)',
+        error: 'Parsing error (1:1)',
+      },
+      {
+        metrics: expect.objectContaining({ sampleCount: 0 }) as unknown,
+        name: 'Sample case on a.js (with fixes)',
+        error: 'Parsing error (1:1)',
+      },
+    ])
+  })
+
+  it('times the first lint of type-aware test cases by their real path', async () => {
+    let lintText = vi.fn().mockResolvedValue([])
+    vi.mocked(createESLintInstance).mockResolvedValueOnce({
+      lintText,
+    } as unknown as ESLint)
+    let filePath = `${process.cwd()}/benchmark/a.ts`
+    let languageOptions = { parserOptions: { projectService: true } }
+
+    let processedTasks = await runBenchmark({
+      testCases: [
+        {
+          ...testCase,
+          samples: [
+            { ...testCase.samples[0]!, language: 'typescript', filePath },
+            {
+              ...testCase.samples[0]!,
+              filePath: `${process.cwd()}/benchmark/b.ts`,
+              language: 'typescript',
+              filename: 'b.ts',
+            },
+          ],
+          languageOptions,
+        },
+      ],
+      config: { ...config, fix: false },
+      configDirectory,
+    })
+
+    expect(createESLintInstance).toHaveBeenCalledWith(
+      expect.objectContaining({ languageOptions }),
+    )
+    expect(lintText).toHaveBeenNthCalledWith(2, 'const a = 1;', { filePath })
+    expect(processedTasks![0]!.firstLintTime).toBeGreaterThanOrEqual(0)
+    expect(processedTasks![1]!.firstLintTime).toBeUndefined()
+  })
+
+  it('does not time the first lint of samples without type information', async () => {
+    let processedTasks = await runBenchmark({
+      testCases: [testCase],
+      configDirectory,
+      config,
+    })
+
+    expect(processedTasks![0]!.firstLintTime).toBeUndefined()
+  })
+
+  it('adds CPU profiler hooks when a profile directory is configured', async () => {
+    await runBenchmark({
+      config: { ...config, cpuProfileDirectory: '/profiles' },
+      testCases: [testCase],
+      configDirectory,
+    })
+
+    let benchInstance = vi.mocked(createBench).mock.results[0]!.value as Bench
+    expect(benchInstance.add).toHaveBeenCalledWith(
+      'Sample case on a.js',
+      expect.any(Function),
+      expect.objectContaining({
+        beforeEach: expect.any(Function) as unknown,
+        beforeAll: expect.any(Function) as unknown,
+        afterEach: expect.any(Function) as unknown,
+        afterAll: expect.any(Function) as unknown,
+      }),
+    )
+  })
+
+  it('keeps CPU profiler hooks in additional rounds for precision', async () => {
+    await runBenchmark({
+      config: {
+        ...config,
+        precision: { targetRme: 0.0001, maxTime: 600 },
+        cpuProfileDirectory: '/profiles',
+      },
+      testCases: [testCase],
+      configDirectory,
+    })
+
+    expect(createBench).toHaveBeenCalledTimes(2)
+    let [firstBench, secondBench] = vi
+      .mocked(createBench)
+      .mock.results.map(result => result.value as Bench)
+    expect(vi.mocked(secondBench!.add).mock.calls[0]![2]).toBe(
+      vi.mocked(firstBench!.add).mock.calls[0]![2],
+    )
+  })
+
+  it('starts with the minimum sample count and reports the margin of error when precision is set', async () => {
+    let processedTasks = await runBenchmark({
+      config: { ...config, precision: { targetRme: 0.5, maxTime: 1000 } },
+      testCases: [testCase],
+      configDirectory,
+    })
+
+    expect(createBench).toHaveBeenCalledOnce()
+    expect(createBench).toHaveBeenCalledWith({
+      warmupIterations: config.warmup.iterations,
+      iterations: MIN_PRECISION_SAMPLES,
+      warmup: config.warmup.enabled,
+      timeoutMs: 0,
+    })
+    expect(processedTasks![0]!.rme).toBeLessThanOrEqual(0.5)
+  })
+
+  it('does not report the margin of error without precision', async () => {
+    let processedTasks = await runBenchmark({
+      testCases: [testCase],
+      configDirectory,
+      config,
+    })
+
+    expect(processedTasks![0]!.rme).toBeUndefined()
+  })
 })
@@ -0,0 +1,212 @@
+import type { TaskResult, Bench } from 'tinybench'
+import type { ESLint } from 'eslint'
+
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+import type { BenchmarkConfig } from '../../../types/benchmark-config'
+import type { TestCase } from '../../../types/test-case'
+
+import { runInterleavedBenchmark } from '../../../core/benchmark/run-interleaved-benchmark'
+import { createESLintInstance } from '../../../core/eslint/create-eslint-instance'
+import { createBench } from '../../../core/benchmark/create-bench'
+import { DEFAULT_INTERLEAVED_ROUNDS } from '../../../constants'
+
+vi.mock('../../../core/eslint/create-eslint-instance')
+vi.mock('../../../core/benchmark/create-bench')
+
+let lintText = vi.fn()
+let taskSamples: Record<string, undefined | number[]>
+
+function createTestCase(name: string): TestCase {
+  return {
+    samples: [
+      {
+        filePath: '/samples/a.js',
+        language: 'javascript',
+        code: 'let a = 1',
+        filename: 'a.js',
+      },
+      {
+        filePath: '/samples/b.js',
+        language: 'javascript',
+        code: 'let b = 2',
+        filename: 'b.js',
+      },
+    ],
+    rule: { path: `/${name}/rule.js`, ruleId: 'demo', severity: 2 },
+    id: `id-${name}`,
+    name,
+  }
+}
+
+function getAddedNames(bench: Bench): unknown[] {
+  return vi.mocked(bench.add).mock.calls.map(([name]) => name)
+}
+
+describe('runInterleavedBenchmark', () => {
+  let config: BenchmarkConfig
+
+  beforeEach(() => {
+    vi.resetAllMocks()
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+
+    lintText.mockResolvedValue([])
+    vi.mocked(createESLintInstance).mockResolvedValue({
+      lintText,
+    } as unknown as ESLint)
+
+    taskSamples = {}
+    vi.mocked(createBench).mockImplementation(() => {
+      let addedTasks: { fn(): Promise<void>; name: string }[] = []
+      return {
+        run: vi.fn(async () => {
+          await Promise.all(addedTasks.map(task => task.fn()))
+          return addedTasks.map(task => ({
+            result: (taskSamples[task.name]
+              ? { samples: taskSamples[task.name] }
+              : undefined) as unknown as TaskResult,
+            name: task.name,
+          }))
+        }),
+        add: vi.fn((name: string, function_: () => Promise<void>) => {
+          addedTasks.push({ fn: function_, name })
+        }),
+      } as unknown as Bench
+    })
+
+    config = {
+      warmup: { iterations: 50, enabled: true },
+      reporters: [{ format: 'console' }],
+      iterations: 1000,
+      timeout: 5000,
+      name: 'Bench',
+    }
+  })
+
+  it('splits iterations and time into rounds and only warms up once', async () => {
+    taskSamples = {
+      'base on a.js': [1],
+      'head on a.js': [2],
+      'base on b.js': [3],
+      'head on b.js': [4],
+    }
+
+    await runInterleavedBenchmark({
+      testCases: [createTestCase('base'), createTestCase('head')],
+      configDirectory: '/config',
+      config,
+    })
+
+    expect(createBench).toHaveBeenCalledTimes(DEFAULT_INTERLEAVED_ROUNDS)
+    expect(createBench).toHaveBeenNthCalledWith(1, {
+      iterations: Math.ceil(1000 / DEFAULT_INTERLEAVED_ROUNDS),
+      timeoutMs: 5000 / DEFAULT_INTERLEAVED_ROUNDS,
+      warmupIterations: 50,
+      warmup: true,
+    })
+    expect(createBench).toHaveBeenNthCalledWith(
+      2,
+      expect.objectContaining({ warmup: false }),
+    )
+    expect(createESLintInstance).toHaveBeenCalledWith({
+      rule: createTestCase('head').rule,
+      eslintConfigFile: undefined,
+      configDirectory: '/config',
+      languages: ['javascript'],
+    })
+  })
+
+  it('alternates the task order between rounds', async () => {
+    await runInterleavedBenchmark({
+      testCases: [createTestCase('base'), createTestCase('head')],
+      configDirectory: '/config',
+      config,
+    })
+
+    let benches = vi
+      .mocked(createBench)
+      .mock.results.map(result => result.value as Bench)
+
+    expect(getAddedNames(benches[0]!)).toEqual([
+      'base on a.js',
+      'base on b.js',
+      'head on a.js',
+      'head on b.js',
+    ])
+    expect(getAddedNames(benches[1]!)).toEqual([
+      'head on b.js',
+      'head on a.js',
+      'base on b.js',
+      'base on a.js',
+    ])
+  })
+
+  it('merges samples from all rounds into one result per task', async () => {
+    taskSamples = {
+      'base on a.js': [1, 1],
+      'head on a.js': [2, 2],
+    }
+
+    let results = await runInterleavedBenchmark({
+      testCases: [createTestCase('base'), createTestCase('head')],
+      configDirectory: '/config',
+      config,
+    })
+
+    expect(results).toHaveLength(2)
+    expect(results![0]!.name).toBe('base on a.js')
+    expect(results![0]!.metrics.sampleCount).toBe(
+      2 * DEFAULT_INTERLEAVED_ROUNDS,
+    )
+    expect(results![0]!.metrics.mean).toBe(1)
+    expect(results![1]!.metrics.mean).toBe(2)
+    expect(console.warn).toHaveBeenCalledWith(
+      'Task "base on b.js" ran but has no samples. Skipping.',
+    )
+  })
+
+  it('skips test cases whose ESLint instance cannot be created', async () => {
+    vi.mocked(createESLintInstance)
+      .mockRejectedValueOnce(new Error('Failed to load rule'))
+      .mockResolvedValue({ lintText } as unknown as ESLint)
+    taskSamples = { 'head on a.js': [2] }
+
+    let results = await runInterleavedBenchmark({
+      testCases: [createTestCase('base'), createTestCase('head')],
+      configDirectory: '/config',
+      config,
+    })
+
+    expect(console.error).toHaveBeenCalledWith(
+      'Failed to create ESLint instance for TestCase "base": Failed to load rule. Skipping this test case.',
+    )
+    expect(results!.map(result => result.name)).toEqual(['head on a.js'])
+  })
+
+  it('returns null when no tasks can be run', async () => {
+    vi.mocked(createESLintInstance).mockRejectedValue(new Error('Broken'))
+
+    let results = await runInterleavedBenchmark({
+      testCases: [createTestCase('base')],
+      configDirectory: '/config',
+      config,
+    })
+
+    expect(results).toBeNull()
+    expect(createBench).not.toHaveBeenCalled()
+    expect(console.warn).toHaveBeenCalledWith(
+      'No benchmark tasks were added. Nothing to run.',
+    )
+  })
+
+  it('returns null when no task produced samples', async () => {
+    let results = await runInterleavedBenchmark({
+      testCases: [createTestCase('base')],
+      configDirectory: '/config',
+      config,
+    })
+
+    expect(results).toBeNull()
+  })
+})
@@ -0,0 +1,164 @@
+import type { TaskResult, Bench } from 'tinybench'
+
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+import type { RepeatableTask } from '../../../core/benchmark/sample-until-precise'
+
+import { sampleUntilPrecise } from '../../../core/benchmark/sample-until-precise'
+import { createBench } from '../../../core/benchmark/create-bench'
+import { MIN_PRECISION_SAMPLES } from '../../../constants'
+
+vi.mock('../../../core/benchmark/create-bench')
+
+let roundSamples: number[][]
+
+function createNoisySamples(count: number): number[] {
+  return Array.from({ length: count }, (_, index) => (index % 2 === 0 ? 5 : 15))
+}
+
+describe('sampleUntilPrecise', () => {
+  let tasks: Map<string, RepeatableTask>
+  let hooks = { beforeEach: vi.fn() }
+  let function_ = vi.fn()
+
+  beforeEach(() => {
+    vi.resetAllMocks()
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+
+    roundSamples = []
+    tasks = new Map([['task', { fn: function_, hooks }]])
+
+    vi.mocked(createBench).mockImplementation(() => {
+      let addedNames: string[] = []
+      return {
+        run: vi.fn(() =>
+          Promise.resolve(
+            addedNames.map(name => ({
+              result: {
+                samples: roundSamples.shift() ?? [],
+              } as unknown as TaskResult,
+              name,
+            })),
+          ),
+        ),
+        add: vi.fn((name: string) => {
+          addedNames.push(name)
+        }),
+      } as unknown as Bench
+    })
+  })
+
+  it('does not measure tasks that are already precise', async () => {
+    let samples = await sampleUntilPrecise(
+      tasks,
+      new Map([['task', Array.from({ length: 20 }, () => 10)]]),
+      { targetRme: 0.01, maxTime: 1000 },
+    )
+
+    expect(createBench).not.toHaveBeenCalled()
+    expect(samples.get('task')).toHaveLength(20)
+  })
+
+  it('measures additional rounds until the target is reached', async () => {
+    roundSamples = [Array.from({ length: 200 }, () => 10)]
+
+    let samples = await sampleUntilPrecise(
+      tasks,
+      new Map([['task', createNoisySamples(10)]]),
+      { maxTime: 100_000, targetRme: 0.1 },
+    )
+
+    expect(createBench).toHaveBeenCalledOnce()
+    expect(createBench).toHaveBeenCalledWith({
+      iterations: expect.any(Number) as number,
+      timeoutMs: 0,
+    })
+    expect(
+      vi.mocked(createBench).mock.calls[0]![0]!.iterations,
+    ).toBeGreaterThan(MIN_PRECISION_SAMPLES)
+
+    let bench = vi.mocked(createBench).mock.results[0]!.value as Bench
+    expect(bench.add).toHaveBeenCalledWith('task', function_, hooks)
+    expect(samples.get('task')).toHaveLength(210)
+  })
+
+  it('stops once the measured time reaches the limit', async () => {
+    roundSamples = [createNoisySamples(10), createNoisySamples(10)]
+
+    let samples = await sampleUntilPrecise(
+      tasks,
+      new Map([['task', createNoisySamples(10)]]),
+      { targetRme: 0.01, maxTime: 150 },
+    )
+
+    expect(createBench).toHaveBeenCalledOnce()
+    expect(createBench).toHaveBeenCalledWith({
+      iterations: MIN_PRECISION_SAMPLES,
+      timeoutMs: 0,
+    })
+    expect(samples.get('task')).toHaveLength(20)
+  })
+
+  it('measures the minimum number of samples when the mean time is zero', async () => {
+    roundSamples = [Array.from({ length: 20 }, () => 10)]
+
+    let samples = await sampleUntilPrecise(tasks, new Map([['task', [0]]]), {
+      targetRme: 0.2,
+      maxTime: 1000,
+    })
+
+    expect(createBench).toHaveBeenCalledOnce()
+    expect(createBench).toHaveBeenCalledWith({
+      iterations: MIN_PRECISION_SAMPLES,
+      timeoutMs: 0,
+    })
+    expect(samples.get('task')).toHaveLength(21)
+  })
+
+  it('warns and stops when a round has no samples', async () => {
+    let samples = await sampleUntilPrecise(
+      tasks,
+      new Map([['task', createNoisySamples(10)]]),
+      { targetRme: 0.01, maxTime: 1000 },
+    )
+
+    expect(createBench).toHaveBeenCalledOnce()
+    expect(console.warn).toHaveBeenCalledWith(
+      expect.stringContaining('Task "task" has no samples'),
+    )
+    expect(samples.get('task')).toHaveLength(10)
+  })
+
+  it('warns and stops when a round has no result', async () => {
+    vi.mocked(createBench).mockReturnValue({
+      run: vi.fn().mockResolvedValue([]),
+      add: vi.fn(),
+    } as unknown as Bench)
+
+    let samples = await sampleUntilPrecise(
+      tasks,
+      new Map([['task', createNoisySamples(10)]]),
+      { targetRme: 0.01, maxTime: 1000 },
+    )
+
+    expect(console.warn).toHaveBeenCalledWith(
+      expect.stringContaining('Task "task" has no samples'),
+    )
+    expect(samples.get('task')).toHaveLength(10)
+  })
+
+  it('keeps samples of tasks that cannot be measured again', async () => {
+    let samples = await sampleUntilPrecise(
+      new Map(),
+      new Map([
+        ['missing', createNoisySamples(10)],
+        ['task', []],
+      ]),
+      { targetRme: 0.01, maxTime: 1000 },
+    )
+
+    expect(createBench).not.toHaveBeenCalled()
+    expect(samples.get('missing')).toHaveLength(10)
+    expect(samples.get('task')).toEqual([])
+  })
+})
@@ -0,0 +1,56 @@
+import type { ESLint, Linter } from 'eslint'
+
+import { describe, expect, it } from 'vitest'
+
+import { countLintMessages } from '../../../core/eslint/count-lint-messages'
+
+function createResults(
+  messages: Partial<Linter.LintMessage>[],
+): ESLint.LintResult[] {
+  return [{ messages } as ESLint.LintResult]
+}
+
+describe('countLintMessages', () => {
+  it('should count errors, warnings, fixes and suggestions of the rule', () => {
+    let fix = { range: [0, 1] as [number, number], text: '' }
+    let results = createResults([
+      { ruleId: 'benchmark/rule', severity: 2, fix },
+      {
+        suggestions: [{ desc: 'Remove', fix }],
+        ruleId: 'benchmark/rule',
+        severity: 1,
+      },
+      { ruleId: 'benchmark/rule', suggestions: [], severity: 1 },
+    ])
+
+    expect(countLintMessages(results, 'benchmark/rule')).toEqual({
+      suggestions: 1,
+      warnings: 2,
+      fixable: 1,
+      errors: 1,
+    })
+  })
+
+  it('should skip fatal messages and messages of other rules', () => {
+    let results = createResults([
+      { ruleId: null, severity: 2, fatal: true },
+      { ruleId: 'no-console', severity: 2 },
+    ])
+
+    expect(countLintMessages(results, 'benchmark/rule')).toEqual({
+      suggestions: 0,
+      warnings: 0,
+      fixable: 0,
+      errors: 0,
+    })
+  })
+
+  it('should sum the messages of all results', () => {
+    let results = [
+      ...createResults([{ ruleId: 'benchmark/rule', severity: 2 }]),
+      ...createResults([{ ruleId: 'benchmark/rule', severity: 2 }]),
+    ]
+
+    expect(countLintMessages(results, 'benchmark/rule').errors).toBe(2)
+  })
+})
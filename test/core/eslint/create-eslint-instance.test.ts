@@ -1,6 +1,7 @@
 import type { ESLint, Linter } from 'eslint'
 
 import { beforeAll, describe, expect, it, vi } from 'vitest'
+import { builtinRules } from 'eslint/use-at-your-own-risk'
 import path from 'node:path'
 
 import type { LANGUAGES } from '../../../constants'
@@ -119,6 +120,18 @@ vi.mock('jiti', () => ({
         }
       }
 
+      if (filepath === '@eslint/markdown') {
+        return { languages: { commonmark: {}, gfm: {} } }
+      }
+
+      if (filepath === 'eslint-plugin-markdown') {
+        return {
+          processors: {
+            markdown: { postprocess: () => [], preprocess: () => [] },
+          },
+        }
+      }
+
       if (filepath.includes('parser') && !filepath.includes('missing')) {
         if (filepath.includes('default')) {
           return { default: { parse: () => ({}) } }
@@ -215,7 +228,7 @@ describe('createESLintInstance', () => {
 
   it('works when RuleConfig given directly', async () => {
     let eslint = (await createESLintInstance({
-      rule: { ruleId: 'just-id', severity: 2 },
+      rule: { ruleId: 'no-console', severity: 2 },
       configDirectory: temporaryDirectory,
       languages: ['javascript'],
     })) as ESLintForTesting
@@ -376,18 +389,292 @@ describe('createESLintInstance', () => {
     expect(ruleFilter({ ruleId: 'some-other-rule' })).toBeFalsy()
   })
 
+  it('registers rules of scoped plugins under their own name', async () => {
+    let eslint = (await createESLintInstance({
+      rule: { ruleId: '@scope/name/rule', path: directRulePath, severity: 2 },
+      configDirectory: temporaryDirectory,
+      languages: ['javascript'],
+    })) as ESLintForTesting
+
+    let [flatConfig] = eslint.overrideConfig!
+    expect(flatConfig!.rules).toEqual({ 'eslint-rule-benchmark/rule': 'error' })
+    expect(
+      Object.keys(
+        (
+          flatConfig!.plugins!['eslint-rule-benchmark'] as {
+            rules: Record<string, unknown>
+          }
+        ).rules,
+      ),
+    ).toEqual(['rule'])
+  })
+
+  it('keeps all rules of the config except the original rule with fullConfig', async () => {
+    constructorOptions = {}
+
+    await createESLintInstance({
+      rule: { ruleId: 'test/full-config', path: directRulePath, severity: 2 },
+      configDirectory: temporaryDirectory,
+      languages: ['javascript'],
+      fullConfig: true,
+    })
+
+    let ruleFilter = constructorOptions['ruleFilter'] as (argument: {
+      ruleId: string
+    }) => boolean
+
+    expect(
+      ruleFilter({ ruleId: 'eslint-rule-benchmark/full-config' }),
+    ).toBeTruthy()
+    expect(ruleFilter({ ruleId: 'some-other-rule' })).toBeTruthy()
+    expect(ruleFilter({ ruleId: 'test/full-config' })).toBeFalsy()
+  })
+
+  it('merges language options over the ones derived from languages', async () => {
+    constructorOptions = {}
+
+    await createESLintInstance({
+      languageOptions: {
+        parserOptions: { project: './tsconfig.json' },
+        globals: { window: 'readonly' },
+      },
+      rule: { ruleId: 'no-console', severity: 2 },
+      configDirectory: temporaryDirectory,
+      languages: ['typescript-react'],
+    })
+
+    let [, languageConfig, overrideConfig] = constructorOptions[
+      'overrideConfig'
+    ] as Linter.Config[]
+
+    expect(languageConfig!.languageOptions).toEqual({
+      parserOptions: { ecmaFeatures: { jsx: true } },
+      parser: expect.any(Object) as unknown,
+    })
+    expect(overrideConfig!.languageOptions).toEqual({
+      parserOptions: { project: './tsconfig.json' },
+      globals: { window: 'readonly' },
+    })
+    expect(constructorOptions['ignore']).toBeFalsy()
+  })
+
+  it('adds parser, processor and settings to the config', async () => {
+    constructorOptions = {}
+
+    await createESLintInstance({
+      rule: { ruleId: 'no-console', severity: 2 },
+      settings: { react: { version: '19.0' } },
+      configDirectory: temporaryDirectory,
+      processor: 'markdown/markdown',
+      parser: './custom-parser.js',
+      languages: ['typescript'],
+    })
+
+    let configs = constructorOptions['overrideConfig'] as Linter.Config[]
+    let [config] = configs
+
+    expect(configs.at(-1)!.languageOptions!.parser).toEqual({
+      parse: expect.any(Function) as unknown,
+    })
+    expect(config!.processor).toEqual({
+      postprocess: expect.any(Function) as unknown,
+      preprocess: expect.any(Function) as unknown,
+    })
+    expect(config!.settings).toEqual({ react: { version: '19.0' } })
+  })
+
+  it('adds the ESLint language after the language blocks', async () => {
+    constructorOptions = {}
+
+    await createESLintInstance({
+      rule: { ruleId: 'no-console', severity: 2 },
+      configDirectory: temporaryDirectory,
+      language: 'markdown/gfm',
+      languages: ['markdown'],
+    })
+
+    let configs = constructorOptions['overrideConfig'] as Linter.Config[]
+
+    expect(configs[1]).toMatchObject({
+      language: 'markdown/commonmark',
+      files: ['**/*.md'],
+    })
+    expect(configs.at(-1)).toMatchObject({
+      plugins: { markdown: { languages: { commonmark: {}, gfm: {} } } },
+      language: 'markdown/gfm',
+    })
+  })
+
+  it('adds config blocks for custom extensions of the tested languages', async () => {
+    constructorOptions = {}
+
+    await createESLintInstance({
+      extensions: {
+        '.gts': { parser: './ember-parser.js', language: 'typescript' },
+        '.mdx': { language: 'markdown' },
+      },
+      rule: { ruleId: 'no-console', severity: 2 },
+      configDirectory: temporaryDirectory,
+      languages: ['typescript'],
+    })
+
+    let configs = constructorOptions['overrideConfig'] as Linter.Config[]
+
+    expect(configs[0]!.files).toContain('**/*.gts')
+    expect(configs[0]!.files).toContain('**/*.mdx')
+    expect(configs).toHaveLength(3)
+    expect(configs[2]).toEqual({
+      languageOptions: { parser: { parse: expect.any(Function) as unknown } },
+      files: ['**/*.gts'],
+    })
+  })
+
+  it('throws if the processor is not found in the plugin', async () => {
+    await expect(
+      createESLintInstance({
+        rule: { ruleId: 'no-console', severity: 2 },
+        configDirectory: temporaryDirectory,
+        processor: 'markdown/unknown',
+        languages: ['javascript'],
+      }),
+    ).rejects.toThrowError(
+      'Processor "unknown" not found in plugin "eslint-plugin-markdown"',
+    )
+  })
+
+  it('throws if the custom parser cannot be loaded', async () => {
+    await expect(
+      createESLintInstance({
+        rule: { ruleId: 'no-console', severity: 2 },
+        configDirectory: temporaryDirectory,
+        parser: './missing-parser.js',
+        languages: ['javascript'],
+      }),
+    ).rejects.toThrowError('Failed to load parser "./missing-parser.js"')
+  })
+
+  it('throws if the ESLint language is not found in the plugin', async () => {
+    await expect(
+      createESLintInstance({
+        rule: { ruleId: 'no-console', severity: 2 },
+        configDirectory: temporaryDirectory,
+        language: 'markdown/unknown',
+        languages: ['markdown'],
+      }),
+    ).rejects.toThrowError(
+      'Language "unknown" not found in plugin "@eslint/markdown"',
+    )
+  })
+
+  it('registers the rule wrapped by the visitor profiler', async () => {
+    constructorOptions = {}
+    let wrappedRule = { create: () => ({}) }
+    let visitorProfiler = {
+      wrapRule: vi.fn().mockReturnValue(wrappedRule),
+      getProfile: vi.fn(),
+      measure: vi.fn(),
+    }
+
+    await createESLintInstance({
+      rule: { ruleId: 'ns/profiled', path: directRulePath, severity: 2 },
+      configDirectory: temporaryDirectory,
+      languages: ['javascript'],
+      visitorProfiler,
+    })
+
+    let [config] = constructorOptions['overrideConfig'] as Linter.Config[]
+    let [plugin] = Object.values(config!.plugins!)
+
+    expect(visitorProfiler.wrapRule).toHaveBeenCalledWith(
+      expect.objectContaining({ meta: expect.any(Object) as unknown }),
+    )
+    expect(Object.values(plugin!.rules!)).toEqual([wrappedRule])
+  })
+
+  it('applies fixes unless fix is disabled', async () => {
+    constructorOptions = {}
+    await createESLintInstance({
+      rule: { ruleId: 'ns/fixable', path: directRulePath, severity: 2 },
+      configDirectory: temporaryDirectory,
+      languages: ['javascript'],
+    })
+    expect(constructorOptions['fix']).toBeTruthy()
+
+    constructorOptions = {}
+    await createESLintInstance({
+      rule: { ruleId: 'ns/fixable', path: directRulePath, severity: 2 },
+      configDirectory: temporaryDirectory,
+      languages: ['javascript'],
+      fix: false,
+    })
+    expect(constructorOptions['fix']).toBeFalsy()
+  })
+
+  it('registers the rule wrapped by the pass counter', async () => {
+    constructorOptions = {}
+    let wrappedRule = { create: () => ({}) }
+    let passCounter = {
+      wrapRule: vi.fn().mockReturnValue(wrappedRule),
+      count: vi.fn(),
+    }
+
+    await createESLintInstance({
+      rule: { ruleId: 'ns/counted', path: directRulePath, severity: 2 },
+      configDirectory: temporaryDirectory,
+      languages: ['javascript'],
+      passCounter,
+    })
+
+    let [config] = constructorOptions['overrideConfig'] as Linter.Config[]
+    let [plugin] = Object.values(config!.plugins!)
+
+    expect(passCounter.wrapRule).toHaveBeenCalledOnce()
+    expect(Object.values(plugin!.rules!)).toEqual([wrappedRule])
+  })
+
+  it('registers core rules without a rule path', async () => {
+    constructorOptions = {}
+
+    await createESLintInstance({
+      rule: { ruleId: 'no-console', severity: 2 },
+      configDirectory: temporaryDirectory,
+      languages: ['javascript'],
+    })
+
+    let [config] = constructorOptions['overrideConfig'] as Linter.Config[]
+
+    expect(config!.rules).toEqual({
+      'eslint-rule-benchmark/no-console': 'error',
+    })
+    expect(config!.plugins!['eslint-rule-benchmark']!.rules).toEqual({
+      'no-console': builtinRules.get('no-console'),
+    })
+  })
+
+  it('throws for unknown core rules', async () => {
+    await expect(
+      createESLintInstance({
+        rule: { ruleId: 'no-such-rule', severity: 2 },
+        configDirectory: temporaryDirectory,
+        languages: ['javascript'],
+      }),
+    ).rejects.toThrowError(
+      'Failed to load rule: Unknown core ESLint rule "no-such-rule"',
+    )
+  })
+
   it('loads TypeScript parser for typescript language', async () => {
     constructorOptions = {}
 
     await createESLintInstance({
-      rule: { ruleId: 'test-rule', severity: 2 },
+      rule: { ruleId: 'no-console', severity: 2 },
       configDirectory: temporaryDirectory,
       languages: ['typescript'],
     })
 
     let config = (
       constructorOptions['overrideConfig'] as Record<string, unknown>[]
-    )[0] as Linter.Config
+    )[1] as Linter.Config
 
     expect(config.languageOptions?.parser).toBeDefined()
   })
@@ -396,14 +683,14 @@ describe('createESLintInstance', () => {
     constructorOptions = {}
 
     await createESLintInstance({
-      rule: { ruleId: 'test-rule', severity: 2 },
+      rule: { ruleId: 'no-console', severity: 2 },
       configDirectory: temporaryDirectory,
       languages: ['javascript-react'],
     })
 
     let config = (
       constructorOptions['overrideConfig'] as Record<string, unknown>[]
-    )[0] as Linter.Config
+    )[1] as Linter.Config
 
     expect(
       config.languageOptions?.parserOptions?.ecmaFeatures?.jsx,
@@ -414,14 +701,14 @@ describe('createESLintInstance', () => {
     constructorOptions = {}
 
     await createESLintInstance({
-      rule: { ruleId: 'test-rule', severity: 2 },
+      rule: { ruleId: 'no-console', severity: 2 },
       configDirectory: temporaryDirectory,
       languages: ['typescript-react'],
     })
 
     let config = (
       constructorOptions['overrideConfig'] as Record<string, unknown>[]
-    )[0] as Linter.Config
+    )[1] as Linter.Config
 
     expect(config.languageOptions?.parser).toBeDefined()
     expect(
@@ -433,16 +720,26 @@ describe('createESLintInstance', () => {
     constructorOptions = {}
 
     await createESLintInstance({
+      rule: { ruleId: 'no-console', severity: 2 },
       languages: ['typescript', 'vue', 'svelte'],
-      rule: { ruleId: 'test-rule', severity: 2 },
       configDirectory: temporaryDirectory,
     })
 
-    let config = (
-      constructorOptions['overrideConfig'] as Record<string, unknown>[]
-    )[0] as Linter.Config
-
-    expect(config.languageOptions?.parser).toBeDefined()
+    let [, typescriptConfig, vueConfig, svelteConfig] = constructorOptions[
+      'overrideConfig'
+    ] as Linter.Config[]
+
+    expect(typescriptConfig!.files).toEqual(['**/*.ts', '**/*.mts', '**/*.cts'])
+    expect(vueConfig!.files).toEqual(['**/*.vue'])
+    expect(svelteConfig!.files).toEqual(['**/*.svelte'])
+    expect(typescriptConfig!.languageOptions!.parser).toBeDefined()
+    expect(vueConfig!.languageOptions!.parser).toBeDefined()
+    expect(vueConfig!.languageOptions!.parserOptions).toEqual({
+      parser: { parse: expect.any(Function) as unknown },
+    })
+    expect(svelteConfig!.languageOptions!.parserOptions).toEqual({
+      parser: { parse: expect.any(Function) as unknown },
+    })
   })
 
   it('supports all language types', async () => {
@@ -459,7 +756,7 @@ describe('createESLintInstance', () => {
     await Promise.all(
       supportedLanguages.map(async language => {
         let eslint = await createESLintInstance({
-          rule: { ruleId: 'test-rule', severity: 2 },
+          rule: { ruleId: 'no-console', severity: 2 },
           configDirectory: temporaryDirectory,
           languages: [language],
         })
@@ -470,7 +767,7 @@ describe('createESLintInstance', () => {
 
   it('handles parser loading errors gracefully', async () => {
     let eslint = await createESLintInstance({
-      rule: { ruleId: 'test-rule', severity: 2 },
+      rule: { ruleId: 'no-console', severity: 2 },
       configDirectory: temporaryDirectory,
       languages: ['typescript'],
     })
@@ -489,7 +786,7 @@ describe('createESLintInstance', () => {
 
     await createESLintInstance({
       eslintConfigFile: '/path/to/custom/eslint.config.js',
-      rule: { ruleId: 'test-rule', severity: 2 },
+      rule: { ruleId: 'no-console', severity: 2 },
       configDirectory: temporaryDirectory,
       languages: ['javascript'],
     })
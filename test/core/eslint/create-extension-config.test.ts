@@ -0,0 +1,65 @@
+import type { Jiti } from 'jiti'
+
+import { describe, expect, it, vi } from 'vitest'
+
+import { createExtensionConfig } from '../../../core/eslint/create-extension-config'
+
+let typescriptParser = { parseForESLint: () => ({}) }
+let emberParser = { parseForESLint: () => ({}) }
+
+function createMockJiti(): Jiti {
+  return {
+    import: vi.fn().mockImplementation((name: string) => {
+      if (name === '@typescript-eslint/parser') {
+        return typescriptParser
+      }
+      if (name === 'ember-eslint-parser') {
+        return emberParser
+      }
+      throw new Error(`Cannot find module '${name}'`)
+    }),
+  } as unknown as Jiti
+}
+
+describe('createExtensionConfig', () => {
+  it('uses the config of the mapped language for the extension', async () => {
+    let config = await createExtensionConfig(createMockJiti(), {
+      mapping: { language: 'typescript-react' },
+      configDirectory: '/config',
+      extension: '.ctsx',
+    })
+
+    expect(config).toEqual({
+      languageOptions: {
+        parserOptions: { ecmaFeatures: { jsx: true } },
+        parser: typescriptParser,
+      },
+      files: ['**/*.ctsx'],
+    })
+  })
+
+  it('replaces the parser of the language with the parser of the mapping', async () => {
+    let config = await createExtensionConfig(createMockJiti(), {
+      mapping: { parser: 'ember-eslint-parser', language: 'typescript' },
+      configDirectory: '/config',
+      extension: '.gts',
+    })
+
+    expect(config).toEqual({
+      languageOptions: { parser: emberParser },
+      files: ['**/*.gts'],
+    })
+  })
+
+  it('throws if the parser of the mapping cannot be loaded', async () => {
+    await expect(
+      createExtensionConfig(createMockJiti(), {
+        mapping: { parser: 'missing-parser', language: 'javascript' },
+        configDirectory: '/config',
+        extension: '.gjs',
+      }),
+    ).rejects.toThrowError(
+      `Failed to load parser "missing-parser": Cannot find module 'missing-parser'`,
+    )
+  })
+})
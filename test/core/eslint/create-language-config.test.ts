@@ -0,0 +1,161 @@
+import type { Jiti } from 'jiti'
+
+import { describe, expect, it, vi } from 'vitest'
+import { pathToFileURL } from 'node:url'
+import { createJiti } from 'jiti'
+import { ESLint } from 'eslint'
+import path from 'node:path'
+
+import { createLanguageConfig } from '../../../core/eslint/create-language-config'
+
+let typescriptParser = { parseForESLint: () => ({}) }
+let vueParser = { parseForESLint: () => ({}) }
+let jsonPlugin = { languages: { json: {} } }
+
+function createMockJiti(): Jiti {
+  return {
+    import: vi.fn().mockImplementation((name: string) => {
+      if (name === '@typescript-eslint/parser') {
+        return typescriptParser
+      }
+      if (name === 'vue-eslint-parser') {
+        return vueParser
+      }
+      if (name === '@eslint/json') {
+        return jsonPlugin
+      }
+      throw new Error(`Cannot find module '${name}'`)
+    }),
+  } as unknown as Jiti
+}
+
+describe('createLanguageConfig', () => {
+  it('applies the parser of the language to its extensions', async () => {
+    let config = await createLanguageConfig(createMockJiti(), {
+      configDirectory: '/config',
+      language: 'typescript',
+    })
+
+    expect(config).toEqual({
+      languageOptions: { parser: typescriptParser },
+      files: ['**/*.ts', '**/*.mts', '**/*.cts'],
+    })
+  })
+
+  it('enables JSX for React languages', async () => {
+    let config = await createLanguageConfig(createMockJiti(), {
+      language: 'javascript-react',
+      configDirectory: '/config',
+    })
+
+    expect(config).toEqual({
+      languageOptions: { parserOptions: { ecmaFeatures: { jsx: true } } },
+      files: ['**/*.jsx'],
+    })
+  })
+
+  it('delegates scripts of template languages to the TypeScript parser', async () => {
+    let config = await createLanguageConfig(createMockJiti(), {
+      configDirectory: '/config',
+      language: 'vue',
+    })
+
+    expect(config).toEqual({
+      languageOptions: {
+        parserOptions: { parser: typescriptParser },
+        parser: vueParser,
+      },
+      files: ['**/*.vue'],
+    })
+  })
+
+  it('uses the language of the official plugin for JSON', async () => {
+    let config = await createLanguageConfig(createMockJiti(), {
+      configDirectory: '/config',
+      language: 'json',
+    })
+
+    expect(config).toEqual({
+      plugins: { json: jsonPlugin },
+      language: 'json/json',
+      files: ['**/*.json'],
+    })
+  })
+
+  it('resolves parsers and plugins from the config directory', async () => {
+    let jiti = createMockJiti()
+
+    await createLanguageConfig(jiti, {
+      configDirectory: '/config',
+      language: 'json',
+    })
+    await createLanguageConfig(jiti, {
+      configDirectory: '/config',
+      language: 'typescript',
+    })
+
+    let parentURL = pathToFileURL(path.join('/config', path.sep))
+    expect(jiti.import).toHaveBeenCalledWith('@eslint/json', { parentURL })
+    expect(jiti.import).toHaveBeenCalledWith('@typescript-eslint/parser', {
+      parentURL,
+    })
+  })
+
+  it('throws if the plugin of the language cannot be loaded', async () => {
+    await expect(
+      createLanguageConfig(createMockJiti(), {
+        configDirectory: '/config',
+        language: 'markdown',
+      }),
+    ).rejects.toThrowError(
+      `Failed to load plugin "@eslint/markdown": Cannot find module '@eslint/markdown'. Install it to lint markdown samples`,
+    )
+  })
+
+  it('throws if the YAML parser cannot be loaded', async () => {
+    await expect(
+      createLanguageConfig(createMockJiti(), {
+        configDirectory: '/config',
+        language: 'yaml',
+      }),
+    ).rejects.toThrowError(
+      `Failed to load the yaml parser: Cannot find module 'yaml-eslint-parser'. Install it to lint yaml samples`,
+    )
+  })
+
+  it('leaves out parsers that cannot be loaded', async () => {
+    let config = await createLanguageConfig(createMockJiti(), {
+      configDirectory: '/config',
+      language: 'svelte',
+    })
+
+    expect(config).toEqual({
+      languageOptions: { parserOptions: { parser: typescriptParser } },
+      files: ['**/*.svelte'],
+    })
+  })
+
+  it.each([
+    ['json', 'sample.json', '{ "a": [1, 2] }'],
+    ['markdown', 'sample.md', '# Title\n\n- item\n'],
+    ['css', 'sample.css', 'a { color: red; }'],
+    ['yaml', 'sample.yaml', 'a:\n  - 1\n  - 2\n'],
+  ] as const)(
+    'parses %s samples with the installed packages',
+    async (language, filename, code) => {
+      let config = await createLanguageConfig(createJiti(import.meta.url), {
+        configDirectory: process.cwd(),
+        language,
+      })
+      let eslint = new ESLint({
+        overrideConfig: [config],
+        overrideConfigFile: true,
+        ignore: false,
+      })
+
+      let [result] = await eslint.lintText(code, { filePath: filename })
+
+      expect(result!.messages).toEqual([])
+    },
+  )
+})
@@ -0,0 +1,99 @@
+import type { Rule } from 'eslint'
+
+import { beforeAll, afterAll, describe, expect, it } from 'vitest'
+import fs from 'node:fs/promises'
+import { createJiti } from 'jiti'
+import { Linter } from 'eslint'
+import path from 'node:path'
+import os from 'node:os'
+
+import { createPassCounter } from '../../../core/eslint/create-pass-counter'
+import { loadRuleFromFile } from '../../../core/eslint/load-rule-from-file'
+
+let removeFirstSemicolon: Rule.RuleModule = {
+  create: context => ({
+    'ExpressionStatement:exit': node => {
+      let lastToken = context.sourceCode.getLastToken(node)
+      if (lastToken?.value === ';') {
+        context.report({
+          fix: fixer => fixer.remove(lastToken),
+          message: 'Unexpected semicolon.',
+          node,
+        })
+      }
+    },
+  }),
+  meta: { fixable: 'code', type: 'layout' },
+}
+
+function verifyAndFix(rule: Rule.RuleModule, code: string): void {
+  new Linter().verifyAndFix(code, {
+    plugins: { test: { rules: { rule } } },
+    rules: { 'test/rule': 'error' },
+  })
+}
+
+describe('createPassCounter', () => {
+  let ruleDirectory: string
+
+  beforeAll(async () => {
+    ruleDirectory = await fs.mkdtemp(path.join(os.tmpdir(), 'pass-counter-'))
+    await fs.writeFile(
+      path.join(ruleDirectory, 'rule.js'),
+      [
+        'export default {',
+        '  create: context => ({',
+        '    Literal: node => {',
+        "      if (node.value === 'a') {",
+        "        context.report({ fix: fixer => fixer.replaceText(node, \"'b'\"), message: 'Use b.', node })",
+        '      }',
+        '    },',
+        '  }),',
+        "  meta: { fixable: 'code', type: 'suggestion' },",
+        '}',
+      ].join('\n'),
+    )
+  })
+
+  afterAll(async () => {
+    await fs.rm(ruleDirectory, { recursive: true, force: true })
+  })
+
+  it('counts the passes ESLint needs to fix the code', async () => {
+    let passCounter = createPassCounter()
+    let rule = passCounter.wrapRule(removeFirstSemicolon)
+
+    await expect(
+      passCounter.count(() => Promise.resolve(verifyAndFix(rule, 'a;\nb;'))),
+    ).resolves.toBe(2)
+    await expect(
+      passCounter.count(() => Promise.resolve(verifyAndFix(rule, 'a\nb'))),
+    ).resolves.toBe(1)
+  })
+
+  it('does not count lint calls outside of count', async () => {
+    let passCounter = createPassCounter()
+    let rule = passCounter.wrapRule(removeFirstSemicolon)
+
+    verifyAndFix(rule, 'a;')
+
+    await expect(passCounter.count(() => Promise.resolve())).resolves.toBe(0)
+  })
+
+  it('keeps the meta of a fixable rule loaded from a file', async () => {
+    let { rule: ruleModule } = await loadRuleFromFile(
+      createJiti(import.meta.url),
+      { configDirectory: ruleDirectory, rulePath: 'rule.js', ruleId: 'rule' },
+    )
+    let passCounter = createPassCounter()
+    let rule = passCounter.wrapRule(ruleModule as Rule.RuleModule)
+
+    expect(rule.meta).toEqual({ type: 'suggestion', fixable: 'code' })
+
+    await expect(
+      passCounter.count(() =>
+        Promise.resolve(verifyAndFix(rule, "let x = 'a'")),
+      ),
+    ).resolves.toBe(2)
+  })
+})
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest'
+
+import { extractRules } from '../../../core/eslint/extract-rules'
+
+let firstRule = { meta: { type: 'problem' as const }, create: () => ({}) }
+let secondRule = { meta: { type: 'layout' as const }, create: () => ({}) }
+
+describe('extractRules', () => {
+  it('returns rules exported as module.rules', () => {
+    expect(extractRules({ rules: { first: firstRule } })).toEqual({
+      first: firstRule,
+    })
+  })
+
+  it('returns rules of the default export', () => {
+    expect(extractRules({ default: { rules: { first: firstRule } } })).toEqual({
+      first: firstRule,
+    })
+  })
+
+  it('merges both collections with module.rules taking precedence', () => {
+    let rules = extractRules({
+      default: { rules: { second: firstRule, first: firstRule } },
+      rules: { second: secondRule },
+    })
+
+    expect(rules).toEqual({ second: secondRule, first: firstRule })
+  })
+
+  it('returns an empty object for modules without rules', () => {
+    expect(extractRules(firstRule)).toEqual({})
+    expect(extractRules({ default: firstRule })).toEqual({})
+  })
+})
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest'
+
+import { getBenchmarkRuleId } from '../../../core/eslint/get-benchmark-rule-id'
+
+describe('getBenchmarkRuleId', () => {
+  it('should put a core rule into the benchmark namespace', () => {
+    expect(getBenchmarkRuleId('no-console')).toBe(
+      'eslint-rule-benchmark/no-console',
+    )
+  })
+
+  it('should replace the plugin prefix of a plugin rule', () => {
+    expect(getBenchmarkRuleId('perfectionist/sort-imports')).toBe(
+      'eslint-rule-benchmark/sort-imports',
+    )
+  })
+
+  it('should keep the rule name of a scoped plugin rule', () => {
+    expect(getBenchmarkRuleId('@scope/name/first-rule')).toBe(
+      'eslint-rule-benchmark/first-rule',
+    )
+    expect(getBenchmarkRuleId('@typescript-eslint/no-unused-vars')).toBe(
+      'eslint-rule-benchmark/no-unused-vars',
+    )
+  })
+})
@@ -0,0 +1,41 @@
+import type { ESLint } from 'eslint'
+
+import { describe, expect, it } from 'vitest'
+
+import { getParseError } from '../../../core/eslint/get-parse-error'
+
+describe('getParseError', () => {
+  it('should return the fatal message with its position', () => {
+    let results = [
+      {
+        messages: [
+          {
+            message: 'Parsing error: Unexpected token )',
+            ruleId: null,
+            severity: 2,
+            fatal: true,
+            column: 5,
+            line: 1,
+          },
+        ],
+      },
+    ] as ESLint.LintResult[]
+
+    expect(getParseError(results)).toBe(
+      'Parsing error: Unexpected token ) (1:5)',
+    )
+  })
+
+  it('should return null if there are no fatal messages', () => {
+    let results = [
+      {
+        messages: [
+          { message: 'Unexpected var', ruleId: 'no-var', severity: 2 },
+        ],
+      },
+    ] as ESLint.LintResult[]
+
+    expect(getParseError(results)).toBeNull()
+    expect(getParseError([])).toBeNull()
+  })
+})
@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest'
+
+import { isTypeAware } from '../../../core/eslint/is-type-aware'
+
+describe('isTypeAware', () => {
+  it('detects parserOptions.project and parserOptions.projectService', () => {
+    expect(
+      isTypeAware({ parserOptions: { project: './tsconfig.json' } }),
+    ).toBeTruthy()
+    expect(
+      isTypeAware({ parserOptions: { projectService: true } }),
+    ).toBeTruthy()
+  })
+
+  it('returns false without a TypeScript project', () => {
+    expect(isTypeAware()).toBeFalsy()
+    expect(isTypeAware({ parserOptions: { project: false } })).toBeFalsy()
+    expect(isTypeAware({ ecmaVersion: 2022 })).toBeFalsy()
+  })
+})
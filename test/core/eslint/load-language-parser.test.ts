@@ -1,6 +1,8 @@
 import type { Jiti } from 'jiti'
 
 import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { pathToFileURL } from 'node:url'
+import path from 'node:path'
 
 import { loadLanguageParser } from '../../../core/eslint/load-language-parser'
 
@@ -58,6 +60,18 @@ describe('loadLanguageParser', () => {
     expect(result.error).toBeUndefined()
   })
 
+  it('resolves the parser from the config directory', async () => {
+    vi.mocked(mockJiti.import).mockResolvedValueOnce({ parse: () => ({}) })
+
+    let result = await loadLanguageParser(mockJiti, 'yaml', '/config')
+
+    expect(vi.mocked(mockJiti.import)).toHaveBeenCalledWith(
+      'yaml-eslint-parser',
+      { parentURL: pathToFileURL(path.join('/config', path.sep)) },
+    )
+    expect(result.parser).toBeDefined()
+  })
+
   it('loads parser with parseForESLint method successfully', async () => {
     let mockParser: WithParseForESLintMethod = {
       parseForESLint: () => ({}),
@@ -79,7 +93,7 @@ describe('loadLanguageParser', () => {
     let mockModule = {
       default: {
         parse: () => ({}),
-      } as WithParseMethod,
+      },
     }
 
     vi.mocked(mockJiti.import).mockResolvedValueOnce(mockModule)
@@ -95,7 +109,7 @@ describe('loadLanguageParser', () => {
     let mockModule = {
       default: {
         parseForESLint: () => ({}),
-      } as WithParseForESLintMethod,
+      },
     }
 
     vi.mocked(mockJiti.import).mockResolvedValueOnce(mockModule)
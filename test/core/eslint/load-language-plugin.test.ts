@@ -0,0 +1,79 @@
+import type { Jiti } from 'jiti'
+
+import { describe, expect, it, vi } from 'vitest'
+import { pathToFileURL } from 'node:url'
+import path from 'node:path'
+
+import { loadLanguagePlugin } from '../../../core/eslint/load-language-plugin'
+
+function createMockJiti(): Jiti {
+  return {
+    import: vi.fn(),
+  } as unknown as Jiti
+}
+
+let plugin = { languages: { jsonc: {}, json: {} } }
+
+describe('loadLanguagePlugin', () => {
+  it.each([[plugin], [{ default: plugin }]])(
+    'loads official language plugins from their packages',
+    async moduleExport => {
+      let jiti = createMockJiti()
+      vi.mocked(jiti.import).mockResolvedValueOnce(moduleExport)
+
+      let result = await loadLanguagePlugin(jiti, { language: 'json/jsonc' })
+
+      expect(result).toEqual({ namespace: 'json', plugin })
+      expect(jiti.import).toHaveBeenCalledWith('@eslint/json', {})
+    },
+  )
+
+  it('resolves other plugins by naming convention from the config directory', async () => {
+    let jiti = createMockJiti()
+    vi.mocked(jiti.import).mockResolvedValueOnce({ languages: { html: {} } })
+
+    let result = await loadLanguagePlugin(jiti, {
+      configDirectory: '/config',
+      language: 'html/html',
+    })
+
+    expect(result.namespace).toBe('html')
+    expect(jiti.import).toHaveBeenCalledWith('eslint-plugin-html', {
+      parentURL: pathToFileURL(path.join('/config', path.sep)),
+    })
+  })
+
+  it('returns an error if the plugin has no such language', async () => {
+    let jiti = createMockJiti()
+    vi.mocked(jiti.import).mockResolvedValueOnce(plugin)
+
+    let result = await loadLanguagePlugin(jiti, { language: 'json/json6' })
+
+    expect(result.error).toBe(
+      'Language "json6" not found in plugin "@eslint/json"',
+    )
+  })
+
+  it('returns an error for languages without a plugin prefix', async () => {
+    let result = await loadLanguagePlugin(createMockJiti(), {
+      language: 'json',
+    })
+
+    expect(result.error).toBe(
+      'Language "json" must be prefixed with the plugin name',
+    )
+  })
+
+  it('returns an error if the plugin cannot be imported', async () => {
+    let jiti = createMockJiti()
+    vi.mocked(jiti.import).mockRejectedValueOnce(
+      new Error('Cannot find module'),
+    )
+
+    let result = await loadLanguagePlugin(jiti, { language: 'css/css' })
+
+    expect(result.error).toBe(
+      'Failed to load plugin "@eslint/css": Cannot find module',
+    )
+  })
+})
@@ -0,0 +1,59 @@
+import type { Jiti } from 'jiti'
+
+import { describe, expect, it, vi } from 'vitest'
+import { pathToFileURL } from 'node:url'
+import path from 'node:path'
+
+import { loadParser } from '../../../core/eslint/load-parser'
+
+function createMockJiti(): Jiti {
+  return {
+    import: vi.fn(),
+  } as unknown as Jiti
+}
+
+describe('loadParser', () => {
+  it('loads the parser relative to the config directory', async () => {
+    let jiti = createMockJiti()
+    let parser = { parseForESLint: () => ({}) }
+    vi.mocked(jiti.import).mockResolvedValueOnce({ default: parser })
+
+    let result = await loadParser(jiti, {
+      parser: '@babel/eslint-parser',
+      configDirectory: '/config',
+    })
+
+    expect(result).toEqual({ parser })
+    expect(jiti.import).toHaveBeenCalledWith('@babel/eslint-parser', {
+      parentURL: pathToFileURL(path.join('/config', path.sep)),
+    })
+  })
+
+  it('returns an error if the module is not a parser', async () => {
+    let jiti = createMockJiti()
+    vi.mocked(jiti.import).mockResolvedValueOnce({ rules: {} })
+
+    let result = await loadParser(jiti, {
+      configDirectory: '/config',
+      parser: './parser.js',
+    })
+
+    expect(result.error).toBe('Parser not found in module: ./parser.js')
+  })
+
+  it('returns an error if the module cannot be imported', async () => {
+    let jiti = createMockJiti()
+    vi.mocked(jiti.import).mockRejectedValueOnce(
+      new Error('Cannot find module'),
+    )
+
+    let result = await loadParser(jiti, {
+      configDirectory: '/config',
+      parser: 'missing-parser',
+    })
+
+    expect(result.error).toBe(
+      'Failed to load parser "missing-parser": Cannot find module',
+    )
+  })
+})
@@ -0,0 +1,69 @@
+import type { Jiti } from 'jiti'
+
+import { describe, expect, it, vi } from 'vitest'
+import path from 'node:path'
+
+import { loadPluginRuleIds } from '../../../core/eslint/load-plugin-rule-ids'
+
+function createMockJiti(): Jiti {
+  return {
+    import: vi.fn(),
+  } as unknown as Jiti
+}
+
+let rule = { meta: { type: 'problem' }, create: () => ({}) }
+
+describe('loadPluginRuleIds', () => {
+  it('returns the IDs of all rules of the plugin', async () => {
+    let jiti = createMockJiti()
+    vi.mocked(jiti.import).mockResolvedValueOnce({
+      default: { rules: { 'no-foo': rule, 'no-bar': rule } },
+    })
+
+    let ruleIds = await loadPluginRuleIds(jiti, {
+      configDirectory: '/config',
+      pluginPath: 'plugin.js',
+    })
+
+    expect(ruleIds).toEqual(['no-foo', 'no-bar'])
+    expect(jiti.import).toHaveBeenCalledWith(
+      path.resolve('/config', 'plugin.js'),
+    )
+  })
+
+  it('imports absolute plugin paths as is', async () => {
+    let jiti = createMockJiti()
+    vi.mocked(jiti.import).mockResolvedValueOnce({ rules: { 'no-foo': rule } })
+
+    await loadPluginRuleIds(jiti, {
+      pluginPath: '/absolute/plugin.js',
+      configDirectory: '/config',
+    })
+
+    expect(jiti.import).toHaveBeenCalledWith('/absolute/plugin.js')
+  })
+
+  it('throws if the plugin cannot be imported', async () => {
+    let jiti = createMockJiti()
+    vi.mocked(jiti.import).mockRejectedValueOnce(new Error('Syntax error'))
+
+    await expect(
+      loadPluginRuleIds(jiti, {
+        configDirectory: '/config',
+        pluginPath: 'plugin.js',
+      }),
+    ).rejects.toThrowError('Failed to load plugin "plugin.js": Syntax error')
+  })
+
+  it('throws if the plugin exports no rules', async () => {
+    let jiti = createMockJiti()
+    vi.mocked(jiti.import).mockResolvedValueOnce(rule)
+
+    await expect(
+      loadPluginRuleIds(jiti, {
+        configDirectory: '/config',
+        pluginPath: 'rule.js',
+      }),
+    ).rejects.toThrowError('Plugin "rule.js" does not export any rules')
+  })
+})
@@ -0,0 +1,65 @@
+import type { Jiti } from 'jiti'
+
+import { describe, expect, it, vi } from 'vitest'
+import { pathToFileURL } from 'node:url'
+import path from 'node:path'
+
+import { loadProcessor } from '../../../core/eslint/load-processor'
+
+function createMockJiti(): Jiti {
+  return {
+    import: vi.fn(),
+  } as unknown as Jiti
+}
+
+let processor = { postprocess: () => [], preprocess: () => [] }
+
+describe('loadProcessor', () => {
+  it.each([
+    [{ processors: { markdown: processor } }],
+    [{ default: { processors: { markdown: processor } } }],
+  ])('loads the processor from the plugin package', async moduleExport => {
+    let jiti = createMockJiti()
+    vi.mocked(jiti.import).mockResolvedValueOnce(moduleExport)
+
+    let result = await loadProcessor(jiti, {
+      processor: 'markdown/markdown',
+      configDirectory: '/config',
+    })
+
+    expect(result).toEqual({ processor })
+    expect(jiti.import).toHaveBeenCalledWith('eslint-plugin-markdown', {
+      parentURL: pathToFileURL(path.join('/config', path.sep)),
+    })
+  })
+
+  it('returns an error for processors without a plugin prefix', async () => {
+    let jiti = createMockJiti()
+
+    let result = await loadProcessor(jiti, {
+      configDirectory: '/config',
+      processor: 'markdown',
+    })
+
+    expect(result.error).toBe(
+      'Processor "markdown" must be prefixed with the plugin name',
+    )
+    expect(jiti.import).not.toHaveBeenCalled()
+  })
+
+  it('returns an error if the plugin cannot be imported', async () => {
+    let jiti = createMockJiti()
+    vi.mocked(jiti.import).mockRejectedValueOnce(
+      new Error('Cannot find module'),
+    )
+
+    let result = await loadProcessor(jiti, {
+      processor: '@scope/vue/template',
+      configDirectory: '/config',
+    })
+
+    expect(result.error).toBe(
+      'Failed to load plugin "@scope/eslint-plugin-vue": Cannot find module',
+    )
+  })
+})
@@ -0,0 +1,99 @@
+import type { Jiti } from 'jiti'
+
+import { builtinRules } from 'eslint/use-at-your-own-risk'
+import { describe, expect, it, vi } from 'vitest'
+import { pathToFileURL } from 'node:url'
+import path from 'node:path'
+
+import { loadRuleById } from '../../../core/eslint/load-rule-by-id'
+
+function createMockJiti(): Jiti {
+  return {
+    import: vi.fn(),
+  } as unknown as Jiti
+}
+
+let rule = { meta: { type: 'problem' }, create: () => ({}) }
+
+describe('loadRuleById', () => {
+  it('loads core rules from ESLint', async () => {
+    let jiti = createMockJiti()
+
+    let result = await loadRuleById(jiti, {
+      configDirectory: '/config',
+      ruleId: 'no-console',
+    })
+
+    expect(result.rule).toBe(builtinRules.get('no-console'))
+    expect(result.error).toBeUndefined()
+    expect(jiti.import).not.toHaveBeenCalled()
+  })
+
+  it('returns an error for unknown core rules', async () => {
+    let result = await loadRuleById(createMockJiti(), {
+      configDirectory: '/config',
+      ruleId: 'no-such-rule',
+    })
+
+    expect(result.rule).toBeUndefined()
+    expect(result.error).toBe('Unknown core ESLint rule "no-such-rule"')
+  })
+
+  it.each([
+    ['react/jsx-key', 'eslint-plugin-react', 'jsx-key'],
+    [
+      '@typescript-eslint/no-unused-vars',
+      '@typescript-eslint/eslint-plugin',
+      'no-unused-vars',
+    ],
+    ['@scope/name/no-foo', '@scope/eslint-plugin-name', 'no-foo'],
+  ])(
+    'resolves %s from the plugin package',
+    async (ruleId, packageName, ruleName) => {
+      let jiti = createMockJiti()
+      vi.mocked(jiti.import).mockResolvedValueOnce({
+        default: { rules: { [ruleName]: rule } },
+      })
+
+      let result = await loadRuleById(jiti, {
+        configDirectory: '/config',
+        ruleId,
+      })
+
+      expect(result.rule).toBe(rule)
+      expect(jiti.import).toHaveBeenCalledWith(packageName, {
+        parentURL: pathToFileURL(path.join('/config', path.sep)),
+      })
+    },
+  )
+
+  it('returns an error if the plugin has no such rule', async () => {
+    let jiti = createMockJiti()
+    vi.mocked(jiti.import).mockResolvedValueOnce({ rules: { other: rule } })
+
+    let result = await loadRuleById(jiti, {
+      configDirectory: '/config',
+      ruleId: 'react/jsx-key',
+    })
+
+    expect(result.error).toBe(
+      'Rule "jsx-key" not found in plugin "eslint-plugin-react"',
+    )
+  })
+
+  it('returns an error if the plugin cannot be imported', async () => {
+    let jiti = createMockJiti()
+    vi.mocked(jiti.import).mockRejectedValueOnce(
+      new Error('Cannot find module'),
+    )
+
+    let result = await loadRuleById(jiti, {
+      configDirectory: '/config',
+      ruleId: 'react/jsx-key',
+    })
+
+    expect(result.error).toBe(
+      'Failed to load plugin "eslint-plugin-react": Cannot find module',
+    )
+  })
+})
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest'
+
+import { mergeLanguageOptions } from '../../../core/eslint/merge-language-options'
+
+describe('mergeLanguageOptions', () => {
+  it('returns the defined options if the other ones are undefined', () => {
+    let options = { ecmaVersion: 2022 as const }
+
+    expect(mergeLanguageOptions(options, undefined)).toBe(options)
+    expect(mergeLanguageOptions(undefined, options)).toBe(options)
+    expect(mergeLanguageOptions(undefined, undefined)).toBeUndefined()
+  })
+
+  it('merges parser options and lets the override take precedence', () => {
+    expect(
+      mergeLanguageOptions(
+        {
+          parserOptions: { ecmaFeatures: { jsx: true }, project: false },
+          globals: { window: 'readonly' },
+          sourceType: 'module',
+        },
+        {
+          parserOptions: { project: './tsconfig.json' },
+          sourceType: 'script',
+        },
+      ),
+    ).toEqual({
+      parserOptions: {
+        ecmaFeatures: { jsx: true },
+        project: './tsconfig.json',
+      },
+      globals: { window: 'readonly' },
+      sourceType: 'script',
+    })
+  })
+})
@@ -0,0 +1,54 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import fs from 'node:fs/promises'
+import path from 'node:path'
+
+import { createWorktree } from '../../../core/git/create-worktree'
+import { runGit } from '../../../core/git/run-git'
+
+vi.mock('node:fs/promises')
+vi.mock('../../../core/git/run-git')
+
+let cacheDirectory = path.join(
+  '/repo',
+  'node_modules',
+  '.cache',
+  'eslint-rule-benchmark',
+)
+let worktreePath = path.join(cacheDirectory, 'worktree-abc123')
+
+describe('createWorktree', () => {
+  beforeEach(() => {
+    vi.resetAllMocks()
+    vi.mocked(fs.mkdtemp).mockResolvedValue(worktreePath)
+  })
+
+  it('checks out the revision into a temporary directory inside node_modules', async () => {
+    vi.mocked(runGit).mockResolvedValue('')
+
+    await expect(createWorktree('/repo', 'origin/main')).resolves.toBe(
+      worktreePath,
+    )
+    expect(fs.mkdir).toHaveBeenCalledWith(cacheDirectory, { recursive: true })
+    expect(fs.mkdtemp).toHaveBeenCalledWith(
+      path.join(cacheDirectory, 'worktree-'),
+    )
+    expect(runGit).toHaveBeenCalledWith(
+      ['worktree', 'add', '--detach', worktreePath, 'origin/main'],
+      '/repo',
+    )
+  })
+
+  it('removes the temporary directory if the revision cannot be checked out', async () => {
+    vi.mocked(runGit).mockRejectedValue(
+      new Error('git worktree failed: invalid reference: missing'),
+    )
+
+    await expect(createWorktree('/repo', 'missing')).rejects.toThrowError(
+      'Failed to check out "missing": git worktree failed: invalid reference: missing',
+    )
+    expect(fs.rm).toHaveBeenCalledWith(worktreePath, {
+      recursive: true,
+      force: true,
+    })
+  })
+})
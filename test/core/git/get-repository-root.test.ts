@@ -0,0 +1,20 @@
+import { describe, expect, it, vi } from 'vitest'
+
+import { getRepositoryRoot } from '../../../core/git/get-repository-root'
+import { runGit } from '../../../core/git/run-git'
+
+vi.mock('../../../core/git/run-git')
+
+describe('getRepositoryRoot', () => {
+  it('returns the top-level directory of the repository', async () => {
+    vi.mocked(runGit).mockResolvedValue('/path/to/repo')
+
+    await expect(getRepositoryRoot('/path/to/repo/benchmark')).resolves.toBe(
+      '/path/to/repo',
+    )
+    expect(runGit).toHaveBeenCalledWith(
+      ['rev-parse', '--show-toplevel'],
+      '/path/to/repo/benchmark',
+    )
+  })
+})
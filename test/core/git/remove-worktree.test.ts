@@ -0,0 +1,36 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+import { removeWorktree } from '../../../core/git/remove-worktree'
+import { runGit } from '../../../core/git/run-git'
+
+vi.mock('../../../core/git/run-git')
+
+describe('removeWorktree', () => {
+  beforeEach(() => {
+    vi.resetAllMocks()
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+  })
+
+  it('removes the worktree with git', async () => {
+    vi.mocked(runGit).mockResolvedValue('')
+
+    await removeWorktree('/repo', '/repo/node_modules/.cache/worktree-1')
+
+    expect(runGit).toHaveBeenCalledWith(
+      ['worktree', 'remove', '--force', '/repo/node_modules/.cache/worktree-1'],
+      '/repo',
+    )
+    expect(console.warn).not.toHaveBeenCalled()
+  })
+
+  it('warns instead of throwing when the worktree cannot be removed', async () => {
+    vi.mocked(runGit).mockRejectedValue(new Error('git worktree failed'))
+
+    await expect(
+      removeWorktree('/repo', '/repo/node_modules/.cache/worktree-1'),
+    ).resolves.toBeUndefined()
+    expect(console.warn).toHaveBeenCalledWith(
+      'Failed to remove temporary worktree "/repo/node_modules/.cache/worktree-1": git worktree failed',
+    )
+  })
+})
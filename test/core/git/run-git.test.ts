@@ -0,0 +1,65 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { execFile } from 'node:child_process'
+
+import { runGit } from '../../../core/git/run-git'
+
+vi.mock('node:child_process', () => ({
+  execFile: vi.fn(),
+}))
+
+type ExecFileCallback = (
+  error: Error | null,
+  stdout: string,
+  stderr: string,
+) => void
+
+function mockGitResult(
+  error: Error | null,
+  stdout: string,
+  stderr: string = '',
+): void {
+  vi.mocked(execFile).mockImplementation(((...execFileArguments: unknown[]) => {
+    let callback = execFileArguments.at(-1) as ExecFileCallback
+    callback(error, stdout, stderr)
+  }) as unknown as typeof execFile)
+}
+
+describe('runGit', () => {
+  beforeEach(() => {
+    vi.mocked(execFile).mockReset()
+  })
+
+  it('returns trimmed stdout of the git command', async () => {
+    mockGitResult(null, '/path/to/repo\n')
+
+    await expect(
+      runGit(['rev-parse', '--show-toplevel'], '/path/to/repo/src'),
+    ).resolves.toBe('/path/to/repo')
+    expect(execFile).toHaveBeenCalledWith(
+      'git',
+      ['rev-parse', '--show-toplevel'],
+      { cwd: '/path/to/repo/src' },
+      expect.any(Function),
+    )
+  })
+
+  it('includes stderr in the error message when the command fails', async () => {
+    mockGitResult(
+      new Error('Command failed'),
+      '',
+      'fatal: invalid reference: missing\n',
+    )
+
+    await expect(
+      runGit(['worktree', 'add', '/tmp/worktree', 'missing'], '/repo'),
+    ).rejects.toThrowError('git worktree failed: fatal: invalid reference')
+  })
+
+  it('falls back to the error message when stderr is empty', async () => {
+    mockGitResult(new Error('spawn git ENOENT'), '')
+
+    await expect(runGit(['status'], '/repo')).rejects.toThrowError(
+      'git status failed: spawn git ENOENT',
+    )
+  })
+})
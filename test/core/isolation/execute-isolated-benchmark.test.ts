@@ -0,0 +1,53 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+
+import type {
+  RunBenchmarkParameters,
+  ProcessedBenchmarkTask,
+} from '../../../core/benchmark/run-benchmark'
+
+import { executeIsolatedBenchmark } from '../../../core/isolation/execute-isolated-benchmark'
+import { runBenchmark } from '../../../core/benchmark/run-benchmark'
+
+vi.mock('../../../core/benchmark/run-benchmark', () => ({
+  runBenchmark: vi.fn(),
+}))
+
+let parameters = {
+  configDirectory: '/project',
+  testCases: [],
+} as unknown as RunBenchmarkParameters
+
+describe('executeIsolatedBenchmark', () => {
+  beforeEach(() => {
+    vi.mocked(runBenchmark).mockReset()
+  })
+
+  it('wraps benchmark results into a result message', async () => {
+    let results = [{ name: 'task' }] as ProcessedBenchmarkTask[]
+    vi.mocked(runBenchmark).mockResolvedValue(results)
+
+    await expect(executeIsolatedBenchmark(parameters)).resolves.toEqual({
+      type: 'result',
+      results,
+    })
+    expect(runBenchmark).toHaveBeenCalledWith(parameters)
+  })
+
+  it('passes null results through', async () => {
+    vi.mocked(runBenchmark).mockResolvedValue(null)
+
+    await expect(executeIsolatedBenchmark(parameters)).resolves.toEqual({
+      type: 'result',
+      results: null,
+    })
+  })
+
+  it('turns thrown errors into an error message', async () => {
+    vi.mocked(runBenchmark).mockRejectedValue(new Error('Rule not found'))
+
+    await expect(executeIsolatedBenchmark(parameters)).resolves.toEqual({
+      message: 'Rule not found',
+      type: 'error',
+    })
+  })
+})
@@ -0,0 +1,174 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { Worker } from 'node:worker_threads'
+import { EventEmitter } from 'node:events'
+import { fork } from 'node:child_process'
+
+import type {
+  RunBenchmarkParameters,
+  ProcessedBenchmarkTask,
+} from '../../../core/benchmark/run-benchmark'
+import type { IsolatedBenchmarkMessage } from '../../../types/isolated-benchmark-message'
+
+import { runIsolatedBenchmark } from '../../../core/isolation/run-isolated-benchmark'
+
+vi.mock('node:worker_threads', () => ({
+  Worker: vi.fn(),
+}))
+
+vi.mock('node:child_process', () => ({
+  fork: vi.fn(),
+}))
+
+// eslint-disable-next-line unicorn/prefer-event-target
+class MockWorker extends EventEmitter {
+  public terminate = vi.fn().mockResolvedValue(0)
+
+  public postMessage = vi.fn()
+}
+
+// eslint-disable-next-line unicorn/prefer-event-target
+class MockChildProcess extends EventEmitter {
+  public disconnect = vi.fn()
+
+  public send = vi.fn()
+}
+
+let parameters = {
+  configDirectory: '/project',
+  testCases: [],
+} as unknown as RunBenchmarkParameters
+
+let results = [{ name: 'task' }] as ProcessedBenchmarkTask[]
+
+function mockChildProcess(
+  respond: (child: MockChildProcess) => void,
+): MockChildProcess {
+  let child = new MockChildProcess()
+  child.send.mockImplementation(() => {
+    respond(child)
+  })
+  vi.mocked(fork).mockReturnValue(child as unknown as ReturnType<typeof fork>)
+  return child
+}
+
+function mockWorker(respond: (worker: MockWorker) => void): MockWorker {
+  let worker = new MockWorker()
+  worker.postMessage.mockImplementation(() => {
+    respond(worker)
+  })
+  vi.mocked(Worker).mockImplementation(() => worker as unknown as Worker)
+  return worker
+}
+
+describe('runIsolatedBenchmark', () => {
+  let consoleErrorSpy: ReturnType<typeof vi.spyOn>
+
+  beforeEach(() => {
+    vi.mocked(Worker).mockReset()
+    vi.mocked(fork).mockReset()
+    consoleErrorSpy = vi.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  it('runs the benchmark in a worker thread', async () => {
+    let worker = mockWorker(current => {
+      current.emit('message', {
+        type: 'result',
+        results,
+      } satisfies IsolatedBenchmarkMessage)
+      current.emit('exit', 1)
+    })
+
+    await expect(runIsolatedBenchmark(parameters, 'worker')).resolves.toBe(
+      results,
+    )
+    expect(Worker).toHaveBeenCalledWith(
+      expect.stringMatching(/core\/isolation\/benchmark-worker\.ts$/u),
+    )
+    expect(worker.postMessage).toHaveBeenCalledWith(parameters)
+    expect(worker.terminate).toHaveBeenCalledOnce()
+    expect(fork).not.toHaveBeenCalled()
+  })
+
+  it('runs the benchmark in a child process', async () => {
+    let child = mockChildProcess(current => {
+      current.emit('message', {
+        type: 'result',
+        results: null,
+      } satisfies IsolatedBenchmarkMessage)
+    })
+
+    await expect(
+      runIsolatedBenchmark(parameters, 'process'),
+    ).resolves.toBeNull()
+    expect(fork).toHaveBeenCalledWith(
+      expect.stringMatching(/core\/isolation\/benchmark-worker\.ts$/u),
+      [],
+      { serialization: 'advanced' },
+    )
+    expect(child.send).toHaveBeenCalledWith(parameters)
+    expect(child.disconnect).toHaveBeenCalledOnce()
+    expect(Worker).not.toHaveBeenCalled()
+  })
+
+  it('reports errors sent by the isolated benchmark', async () => {
+    mockWorker(current => {
+      current.emit('message', {
+        message: 'Rule not found',
+        type: 'error',
+      } satisfies IsolatedBenchmarkMessage)
+    })
+
+    await expect(runIsolatedBenchmark(parameters, 'worker')).resolves.toBeNull()
+    expect(consoleErrorSpy).toHaveBeenCalledWith(
+      'Isolated benchmark run in a worker failed: Rule not found',
+    )
+  })
+
+  it('reports worker errors', async () => {
+    mockWorker(current => {
+      current.emit('error', new Error('Out of memory'))
+    })
+
+    await expect(runIsolatedBenchmark(parameters, 'worker')).resolves.toBeNull()
+    expect(consoleErrorSpy).toHaveBeenCalledWith(
+      'Isolated benchmark run in a worker failed: Out of memory',
+    )
+  })
+
+  it('reports a worker that exits without results', async () => {
+    mockWorker(current => {
+      current.emit('exit', 1)
+    })
+
+    await expect(runIsolatedBenchmark(parameters, 'worker')).resolves.toBeNull()
+    expect(consoleErrorSpy).toHaveBeenCalledWith(
+      'Isolated benchmark run in a worker failed: Worker exited with code 1 before sending results',
+    )
+  })
+
+  it('reports child process errors', async () => {
+    mockChildProcess(current => {
+      current.emit('error', new Error('spawn node ENOENT'))
+    })
+
+    await expect(
+      runIsolatedBenchmark(parameters, 'process'),
+    ).resolves.toBeNull()
+    expect(consoleErrorSpy).toHaveBeenCalledWith(
+      'Isolated benchmark run in a process failed: spawn node ENOENT',
+    )
+  })
+
+  it('reports a child process that exits without results', async () => {
+    mockChildProcess(current => {
+      current.emit('exit', 134)
+    })
+
+    await expect(
+      runIsolatedBenchmark(parameters, 'process'),
+    ).resolves.toBeNull()
+    expect(consoleErrorSpy).toHaveBeenCalledWith(
+      'Isolated benchmark run in a process failed: Process exited with code 134 before sending results',
+    )
+  })
+})
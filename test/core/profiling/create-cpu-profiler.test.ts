@@ -0,0 +1,115 @@
+import type { Task } from 'tinybench'
+
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { Session } from 'node:inspector'
+import fs from 'node:fs/promises'
+
+import type { CpuProfiler } from '../../../core/profiling/create-cpu-profiler'
+
+import { createCpuProfiler } from '../../../core/profiling/create-cpu-profiler'
+
+vi.mock('node:inspector', () => ({
+  Session: vi.fn(),
+}))
+
+vi.mock('node:fs/promises', () => ({
+  default: {
+    writeFile: vi.fn(),
+    mkdir: vi.fn(),
+  },
+}))
+
+type PostCallback = (error: Error | null, result?: unknown) => void
+
+let profile = { startTime: 0, samples: [], endTime: 1, nodes: [] }
+let failingMethod: string | null
+let session: {
+  disconnect: ReturnType<typeof vi.fn>
+  connect: ReturnType<typeof vi.fn>
+  post: ReturnType<typeof vi.fn>
+}
+
+async function runHook(
+  profiler: CpuProfiler,
+  hook: 'beforeAll' | 'afterAll',
+  mode: 'warmup' | 'run',
+): Promise<void> {
+  await profiler.hooks[hook]?.call({} as Task, mode)
+}
+
+describe('createCpuProfiler', () => {
+  beforeEach(() => {
+    vi.clearAllMocks()
+    failingMethod = null
+    session = {
+      post: vi.fn((method: string, callback: PostCallback) => {
+        if (method === failingMethod) {
+          callback(new Error(`${method} failed`))
+        } else {
+          callback(null, method === 'Profiler.stop' ? { profile } : {})
+        }
+      }),
+      disconnect: vi.fn(),
+      connect: vi.fn(),
+    }
+    vi.mocked(Session).mockImplementation(() => session as unknown as Session)
+  })
+
+  it('records a profile of the measured iterations and writes it to a file', async () => {
+    let profiler = createCpuProfiler('/profiles', 'Spec - Case 1 on src/a.ts')
+
+    await runHook(profiler, 'beforeAll', 'run')
+
+    expect(session.connect).toHaveBeenCalledOnce()
+    expect(session.post.mock.calls.map(([method]) => method as string)).toEqual(
+      ['Profiler.enable', 'Profiler.start'],
+    )
+
+    await runHook(profiler, 'afterAll', 'run')
+
+    expect(session.post).toHaveBeenLastCalledWith(
+      'Profiler.stop',
+      expect.any(Function),
+    )
+    expect(session.disconnect).toHaveBeenCalledOnce()
+    expect(fs.mkdir).toHaveBeenCalledWith('/profiles', { recursive: true })
+    expect(fs.writeFile).toHaveBeenCalledWith(
+      '/profiles/Spec-Case-1-on-src-a.ts.cpuprofile',
+      JSON.stringify(profile),
+    )
+  })
+
+  it('does not record the warmup phase', async () => {
+    let profiler = createCpuProfiler('/profiles', 'task')
+
+    await runHook(profiler, 'beforeAll', 'warmup')
+    await runHook(profiler, 'afterAll', 'warmup')
+
+    expect(Session).not.toHaveBeenCalled()
+    expect(fs.writeFile).not.toHaveBeenCalled()
+  })
+
+  it.each(['Profiler.enable', 'Profiler.start'])(
+    'rejects when %s fails',
+    async method => {
+      failingMethod = method
+      let profiler = createCpuProfiler('/profiles', 'task')
+
+      await expect(runHook(profiler, 'beforeAll', 'run')).rejects.toThrowError(
+        `${method} failed`,
+      )
+    },
+  )
+
+  it('rejects when the profiler cannot be stopped', async () => {
+    failingMethod = 'Profiler.stop'
+    let profiler = createCpuProfiler('/profiles', 'task')
+
+    await runHook(profiler, 'beforeAll', 'run')
+
+    await expect(runHook(profiler, 'afterAll', 'run')).rejects.toThrowError(
+      'Profiler.stop failed',
+    )
+    expect(fs.writeFile).not.toHaveBeenCalled()
+  })
+})
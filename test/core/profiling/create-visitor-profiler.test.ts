@@ -0,0 +1,192 @@
+import type { Rule } from 'eslint'
+import type { Mock } from 'vitest'
+
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { performance } from 'node:perf_hooks'
+import { Linter } from 'eslint'
+
+import { createVisitorProfiler } from '../../../core/profiling/create-visitor-profiler'
+
+vi.mock('node:perf_hooks', () => ({
+  performance: { now: vi.fn() },
+}))
+
+let context = {} as Rule.RuleContext
+
+function mockListenerDurations(...durations: number[]): void {
+  let now = 0
+  let spy = vi.mocked(performance.now)
+  for (let duration of durations) {
+    spy.mockReturnValueOnce(now).mockReturnValueOnce(now + duration)
+    now += duration
+  }
+}
+
+describe('createVisitorProfiler', () => {
+  let identifier: Mock<() => void>
+  let programExit: Mock<() => void>
+  let rule: Rule.RuleModule
+
+  beforeEach(() => {
+    vi.mocked(performance.now).mockReset()
+    identifier = vi.fn()
+    programExit = vi.fn()
+    rule = {
+      create: () => ({
+        'Program:exit': programExit,
+        Identifier: identifier,
+      }),
+      meta: { type: 'problem' },
+    }
+  })
+
+  it('keeps the rule metadata and passes listener arguments through', async () => {
+    let profiler = createVisitorProfiler()
+    let wrappedRule = profiler.wrapRule(rule)
+    let node = { type: 'Identifier' }
+    mockListenerDurations(1)
+
+    expect(wrappedRule.meta).toBe(rule.meta)
+
+    await profiler.measure('task', () => {
+      let listeners = wrappedRule.create(context)
+      listeners.Identifier!(node as never)
+      return Promise.resolve()
+    })
+
+    expect(identifier).toHaveBeenCalledWith(node)
+  })
+
+  it('keeps the metadata of fixable rules imported with a default export', () => {
+    let fixableRule: Rule.RuleModule = {
+      create: ruleContext => ({
+        Literal: node => {
+          ruleContext.report({
+            fix: fixer => fixer.replaceText(node, '2'),
+            message: 'Use 2.',
+            node,
+          })
+        },
+      }),
+      meta: { type: 'suggestion', fixable: 'code' },
+    }
+    let moduleExport = new Proxy(
+      { default: fixableRule },
+      {
+        get: (target, key) =>
+          key in target
+            ? target[key as keyof typeof target]
+            : fixableRule[key as keyof Rule.RuleModule],
+      },
+    ) as unknown as Rule.RuleModule
+    let wrappedRule = createVisitorProfiler().wrapRule(moduleExport)
+
+    expect(wrappedRule.meta).toBe(fixableRule.meta)
+    expect(
+      new Linter().verifyAndFix('let a = 1', {
+        plugins: { test: { rules: { rule: wrappedRule } } },
+        rules: { 'test/rule': 'error' },
+      }).output,
+    ).toBe('let a = 2')
+  })
+
+  it('profiles listeners per task and lint run', async () => {
+    let profiler = createVisitorProfiler()
+    let wrappedRule = profiler.wrapRule(rule)
+    mockListenerDurations(1, 1, 3, 1, 1, 3)
+
+    for (let run = 0; run < 2; run++) {
+      // eslint-disable-next-line no-await-in-loop
+      await profiler.measure('task', () => {
+        let listeners = wrappedRule.create(context) as Record<
+          string,
+          () => void
+        >
+        listeners['Identifier']!()
+        listeners['Identifier']!()
+        listeners['Program:exit']!()
+        return Promise.resolve()
+      })
+    }
+
+    expect(profiler.getProfile('task')).toEqual([
+      {
+        selector: 'Program:exit',
+        percentOfTotal: 60,
+        callsPerRun: 1,
+        timePerRun: 3,
+      },
+      {
+        selector: 'Identifier',
+        percentOfTotal: 40,
+        callsPerRun: 2,
+        timePerRun: 2,
+      },
+    ])
+    expect(profiler.getProfile('other task')).toBeNull()
+  })
+
+  it('counts the passes of a lint run with fixes as one run', async () => {
+    let profiler = createVisitorProfiler()
+    let wrappedRule = profiler.wrapRule(rule)
+    mockListenerDurations(1, 1)
+
+    await profiler.measure('task', () => {
+      for (let pass = 0; pass < 2; pass++) {
+        wrappedRule.create(context).Identifier!({} as never)
+      }
+      return Promise.resolve()
+    })
+
+    expect(profiler.getProfile('task')).toContainEqual({
+      selector: 'Identifier',
+      percentOfTotal: 100,
+      callsPerRun: 2,
+      timePerRun: 2,
+    })
+  })
+
+  it('records listeners that throw', async () => {
+    let profiler = createVisitorProfiler()
+    identifier.mockImplementation(() => {
+      throw new Error('Listener failed')
+    })
+    mockListenerDurations(0)
+
+    await expect(
+      profiler.measure('task', () => {
+        profiler.wrapRule(rule).create(context).Identifier!({} as never)
+        return Promise.resolve()
+      }),
+    ).rejects.toThrowError('Listener failed')
+
+    expect(profiler.getProfile('task')).toEqual([
+      {
+        selector: 'Program:exit',
+        percentOfTotal: 0,
+        callsPerRun: 0,
+        timePerRun: 0,
+      },
+      {
+        selector: 'Identifier',
+        percentOfTotal: 0,
+        callsPerRun: 1,
+        timePerRun: 0,
+      },
+    ])
+  })
+
+  it('does not profile lint runs outside of measure', async () => {
+    let profiler = createVisitorProfiler()
+    let wrappedRule = profiler.wrapRule(rule)
+
+    let listeners = wrappedRule.create(context)
+    expect(listeners.Identifier).toBe(identifier)
+
+    await profiler.measure('task', async () => {})
+    expect(profiler.getProfile('task')).toBeNull()
+
+    wrappedRule.create(context)
+    expect(profiler.getProfile('task')).toBeNull()
+  })
+})
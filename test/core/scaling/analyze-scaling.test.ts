@@ -0,0 +1,77 @@
+import { describe, expect, it, vi } from 'vitest'
+
+import type { ProcessedBenchmarkTask } from '../../../core/benchmark/run-benchmark'
+
+import { calculateStatistics } from '../../../core/benchmark/calculate-statistics'
+import { analyzeScaling } from '../../../core/scaling/analyze-scaling'
+
+function createResult(
+  source: string,
+  size: number,
+  mean: number,
+): ProcessedBenchmarkTask {
+  return {
+    metrics: { ...calculateStatistics([mean]), mean },
+    name: `Case on ${source}.x${size}`,
+    scaling: { source, size },
+  }
+}
+
+describe('analyzeScaling', () => {
+  it('should flag samples whose time grows quadratically', () => {
+    let analyses = analyzeScaling([
+      ...[1, 2, 4, 8, 16].map(size => createResult('slow.js', size, size ** 2)),
+      ...[1, 2, 4, 8, 16].map(size =>
+        createResult('fast.js', size, 1 + 2 * size),
+      ),
+    ])
+
+    expect(
+      analyses.map(analysis => [
+        analysis.sample,
+        analysis.bestFit.model,
+        analysis.superLinear,
+      ]),
+    ).toEqual([
+      ['slow.js', 'quadratic', true],
+      ['fast.js', 'linear', false],
+    ])
+    expect(analyses[0]!.points).toEqual([
+      { mean: 1, size: 1 },
+      { mean: 4, size: 2 },
+      { mean: 16, size: 4 },
+      { mean: 64, size: 8 },
+      { mean: 256, size: 16 },
+    ])
+  })
+
+  it('should not flag samples whose times follow no model', () => {
+    let [analysis] = analyzeScaling(
+      [3.5, 3.4, 3.6, 3.45].map((mean, index) =>
+        createResult('flat.js', 2 ** index, mean),
+      ),
+    )
+
+    expect(analysis!.superLinear).toBeFalsy()
+  })
+
+  it('should skip failed samples and samples with too few sizes', () => {
+    let consoleWarnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {})
+    let failed = {
+      ...createResult('a.js', 4, 0),
+      error: 'Parsing error',
+    }
+
+    expect(
+      analyzeScaling([
+        createResult('a.js', 1, 1),
+        createResult('a.js', 2, 2),
+        failed,
+        { metrics: calculateStatistics([1]), name: 'Case on b.js' },
+      ]),
+    ).toEqual([])
+    expect(consoleWarnSpy).toHaveBeenCalledExactlyOnceWith(
+      'Scaling analysis of "a.js" needs at least 3 sizes, but only 2 of 3 could be benchmarked. Check the failed samples.',
+    )
+  })
+})
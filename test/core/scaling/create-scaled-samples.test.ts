@@ -0,0 +1,223 @@
+import { describe, expect, it } from 'vitest'
+import { Linter } from 'eslint'
+
+import { createScaledSamples } from '../../../core/scaling/create-scaled-samples'
+
+describe('createScaledSamples', () => {
+  it('should repeat the code of each sample', () => {
+    let samples = createScaledSamples(
+      [
+        {
+          filePath: '/samples/a.js',
+          language: 'javascript',
+          filename: 'a.js',
+          code: 'foo()\n',
+        },
+      ],
+      { sizes: [3, 1] },
+    )
+
+    expect(samples).toEqual([
+      {
+        scaling: { source: 'a.js', size: 1 },
+        filePath: '/samples/a.js',
+        language: 'javascript',
+        code: '{\nfoo()\n}\n',
+        filename: 'a.x1.js',
+      },
+      {
+        code: '{\nfoo()\n}\n\n{\nfoo()\n}\n\n{\nfoo()\n}\n',
+        scaling: { source: 'a.js', size: 3 },
+        filePath: '/samples/a.js',
+        language: 'javascript',
+        filename: 'a.x3.js',
+      },
+    ])
+  })
+
+  it('should keep top-level declarations of repeated scripts parsable', () => {
+    let samples = createScaledSamples(
+      [
+        {
+          code: 'let foo = 1\nclass Bar {}\nfoo\n',
+          filePath: '/samples/a.ts',
+          language: 'typescript',
+          filename: 'a.ts',
+        },
+      ],
+      { sizes: [1, 2, 4] },
+    )
+
+    for (let { code } of samples) {
+      expect(
+        new Linter().verify(code, {}).filter(message => message.fatal),
+      ).toEqual([])
+    }
+  })
+
+  it('should keep module declarations of repeated scripts parsable', () => {
+    let samples = createScaledSamples(
+      [
+        {
+          code: [
+            '#!/usr/bin/env node',
+            "import foo, { bar } from './foo.js'",
+            "import './setup.js'",
+            'export let baz = foo(bar)',
+            'export function qux() {}',
+            'export default class Quux {}',
+            'export { baz as default2 }',
+            "export * from './bar.js'",
+            '',
+          ].join('\n'),
+          filePath: '/samples/a.js',
+          language: 'javascript',
+          filename: 'a.js',
+        },
+        {
+          code: 'export default function () {}\n',
+          filePath: '/samples/b.js',
+          language: 'javascript',
+          filename: 'b.js',
+        },
+      ],
+      { sizes: [1, 2, 4] },
+    )
+
+    for (let { code } of samples) {
+      expect(
+        new Linter()
+          .verify(code, { languageOptions: { sourceType: 'module' } })
+          .filter(message => message.fatal),
+      ).toEqual([])
+    }
+    expect(samples[1]!.code).toBe(
+      [
+        '#!/usr/bin/env node',
+        "import foo, { bar } from './foo.js'",
+        "import './setup.js'",
+        '{\nlet baz = foo(bar)\nfunction qux() {}\nclass Quux {}\n}',
+        '{\nlet baz = foo(bar)\nfunction qux() {}\nclass Quux {}\n}\n',
+      ].join('\n\n'),
+    )
+  })
+
+  it('should repeat JSON as items of an array', () => {
+    let samples = createScaledSamples(
+      [
+        {
+          filePath: '/samples/a.json',
+          code: '{ "a": 1 }\n',
+          filename: 'a.json',
+          language: 'json',
+        },
+      ],
+      { sizes: [2] },
+    )
+
+    expect(JSON.parse(samples[0]!.code)).toEqual([{ a: 1 }, { a: 1 }])
+  })
+
+  it('should repeat YAML as separate documents', () => {
+    let samples = createScaledSamples(
+      [
+        {
+          filePath: '/samples/a.yaml',
+          filename: 'a.yaml',
+          language: 'yaml',
+          code: 'a: 1\n',
+        },
+      ],
+      { sizes: [2] },
+    )
+
+    expect(samples[0]!.code).toBe('a: 1\n---\na: 1\n')
+  })
+
+  it('should repeat the code of other languages as is', () => {
+    let samples = createScaledSamples(
+      [
+        {
+          filePath: '/samples/a.css',
+          code: 'a { color: red }\n',
+          filename: 'a.css',
+          language: 'css',
+        },
+      ],
+      { sizes: [2] },
+    )
+
+    expect(samples[0]!.code).toBe('a { color: red }\n\na { color: red }\n')
+  })
+
+  it('should append the size to filenames without extensions', () => {
+    let samples = createScaledSamples(
+      [
+        {
+          filePath: '/samples/bin/cli',
+          language: 'javascript',
+          filename: 'bin/cli',
+          code: 'foo()\n',
+        },
+      ],
+      { sizes: [2] },
+    )
+
+    expect(samples[0]!.filename).toBe('bin/cli.x2')
+  })
+
+  it('should nest the code at the placeholder', () => {
+    let samples = createScaledSamples(
+      [
+        {
+          filePath: '/samples/nested.d.ts',
+          code: 'if (a) { /* nest */ }',
+          filename: 'nested.d.ts',
+          language: 'typescript',
+        },
+      ],
+      { sizes: [1, 3], mode: 'nest' },
+    )
+
+    expect(samples.map(sample => [sample.filename, sample.code])).toEqual([
+      ['nested.x1.d.ts', 'if (a) {  }'],
+      ['nested.x3.d.ts', 'if (a) { if (a) { if (a) {  } } }'],
+    ])
+  })
+
+  it('should use the default sizes', () => {
+    let samples = createScaledSamples(
+      [
+        {
+          filePath: '/samples/a.js',
+          language: 'javascript',
+          filename: 'a.js',
+          code: 'foo()',
+        },
+      ],
+      true,
+    )
+
+    expect(samples.map(sample => sample.scaling?.size)).toEqual([
+      1, 2, 4, 8, 16,
+    ])
+  })
+
+  it('should throw when a nested sample has no placeholder', () => {
+    expect(() =>
+      createScaledSamples(
+        [
+          {
+            filePath: '/samples/a.js',
+            language: 'javascript',
+            filename: 'a.js',
+            code: 'foo()',
+          },
+        ],
+        { mode: 'nest' },
+      ),
+    ).toThrowError(
+      'Sample "a.js" has no "/* nest */" placeholder for nested scaling.',
+    )
+  })
+})
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest'
+
+import {
+  fitComplexityModels,
+  evaluateModel,
+} from '../../../core/scaling/fit-complexity-models'
+
+describe('fitComplexityModels', () => {
+  it('should fit a linear model to linear times', () => {
+    let fits = fitComplexityModels(
+      [1, 2, 4, 8].map(size => ({ mean: 0.5 + 2 * size, size })),
+    )
+
+    expect(fits.map(fit => fit.model)).toEqual([
+      'linear',
+      'linearithmic',
+      'quadratic',
+    ])
+    expect(fits[0]!.rSquared).toBeCloseTo(1)
+    expect(fits[0]!.intercept).toBeCloseTo(0.5)
+    expect(fits[0]!.slope).toBeCloseTo(2)
+    expect(fits[2]!.rSquared).toBeLessThan(0.99)
+  })
+
+  it('should fit a quadratic model to quadratic times', () => {
+    let fits = fitComplexityModels(
+      [1, 2, 4, 8, 16].map(size => ({ mean: 0.1 * size ** 2, size })),
+    )
+
+    expect(fits[2]!.rSquared).toBeCloseTo(1)
+    expect(fits[2]!.slope).toBeCloseTo(0.1)
+    expect(fits[0]!.rSquared).toBeLessThan(fits[2]!.rSquared)
+  })
+
+  it('should treat constant times as a perfect fit', () => {
+    let fits = fitComplexityModels([1, 2, 4].map(size => ({ mean: 3, size })))
+
+    expect(fits[0]).toEqual({
+      model: 'linear',
+      intercept: 3,
+      rSquared: 1,
+      slope: 0,
+    })
+  })
+
+  it('should fall back to the mean time when all sizes are equal', () => {
+    let fits = fitComplexityModels([
+      { mean: 1, size: 4 },
+      { mean: 3, size: 4 },
+    ])
+
+    expect(fits[0]).toMatchObject({ intercept: 2, slope: 0 })
+  })
+})
+
+describe('evaluateModel', () => {
+  it('should evaluate the model functions', () => {
+    expect(evaluateModel('linear', 8)).toBe(8)
+    expect(evaluateModel('linearithmic', 8)).toBe(24)
+    expect(evaluateModel('quadratic', 8)).toBe(64)
+  })
+})
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest'
+import path from 'node:path'
+
+import { createInlineCodeSamples } from '../../../core/test-case/create-inline-code-samples'
+
+describe('createInlineCodeSamples', () => {
+  it('creates a JavaScript sample from a string', () => {
+    expect(createInlineCodeSamples('let a = 1', '/config')).toEqual([
+      {
+        filePath: path.resolve('/config', 'inline.js'),
+        language: 'javascript',
+        filename: 'inline.js',
+        code: 'let a = 1',
+      },
+    ])
+  })
+
+  it('infers the language of named samples from their filename', () => {
+    let samples = createInlineCodeSamples(
+      [
+        { code: 'let button = <button />', filename: 'button.tsx' },
+        { filename: 'component.gts', code: 'let a: number = 1' },
+      ],
+      '/config',
+      { '.gts': { language: 'typescript' } },
+    )
+
+    expect(samples).toEqual([
+      {
+        filePath: path.resolve('/config', 'button.tsx'),
+        code: 'let button = <button />',
+        language: 'typescript-react',
+        filename: 'button.tsx',
+      },
+      {
+        filePath: path.resolve('/config', 'component.gts'),
+        code: 'let a: number = 1',
+        filename: 'component.gts',
+        language: 'typescript',
+      },
+    ])
+  })
+
+  it('throws for filenames with unsupported extensions', () => {
+    expect(() =>
+      createInlineCodeSamples([{ filename: 'notes.txt', code: '' }], '/config'),
+    ).toThrowError(
+      'Inline code sample "notes.txt" has an unsupported extension.',
+    )
+  })
+})
@@ -0,0 +1,119 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import fs from 'node:fs/promises'
+import path from 'node:path'
+
+import { findFiles } from '../../../core/test-case/find-files'
+
+vi.mock('node:fs/promises')
+
+function mockFiles(files: Record<string, string>): void {
+  vi.mocked(fs.readdir).mockImplementation(((directory: string) => {
+    let names = new Map<string, boolean>()
+    for (let filePath of Object.keys(files)) {
+      let relativePath = path.relative(directory, filePath)
+      if (!relativePath.startsWith('..')) {
+        let [name, ...rest] = relativePath.split(path.sep)
+        names.set(name!, rest.length > 0)
+      }
+    }
+    return Promise.resolve(
+      [...names].map(([name, isDirectory]) => ({
+        isDirectory: () => isDirectory,
+        isFile: () => !isDirectory,
+        name,
+      })),
+    )
+  }) as unknown as typeof fs.readdir)
+  vi.mocked(fs.readFile).mockImplementation(filePath =>
+    Promise.resolve(files[filePath as string]!),
+  )
+}
+
+describe('findFiles', () => {
+  beforeEach(() => {
+    vi.resetAllMocks()
+  })
+
+  it('finds files in nested directories in a deterministic order', async () => {
+    mockFiles({
+      '/project/src/b/index.ts': '',
+      '/project/src/a/index.ts': '',
+      '/project/index.ts': '',
+      '/project/a.ts': '',
+    })
+
+    await expect(findFiles('/project')).resolves.toEqual([
+      '/project/a.ts',
+      '/project/index.ts',
+      '/project/src/a/index.ts',
+      '/project/src/b/index.ts',
+    ])
+  })
+
+  it('skips node_modules, .git and files ignored by .gitignore', async () => {
+    mockFiles({
+      '/project/.gitignore': '# Build output\ndist/\n*.log\n/root.ts\n',
+      '/project/src/.gitignore': '!keep.log\ngenerated\n',
+      '/project/node_modules/package/index.js': '',
+      '/project/src/generated/types.ts': '',
+      '/project/src/nested/root.ts': '',
+      '/project/dist/index.js': '',
+      '/project/src/keep.log': '',
+      '/project/.git/config': '',
+      '/project/debug.log': '',
+      '/project/index.ts': '',
+      '/project/root.ts': '',
+    })
+
+    await expect(findFiles('/project')).resolves.toEqual([
+      '/project/index.ts',
+      '/project/src/keep.log',
+      '/project/src/nested/root.ts',
+    ])
+  })
+
+  it('applies .gitignore files of parent directories up to the Git root', async () => {
+    mockFiles({
+      '/repo/packages/app/generated/types.ts': '',
+      '/repo/packages/.gitignore': 'generated/\n',
+      '/repo/packages/app/debug.log': '',
+      '/repo/packages/app/index.ts': '',
+      '/repo/.gitignore': '*.log\n',
+      '/repo/.git/config': '',
+      '/.gitignore': '*.ts\n',
+    })
+
+    await expect(findFiles('/repo/packages/app')).resolves.toEqual([
+      '/repo/packages/app/index.ts',
+    ])
+  })
+
+  it('does not apply parent .gitignore files if a directory cannot be read', async () => {
+    mockFiles({
+      '/repo/packages/app/debug.log': '',
+      '/repo/.gitignore': '*.log\n',
+      '/repo/.git/config': '',
+    })
+    vi.mocked(fs.readdir).mockRejectedValueOnce(new Error('EACCES'))
+
+    await expect(findFiles('/repo/packages/app')).resolves.toEqual([
+      '/repo/packages/app/debug.log',
+    ])
+  })
+
+  it('skips files and directories matching the ignore predicate', async () => {
+    mockFiles({
+      '/project/src/index.test.ts': '',
+      '/project/fixtures/a.ts': '',
+      '/project/src/index.ts': '',
+    })
+
+    await expect(
+      findFiles(
+        '/project',
+        filePath =>
+          filePath.endsWith('.test.ts') || filePath.endsWith('fixtures'),
+      ),
+    ).resolves.toEqual(['/project/src/index.ts'])
+  })
+})
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest'
+import path from 'node:path'
+
+import type { CodeSample } from '../../../types/test-case'
+
+import { getLintFilePath } from '../../../core/test-case/get-lint-file-path'
+
+function createSample(filePath: string): CodeSample {
+  return {
+    filename: path.basename(filePath),
+    language: 'typescript',
+    code: 'let a = 1',
+    filePath,
+  }
+}
+
+describe('getLintFilePath', () => {
+  it('returns the real path of samples inside the working directory', () => {
+    let filePath = path.join(process.cwd(), 'benchmark', 'a.ts')
+
+    expect(getLintFilePath(createSample(filePath))).toBe(filePath)
+  })
+
+  it('falls back to the file name for samples outside the working directory', () => {
+    let filePath = path.resolve(process.cwd(), '..', 'outside', 'a.ts')
+
+    expect(getLintFilePath(createSample(filePath))).toBe('a.ts')
+  })
+})
@@ -0,0 +1,71 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import path from 'node:path'
+
+import { loadCodeSamples } from '../../../core/test-case/load-code-samples'
+import { loadCaseSamples } from '../../../core/test-case/load-case-samples'
+
+vi.mock('../../../core/test-case/load-code-samples')
+
+describe('loadCaseSamples', () => {
+  beforeEach(() => {
+    vi.resetAllMocks()
+    vi.mocked(loadCodeSamples).mockResolvedValue([
+      {
+        filePath: path.resolve('/config', 'samples', 'a.js'),
+        language: 'javascript',
+        code: 'let a = 1',
+        filename: 'a.js',
+      },
+    ])
+  })
+
+  it('loads the files of testPath followed by the inline code', async () => {
+    let extensions = { '.gts': { language: 'typescript' as const } }
+
+    let samples = await loadCaseSamples(
+      { ignore: '**/*.test.js', testPath: 'samples', code: 'let b = 2' },
+      '/config',
+      extensions,
+    )
+
+    expect(samples.map(sample => sample.filename)).toEqual([
+      'a.js',
+      'inline.js',
+    ])
+    expect(loadCodeSamples).toHaveBeenCalledWith('samples', '/config', {
+      ignore: '**/*.test.js',
+      maxFiles: undefined,
+      extensions,
+    })
+  })
+
+  it('uses only the inline code without testPath', async () => {
+    let samples = await loadCaseSamples(
+      { code: [{ code: 'let a = 1', filename: 'a.ts' }] },
+      '/config',
+    )
+
+    expect(samples).toHaveLength(1)
+    expect(samples[0]).toMatchObject({ language: 'typescript' })
+    expect(loadCodeSamples).not.toHaveBeenCalled()
+  })
+
+  it('creates inputs of growing size when scaling is enabled', async () => {
+    let samples = await loadCaseSamples(
+      { scaling: { sizes: [1, 2, 3] }, code: 'let a = 1' },
+      '/config',
+    )
+
+    expect(samples.map(sample => sample.filename)).toEqual([
+      'inline.x1.js',
+      'inline.x2.js',
+      'inline.x3.js',
+    ])
+  })
+
+  it('throws when the case has neither testPath nor code', async () => {
+    await expect(loadCaseSamples({}, '/config')).rejects.toThrowError(
+      'Case must have "testPath" or "code".',
+    )
+  })
+})
@@ -0,0 +1,216 @@
+import type { Stats } from 'node:fs'
+
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import fs from 'node:fs/promises'
+import path from 'node:path'
+
+import { loadCodeSamples } from '../../../core/test-case/load-code-samples'
+import { findFiles } from '../../../core/test-case/find-files'
+
+vi.mock('node:fs/promises')
+vi.mock('../../../core/test-case/find-files')
+
+function mockStats(isDirectory: boolean): Stats {
+  return {
+    isDirectory: () => isDirectory,
+    isFile: () => !isDirectory,
+  } as Stats
+}
+
+describe('loadCodeSamples', () => {
+  let sourceDirectory = path.resolve('/config', 'src')
+
+  beforeEach(() => {
+    vi.resetAllMocks()
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+  })
+
+  it('loads supported files from directories and file paths', async () => {
+    vi.mocked(fs.stat).mockImplementation(filePath =>
+      Promise.resolve(mockStats(filePath === sourceDirectory)),
+    )
+    vi.mocked(findFiles).mockResolvedValue([
+      path.join(sourceDirectory, 'a.ts'),
+      path.join(sourceDirectory, 'notes.txt'),
+    ])
+    vi.mocked(fs.readFile).mockResolvedValue('let a = 1')
+
+    let samples = await loadCodeSamples(['src', 'b.vue'], '/config')
+
+    expect(samples).toEqual([
+      {
+        filePath: path.join(sourceDirectory, 'a.ts'),
+        language: 'typescript',
+        code: 'let a = 1',
+        filename: 'a.ts',
+      },
+      {
+        filePath: path.resolve('/config', 'b.vue'),
+        code: 'let a = 1',
+        filename: 'b.vue',
+        language: 'vue',
+      },
+    ])
+    expect(findFiles).toHaveBeenCalledWith(
+      sourceDirectory,
+      expect.any(Function),
+    )
+  })
+
+  it('names files in subdirectories by their relative path', async () => {
+    vi.mocked(fs.stat).mockResolvedValue(mockStats(true))
+    vi.mocked(findFiles).mockResolvedValue([
+      path.join(sourceDirectory, 'a', 'index.ts'),
+      path.join(sourceDirectory, 'b', 'index.ts'),
+    ])
+    vi.mocked(fs.readFile).mockResolvedValue('let a = 1')
+
+    let samples = await loadCodeSamples('src', '/config')
+
+    expect(samples.map(sample => sample.filename)).toEqual([
+      'a/index.ts',
+      'b/index.ts',
+    ])
+  })
+
+  it('loads files matching a glob pattern', async () => {
+    vi.mocked(fs.stat).mockRejectedValue(new Error('ENOENT'))
+    vi.mocked(findFiles).mockResolvedValue([
+      path.join(sourceDirectory, 'button.tsx'),
+      path.join(sourceDirectory, 'utils.ts'),
+      path.join(sourceDirectory, 'ui', 'card.tsx'),
+    ])
+    vi.mocked(fs.readFile).mockResolvedValue('let a = 1')
+
+    let samples = await loadCodeSamples('src/**/*.tsx', '/config')
+
+    expect(findFiles).toHaveBeenCalledWith(
+      sourceDirectory,
+      expect.any(Function),
+    )
+    expect(samples.map(sample => sample.filename)).toEqual([
+      'button.tsx',
+      'ui/card.tsx',
+    ])
+    expect(console.warn).not.toHaveBeenCalled()
+  })
+
+  it('skips files matching the ignore patterns', async () => {
+    vi.mocked(fs.stat).mockResolvedValue(mockStats(true))
+    vi.mocked(findFiles).mockResolvedValue([])
+
+    await expect(
+      loadCodeSamples('src', '/config', {
+        ignore: ['**/*.test.ts', './src/fixtures'],
+      }),
+    ).rejects.toThrowError()
+
+    let isIgnored = vi.mocked(findFiles).mock.calls[0]![1]!
+    expect(isIgnored(path.join(sourceDirectory, 'a.test.ts'))).toBeTruthy()
+    expect(isIgnored(path.join(sourceDirectory, 'fixtures'))).toBeTruthy()
+    expect(isIgnored(path.join(sourceDirectory, 'a.ts'))).toBeFalsy()
+  })
+
+  it('accepts a single absolute ignore pattern', async () => {
+    vi.mocked(fs.stat).mockResolvedValue(mockStats(true))
+    vi.mocked(findFiles).mockResolvedValue([])
+
+    await expect(
+      loadCodeSamples('src', '/config', {
+        ignore: path.join(sourceDirectory, '*.generated.ts'),
+      }),
+    ).rejects.toThrowError()
+
+    let isIgnored = vi.mocked(findFiles).mock.calls[0]![1]!
+    expect(isIgnored(path.join(sourceDirectory, 'a.generated.ts'))).toBeTruthy()
+    expect(isIgnored(path.join(sourceDirectory, 'a.ts'))).toBeFalsy()
+  })
+
+  it('loads each file once and limits the number of files', async () => {
+    vi.mocked(fs.stat).mockImplementation(filePath =>
+      Promise.resolve(mockStats(filePath === sourceDirectory)),
+    )
+    vi.mocked(findFiles).mockResolvedValue([
+      path.join(sourceDirectory, 'a.ts'),
+      path.join(sourceDirectory, 'b.ts'),
+      path.join(sourceDirectory, 'c.ts'),
+    ])
+    vi.mocked(fs.readFile).mockResolvedValue('let a = 1')
+
+    let samples = await loadCodeSamples(['src/b.ts', 'src'], '/config', {
+      maxFiles: 2,
+    })
+
+    expect(samples.map(sample => sample.filename)).toEqual(['b.ts', 'a.ts'])
+    expect(console.warn).toHaveBeenCalledWith(
+      'Warning: Found 3 files for testPath ["src/b.ts","src"], loading only the first 2 ("maxFiles").',
+    )
+  })
+
+  it('throws when no supported files are found', async () => {
+    vi.mocked(fs.stat).mockRejectedValue(new Error('ENOENT'))
+
+    await expect(loadCodeSamples('missing.js', '/config')).rejects.toThrowError(
+      'No supported source files found for testPath: "missing.js"',
+    )
+    expect(console.warn).toHaveBeenCalledWith(
+      'Warning: Could not process path missing.js: ENOENT. Skipping.',
+    )
+  })
+
+  it('loads files with custom extensions and warns about unsupported ones', async () => {
+    vi.mocked(fs.stat).mockImplementation(filePath =>
+      Promise.resolve(mockStats(filePath === sourceDirectory)),
+    )
+    vi.mocked(findFiles).mockResolvedValue([
+      path.join(sourceDirectory, 'a.gts'),
+      path.join(sourceDirectory, 'b.mdx'),
+    ])
+    vi.mocked(fs.readFile).mockResolvedValue('let a = 1')
+
+    let samples = await loadCodeSamples(['src', 'c.mdx'], '/config', {
+      extensions: { '.gts': { language: 'typescript' } },
+    })
+
+    expect(samples).toEqual([
+      {
+        filePath: path.join(sourceDirectory, 'a.gts'),
+        language: 'typescript',
+        code: 'let a = 1',
+        filename: 'a.gts',
+      },
+    ])
+    expect(console.warn).toHaveBeenCalledWith(
+      'Warning: Skipping 1 file(s) with unsupported extensions in src: b.mdx. Map their extensions to a language with "extensions" in the config.',
+    )
+    expect(console.warn).toHaveBeenCalledWith(
+      'Warning: Skipping c.mdx with an unsupported extension. Map its extension to a language with "extensions" in the config.',
+    )
+  })
+
+  it('lists only the first unsupported files in the warning', async () => {
+    vi.mocked(fs.stat).mockResolvedValue(mockStats(true))
+    vi.mocked(findFiles).mockResolvedValue([
+      ...['1', '2', '3', '4', '5', '6', '7'].map(name =>
+        path.join(sourceDirectory, `${name}.png`),
+      ),
+      path.join(sourceDirectory, 'a.ts'),
+    ])
+    vi.mocked(fs.readFile).mockResolvedValue('let a = 1')
+
+    await loadCodeSamples('src', '/config')
+
+    expect(console.warn).toHaveBeenCalledWith(
+      'Warning: Skipping 7 file(s) with unsupported extensions in src: 1.png, 2.png, 3.png, 4.png, 5.png and 2 more. Map their extensions to a language with "extensions" in the config.',
+    )
+  })
+
+  it('throws when none of the files can be read', async () => {
+    vi.mocked(fs.stat).mockResolvedValue(mockStats(false))
+    vi.mocked(fs.readFile).mockRejectedValue(new Error('EACCES'))
+
+    await expect(loadCodeSamples('a.js', '/config')).rejects.toThrowError(
+      'No valid code samples could be loaded from testPath: "a.js"',
+    )
+  })
+})
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest'
+
+import { parseGitignore } from '../../../core/test-case/parse-gitignore'
+
+describe('parseGitignore', () => {
+  it('skips blank lines and comments', () => {
+    expect(parseGitignore('\n# Comment\n   \n', '/project')).toEqual([])
+    expect(parseGitignore('/\n!/', '/project')).toEqual([])
+  })
+
+  it('matches patterns without a slash at any depth', () => {
+    let [rule] = parseGitignore('*.log', '/project')
+
+    expect(rule).toMatchObject({
+      directory: '/project',
+      directoryOnly: false,
+      negated: false,
+    })
+    expect(rule!.pattern.test('debug.log')).toBeTruthy()
+    expect(rule!.pattern.test('logs/debug.log')).toBeTruthy()
+    expect(rule!.pattern.test('debug.ts')).toBeFalsy()
+  })
+
+  it('anchors patterns with a slash to the directory', () => {
+    let [leading, middle] = parseGitignore('/dist\nsrc/generated', '/project')
+
+    expect(leading!.pattern.test('dist')).toBeTruthy()
+    expect(leading!.pattern.test('src/dist')).toBeFalsy()
+    expect(middle!.pattern.test('src/generated')).toBeTruthy()
+    expect(middle!.pattern.test('lib/src/generated')).toBeFalsy()
+  })
+
+  it('parses negated and directory-only patterns', () => {
+    let [negated, directory, escaped] = parseGitignore(
+      '!keep.log\nbuild/\n\\!important',
+      '/project',
+    )
+
+    expect(negated).toMatchObject({ negated: true })
+    expect(negated!.pattern.test('keep.log')).toBeTruthy()
+    expect(directory).toMatchObject({ directoryOnly: true, negated: false })
+    expect(directory!.pattern.test('build')).toBeTruthy()
+    expect(escaped).toMatchObject({ negated: false })
+    expect(escaped!.pattern.test('!important')).toBeTruthy()
+  })
+})
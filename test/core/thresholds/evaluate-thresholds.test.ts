@@ -0,0 +1,145 @@
+import { describe, expect, it } from 'vitest'
+
+import type {
+  ThresholdsConfig,
+  TestSpecResult,
+} from '../../../types/benchmark-config'
+import type { ProcessedBenchmarkTask } from '../../../core/benchmark/run-benchmark'
+import type { BaselineComparison } from '../../../types/baseline-comparison'
+
+import { evaluateThresholds } from '../../../core/thresholds/evaluate-thresholds'
+import { calculateDelta } from '../../../core/baseline/calculate-delta'
+
+function createMockResults(
+  thresholds: ThresholdsConfig | undefined,
+  samplesResults: ProcessedBenchmarkTask[],
+): TestSpecResult[] {
+  return [
+    {
+      testCaseResults: [
+        {
+          rule: { ruleId: 'rule', severity: 2 },
+          name: 'Spec - Case 1',
+          samplesResults,
+          id: 'tc-1',
+        },
+      ],
+      benchmarkConfig: {
+        warmup: { iterations: 10, enabled: true },
+        iterations: 100,
+        timeout: 1000,
+        thresholds,
+      },
+      ruleId: 'rule',
+      name: 'Spec',
+    },
+  ]
+}
+
+function createMockProcessedTask(
+  name: string,
+  mean: number,
+  comparison?: BaselineComparison,
+): ProcessedBenchmarkTask {
+  return {
+    metrics: {
+      sampleCount: 10,
+      hz: 1000 / mean,
+      period: mean,
+      median: mean,
+      stdDev: 0.05,
+      p75: mean,
+      p99: mean,
+      min: mean,
+      max: mean,
+      mean,
+    },
+    comparison,
+    name,
+  }
+}
+
+function createComparison(
+  baselineMean: number,
+  currentMean: number,
+): BaselineComparison {
+  return {
+    hz: calculateDelta(1000 / baselineMean, 1000 / currentMean),
+    median: calculateDelta(baselineMean, currentMean),
+    mean: calculateDelta(baselineMean, currentMean),
+  }
+}
+
+describe('evaluateThresholds', () => {
+  it('should return no violations when no thresholds are configured', () => {
+    let results = createMockResults(undefined, [
+      createMockProcessedTask('Spec - Case 1 on a.js', 100),
+    ])
+
+    expect(evaluateThresholds(results)).toEqual([])
+  })
+
+  it('should report samples whose mean time exceeds maxMeanMs', () => {
+    let results = createMockResults({ maxMeanMs: 2 }, [
+      createMockProcessedTask('Spec - Case 1 on a.js', 1.5),
+      createMockProcessedTask('Spec - Case 1 on b.js', 2.5),
+    ])
+
+    expect(evaluateThresholds(results)).toEqual([
+      {
+        message: 'mean time 2.500 ms exceeds "maxMeanMs" of 2 ms',
+        sampleName: 'Spec - Case 1 on b.js',
+        threshold: 'maxMeanMs',
+        testSpecName: 'Spec',
+        actual: 2.5,
+        limit: 2,
+      },
+    ])
+  })
+
+  it('should report samples that regressed by more than maxRegressionPercent', () => {
+    let results = createMockResults({ maxRegressionPercent: 10 }, [
+      createMockProcessedTask('Spec - Case 1 on a.js', 1.05, {
+        ...createComparison(1, 1.05),
+      }),
+      createMockProcessedTask('Spec - Case 1 on b.js', 1.2, {
+        ...createComparison(1, 1.2),
+      }),
+    ])
+
+    let violations = evaluateThresholds(results)
+
+    expect(violations).toHaveLength(1)
+    expect(violations[0]).toMatchObject({
+      message:
+        'mean time regressed by 20.0%, exceeding "maxRegressionPercent" of 10%',
+      sampleName: 'Spec - Case 1 on b.js',
+      threshold: 'maxRegressionPercent',
+      limit: 10,
+    })
+    expect(violations[0]!.actual).toBeCloseTo(20)
+  })
+
+  it('should skip regression checks for samples without a comparison', () => {
+    let results = createMockResults({ maxRegressionPercent: 0 }, [
+      createMockProcessedTask('Spec - Case 1 on a.js', 5),
+      createMockProcessedTask('Spec - Case 1 on b.js', 5, {
+        ...createComparison(0, 5),
+      }),
+    ])
+
+    expect(evaluateThresholds(results)).toEqual([])
+  })
+
+  it('should report both thresholds for the same sample', () => {
+    let results = createMockResults({ maxRegressionPercent: 5, maxMeanMs: 1 }, [
+      createMockProcessedTask('Spec - Case 1 on a.js', 2, {
+        ...createComparison(1, 2),
+      }),
+    ])
+
+    expect(
+      evaluateThresholds(results).map(violation => violation.threshold),
+    ).toEqual(['maxMeanMs', 'maxRegressionPercent'])
+  })
+})
@@ -0,0 +1,11 @@
+import { describe, expect, it } from 'vitest'
+
+import { getExtensionsByLanguage } from '../../../core/utilities/get-extensions-by-language'
+
+describe('getExtensionsByLanguage', () => {
+  it('returns all extensions of a language', () => {
+    expect(getExtensionsByLanguage('javascript')).toEqual(['js', 'mjs', 'cjs'])
+    expect(getExtensionsByLanguage('typescript-react')).toEqual(['tsx'])
+    expect(getExtensionsByLanguage('astro')).toEqual(['astro'])
+  })
+})
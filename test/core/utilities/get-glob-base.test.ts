@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest'
+
+import { getGlobBase } from '../../../core/utilities/get-glob-base'
+
+describe('getGlobBase', () => {
+  it('returns the path segments before the first glob segment', () => {
+    expect(getGlobBase('src/**/*.tsx')).toBe('src')
+    expect(getGlobBase('./src/components/*.ts')).toBe('./src/components')
+    expect(getGlobBase('/project/src/*.ts')).toBe('/project/src')
+  })
+
+  it('returns the directory of a pattern without glob segments', () => {
+    expect(getGlobBase('src/index.ts')).toBe('src')
+  })
+
+  it('returns the root or the current directory without static segments', () => {
+    expect(getGlobBase('*.ts')).toBe('.')
+    expect(getGlobBase('/*.ts')).toBe('/')
+  })
+})
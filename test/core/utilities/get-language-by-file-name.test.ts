@@ -11,10 +11,28 @@ describe('getLanguageByFileName', () => {
     expect(getLanguageByFileName('example.mts')).toBe('typescript')
     expect(getLanguageByFileName('example.astro')).toBe('astro')
     expect(getLanguageByFileName('example.vue')).toBe('vue')
+    expect(getLanguageByFileName('example.json')).toBe('json')
+    expect(getLanguageByFileName('example.jsonc')).toBe('jsonc')
+    expect(getLanguageByFileName('example.md')).toBe('markdown')
+    expect(getLanguageByFileName('example.css')).toBe('css')
+    expect(getLanguageByFileName('example.yml')).toBe('yaml')
+  })
+
+  it('should prefer custom extensions over the built-in ones', () => {
+    let extensions = {
+      '.js': { language: 'javascript-react' as const },
+      '.gts': { language: 'typescript' as const },
+    }
+
+    expect(getLanguageByFileName('example.gts', extensions)).toBe('typescript')
+    expect(getLanguageByFileName('example.js', extensions)).toBe(
+      'javascript-react',
+    )
+    expect(getLanguageByFileName('example.ts', extensions)).toBe('typescript')
   })
 
   it("should return 'javascript' for unsupported extensions", () => {
     expect(getLanguageByFileName('example.txt')).toBe('javascript')
-    expect(getLanguageByFileName('example.json')).toBe('javascript')
+    expect(getLanguageByFileName('example.html')).toBe('javascript')
   })
 })
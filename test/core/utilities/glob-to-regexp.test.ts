@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest'
+
+import { globToRegExp } from '../../../core/utilities/glob-to-regexp'
+
+describe('globToRegExp', () => {
+  it('matches single segments with * and ?', () => {
+    expect(globToRegExp('src/*.ts').test('src/index.ts')).toBeTruthy()
+    expect(globToRegExp('src/*.ts').test('src/nested/index.ts')).toBeFalsy()
+    expect(globToRegExp('?.js').test('a.js')).toBeTruthy()
+    expect(globToRegExp('?.js').test('ab.js')).toBeFalsy()
+  })
+
+  it('matches any number of directories with **', () => {
+    let regExp = globToRegExp('src/**/*.tsx')
+
+    expect(regExp.test('src/button.tsx')).toBeTruthy()
+    expect(regExp.test('src/components/ui/button.tsx')).toBeTruthy()
+    expect(regExp.test('lib/button.tsx')).toBeFalsy()
+    expect(globToRegExp('**/*.ts').test('index.ts')).toBeTruthy()
+    expect(globToRegExp('src/**').test('src/a/b.ts')).toBeTruthy()
+  })
+
+  it('supports alternatives and character sets', () => {
+    let regExp = globToRegExp('*.{ts,tsx}')
+
+    expect(regExp.test('a.ts')).toBeTruthy()
+    expect(regExp.test('a.tsx')).toBeTruthy()
+    expect(regExp.test('a.js')).toBeFalsy()
+    expect(globToRegExp('[a-c].js').test('b.js')).toBeTruthy()
+    expect(globToRegExp('[!a-c].js').test('b.js')).toBeFalsy()
+    expect(globToRegExp('a,b}.js').test('a,b}.js')).toBeTruthy()
+  })
+
+  it('escapes characters with a special meaning in regular expressions', () => {
+    expect(globToRegExp('a+b.(js)').test('a+b.(js)')).toBeTruthy()
+    expect(globToRegExp('a.js').test('abjs')).toBeFalsy()
+  })
+})
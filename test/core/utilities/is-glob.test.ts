@@ -0,0 +1,17 @@
+import { describe, expect, it } from 'vitest'
+
+import { isGlob } from '../../../core/utilities/is-glob'
+
+describe('isGlob', () => {
+  it('should return true for glob patterns', () => {
+    expect(isGlob('src/**/*.tsx')).toBeTruthy()
+    expect(isGlob('src/?.ts')).toBeTruthy()
+    expect(isGlob('src/*.{ts,tsx}')).toBeTruthy()
+    expect(isGlob('src/[id].tsx')).toBeTruthy()
+  })
+
+  it('should return false for plain paths', () => {
+    expect(isGlob('src/index.ts')).toBeFalsy()
+    expect(isGlob('./samples/')).toBeFalsy()
+  })
+})
@@ -11,11 +11,15 @@ describe('isSupportedExtension', () => {
     expect(isSupportedExtension('vue')).toBeTruthy()
     expect(isSupportedExtension('svelte')).toBeTruthy()
     expect(isSupportedExtension('astro')).toBeTruthy()
+    expect(isSupportedExtension('json')).toBeTruthy()
+    expect(isSupportedExtension('md')).toBeTruthy()
+    expect(isSupportedExtension('css')).toBeTruthy()
+    expect(isSupportedExtension('yml')).toBeTruthy()
   })
 
   it('should return false for unsupported extensions', () => {
     expect(isSupportedExtension('txt')).toBeFalsy()
-    expect(isSupportedExtension('json')).toBeFalsy()
+    expect(isSupportedExtension('mdx')).toBeFalsy()
     expect(isSupportedExtension('html')).toBeFalsy()
   })
 })
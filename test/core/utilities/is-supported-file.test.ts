@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest'
+
+import { isSupportedFile } from '../../../core/utilities/is-supported-file'
+
+describe('isSupportedFile', () => {
+  it('should return true for files with built-in extensions', () => {
+    expect(isSupportedFile('src/index.ts')).toBeTruthy()
+    expect(isSupportedFile('component.vue')).toBeTruthy()
+  })
+
+  it('should return true for files with custom extensions', () => {
+    expect(
+      isSupportedFile('component.gts', { '.gts': { language: 'typescript' } }),
+    ).toBeTruthy()
+  })
+
+  it('should return false for files with unsupported extensions', () => {
+    expect(isSupportedFile('notes.txt')).toBeFalsy()
+    expect(isSupportedFile('component.gts')).toBeFalsy()
+  })
+})
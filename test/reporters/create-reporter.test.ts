@@ -9,10 +9,12 @@ import type { UserBenchmarkConfig } from '../../core'
 import { useMarkdownReport } from '../../reporters/use-markdown-report'
 import { useConsoleReport } from '../../reporters/use-console-report'
 import { createReporter } from '../../reporters/create-reporter'
+import { useHtmlReport } from '../../reporters/use-html-report'
 import { useJsonReport } from '../../reporters/use-json-report'
 
 vi.mock('../../reporters/use-markdown-report')
 vi.mock('../../reporters/use-console-report')
+vi.mock('../../reporters/use-html-report')
 vi.mock('../../reporters/use-json-report')
 
 describe('createReporter', () => {
@@ -20,6 +22,7 @@ describe('createReporter', () => {
   let mockUserConfig: UserBenchmarkConfig
   let mockedUseMarkdownReport = vi.mocked(useMarkdownReport)
   let mockedUseConsoleReport = vi.mocked(useConsoleReport)
+  let mockedUseHtmlReport = vi.mocked(useHtmlReport)
   let mockedUseJsonReport = vi.mocked(useJsonReport)
 
   beforeEach(() => {
@@ -42,6 +45,7 @@ describe('createReporter', () => {
     mockedUseMarkdownReport.mockResolvedValue('markdown report content')
     mockedUseConsoleReport.mockResolvedValue('console report content')
     mockedUseJsonReport.mockResolvedValue('json report content')
+    mockedUseHtmlReport.mockResolvedValue('html report content')
   })
 
   it('should call useConsoleReport and return its result when format is "console"', async () => {
@@ -102,6 +106,22 @@ describe('createReporter', () => {
     expect(mockedUseMarkdownReport).not.toHaveBeenCalled()
   })
 
+  it('should call useHtmlReport and return its result when format is "html"', async () => {
+    let result = await createReporter(
+      mockTestSpecResults,
+      mockUserConfig,
+      'html',
+    )
+    expect(mockedUseHtmlReport).toHaveBeenCalledOnce()
+    expect(mockedUseHtmlReport).toHaveBeenCalledWith(
+      mockTestSpecResults,
+      mockUserConfig,
+    )
+    expect(result).toBe('html report content')
+    expect(mockedUseConsoleReport).not.toHaveBeenCalled()
+    expect(mockedUseJsonReport).not.toHaveBeenCalled()
+  })
+
   it('should throw an error for an unknown format', async () => {
     let unknownFormat = 'xml' as ReporterFormat
     await expect(() =>
@@ -114,7 +134,7 @@ describe('createReporter', () => {
     await expect(() =>
       createReporter(mockTestSpecResults, mockUserConfig, unknownFormat),
     ).rejects.toThrow(
-      'Unknown reporter format "yaml". Available formats: markdown, console, and json',
+      'Unknown reporter format "yaml". Available formats: markdown, console, json, and html',
     )
   })
 })
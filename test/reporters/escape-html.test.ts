@@ -0,0 +1,15 @@
+import { describe, expect, it } from 'vitest'
+
+import { escapeHtml } from '../../reporters/escape-html'
+
+describe('escapeHtml', () => {
+  it('should escape characters with a special meaning in HTML', () => {
+    expect(escapeHtml(`<a href="x">Tom & 'Jerry'</a>`)).toBe(
+      '&lt;a href=&quot;x&quot;&gt;Tom &amp; &#39;Jerry&#39;&lt;/a&gt;',
+    )
+  })
+
+  it('should return text without special characters unchanged', () => {
+    expect(escapeHtml('Program:exit')).toBe('Program:exit')
+  })
+})
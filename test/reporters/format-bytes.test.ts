@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest'
+
+import { formatBytes } from '../../reporters/format-bytes'
+
+describe('formatBytes', () => {
+  it('should format bytes with binary units', () => {
+    expect(formatBytes(0)).toBe('0 B')
+    expect(formatBytes(512.4)).toBe('512 B')
+    expect(formatBytes(1536)).toBe('1.5 KB')
+    expect(formatBytes(12.3 * 1024 * 1024)).toBe('12.3 MB')
+    expect(formatBytes(5 * 1024 ** 4)).toBe('5120.0 GB')
+  })
+
+  it("should return 'N/A' for non-numeric or non-finite values", () => {
+    expect(formatBytes()).toBe('N/A')
+    expect(formatBytes(Number.NaN)).toBe('N/A')
+    expect(formatBytes(Infinity)).toBe('N/A')
+  })
+})
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest'
+
+import { formatDelta } from '../../reporters/format-delta'
+import { formatHz } from '../../reporters/format-hz'
+import { formatMs } from '../../reporters/format-ms'
+
+describe('formatDelta', () => {
+  it('should format absolute and relative change with sign', () => {
+    expect(
+      formatDelta(
+        { difference: 0.012, percent: 4.2857, baseline: 0.28, current: 0.292 },
+        formatMs,
+      ),
+    ).toBe('+0.012 ms (+4.3%)')
+    expect(
+      formatDelta(
+        { difference: -120, percent: -10.714, baseline: 1120, current: 1000 },
+        formatHz,
+      ),
+    ).toBe('-120 ops/sec (-10.7%)')
+  })
+
+  it('should omit relative change when it is not available', () => {
+    expect(
+      formatDelta(
+        { difference: 1, percent: null, baseline: 0, current: 1 },
+        formatMs,
+      ),
+    ).toBe('+1.000 ms')
+  })
+
+  it('should return N/A for missing or invalid values', () => {
+    expect(formatDelta(undefined, formatMs)).toBe('N/A')
+    expect(
+      formatDelta(
+        { difference: Number.NaN, percent: null, baseline: 0, current: 0 },
+        formatMs,
+      ),
+    ).toBe('N/A')
+  })
+})
@@ -0,0 +1,14 @@
+import { describe, expect, it } from 'vitest'
+
+import { formatFailedRow } from '../../reporters/format-failed-row'
+
+describe('formatFailedRow', () => {
+  it('should mark the sample as failed and fill the other columns', () => {
+    expect(formatFailedRow('broken.js', 4)).toEqual([
+      'broken.js',
+      'Failed',
+      'N/A',
+      'N/A',
+    ])
+  })
+})
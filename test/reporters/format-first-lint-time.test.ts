@@ -0,0 +1,13 @@
+import { describe, expect, it } from 'vitest'
+
+import { formatFirstLintTime } from '../../reporters/format-first-lint-time'
+
+describe('formatFirstLintTime', () => {
+  it('should format the time of the first lint', () => {
+    expect(formatFirstLintTime(12.5)).toBe('12.500 ms')
+  })
+
+  it('should return N/A if the first lint was not timed', () => {
+    expect(formatFirstLintTime()).toBe('N/A')
+  })
+})
@@ -0,0 +1,13 @@
+import { describe, expect, it } from 'vitest'
+
+import { formatFixPasses } from '../../reporters/format-fix-passes'
+
+describe('formatFixPasses', () => {
+  it('should format the number of fix passes', () => {
+    expect(formatFixPasses(3)).toBe('3')
+  })
+
+  it('should return N/A if fixes were not applied', () => {
+    expect(formatFixPasses()).toBe('N/A')
+  })
+})
@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest'
+
+import type { BenchmarkMetrics } from '../../types/benchmark-metrics'
+
+import { formatGc } from '../../reporters/format-gc'
+
+let metrics: BenchmarkMetrics = {
+  sampleCount: 1,
+  period: 0.001,
+  median: 1,
+  stdDev: 0,
+  hz: 1000,
+  mean: 1,
+  min: 1,
+  max: 1,
+  p75: 1,
+  p99: 1,
+}
+
+describe('formatGc', () => {
+  it('should format the count and duration of garbage collections', () => {
+    expect(
+      formatGc({
+        ...metrics,
+        memoryUsageBytes: 1024,
+        gcDurationMs: 3.4567,
+        gcCount: 12,
+      }),
+    ).toBe('12 (3.457 ms)')
+  })
+
+  it("should return 'N/A' when garbage collections were not measured", () => {
+    expect(formatGc(metrics)).toBe('N/A')
+  })
+})
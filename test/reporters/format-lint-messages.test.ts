@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest'
+
+import { formatLintMessages } from '../../reporters/format-lint-messages'
+
+describe('formatLintMessages', () => {
+  it('should format errors, warnings, fixable problems and suggestions', () => {
+    expect(
+      formatLintMessages({
+        suggestions: 1,
+        warnings: 0,
+        fixable: 2,
+        errors: 3,
+      }),
+    ).toBe('3/0/2/1')
+  })
+
+  it('should return N/A if problems were not counted', () => {
+    expect(formatLintMessages()).toBe('N/A')
+  })
+})
@@ -0,0 +1,20 @@
+import { describe, expect, it } from 'vitest'
+
+import { formatRankedRuleRow } from '../../reporters/format-ranked-rule-row'
+
+describe('formatRankedRuleRow', () => {
+  it('should format the position, rule, times and share of a rule', () => {
+    expect(
+      formatRankedRuleRow(
+        {
+          percentOfTotal: 42.345,
+          ruleId: 'no-foo',
+          averageTime: 0.5,
+          sampleCount: 3,
+          totalTime: 1.5,
+        },
+        0,
+      ),
+    ).toEqual(['1', 'no-foo', '1.500 ms', '0.500 ms', '42.3%'])
+  })
+})
@@ -0,0 +1,15 @@
+import { describe, expect, it } from 'vitest'
+
+import { formatRelativeMarginOfError } from '../../reporters/format-relative-margin-of-error'
+
+describe('formatRelativeMarginOfError', () => {
+  it('should format the margin of error as a percentage', () => {
+    expect(formatRelativeMarginOfError(0.012_34)).toBe('±1.23%')
+    expect(formatRelativeMarginOfError(0)).toBe('±0.00%')
+  })
+
+  it('should return N/A if the margin of error is unknown', () => {
+    expect(formatRelativeMarginOfError()).toBe('N/A')
+    expect(formatRelativeMarginOfError(Infinity)).toBe('N/A')
+  })
+})
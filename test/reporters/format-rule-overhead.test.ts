@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest'
+
+import { formatRuleOverhead } from '../../reporters/format-rule-overhead'
+
+describe('formatRuleOverhead', () => {
+  it('should format the control time and the time spent in the rule', () => {
+    expect(
+      formatRuleOverhead({
+        controlMedian: 1,
+        percent: 33.333,
+        controlMean: 1,
+        median: 0.4,
+        mean: 0.5,
+      }),
+    ).toEqual(['1.000 ms', '0.500 ms (33.3%)', '0.400 ms'])
+  })
+
+  it('should format negative times with a minus sign', () => {
+    expect(
+      formatRuleOverhead({
+        controlMedian: 1,
+        controlMean: 1,
+        median: -0.02,
+        mean: -0.01,
+        percent: -1,
+      }),
+    ).toEqual(['1.000 ms', '-0.010 ms (-1.0%)', '-0.020 ms'])
+  })
+
+  it('should omit the share when it is not available', () => {
+    expect(
+      formatRuleOverhead({
+        controlMedian: 0,
+        controlMean: 0,
+        percent: null,
+        median: 0,
+        mean: 0,
+      }),
+    ).toEqual(['0.000 ms', '0.000 ms', '0.000 ms'])
+  })
+
+  it("should return 'N/A' values when the overhead was not measured", () => {
+    expect(formatRuleOverhead()).toEqual(['N/A', 'N/A', 'N/A'])
+  })
+})
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest'
+
+import { formatScalingRow } from '../../reporters/format-scaling-row'
+
+describe('formatScalingRow', () => {
+  it('should format the best fit of a super-linear sample', () => {
+    expect(
+      formatScalingRow({
+        bestFit: {
+          model: 'linearithmic',
+          slope: 0.000_123_45,
+          intercept: 0.2,
+          rSquared: 0.99,
+        },
+        sample: 'a.js (with fixes)',
+        superLinear: true,
+        points: [],
+        fits: [],
+      }),
+    ).toEqual([
+      'a.js (with fixes)',
+      'O(n log n)',
+      '0.000123 ms × n log n + 0.2 ms',
+      '0.990',
+      'Super-linear',
+    ])
+  })
+
+  it('should subtract a negative intercept', () => {
+    expect(
+      formatScalingRow({
+        bestFit: {
+          intercept: -0.012_34,
+          model: 'linear',
+          rSquared: 1,
+          slope: 1.5,
+        },
+        superLinear: false,
+        sample: 'a.js',
+        points: [],
+        fits: [],
+      }),
+    ).toEqual(['a.js', 'O(n)', '1.5 ms × n − 0.0123 ms', '1.000', 'Linear'])
+  })
+
+  it('should mark poorly fitting super-linear models as inconclusive', () => {
+    expect(
+      formatScalingRow({
+        bestFit: {
+          model: 'quadratic',
+          slope: 0.000_161,
+          intercept: 3.47,
+          rSquared: 0.461,
+        },
+        superLinear: false,
+        sample: 'a.js',
+        points: [],
+        fits: [],
+      }),
+    ).toEqual([
+      'a.js',
+      'O(n²)',
+      '0.000161 ms × n² + 3.47 ms',
+      '0.461',
+      'Inconclusive',
+    ])
+  })
+})
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest'
+
+import { formatSignificance } from '../../reporters/format-significance'
+
+describe('formatSignificance', () => {
+  it('returns N/A when there is no significance result', () => {
+    expect(formatSignificance(undefined)).toBe('N/A')
+  })
+
+  it('formats the verdict with the p-value', () => {
+    expect(
+      formatSignificance({
+        medianDifferenceInterval: { lower: 0.01, upper: 0.05 },
+        verdict: 'slower',
+        pValue: 0.01234,
+      }),
+    ).toBe('slower (p=0.012)')
+  })
+
+  it('abbreviates very small p-values', () => {
+    expect(
+      formatSignificance({
+        medianDifferenceInterval: { lower: -0.05, upper: -0.01 },
+        verdict: 'faster',
+        pValue: 0.00001,
+      }),
+    ).toBe('faster (p<0.001)')
+  })
+})
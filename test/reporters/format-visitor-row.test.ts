@@ -0,0 +1,16 @@
+import { describe, expect, it } from 'vitest'
+
+import { formatVisitorRow } from '../../reporters/format-visitor-row'
+
+describe('formatVisitorRow', () => {
+  it('should format the selector, calls, time and share of a visitor', () => {
+    expect(
+      formatVisitorRow({
+        selector: 'CallExpression > Identifier',
+        percentOfTotal: 42.345,
+        callsPerRun: 1234.6,
+        timePerRun: 0.12345,
+      }),
+    ).toEqual(['CallExpression > Identifier', '1,235', '0.123 ms', '42.3%'])
+  })
+})
@@ -0,0 +1,134 @@
+import { describe, expect, it } from 'vitest'
+
+import type { ProcessedBenchmarkTask } from '../../core/benchmark/run-benchmark'
+import type { TestSpecResult } from '../../types/benchmark-config'
+
+import { hasSampleResult } from '../../reporters/has-sample-result'
+
+let metrics = {
+  sampleCount: 1,
+  period: 0.001,
+  median: 1,
+  stdDev: 0,
+  hz: 1000,
+  mean: 1,
+  min: 1,
+  max: 1,
+  p75: 1,
+  p99: 1,
+}
+
+function hasFixPasses(
+  sampleResult: ProcessedBenchmarkTask,
+  testSpecResult: TestSpecResult,
+): boolean {
+  return (
+    testSpecResult.benchmarkConfig.fix === 'both' ||
+    (sampleResult.fixPasses ?? 0) > 1
+  )
+}
+
+let delta = { difference: 0, baseline: 1, current: 1, percent: 0 }
+
+function createResults(
+  sampleResult: Partial<ProcessedBenchmarkTask>,
+  fix?: boolean | 'both',
+): TestSpecResult[] {
+  return [
+    {
+      testCaseResults: [
+        {
+          samplesResults: [
+            {
+              name: 'Case on a.js',
+              metrics,
+              ...sampleResult,
+            },
+          ],
+          rule: { ruleId: 'rule', severity: 2 },
+          name: 'Case',
+          id: 'tc-1',
+        },
+      ],
+      benchmarkConfig: {
+        warmup: { enabled: true, iterations: 1 },
+        iterations: 1,
+        timeout: 1,
+        fix,
+      },
+      ruleId: 'rule',
+      name: 'Spec',
+    },
+  ]
+}
+
+describe('hasSampleResult', () => {
+  it.each<{
+    predicate(
+      sampleResult: ProcessedBenchmarkTask,
+      testSpecResult: TestSpecResult,
+    ): boolean
+    sampleResult: Partial<ProcessedBenchmarkTask>
+    fix?: boolean | 'both'
+    name: string
+  }>([
+    {
+      sampleResult: { comparison: { median: delta, mean: delta, hz: delta } },
+      predicate: sampleResult => sampleResult.comparison !== undefined,
+      name: 'a baseline comparison',
+    },
+    {
+      predicate: sampleResult =>
+        sampleResult.metrics.memoryUsageBytes !== undefined,
+      sampleResult: { metrics: { ...metrics, memoryUsageBytes: 1024 } },
+      name: 'memory metrics',
+    },
+    {
+      sampleResult: {
+        overhead: {
+          controlMedian: 1,
+          controlMean: 1,
+          percent: 50,
+          median: 1,
+          mean: 1,
+        },
+      },
+      predicate: sampleResult => sampleResult.overhead !== undefined,
+      name: 'a rule overhead',
+    },
+    {
+      predicate: sampleResult => sampleResult.firstLintTime !== undefined,
+      sampleResult: { firstLintTime: 120 },
+      name: 'a first lint time',
+    },
+    {
+      sampleResult: { fixPasses: 2 },
+      name: 'several fix passes',
+      predicate: hasFixPasses,
+    },
+    {
+      sampleResult: { fixPasses: 1 },
+      predicate: hasFixPasses,
+      name: 'both fix modes',
+      fix: 'both',
+    },
+    {
+      sampleResult: {
+        messages: { suggestions: 0, warnings: 0, fixable: 0, errors: 0 },
+      },
+      predicate: sampleResult => sampleResult.messages !== undefined,
+      name: 'problem counts',
+    },
+    {
+      predicate: sampleResult => sampleResult.rme !== undefined,
+      name: 'a relative margin of error',
+      sampleResult: { rme: 0.01 },
+    },
+  ])('should find samples with $name', ({ sampleResult, predicate, fix }) => {
+    expect(
+      hasSampleResult(createResults(sampleResult, fix), predicate),
+    ).toBeTruthy()
+    expect(hasSampleResult(createResults({}), predicate)).toBeFalsy()
+    expect(hasSampleResult([], predicate)).toBeFalsy()
+  })
+})
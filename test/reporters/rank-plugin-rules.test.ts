@@ -0,0 +1,130 @@
+import { describe, expect, it } from 'vitest'
+
+import type { TestSpecResult } from '../../types/benchmark-config'
+
+import { rankPluginRules } from '../../reporters/rank-plugin-rules'
+
+function createResult(
+  ruleId: string,
+  means: number[],
+  plugin?: string,
+): TestSpecResult {
+  return {
+    testCaseResults: [
+      {
+        samplesResults: means.map((mean, index) => ({
+          metrics: {
+            sampleCount: 1,
+            period: 0.001,
+            median: mean,
+            stdDev: 0,
+            min: mean,
+            max: mean,
+            p75: mean,
+            p99: mean,
+            hz: 1000,
+            mean,
+          },
+          name: `Case on ${index}.js`,
+        })),
+        rule: { severity: 2, ruleId },
+        name: 'Case',
+        id: 'tc-1',
+      },
+    ],
+    benchmarkConfig: {
+      warmup: { enabled: true, iterations: 1 },
+      iterations: 1,
+      timeout: 1,
+    },
+    name: plugin ? `${plugin}/${ruleId}` : ruleId,
+    ruleId,
+    plugin,
+  }
+}
+
+describe('rankPluginRules', () => {
+  it('should order the rules of each plugin by their total time', () => {
+    let rankings = rankPluginRules([
+      createResult('fast', [1, 1], 'first'),
+      createResult('standalone', [100]),
+      createResult('slow', [3, 3, 2], 'first'),
+      createResult('only', [2], 'second'),
+    ])
+
+    expect(rankings).toEqual([
+      {
+        rules: [
+          {
+            percentOfTotal: 80,
+            averageTime: 8 / 3,
+            ruleId: 'slow',
+            sampleCount: 3,
+            totalTime: 8,
+          },
+          {
+            percentOfTotal: 20,
+            ruleId: 'fast',
+            averageTime: 1,
+            sampleCount: 2,
+            totalTime: 2,
+          },
+        ],
+        plugin: 'first',
+      },
+      {
+        rules: [
+          {
+            percentOfTotal: 100,
+            ruleId: 'only',
+            averageTime: 2,
+            sampleCount: 1,
+            totalTime: 2,
+          },
+        ],
+        plugin: 'second',
+      },
+    ])
+  })
+
+  it('should skip rules without samples and handle zero times', () => {
+    let rankings = rankPluginRules([
+      createResult('empty', [], 'plugin'),
+      createResult('instant', [0], 'plugin'),
+    ])
+
+    expect(rankings).toEqual([
+      {
+        rules: [
+          {
+            ruleId: 'instant',
+            percentOfTotal: 0,
+            averageTime: 0,
+            sampleCount: 1,
+            totalTime: 0,
+          },
+        ],
+        plugin: 'plugin',
+      },
+    ])
+  })
+
+  it('should leave out failed samples', () => {
+    let result = createResult('partly-failed', [2, 0], 'plugin')
+    result.testCaseResults[0]!.samplesResults[1]!.error = 'Parsing error'
+
+    expect(rankPluginRules([result])[0]!.rules).toEqual([
+      {
+        ruleId: 'partly-failed',
+        percentOfTotal: 100,
+        averageTime: 2,
+        sampleCount: 1,
+        totalTime: 2,
+      },
+    ])
+  })
+
+  it('should return an empty array if no plugins were benchmarked', () => {
+    expect(rankPluginRules([createResult('rule', [1])])).toEqual([])
+  })
+})
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest'
+
+import { renderBoxPlot } from '../../reporters/render-box-plot'
+
+describe('renderBoxPlot', () => {
+  it('should draw the quartiles, median and whiskers of the samples', () => {
+    let svg = renderBoxPlot([5, 1, 4, 2, 3])
+
+    expect(svg).toMatch(/^<svg class="box-plot"/u)
+    expect(svg).toContain(
+      '<title>Min: 1.000 ms, Q1: 2.000 ms, Median: 3.000 ms, Q3: 4.000 ms, Max: 5.000 ms</title>',
+    )
+    expect(svg).toContain('<rect x="82.00" y="4" width="156.00" height="32" />')
+    expect(svg).toContain('<line class="median" x1="160.00"')
+    expect(svg).toContain('<line x1="4.00" y1="20" x2="316.00" y2="20" />')
+  })
+
+  it('should interpolate quartiles between samples', () => {
+    expect(renderBoxPlot([1, 2, 3, 4])).toContain(
+      'Q1: 1.750 ms, Median: 2.500 ms, Q3: 3.250 ms',
+    )
+  })
+
+  it('should center the plot when all samples are equal', () => {
+    expect(renderBoxPlot([2, 2])).toContain('<line class="median" x1="160.00"')
+  })
+
+  it('should return an empty string when there are no samples', () => {
+    expect(renderBoxPlot([])).toBe('')
+  })
+})
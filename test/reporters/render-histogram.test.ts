@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest'
+
+import { renderHistogram } from '../../reporters/render-histogram'
+
+function getBars(svg: string): { height: number; title: string }[] {
+  return [
+    ...svg.matchAll(/height="(?<height>[\d.]+)"><title>(?<title>[^<]+)/gu),
+  ].map(match => ({
+    height: Number(match.groups!['height']),
+    title: match.groups!['title']!,
+  }))
+}
+
+describe('renderHistogram', () => {
+  it('should distribute samples into bins', () => {
+    let svg = renderHistogram([1, 1.5, 2, 2, 3, 4, 4, 4, 5])
+
+    expect(svg).toMatch(/^<svg class="histogram"/u)
+    expect(getBars(svg)).toEqual([
+      { title: '1.000 ms – 2.333 ms: 4', height: 120 },
+      { title: '2.333 ms – 3.667 ms: 1', height: 30 },
+      { title: '3.667 ms – 5.000 ms: 4', height: 120 },
+    ])
+  })
+
+  it('should limit the number of bins', () => {
+    let samples = Array.from({ length: 10_000 }, (_, index) => index)
+
+    expect(getBars(renderHistogram(samples))).toHaveLength(30)
+  })
+
+  it('should put all samples into one bin when they are equal', () => {
+    expect(getBars(renderHistogram([2, 2, 2, 2]))).toEqual([
+      { title: '2.000 ms – 2.000 ms: 4', height: 120 },
+      { title: '2.000 ms – 2.000 ms: 0', height: 0 },
+    ])
+  })
+
+  it('should return an empty string when there are no samples', () => {
+    expect(renderHistogram([])).toBe('')
+  })
+})
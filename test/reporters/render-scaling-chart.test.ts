@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest'
+
+import type { ScalingAnalysis } from '../../types/scaling-analysis'
+
+import { renderScalingChart } from '../../reporters/render-scaling-chart'
+
+function createAnalysis(points: ScalingAnalysis['points']): ScalingAnalysis {
+  return {
+    bestFit: { model: 'quadratic', intercept: 0, rSquared: 1, slope: 1 },
+    superLinear: true,
+    sample: 'a.js',
+    fits: [],
+    points,
+  }
+}
+
+describe('renderScalingChart', () => {
+  it('should render a point for every size and the fitted curve', () => {
+    let svg = renderScalingChart(
+      createAnalysis([
+        { mean: 1, size: 1 },
+        { mean: 4, size: 2 },
+        { mean: 16, size: 4 },
+      ]),
+    )
+
+    expect(svg).toMatch(/^<svg class="scaling-chart"/u)
+    expect(
+      [...svg.matchAll(/<title>(?<title>[^<]+)/gu)].map(
+        match => match.groups!['title'],
+      ),
+    ).toEqual(['n = 1: 1.000 ms', 'n = 2: 4.000 ms', 'n = 4: 16.000 ms'])
+    expect(svg).toContain('<polyline points="6.00,107.25 ')
+    expect(svg).toContain(' 314.00,6.00" />')
+  })
+
+  it('should center equal sizes and keep zero times at the bottom', () => {
+    let svg = renderScalingChart({
+      ...createAnalysis([{ mean: 0, size: 2 }]),
+      bestFit: { model: 'linear', intercept: 0, rSquared: 1, slope: 0 },
+    })
+
+    expect(svg).toContain('<circle cx="160.00" cy="114.00" r="3">')
+  })
+
+  it('should return an empty string when there are no points', () => {
+    expect(renderScalingChart(createAnalysis([]))).toBe('')
+  })
+})
@@ -451,4 +451,414 @@ describe('useConsoleReport', () => {
       expect(columns.filter(col => col.length > 0)).toHaveLength(7)
     }
   })
+
+  it('renders baseline comparison columns when samples have a comparison', async () => {
+    let comparedSample: ProcessedBenchmarkTask = {
+      ...createMockProcessedTask('Test Case 1 on sampleA.js'),
+      comparison: {
+        significance: {
+          medianDifferenceInterval: { lower: -0.15, upper: -0.05 },
+          verdict: 'faster',
+          pValue: 0.0004,
+        },
+        median: { difference: -0.1, current: 0.9, percent: -10, baseline: 1 },
+        hz: { difference: 200, baseline: 800, current: 1000, percent: 25 },
+        mean: { difference: 0.2, baseline: 0.8, percent: 25, current: 1 },
+      },
+    }
+    let newSample = createMockProcessedTask('Test Case 1 on sampleB.js')
+
+    let testSpec = createMockTestSpecResult({
+      testCaseResults: [
+        createMockTestCaseResult({
+          samplesResults: [comparedSample, newSample],
+        }),
+        createMockTestCaseResult({
+          name: 'Test Case 2',
+          samplesResults: [],
+          id: 'tc-2',
+        }),
+      ],
+    })
+
+    let consoleOutput = await useConsoleReport([testSpec])
+    let lines = consoleOutput.split('\n')
+
+    let headerLine = lines.find(line => line.startsWith('Sample'))!
+    expect(headerLine).toContain('Δ Ops/sec')
+    expect(headerLine).toContain('Δ Avg Time')
+    expect(headerLine).toContain('Δ Median')
+    expect(headerLine).toContain('Change')
+
+    let comparedLine = lines.find(line => line.startsWith('sampleA.js'))!
+    expect(comparedLine).toContain('+200 ops/sec (+25.0%)')
+    expect(comparedLine).toContain('+0.200 ms (+25.0%)')
+    expect(comparedLine).toContain('-0.100 ms (-10.0%)')
+    expect(comparedLine).toContain('faster (p<0.001)')
+
+    let newLine = lines.find(line => line.startsWith('sampleB.js'))!
+    expect(newLine.split('|')).toHaveLength(11)
+
+    let emptyLine = lines.find(line => line.startsWith('No samples'))!
+    expect(emptyLine.split('|')).toHaveLength(11)
+  })
+
+  it('renders memory columns when samples have memory metrics', async () => {
+    let sampleWithMemory = createMockProcessedTask('Test Case 1 on sampleA.js')
+    sampleWithMemory.metrics = {
+      ...sampleWithMemory.metrics,
+      memoryUsageBytes: 1536,
+      gcDurationMs: 2.5,
+      gcCount: 3,
+    }
+    let sampleWithoutMemory = createMockProcessedTask(
+      'Test Case 1 on sampleB.js',
+    )
+
+    let testSpec = createMockTestSpecResult({
+      testCaseResults: [
+        createMockTestCaseResult({
+          samplesResults: [sampleWithMemory, sampleWithoutMemory],
+        }),
+        createMockTestCaseResult({
+          name: 'Test Case 2',
+          samplesResults: [],
+          id: 'tc-2',
+        }),
+      ],
+    })
+
+    let consoleOutput = await useConsoleReport([testSpec])
+    let lines = consoleOutput.split('\n')
+
+    let headerLine = lines.find(line => line.startsWith('Sample'))!
+    expect(headerLine).toContain('Heap/op')
+    expect(headerLine).toContain('GC')
+    expect(headerLine).not.toContain('Change')
+
+    let memoryLine = lines.find(line => line.startsWith('sampleA.js'))!
+    expect(memoryLine).toContain('1.5 KB')
+    expect(memoryLine).toContain('3 (2.500 ms)')
+
+    let otherLine = lines.find(line => line.startsWith('sampleB.js'))!
+    expect(otherLine.split('|')).toHaveLength(9)
+
+    let emptyLine = lines.find(line => line.startsWith('No samples'))!
+    expect(emptyLine.split('|')).toHaveLength(9)
+  })
+
+  it('renders visitor tables for samples with visitor profiles', async () => {
+    let profiledSample = createMockProcessedTask('Test Case 1 on sampleA.js')
+    profiledSample.visitors = [
+      {
+        selector: 'Identifier',
+        percentOfTotal: 75,
+        callsPerRun: 1200,
+        timePerRun: 0.3,
+      },
+      {
+        selector: 'Program:exit',
+        percentOfTotal: 25,
+        timePerRun: 0.1,
+        callsPerRun: 1,
+      },
+    ]
+
+    let testSpec = createMockTestSpecResult({
+      testCaseResults: [
+        createMockTestCaseResult({
+          samplesResults: [
+            profiledSample,
+            createMockProcessedTask('Test Case 1 on sampleB.js'),
+          ],
+        }),
+      ],
+    })
+
+    let consoleOutput = await useConsoleReport([testSpec])
+    let lines = consoleOutput.split('\n')
+
+    expect(lines.filter(line => line.includes('Visitors:'))).toEqual([
+      expect.stringContaining('Visitors: sampleA.js'),
+    ])
+
+    let headerLine = lines.find(line => line.startsWith('Visitor '))!
+    expect(headerLine.split('|').map(column => column.trim())).toEqual([
+      'Visitor',
+      'Calls/run',
+      'Time/run',
+      'Share',
+    ])
+
+    let identifierLine = lines.find(line => line.startsWith('Identifier'))!
+    expect(identifierLine.split('|').map(column => column.trim())).toEqual([
+      'Identifier',
+      '1,200',
+      '0.300 ms',
+      '75.0%',
+    ])
+    expect(lines.some(line => line.startsWith('Program:exit'))).toBeTruthy()
+  })
+
+  it('renders scaling tables for test cases with a scaling analysis', async () => {
+    let testCase = createMockTestCaseResult()
+    testCase.scaling = [
+      {
+        bestFit: {
+          model: 'quadratic',
+          intercept: 0.05,
+          rSquared: 0.999,
+          slope: 0.0123,
+        },
+        points: [
+          { mean: 0.06, size: 1 },
+          { mean: 0.1, size: 2 },
+          { mean: 0.25, size: 4 },
+        ],
+        sample: 'sampleA.js',
+        superLinear: true,
+        fits: [],
+      },
+    ]
+
+    let consoleOutput = await useConsoleReport([
+      createMockTestSpecResult({ testCaseResults: [testCase] }),
+    ])
+    let lines = consoleOutput.split('\n')
+
+    expect(consoleOutput).toContain('Scaling: Test Case 1')
+
+    let scalingLine = lines.find(line => line.includes('O(n²)'))!
+    expect(scalingLine.split('|').map(column => column.trim())).toEqual([
+      'sampleA.js',
+      'O(n²)',
+      '0.0123 ms × n² + 0.05 ms',
+      '0.999',
+      'Super-linear',
+    ])
+  })
+
+  it('renders rule overhead columns when samples have an overhead', async () => {
+    let sampleWithOverhead = createMockProcessedTask(
+      'Test Case 1 on sampleA.js',
+    )
+    sampleWithOverhead.overhead = {
+      controlMedian: 0.75,
+      controlMean: 0.75,
+      median: 0.25,
+      percent: 25,
+      mean: 0.25,
+    }
+
+    let testSpec = createMockTestSpecResult({
+      testCaseResults: [
+        createMockTestCaseResult({
+          samplesResults: [
+            sampleWithOverhead,
+            createMockProcessedTask('Test Case 1 on sampleB.js'),
+          ],
+        }),
+      ],
+    })
+
+    let consoleOutput = await useConsoleReport([testSpec])
+    let lines = consoleOutput.split('\n')
+
+    let headerLine = lines.find(line => line.startsWith('Sample'))!
+    expect(headerLine).toContain('Control Avg')
+    expect(headerLine).toContain('Rule Avg')
+    expect(headerLine).toContain('Rule Median')
+
+    let overheadLine = lines.find(line => line.startsWith('sampleA.js'))!
+    expect(overheadLine).toContain('0.750 ms')
+    expect(overheadLine).toContain('0.250 ms (25.0%)')
+
+    let otherLine = lines.find(line => line.startsWith('sampleB.js'))!
+    expect(otherLine.split('|').map(column => column.trim())).toContain('N/A')
+    expect(otherLine.split('|')).toHaveLength(10)
+  })
+
+  it('renders the first lint column when samples have a first lint time', async () => {
+    let typeAwareSample = createMockProcessedTask('Test Case 1 on sampleA.js')
+    typeAwareSample.firstLintTime = 850
+
+    let testSpec = createMockTestSpecResult({
+      testCaseResults: [
+        createMockTestCaseResult({
+          samplesResults: [
+            typeAwareSample,
+            createMockProcessedTask('Test Case 1 on sampleB.js'),
+          ],
+        }),
+      ],
+    })
+
+    let consoleOutput = await useConsoleReport([testSpec])
+    let lines = consoleOutput.split('\n')
+
+    let headerLine = lines.find(line => line.startsWith('Sample'))!
+    expect(headerLine).toContain('First Lint')
+
+    let typeAwareLine = lines.find(line => line.startsWith('sampleA.js'))!
+    expect(typeAwareLine).toContain('850.000 ms')
+
+    let otherLine = lines.find(line => line.startsWith('sampleB.js'))!
+    expect(otherLine.split('|').map(column => column.trim())).toContain('N/A')
+    expect(otherLine.split('|')).toHaveLength(8)
+  })
+
+  it('renders the fix passes column when a sample was fixed', async () => {
+    let fixedSample = createMockProcessedTask('Test Case 1 on sampleA.js')
+    fixedSample.fixPasses = 2
+
+    let testSpec = createMockTestSpecResult({
+      testCaseResults: [
+        createMockTestCaseResult({
+          samplesResults: [
+            fixedSample,
+            createMockProcessedTask('Test Case 1 on sampleB.js'),
+          ],
+        }),
+      ],
+    })
+
+    let consoleOutput = await useConsoleReport([testSpec])
+    let lines = consoleOutput.split('\n')
+
+    let headerLine = lines.find(line => line.startsWith('Sample'))!
+    expect(headerLine).toContain('Fix Passes')
+
+    let fixedLine = lines.find(line => line.startsWith('sampleA.js'))!
+    expect(fixedLine.split('|').map(column => column.trim())).toContain('2')
+
+    let otherLine = lines.find(line => line.startsWith('sampleB.js'))!
+    expect(otherLine.split('|').map(column => column.trim())).toContain('N/A')
+    expect(otherLine.split('|')).toHaveLength(8)
+  })
+
+  it('renders the problems column when problems were counted', async () => {
+    let countedSample = createMockProcessedTask('Test Case 1 on sampleA.js')
+    countedSample.messages = {
+      suggestions: 0,
+      warnings: 1,
+      fixable: 2,
+      errors: 3,
+    }
+
+    let testSpec = createMockTestSpecResult({
+      testCaseResults: [
+        createMockTestCaseResult({
+          samplesResults: [
+            countedSample,
+            createMockProcessedTask('Test Case 1 on sampleB.js'),
+          ],
+        }),
+      ],
+    })
+
+    let consoleOutput = await useConsoleReport([testSpec])
+    let lines = consoleOutput.split('\n')
+
+    let headerLine = lines.find(line => line.startsWith('Sample'))!
+    expect(headerLine).toContain('Problems E/W/F/S')
+
+    let countedLine = lines.find(line => line.startsWith('sampleA.js'))!
+    expect(countedLine).toContain('3/1/2/0')
+
+    let otherLine = lines.find(line => line.startsWith('sampleB.js'))!
+    expect(otherLine.split('|').map(column => column.trim())).toContain('N/A')
+    expect(otherLine.split('|')).toHaveLength(8)
+  })
+
+  it('renders the relative margin of error column when precision is set', async () => {
+    let preciseSample = createMockProcessedTask('Test Case 1 on sampleA.js')
+    preciseSample.rme = 0.0123
+
+    let testSpec = createMockTestSpecResult({
+      testCaseResults: [
+        createMockTestCaseResult({ samplesResults: [preciseSample] }),
+      ],
+    })
+
+    let consoleOutput = await useConsoleReport([testSpec])
+    let lines = consoleOutput.split('\n')
+
+    let headerLine = lines.find(line => line.startsWith('Sample'))!
+    expect(headerLine).toContain('RME')
+
+    let sampleLine = lines.find(line => line.startsWith('sampleA.js'))!
+    expect(sampleLine).toContain('±1.23%')
+  })
+
+  it('marks failed samples and lists their errors after the table', async () => {
+    let failedSample = createMockProcessedTask('Test Case 1 on broken.js')
+    failedSample.error = 'Parsing error: Unexpected token (1:5)'
+
+    let testSpec = createMockTestSpecResult({
+      testCaseResults: [
+        createMockTestCaseResult({
+          samplesResults: [
+            createMockProcessedTask('Test Case 1 on sampleA.js'),
+            failedSample,
+          ],
+        }),
+      ],
+    })
+
+    let consoleOutput = await useConsoleReport([testSpec])
+    let lines = consoleOutput.split('\n')
+
+    let failedLine = lines.find(line => line.startsWith('broken.js'))!
+    expect(failedLine.split('|').map(column => column.trim())).toEqual([
+      'broken.js',
+      'Failed',
+      'N/A',
+      'N/A',
+      'N/A',
+      'N/A',
+      'N/A',
+    ])
+    expect(consoleOutput).toContain(
+      'Failed samples:\n  broken.js: Parsing error: Unexpected token (1:5)',
+    )
+  })
+
+  it('renders a ranking of plugin rules before the result tables', async () => {
+    let fastRule = createMockTestSpecResult({
+      name: 'my-plugin/fast-rule',
+      ruleId: 'fast-rule',
+    })
+    fastRule.plugin = 'my-plugin'
+    let slowRule = createMockTestSpecResult({
+      testCaseResults: [
+        createMockTestCaseResult({
+          samplesResults: [
+            createMockProcessedTask('Test Case 1 on sampleA.js', { mean: 3 }),
+          ],
+        }),
+      ],
+      name: 'my-plugin/slow-rule',
+      ruleId: 'slow-rule',
+    })
+    slowRule.plugin = 'my-plugin'
+
+    let consoleOutput = await useConsoleReport([fastRule, slowRule])
+    let lines = consoleOutput.split('\n')
+
+    let titleIndex = lines.findIndex(line =>
+      line.includes('Slowest Rules: my-plugin'),
+    )
+    expect(titleIndex).toBeGreaterThan(-1)
+    expect(titleIndex).toBeLessThan(
+      lines.findIndex(line => line.includes('my-plugin/fast-rule')),
+    )
+
+    let rankingRows = lines
+      .filter(line => /^[12] /u.test(line))
+      .map(line => line.split('|').map(column => column.trim()))
+    expect(rankingRows).toEqual([
+      ['1', 'slow-rule', '3.000 ms', '3.000 ms', '75.0%'],
+      ['2', 'fast-rule', '1.000 ms', '1.000 ms', '25.0%'],
+    ])
+  })
 })
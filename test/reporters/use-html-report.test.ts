@@ -0,0 +1,458 @@
+import { describe, expect, it, vi } from 'vitest'
+
+import type {
+  BenchmarkConfig,
+  TestSpecResult,
+  TestCaseResult,
+} from '../../types/benchmark-config'
+import type { ProcessedBenchmarkTask } from '../../core/benchmark/run-benchmark'
+import type { UserBenchmarkConfig } from '../../types/user-benchmark-config'
+import type { BenchmarkMetrics } from '../../types/benchmark-metrics'
+import type { RuleConfig } from '../../types/test-case'
+
+import { useHtmlReport } from '../../reporters/use-html-report'
+
+vi.mock('../../reporters/collect-system-info', () => ({
+  collectSystemInfo: () => ({
+    cpuModel: 'Intel(R) Core(TM) i7-12700K CPU @ 3.60GHz',
+    v8Version: '11.3.244.8-node.20',
+    osRelease: '6.2.0-39-generic',
+    nodeVersion: 'v20.11.0',
+    eslintVersion: '9.27.0',
+    platform: 'linux',
+    cpuSpeedMHz: 3600,
+    totalMemoryGb: 32,
+    arch: 'x64',
+    cpuCount: 8,
+  }),
+}))
+
+interface CreateMockTestSpecResultParameters {
+  benchmarkConfigOverrides?: Partial<
+    Omit<BenchmarkConfig, 'baselinePath' | 'reporters' | 'name'>
+  >
+  testCaseResults?: TestCaseResult[]
+  rulePath?: string
+  ruleId?: string
+  name?: string
+}
+
+interface CreateMockTestCaseResultParameters {
+  samplesResults?: ProcessedBenchmarkTask[]
+  ruleConfig?: RuleConfig
+  description?: string
+  name?: string
+  id?: string
+}
+
+function createMockTestSpecResult(
+  parameters: CreateMockTestSpecResultParameters = {},
+): TestSpecResult {
+  let {
+    ruleId = 'test-spec-rule',
+    benchmarkConfigOverrides,
+    name = 'Test Spec 1',
+    rulePath,
+  } = parameters
+  let testCaseResults = parameters.testCaseResults ?? [
+    createMockTestCaseResult({}),
+  ]
+  let benchmarkConfig = createMockBenchmarkConfig(benchmarkConfigOverrides)
+
+  return {
+    benchmarkConfig,
+    testCaseResults,
+    rulePath,
+    ruleId,
+    name,
+  }
+}
+
+function createMockTestCaseResult(
+  parameters: CreateMockTestCaseResultParameters = {},
+): TestCaseResult {
+  let name = parameters.name ?? 'Test Case 1'
+  let id = parameters.id ?? 'tc-1'
+  let ruleConfig = parameters.ruleConfig ?? createMockRuleConfig()
+  let samplesResults = parameters.samplesResults ?? [
+    createMockProcessedTask(`${name} on sampleA.js`),
+  ]
+  let { description } = parameters
+
+  return {
+    rule: ruleConfig,
+    samplesResults,
+    description,
+    name,
+    id,
+  }
+}
+
+function createMockBenchmarkConfig(
+  overrides: Partial<
+    Omit<BenchmarkConfig, 'baselinePath' | 'reporters' | 'name'>
+  > = {},
+): Omit<BenchmarkConfig, 'baselinePath' | 'reporters' | 'name'> {
+  return {
+    warmup: { enabled: true, iterations: 3 },
+    iterations: 10,
+    timeout: 5000,
+    ...overrides,
+  }
+}
+
+function createMockMetrics(
+  overrides: Partial<BenchmarkMetrics> = {},
+): BenchmarkMetrics {
+  return {
+    sampleCount: 10,
+    period: 0.001,
+    stdDev: 0.05,
+    median: 0.9,
+    p75: 1.05,
+    min: 0.8,
+    max: 1.2,
+    p99: 1.1,
+    hz: 1000,
+    mean: 1,
+    ...overrides,
+  }
+}
+
+function createMockRuleConfig(
+  ruleId: string = 'test-rule',
+  path?: string,
+  options?: unknown[],
+): RuleConfig {
+  return {
+    options: options ?? undefined,
+    severity: 2,
+    ruleId,
+    path,
+  }
+}
+
+function createMockProcessedTask(
+  name: string,
+  metricOverrides: Partial<BenchmarkMetrics> = {},
+): ProcessedBenchmarkTask {
+  return {
+    metrics: createMockMetrics(metricOverrides),
+    name,
+  }
+}
+
+function createMockUserConfig(
+  overrides: Partial<UserBenchmarkConfig> = {},
+): UserBenchmarkConfig {
+  return {
+    tests: [],
+    ...overrides,
+  }
+}
+
+describe('useHtmlReport', () => {
+  it('returns a self-contained HTML document with sortable tables', async () => {
+    let sample1 = createMockProcessedTask(
+      'Test Spec 1 - Test Case 1 on sampleA.js',
+      { median: 0.9, hz: 1000, mean: 1 },
+    )
+    let sample2 = createMockProcessedTask(
+      'Test Spec 1 - Test Case 1 on sampleB.js',
+      { median: 1.9, mean: 2, hz: 500 },
+    )
+
+    let testSpec = createMockTestSpecResult({
+      testCaseResults: [
+        createMockTestCaseResult({
+          samplesResults: [sample1, sample2],
+          name: 'Test Spec 1 - Test Case 1',
+        }),
+      ],
+      name: 'Rule: <my-rule>',
+    })
+
+    let htmlOutput = await useHtmlReport([testSpec], createMockUserConfig())
+
+    expect(htmlOutput).toMatch(/^<!doctype html>/u)
+    expect(htmlOutput).toContain('<title>ESLint Rule Benchmark Report</title>')
+    expect(htmlOutput).toContain('<h2>Rule: &lt;my-rule&gt;</h2>')
+    expect(htmlOutput).toContain(
+      '<thead><tr><th scope="col">Sample</th><th scope="col">Ops/sec</th><th scope="col">Avg Time</th><th scope="col">Median</th><th scope="col">Min</th><th scope="col">Max</th><th scope="col">StdDev</th></tr></thead>',
+    )
+    expect(htmlOutput).toContain(
+      '<tr><td>sampleA.js</td><td data-sort="1000">1,000 ops/sec</td><td data-sort="1">1.000 ms</td><td data-sort="0.9">0.900 ms</td><td data-sort="0.8">0.800 ms</td><td data-sort="1.2">1.200 ms</td><td data-sort="0.05">±0.050 ms</td></tr>',
+    )
+    expect(htmlOutput).toContain('<td>sampleB.js</td>')
+    expect(htmlOutput).toContain('<script>')
+    expect(htmlOutput).not.toContain('Distribution of Execution Times')
+    expect(htmlOutput).toContain('<h2>System Information</h2>')
+    expect(htmlOutput).toContain(
+      '<dt>Runtime</dt><dd>Node.js v20.11.0, V8 11.3.244.8-node.20, ESLint 9.27.0</dd>',
+    )
+    expect(htmlOutput).toContain(
+      '<dt>Hardware</dt><dd>Intel(R) Core(TM) i7-12700K CPU @ 3.60GHz (8 cores, 3600 MHz), 32 GB RAM</dd>',
+    )
+  })
+
+  it('renders a histogram and a box plot for samples with raw data', async () => {
+    let sample = createMockProcessedTask('Test Case 1 on sampleA.js')
+    sample.samples = [0.8, 0.9, 1, 1.1, 1.2]
+
+    let testSpec = createMockTestSpecResult({
+      testCaseResults: [createMockTestCaseResult({ samplesResults: [sample] })],
+    })
+
+    let htmlOutput = await useHtmlReport([testSpec])
+
+    expect(htmlOutput).toContain('<h3>Distribution of Execution Times</h3>')
+    expect(htmlOutput).toContain('<figcaption>sampleA.js</figcaption>')
+    expect(htmlOutput).toContain('<svg class="histogram"')
+    expect(htmlOutput).toContain('<svg class="box-plot"')
+  })
+
+  it('renders optional columns and placeholders for missing values', async () => {
+    let fullSample: ProcessedBenchmarkTask = {
+      ...createMockProcessedTask('Test Case 1 on sampleA.js', {
+        memoryUsageBytes: 1536,
+        gcDurationMs: 2.5,
+        gcCount: 3,
+      }),
+      comparison: {
+        median: { difference: -0.1, current: 0.9, percent: -10, baseline: 1 },
+        hz: { difference: 200, baseline: 800, current: 1000, percent: 25 },
+        mean: { difference: 0.2, baseline: 0.8, percent: 25, current: 1 },
+      },
+      overhead: {
+        controlMedian: 0.75,
+        controlMean: 0.75,
+        median: 0.15,
+        percent: 25,
+        mean: 0.25,
+      },
+    }
+    let emptySample = createMockProcessedTask('Test Case 1 on sampleB.js')
+
+    let testSpec = createMockTestSpecResult({
+      testCaseResults: [
+        createMockTestCaseResult({ samplesResults: [fullSample, emptySample] }),
+        createMockTestCaseResult({
+          name: 'Test Case 2',
+          samplesResults: [],
+          id: 'tc-2',
+        }),
+      ],
+    })
+
+    let htmlOutput = await useHtmlReport([testSpec])
+
+    expect(htmlOutput).toContain(
+      '<th scope="col">StdDev</th><th scope="col">Control Avg</th><th scope="col">Rule Avg</th><th scope="col">Rule Median</th><th scope="col">Heap/op</th><th scope="col">GC</th><th scope="col">Δ Ops/sec</th><th scope="col">Δ Avg Time</th><th scope="col">Δ Median</th><th scope="col">Change</th>',
+    )
+    expect(htmlOutput).toContain(
+      '<td data-sort="0.75">0.750 ms</td><td data-sort="0.25">0.250 ms (25.0%)</td><td data-sort="0.15">0.150 ms</td><td data-sort="1536">1.5 KB</td><td data-sort="2.5">3 (2.500 ms)</td><td data-sort="200">+200 ops/sec (+25.0%)</td><td data-sort="0.2">+0.200 ms (+25.0%)</td><td data-sort="-0.1">-0.100 ms (-10.0%)</td><td>N/A</td>',
+    )
+    expect(htmlOutput).toContain(
+      '<td data-sort="0.05">±0.050 ms</td><td>N/A</td><td>N/A</td><td>N/A</td><td>N/A</td><td>N/A</td><td>N/A</td><td>N/A</td><td>N/A</td><td>N/A</td></tr>',
+    )
+    expect(htmlOutput).toContain(
+      `<tr><td>No samples</td>${'<td>N/A</td>'.repeat(15)}</tr>`,
+    )
+  })
+
+  it('renders a sortable relative margin of error column when precision is set', async () => {
+    let preciseSample = createMockProcessedTask('Test Case 1 on sampleA.js')
+    preciseSample.rme = 0.0123
+
+    let testSpec = createMockTestSpecResult({
+      testCaseResults: [
+        createMockTestCaseResult({ samplesResults: [preciseSample] }),
+      ],
+    })
+
+    let htmlOutput = await useHtmlReport([testSpec])
+
+    expect(htmlOutput).toContain(
+      '<th scope="col">StdDev</th><th scope="col">RME</th>',
+    )
+    expect(htmlOutput).toContain('<td data-sort="0.0123">±1.23%</td>')
+  })
+
+  it('renders a sortable first lint column when samples have a first lint time', async () => {
+    let typeAwareSample = createMockProcessedTask('Test Case 1 on sampleA.js')
+    typeAwareSample.firstLintTime = 850
+
+    let testSpec = createMockTestSpecResult({
+      testCaseResults: [
+        createMockTestCaseResult({ samplesResults: [typeAwareSample] }),
+      ],
+    })
+
+    let htmlOutput = await useHtmlReport([testSpec])
+
+    expect(htmlOutput).toContain(
+      '<th scope="col">StdDev</th><th scope="col">First Lint</th>',
+    )
+    expect(htmlOutput).toContain('<td data-sort="850">850.000 ms</td>')
+  })
+
+  it('renders a sortable fix passes column when a sample was fixed', async () => {
+    let fixedSample = createMockProcessedTask('Test Case 1 on sampleA.js')
+    fixedSample.fixPasses = 2
+
+    let testSpec = createMockTestSpecResult({
+      testCaseResults: [
+        createMockTestCaseResult({ samplesResults: [fixedSample] }),
+      ],
+    })
+
+    let htmlOutput = await useHtmlReport([testSpec])
+
+    expect(htmlOutput).toContain(
+      '<th scope="col">StdDev</th><th scope="col">Fix Passes</th>',
+    )
+    expect(htmlOutput).toContain('<td data-sort="2">2</td>')
+  })
+
+  it('renders a problems column sorted by errors and warnings', async () => {
+    let countedSample = createMockProcessedTask('Test Case 1 on sampleA.js')
+    countedSample.messages = {
+      suggestions: 0,
+      warnings: 1,
+      fixable: 2,
+      errors: 3,
+    }
+
+    let testSpec = createMockTestSpecResult({
+      testCaseResults: [
+        createMockTestCaseResult({
+          samplesResults: [
+            countedSample,
+            createMockProcessedTask('Test Case 1 on sampleB.js'),
+          ],
+        }),
+      ],
+    })
+
+    let htmlOutput = await useHtmlReport([testSpec])
+
+    expect(htmlOutput).toContain(
+      '<th scope="col">StdDev</th><th scope="col">Problems E/W/F/S</th>',
+    )
+    expect(htmlOutput).toContain('<td data-sort="4">3/1/2/0</td>')
+    expect(htmlOutput).toContain(
+      '<td data-sort="0.05">±0.050 ms</td><td>N/A</td></tr>',
+    )
+  })
+
+  it('renders visitor tables for samples with visitor profiles', async () => {
+    let sample = createMockProcessedTask('Test Case 1 on sampleA.js')
+    sample.visitors = [
+      {
+        selector: 'Identifier > CallExpression',
+        percentOfTotal: 100,
+        callsPerRun: 12,
+        timePerRun: 0.3,
+      },
+    ]
+
+    let testSpec = createMockTestSpecResult({
+      testCaseResults: [createMockTestCaseResult({ samplesResults: [sample] })],
+    })
+
+    let htmlOutput = await useHtmlReport([testSpec])
+
+    expect(htmlOutput).toContain('<h3>Visitors: sampleA.js</h3>')
+    expect(htmlOutput).toContain(
+      '<tr><td>Identifier &gt; CallExpression</td><td data-sort="12">12</td><td data-sort="0.3">0.300 ms</td><td data-sort="100">100.0%</td></tr>',
+    )
+  })
+
+  it('renders scaling tables and charts for test cases with a scaling analysis', async () => {
+    let testCase = createMockTestCaseResult()
+    testCase.scaling = [
+      {
+        bestFit: {
+          model: 'quadratic',
+          intercept: 0.05,
+          rSquared: 0.999,
+          slope: 0.0123,
+        },
+        points: [
+          { mean: 0.06, size: 1 },
+          { mean: 0.1, size: 2 },
+          { mean: 0.25, size: 4 },
+        ],
+        sample: 'sampleA.js',
+        superLinear: true,
+        fits: [],
+      },
+    ]
+
+    let htmlOutput = await useHtmlReport([
+      createMockTestSpecResult({ testCaseResults: [testCase] }),
+    ])
+
+    expect(htmlOutput).toContain('<h3>Scaling: Test Case 1</h3>')
+    expect(htmlOutput).toContain(
+      '<tr><td>sampleA.js</td><td>O(n²)</td><td>0.0123 ms × n² + 0.05 ms</td><td data-sort="0.999">0.999</td><td>Super-linear</td></tr>',
+    )
+    expect(htmlOutput).toContain('<svg class="scaling-chart"')
+  })
+
+  it('marks failed samples and lists their errors after the table', async () => {
+    let failedSample = createMockProcessedTask('Test Case 1 on broken.js')
+    failedSample.error = 'Parsing error: Unexpected token <'
+
+    let testSpec = createMockTestSpecResult({
+      testCaseResults: [
+        createMockTestCaseResult({ samplesResults: [failedSample] }),
+      ],
+    })
+
+    let htmlOutput = await useHtmlReport([testSpec])
+
+    expect(htmlOutput).toContain(
+      '<td>broken.js</td><td>Failed</td><td>N/A</td>',
+    )
+    expect(htmlOutput).toContain(
+      '<li><code>broken.js</code>: Parsing error: Unexpected token &lt;</li>',
+    )
+    expect(htmlOutput).not.toContain('<figcaption>broken.js</figcaption>')
+  })
+
+  it('handles test specifications without test cases', async () => {
+    let testSpec = createMockTestSpecResult({ testCaseResults: [] })
+
+    let htmlOutput = await useHtmlReport([testSpec])
+
+    expect(htmlOutput).toContain(
+      '<p>No test cases found or all failed for this specification.</p>',
+    )
+    expect(htmlOutput).not.toContain('<table')
+  })
+
+  it('handles empty results array', async () => {
+    let htmlOutput = await useHtmlReport([])
+
+    expect(htmlOutput).toMatch(/^<!doctype html>/u)
+    expect(htmlOutput).toContain('<p>No benchmark results available.</p>')
+    expect(htmlOutput).not.toContain('System Information')
+    expect(htmlOutput).toMatch(/<\/html>$/u)
+  })
+
+  it('renders a sortable ranking of plugin rules', async () => {
+    let testSpec = createMockTestSpecResult({
+      name: 'my-plugin/no-foo',
+      ruleId: 'no-foo',
+    })
+    testSpec.plugin = '<my-plugin>'
+
+    let htmlOutput = await useHtmlReport([testSpec])
+
+    expect(htmlOutput).toContain('<h2>Slowest Rules: &lt;my-plugin&gt;</h2>')
+    expect(htmlOutput).toContain(
+      '<tr><td data-sort="1">1</td><td>no-foo</td><td data-sort="1">1.000 ms</td><td data-sort="1">1.000 ms</td><td data-sort="100">100.0%</td></tr>',
+    )
+  })
+})
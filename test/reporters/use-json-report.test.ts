@@ -255,4 +255,203 @@ describe('useJsonReport', () => {
     expect(sampleBParsed.metrics?.medianTime).toBe('1.900 ms')
     expect(sampleBParsed.metrics?.periodInSeconds).toBe(0.002)
   })
+
+  it('includes raw metrics, samples and baseline comparison for samples', async () => {
+    let comparison = {
+      median: { difference: -0.1, current: 0.9, percent: -10, baseline: 1 },
+      hz: { difference: 200, baseline: 800, current: 1000, percent: 25 },
+      mean: { difference: 0.2, baseline: 0.8, percent: 25, current: 1 },
+    }
+    let sample: ProcessedBenchmarkTask = {
+      ...createMockProcessedTask('Test Case 1 on sampleA.js'),
+      samples: [0.9, 1, 1.1],
+      comparison,
+    }
+    let testSpec = createMockTestSpecResult({
+      testCaseResults: [createMockTestCaseResult({ samplesResults: [sample] })],
+    })
+
+    let jsonOutput = await useJsonReport([testSpec], createMockUserConfig())
+    let parsedReport = JSON.parse(jsonOutput) as JsonBenchmarkReport
+    let parsedSample =
+      parsedReport.testSpecifications[0]!.testCases[0]!.samples[0]!
+
+    expect(parsedSample.rawMetrics).toEqual(sample.metrics)
+    expect(parsedSample.samples).toEqual([0.9, 1, 1.1])
+    expect(parsedSample.comparison).toEqual(comparison)
+  })
+
+  it('includes formatted memory metrics when they were measured', async () => {
+    let sample = createMockProcessedTask('Test Case 1 on sampleA.js')
+    sample.metrics = {
+      ...sample.metrics,
+      memoryUsageBytes: 1536,
+      gcDurationMs: 2.5,
+      gcCount: 3,
+    }
+    let testSpec = createMockTestSpecResult({
+      testCaseResults: [createMockTestCaseResult({ samplesResults: [sample] })],
+    })
+
+    let jsonOutput = await useJsonReport([testSpec], createMockUserConfig())
+    let parsedReport = JSON.parse(jsonOutput) as JsonBenchmarkReport
+    let parsedSample =
+      parsedReport.testSpecifications[0]!.testCases[0]!.samples[0]!
+
+    expect(parsedSample.metrics).toMatchObject({
+      memoryPerOperation: '1.5 KB',
+      gcTime: '2.500 ms',
+      gcCount: 3,
+    })
+    expect(parsedSample.rawMetrics).toEqual(sample.metrics)
+  })
+
+  it('includes visitor profiles when visitors were profiled', async () => {
+    let sample = createMockProcessedTask('Test Case 1 on sampleA.js')
+    sample.visitors = [
+      {
+        selector: 'Identifier',
+        percentOfTotal: 75,
+        callsPerRun: 1200,
+        timePerRun: 0.3,
+      },
+      {
+        selector: 'Program:exit',
+        percentOfTotal: 25,
+        timePerRun: 0.1,
+        callsPerRun: 1,
+      },
+    ]
+    let testSpec = createMockTestSpecResult({
+      testCaseResults: [createMockTestCaseResult({ samplesResults: [sample] })],
+    })
+
+    let jsonOutput = await useJsonReport([testSpec], createMockUserConfig())
+    let parsedReport = JSON.parse(jsonOutput) as JsonBenchmarkReport
+    let parsedSample =
+      parsedReport.testSpecifications[0]!.testCases[0]!.samples[0]!
+
+    expect(parsedSample.visitors).toEqual(sample.visitors)
+  })
+
+  it('includes the scaling analysis of test cases', async () => {
+    let testCase = createMockTestCaseResult()
+    testCase.scaling = [
+      {
+        bestFit: {
+          model: 'quadratic',
+          intercept: 0.05,
+          rSquared: 0.999,
+          slope: 0.0123,
+        },
+        points: [
+          { mean: 0.06, size: 1 },
+          { mean: 0.1, size: 2 },
+          { mean: 0.25, size: 4 },
+        ],
+        sample: 'sampleA.js',
+        superLinear: true,
+        fits: [],
+      },
+    ]
+    let testSpec = createMockTestSpecResult({ testCaseResults: [testCase] })
+
+    let jsonOutput = await useJsonReport([testSpec], createMockUserConfig())
+    let parsedReport = JSON.parse(jsonOutput) as JsonBenchmarkReport
+
+    expect(parsedReport.testSpecifications[0]!.testCases[0]!.scaling).toEqual(
+      testCase.scaling,
+    )
+  })
+
+  it('includes the rule overhead when it was measured', async () => {
+    let sample = createMockProcessedTask('Test Case 1 on sampleA.js')
+    sample.overhead = {
+      controlMedian: 0.75,
+      controlMean: 0.75,
+      median: 0.25,
+      percent: 25,
+      mean: 0.25,
+    }
+    let testSpec = createMockTestSpecResult({
+      testCaseResults: [createMockTestCaseResult({ samplesResults: [sample] })],
+    })
+
+    let jsonOutput = await useJsonReport([testSpec], createMockUserConfig())
+    let parsedReport = JSON.parse(jsonOutput) as JsonBenchmarkReport
+    let parsedSample =
+      parsedReport.testSpecifications[0]!.testCases[0]!.samples[0]!
+
+    expect(parsedSample.overhead).toEqual(sample.overhead)
+  })
+
+  it('includes the relative margin of error when precision was set', async () => {
+    let sample = createMockProcessedTask('Test Case 1 on sampleA.js')
+    sample.rme = 0.0123
+    let testSpec = createMockTestSpecResult({
+      testCaseResults: [createMockTestCaseResult({ samplesResults: [sample] })],
+    })
+
+    let jsonOutput = await useJsonReport([testSpec], createMockUserConfig())
+    let parsedReport = JSON.parse(jsonOutput) as JsonBenchmarkReport
+    let parsedSample =
+      parsedReport.testSpecifications[0]!.testCases[0]!.samples[0]!
+
+    expect(parsedSample.rme).toBe(0.0123)
+  })
+
+  it('records the error of failed samples without metrics', async () => {
+    let sample = createMockProcessedTask('Test Case 1 on broken.js')
+    sample.error = 'Parsing error: Unexpected token (1:5)'
+    let testSpec = createMockTestSpecResult({
+      testCaseResults: [createMockTestCaseResult({ samplesResults: [sample] })],
+    })
+
+    let jsonOutput = await useJsonReport([testSpec], createMockUserConfig())
+    let parsedReport = JSON.parse(jsonOutput) as JsonBenchmarkReport
+
+    expect(parsedReport.testSpecifications[0]!.testCases[0]!.samples).toEqual([
+      {
+        error: 'Parsing error: Unexpected token (1:5)',
+        sampleName: 'broken.js',
+      },
+    ])
+  })
+
+  it('includes plugin rankings when plugins were benchmarked', async () => {
+    let testSpec = createMockTestSpecResult({
+      name: 'my-plugin/no-foo',
+      ruleId: 'no-foo',
+    })
+    testSpec.plugin = 'my-plugin'
+
+    let jsonOutput = await useJsonReport([testSpec], createMockUserConfig())
+    let parsedReport = JSON.parse(jsonOutput) as JsonBenchmarkReport
+
+    expect(parsedReport.testSpecifications[0]!.plugin).toBe('my-plugin')
+    expect(parsedReport.pluginRankings).toEqual([
+      {
+        rules: [
+          {
+            percentOfTotal: 100,
+            ruleId: 'no-foo',
+            averageTime: 1,
+            sampleCount: 1,
+            totalTime: 1,
+          },
+        ],
+        plugin: 'my-plugin',
+      },
+    ])
+  })
+
+  it('omits plugin rankings when no plugins were benchmarked', async () => {
+    let jsonOutput = await useJsonReport(
+      [createMockTestSpecResult()],
+      createMockUserConfig(),
+    )
+    let parsedReport = JSON.parse(jsonOutput) as JsonBenchmarkReport
+
+    expect(parsedReport.pluginRankings).toBeUndefined()
+  })
 })
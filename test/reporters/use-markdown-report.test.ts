@@ -368,4 +368,307 @@ describe('useMarkdownReport', () => {
       '| Invalid metrics sample | N/A | N/A | N/A | N/A | N/A | N/A |',
     )
   })
+
+  it('renders baseline comparison columns when samples have a comparison', async () => {
+    let comparedSample: ProcessedBenchmarkTask = {
+      ...createMockProcessedTask('Test Case 1 on sampleA.js'),
+      comparison: {
+        significance: {
+          medianDifferenceInterval: { lower: -0.15, upper: -0.05 },
+          verdict: 'faster',
+          pValue: 0.0004,
+        },
+        median: { difference: -0.1, current: 0.9, percent: -10, baseline: 1 },
+        hz: { difference: 200, baseline: 800, current: 1000, percent: 25 },
+        mean: { difference: 0.2, baseline: 0.8, percent: 25, current: 1 },
+      },
+    }
+    let newSample = createMockProcessedTask('Test Case 1 on sampleB.js')
+
+    let testSpec = createMockTestSpecResult({
+      testCaseResults: [
+        createMockTestCaseResult({
+          samplesResults: [comparedSample, newSample],
+        }),
+        createMockTestCaseResult({
+          name: 'Test Case 2',
+          samplesResults: [],
+          id: 'tc-2',
+        }),
+      ],
+    })
+
+    let markdownOutput = await useMarkdownReport([testSpec])
+
+    expect(markdownOutput).toContain(
+      '| Sample | Ops/sec | Avg Time | Median | Min | Max | StdDev | Δ Ops/sec | Δ Avg Time | Δ Median | Change |',
+    )
+    expect(markdownOutput).toContain(
+      '| +200 ops/sec (+25.0%) | +0.200 ms (+25.0%) | -0.100 ms (-10.0%) | faster (p<0.001) |',
+    )
+    expect(markdownOutput).toContain('| ±0.050 ms | N/A | N/A | N/A | N/A |')
+    expect(markdownOutput).toContain(
+      '| No samples | N/A | N/A | N/A | N/A | N/A | N/A | N/A | N/A | N/A | N/A |',
+    )
+  })
+
+  it('renders memory columns when samples have memory metrics', async () => {
+    let sampleWithMemory = createMockProcessedTask('Test Case 1 on sampleA.js')
+    sampleWithMemory.metrics = {
+      ...sampleWithMemory.metrics,
+      memoryUsageBytes: 1536,
+      gcDurationMs: 2.5,
+      gcCount: 3,
+    }
+
+    let testSpec = createMockTestSpecResult({
+      testCaseResults: [
+        createMockTestCaseResult({ samplesResults: [sampleWithMemory] }),
+        createMockTestCaseResult({
+          name: 'Test Case 2',
+          samplesResults: [],
+          id: 'tc-2',
+        }),
+      ],
+    })
+
+    let markdownOutput = await useMarkdownReport([testSpec])
+
+    expect(markdownOutput).toContain(
+      '| Sample | Ops/sec | Avg Time | Median | Min | Max | StdDev | Heap/op | GC |',
+    )
+    expect(markdownOutput).toContain(
+      '| ------ | ------- | -------- | ------ | --- | --- | ------ | ------- | -- |',
+    )
+    expect(markdownOutput).toContain('| 1.5 KB | 3 (2.500 ms) |')
+    expect(markdownOutput).toContain(
+      '| No samples | N/A | N/A | N/A | N/A | N/A | N/A | N/A | N/A |',
+    )
+  })
+
+  it('renders visitor tables for samples with visitor profiles', async () => {
+    let profiledSample = createMockProcessedTask('Test Case 1 on sampleA.js')
+    profiledSample.visitors = [
+      {
+        selector: 'Identifier',
+        percentOfTotal: 75,
+        callsPerRun: 1200,
+        timePerRun: 0.3,
+      },
+      {
+        selector: 'Program:exit',
+        percentOfTotal: 25,
+        timePerRun: 0.1,
+        callsPerRun: 1,
+      },
+    ]
+
+    let testSpec = createMockTestSpecResult({
+      testCaseResults: [
+        createMockTestCaseResult({
+          samplesResults: [
+            profiledSample,
+            createMockProcessedTask('Test Case 1 on sampleB.js'),
+          ],
+        }),
+      ],
+    })
+
+    let markdownOutput = await useMarkdownReport([testSpec])
+
+    expect(markdownOutput).toContain(
+      [
+        '#### Visitors: sampleA.js',
+        '',
+        '| Visitor | Calls/run | Time/run | Share |',
+        '| ------- | --------- | -------- | ----- |',
+        '| Identifier | 1,200 | 0.300 ms | 75.0% |',
+        '| Program:exit | 1 | 0.100 ms | 25.0% |',
+      ].join('\n'),
+    )
+    expect(markdownOutput).not.toContain('Visitors: sampleB.js')
+  })
+
+  it('renders scaling tables for test cases with a scaling analysis', async () => {
+    let testCase = createMockTestCaseResult()
+    testCase.scaling = [
+      {
+        bestFit: {
+          model: 'quadratic',
+          intercept: 0.05,
+          rSquared: 0.999,
+          slope: 0.0123,
+        },
+        points: [
+          { mean: 0.06, size: 1 },
+          { mean: 0.1, size: 2 },
+          { mean: 0.25, size: 4 },
+        ],
+        sample: 'sampleA.js',
+        superLinear: true,
+        fits: [],
+      },
+    ]
+
+    let markdownOutput = await useMarkdownReport([
+      createMockTestSpecResult({ testCaseResults: [testCase] }),
+    ])
+
+    expect(markdownOutput).toContain(
+      [
+        '#### Scaling: Test Case 1',
+        '',
+        '| Sample | Best Fit | Fitted Curve | R² | Growth |',
+        '| ------ | -------- | ------------ | -- | ------ |',
+        '| sampleA.js | O(n²) | 0.0123 ms × n² + 0.05 ms | 0.999 | Super-linear |',
+      ].join('\n'),
+    )
+  })
+
+  it('renders rule overhead columns when samples have an overhead', async () => {
+    let sampleWithOverhead = createMockProcessedTask(
+      'Test Case 1 on sampleA.js',
+    )
+    sampleWithOverhead.overhead = {
+      controlMedian: 0.75,
+      controlMean: 0.75,
+      median: 0.25,
+      percent: 25,
+      mean: 0.25,
+    }
+
+    let testSpec = createMockTestSpecResult({
+      testCaseResults: [
+        createMockTestCaseResult({ samplesResults: [sampleWithOverhead] }),
+      ],
+    })
+
+    let markdownOutput = await useMarkdownReport([testSpec])
+
+    expect(markdownOutput).toContain(
+      '| Sample | Ops/sec | Avg Time | Median | Min | Max | StdDev | Control Avg | Rule Avg | Rule Median |',
+    )
+    expect(markdownOutput).toContain(
+      '| 0.750 ms | 0.250 ms (25.0%) | 0.250 ms |',
+    )
+  })
+
+  it('renders the first lint column when samples have a first lint time', async () => {
+    let typeAwareSample = createMockProcessedTask('Test Case 1 on sampleA.js')
+    typeAwareSample.firstLintTime = 850
+
+    let testSpec = createMockTestSpecResult({
+      testCaseResults: [
+        createMockTestCaseResult({ samplesResults: [typeAwareSample] }),
+      ],
+    })
+
+    let markdownOutput = await useMarkdownReport([testSpec])
+
+    expect(markdownOutput).toContain(
+      '| Sample | Ops/sec | Avg Time | Median | Min | Max | StdDev | First Lint |',
+    )
+    expect(markdownOutput).toContain('| 850.000 ms |')
+  })
+
+  it('renders the fix passes column when a sample was fixed', async () => {
+    let fixedSample = createMockProcessedTask('Test Case 1 on sampleA.js')
+    fixedSample.fixPasses = 2
+
+    let testSpec = createMockTestSpecResult({
+      testCaseResults: [
+        createMockTestCaseResult({ samplesResults: [fixedSample] }),
+      ],
+    })
+
+    let markdownOutput = await useMarkdownReport([testSpec])
+
+    expect(markdownOutput).toContain(
+      '| Sample | Ops/sec | Avg Time | Median | Min | Max | StdDev | Fix Passes |',
+    )
+    expect(markdownOutput).toMatch(/\| 2 \|$/mu)
+  })
+
+  it('renders the problems column when problems were counted', async () => {
+    let countedSample = createMockProcessedTask('Test Case 1 on sampleA.js')
+    countedSample.messages = {
+      suggestions: 0,
+      warnings: 1,
+      fixable: 2,
+      errors: 3,
+    }
+
+    let testSpec = createMockTestSpecResult({
+      testCaseResults: [
+        createMockTestCaseResult({ samplesResults: [countedSample] }),
+      ],
+    })
+
+    let markdownOutput = await useMarkdownReport([testSpec])
+
+    expect(markdownOutput).toContain(
+      '| Sample | Ops/sec | Avg Time | Median | Min | Max | StdDev | Problems E/W/F/S |',
+    )
+    expect(markdownOutput).toContain('| 3/1/2/0 |')
+  })
+
+  it('renders the relative margin of error column when precision is set', async () => {
+    let preciseSample = createMockProcessedTask('Test Case 1 on sampleA.js')
+    preciseSample.rme = 0.0123
+
+    let testSpec = createMockTestSpecResult({
+      testCaseResults: [
+        createMockTestCaseResult({ samplesResults: [preciseSample] }),
+      ],
+    })
+
+    let markdownOutput = await useMarkdownReport([testSpec])
+
+    expect(markdownOutput).toContain(
+      '| Sample | Ops/sec | Avg Time | Median | Min | Max | StdDev | RME |',
+    )
+    expect(markdownOutput).toContain('| ±1.23% |')
+  })
+
+  it('marks failed samples and lists their errors after the table', async () => {
+    let failedSample = createMockProcessedTask('Test Case 1 on broken.js')
+    failedSample.error = 'Parsing error: Unexpected token (1:5)'
+
+    let testSpec = createMockTestSpecResult({
+      testCaseResults: [
+        createMockTestCaseResult({ samplesResults: [failedSample] }),
+      ],
+    })
+
+    let markdownOutput = await useMarkdownReport([testSpec])
+
+    expect(markdownOutput).toContain(
+      '| broken.js | Failed | N/A | N/A | N/A | N/A | N/A |',
+    )
+    expect(markdownOutput).toContain(
+      '#### Failed Samples\n\n- `broken.js`: Parsing error: Unexpected token (1:5)',
+    )
+  })
+
+  it('renders a ranking of plugin rules', async () => {
+    let testSpec = createMockTestSpecResult({
+      name: 'my-plugin/no-foo',
+      ruleId: 'no-foo',
+    })
+    testSpec.plugin = 'my-plugin'
+
+    let markdownOutput = await useMarkdownReport([testSpec])
+
+    expect(markdownOutput).toContain(
+      [
+        '### Slowest Rules: my-plugin',
+        '',
+        '| # | Rule | Total Time | Avg/sample | Share |',
+        '| - | ---- | ---------- | ---------- | ----- |',
+        '| 1 | no-foo | 1.000 ms | 1.000 ms | 100.0% |',
+        '',
+        '### my-plugin/no-foo',
+      ].join('\n'),
+    )
+  })
 })
@@ -15,9 +15,14 @@ import type { CodeSample, TestCase } from '../../types/test-case'
 import { getLanguageByFileName } from '../../core/utilities/get-language-by-file-name'
 import { isSupportedExtension } from '../../core/utilities/is-supported-extension'
 import { runBenchmarksFromConfig } from '../../runners/run-benchmarks-from-config'
+import { runIsolatedBenchmark } from '../../core/isolation/run-isolated-benchmark'
+import { compareWithBaseline } from '../../core/baseline/compare-with-baseline'
+import { evaluateThresholds } from '../../core/thresholds/evaluate-thresholds'
 import { getFileExtension } from '../../core/utilities/get-file-extension'
+import { expandPluginTests } from '../../core/config/expand-plugin-tests'
 import { createTestCase } from '../../core/test-case/create-test-case'
 import { runBenchmark } from '../../core/benchmark/run-benchmark'
+import { loadBaseline } from '../../core/baseline/load-baseline'
 import { runReporters } from '../../reporters/run-reporters'
 import * as constants from '../../constants'
 
@@ -27,10 +32,16 @@ vi.mock('../../core/utilities/is-supported-extension')
 vi.mock('../../core/utilities/get-file-extension')
 vi.mock('../../core/test-case/create-test-case')
 vi.mock('../../core/benchmark/run-benchmark')
+vi.mock('../../core/baseline/compare-with-baseline')
+vi.mock('../../core/baseline/load-baseline')
+vi.mock('../../core/thresholds/evaluate-thresholds')
+vi.mock('../../core/config/expand-plugin-tests')
+vi.mock('../../core/isolation/run-isolated-benchmark')
 vi.mock('../../reporters/run-reporters')
 
 describe('runBenchmarksFromConfig', () => {
-  let mockUserConfig: UserBenchmarkConfig
+  let mockUserConfig: Required<Pick<UserBenchmarkConfig, 'tests'>> &
+    UserBenchmarkConfig
   let mockReporterOptions: ReporterOptions[]
   let mockCodeSamples: CodeSample[]
   let mockTestCase: TestCase
@@ -63,7 +74,12 @@ describe('runBenchmarksFromConfig', () => {
     configDirectory = '/test/config/dir'
 
     mockCodeSamples = [
-      { filename: 'sample1.js', language: 'javascript', code: 'let a = 1;' },
+      {
+        filePath: '/test/config/dir/path/to/samples/sample1.js',
+        language: 'javascript',
+        filename: 'sample1.js',
+        code: 'let a = 1;',
+      },
     ]
     mockTestCase = {
       rule: {
@@ -127,6 +143,8 @@ describe('runBenchmarksFromConfig', () => {
     mockedFsReadFile.mockResolvedValue('let a = 1;')
     mockedCreateTestCase.mockReturnValue(mockTestCase)
     mockedRunBenchmark.mockResolvedValue([mockTask])
+    vi.mocked(evaluateThresholds).mockReturnValue([])
+    vi.mocked(expandPluginTests).mockResolvedValue([])
   })
 
   afterEach(() => {
@@ -171,6 +189,7 @@ describe('runBenchmarksFromConfig', () => {
           iterations: mockUserConfig.warmup!.iterations,
           enabled: mockUserConfig.warmup!.enabled,
         },
+        isolation: constants.DEFAULT_ISOLATION,
         iterations: mockUserConfig.iterations,
         timeout: mockUserConfig.timeout,
         reporters: mockReporterOptions,
@@ -193,6 +212,7 @@ describe('runBenchmarksFromConfig', () => {
         },
         iterations: mockUserConfig.iterations ?? constants.DEFAULT_ITERATIONS,
         timeout: mockUserConfig.timeout ?? constants.DEFAULT_TIMEOUT_MS,
+        isolation: constants.DEFAULT_ISOLATION,
       },
       testCaseResults: [
         {
@@ -215,16 +235,146 @@ describe('runBenchmarksFromConfig', () => {
     )
   })
 
+  it('should pass the resolved tsconfig to the test case', async () => {
+    mockUserConfig.tests[0]!.tsconfigPath = 'tsconfig.json'
+
+    await runBenchmarksFromConfig({
+      reporterOptions: mockReporterOptions,
+      userConfig: mockUserConfig,
+      configDirectory,
+    })
+
+    expect(mockedCreateTestCase).toHaveBeenCalledWith(
+      expect.objectContaining({
+        languageOptions: {
+          parserOptions: {
+            project: path.resolve(configDirectory, 'tsconfig.json'),
+            tsconfigRootDir: configDirectory,
+          },
+        },
+      }),
+    )
+  })
+
+  it('should merge ESLint options of the case over the ones of the test', async () => {
+    let [testSpec] = mockUserConfig.tests
+    testSpec!.languageOptions = {
+      parserOptions: { ecmaFeatures: { jsx: true } },
+      globals: { window: 'readonly' },
+    }
+    testSpec!.settings = { react: { version: '18.0' }, custom: true }
+    testSpec!.processor = 'markdown/markdown'
+    testSpec!.parser = './parser.js'
+    testSpec!.cases[0] = {
+      ...testSpec!.cases[0]!,
+      languageOptions: { parserOptions: { ecmaVersion: 2022 } },
+      settings: { react: { version: '19.0' } },
+      parser: 'custom-parser',
+      language: 'json/jsonc',
+    }
+
+    await runBenchmarksFromConfig({
+      reporterOptions: mockReporterOptions,
+      userConfig: mockUserConfig,
+      configDirectory,
+    })
+
+    expect(mockedCreateTestCase).toHaveBeenCalledWith(
+      expect.objectContaining({
+        languageOptions: {
+          parserOptions: { ecmaFeatures: { jsx: true }, ecmaVersion: 2022 },
+          globals: { window: 'readonly' },
+        },
+        settings: { react: { version: '19.0' }, custom: true },
+        processor: 'markdown/markdown',
+        parser: 'custom-parser',
+        language: 'json/jsonc',
+      }),
+    )
+  })
+
+  it('should pass custom extensions to the test case', async () => {
+    mockUserConfig.extensions = { '.gts': { language: 'typescript' } }
+
+    await runBenchmarksFromConfig({
+      reporterOptions: mockReporterOptions,
+      userConfig: mockUserConfig,
+      configDirectory,
+    })
+
+    expect(mockedCreateTestCase).toHaveBeenCalledWith(
+      expect.objectContaining({
+        extensions: { '.gts': { language: 'typescript' } },
+      }),
+    )
+  })
+
+  it('should create code samples from inline code of a case', async () => {
+    mockUserConfig.tests[0]!.cases[0] = {
+      code: [{ code: 'let button = <button />', filename: 'button.tsx' }],
+    }
+
+    await runBenchmarksFromConfig({
+      reporterOptions: mockReporterOptions,
+      userConfig: mockUserConfig,
+      configDirectory,
+    })
+
+    expect(mockedFsStat).not.toHaveBeenCalled()
+    expect(mockedCreateTestCase).toHaveBeenCalledWith(
+      expect.objectContaining({
+        samples: [
+          {
+            filePath: path.resolve(configDirectory, 'button.tsx'),
+            code: 'let button = <button />',
+            filename: 'button.tsx',
+            language: 'javascript',
+          },
+        ],
+      }),
+    )
+  })
+
+  it('should analyze the scaling of samples generated for scaling', async () => {
+    mockedRunBenchmark.mockResolvedValueOnce(
+      [1, 2, 4, 8, 16].map(
+        size =>
+          ({
+            name: `${mockTestCase.name} on sample1.x${size}.js`,
+            scaling: { source: 'sample1.js', size },
+            metrics: { mean: size ** 2 },
+          }) as unknown as ProcessedBenchmarkTask,
+      ),
+    )
+
+    await runBenchmarksFromConfig({
+      reporterOptions: mockReporterOptions,
+      userConfig: mockUserConfig,
+      configDirectory,
+    })
+
+    let [results] = mockedRunReporters.mock.calls[0]!
+    let { scaling } = results[0]!.testCaseResults[0]!
+    expect(scaling).toHaveLength(1)
+    expect(scaling![0]).toMatchObject({
+      bestFit: { model: 'quadratic' },
+      sample: 'sample1.js',
+      superLinear: true,
+    })
+  })
+
   it('should process code samples from a directory for a case', async () => {
     mockedFsStat.mockResolvedValue({
       isDirectory: () => true,
       isFile: () => false,
     } as Stats)
-    mockedFsReaddir.mockResolvedValue([
-      'file1.js',
-      'file2.ts',
-      'file3.txt',
-    ] as unknown as Dirent<Buffer>[])
+    mockedFsReaddir.mockResolvedValue(
+      ['file1.js', 'file2.ts', 'file3.txt'].map(name => ({
+        isDirectory: () => false,
+        isFile: () => true,
+        name,
+      })) as unknown as Dirent<Buffer>[],
+    )
 
     mockedGetFileExtension.mockImplementation(
       filename => filename.split('.').pop()!,
@@ -254,6 +404,7 @@ describe('runBenchmarksFromConfig', () => {
         configDirectory,
         mockUserConfig.tests[0]!.cases[0]!.testPath,
       ),
+      { withFileTypes: true },
     )
     expect(mockedFsReadFile).toHaveBeenCalledTimes(2)
     expect(mockedCreateTestCase).toHaveBeenCalledOnce()
@@ -421,6 +572,17 @@ describe('runBenchmarksFromConfig', () => {
     })
 
     expect(mockedRunBenchmark).toHaveBeenCalledWith({
+      config: {
+        warmup: {
+          iterations: constants.DEFAULT_WARMUP_ITERATIONS,
+          enabled: constants.DEFAULT_WARMUP_ENABLED,
+        },
+        iterations: constants.DEFAULT_ITERATIONS,
+        isolation: constants.DEFAULT_ISOLATION,
+        timeout: constants.DEFAULT_TIMEOUT_MS,
+        reporters: mockReporterOptions,
+        name: 'Test Spec 1',
+      },
       testCases: [
         {
           ...mockTestCase,
@@ -434,16 +596,6 @@ describe('runBenchmarksFromConfig', () => {
           samples: mockCodeSamples,
         },
       ],
-      config: {
-        warmup: {
-          iterations: constants.DEFAULT_WARMUP_ITERATIONS,
-          enabled: constants.DEFAULT_WARMUP_ENABLED,
-        },
-        iterations: constants.DEFAULT_ITERATIONS,
-        timeout: constants.DEFAULT_TIMEOUT_MS,
-        reporters: mockReporterOptions,
-        name: 'Test Spec 1',
-      },
       configDirectory,
     })
   })
@@ -488,29 +640,39 @@ describe('runBenchmarksFromConfig', () => {
 
     let mockTestCaseSpec1Case1: TestCase = {
       ...mockTestCase,
+      samples: [
+        {
+          filePath: '/samples/sample1.js',
+          filename: 'sample1.js',
+          language: 'javascript',
+          code: 'code1',
+        },
+      ],
       rule: {
         severity: constants.DEFAULT_SEVERITY,
         path: 'path/to/rule1.js',
         ruleId: 'test-rule-1',
         options: undefined,
       },
-      samples: [
-        { filename: 'sample1.js', language: 'javascript', code: 'code1' },
-      ],
       name: testSpec1Case1Name,
       id: 'spec1-case1',
     }
     let mockTestCaseSpec2Case1: TestCase = {
       ...mockTestCase,
+      samples: [
+        {
+          filePath: '/samples/sample2.js',
+          filename: 'sample2.js',
+          language: 'javascript',
+          code: 'code2',
+        },
+      ],
       rule: {
         severity: constants.DEFAULT_SEVERITY,
         path: 'path/to/rule2.js',
         ruleId: 'test-rule-2',
         options: undefined,
       },
-      samples: [
-        { filename: 'sample2.js', language: 'javascript', code: 'code2' },
-      ],
       name: testSpec2Case1Name,
       id: 'spec2-case1',
     }
@@ -606,6 +768,7 @@ describe('runBenchmarksFromConfig', () => {
         },
         iterations: mockUserConfig.iterations ?? constants.DEFAULT_ITERATIONS,
         timeout: mockUserConfig.timeout ?? constants.DEFAULT_TIMEOUT_MS,
+        isolation: constants.DEFAULT_ISOLATION,
       },
       testCaseResults: [
         {
@@ -636,6 +799,7 @@ describe('runBenchmarksFromConfig', () => {
         },
         iterations: testSpec2.iterations ?? constants.DEFAULT_ITERATIONS,
         timeout: mockUserConfig.timeout ?? constants.DEFAULT_TIMEOUT_MS,
+        isolation: constants.DEFAULT_ISOLATION,
       },
       testCaseResults: [
         {
@@ -669,19 +833,20 @@ describe('runBenchmarksFromConfig', () => {
     let noNameTestCaseName = 'Test Spec No Name Task - Case 1'
     let mockNoNameTestCase: TestCase = {
       ...mockTestCase,
-      rule: {
-        severity: constants.DEFAULT_SEVERITY,
-        path: 'path/to/rule-no-name.js',
-        ruleId: 'test-rule-no-name',
-        options: undefined,
-      },
       samples: [
         {
+          filePath: '/samples/sample-no-name.js',
           filename: 'sample-no-name.js',
           language: 'javascript',
           code: 'no_name_code',
         },
       ],
+      rule: {
+        severity: constants.DEFAULT_SEVERITY,
+        path: 'path/to/rule-no-name.js',
+        ruleId: 'test-rule-no-name',
+        options: undefined,
+      },
       name: noNameTestCaseName,
       id: 'no-name-task-case1',
     }
@@ -708,6 +873,7 @@ describe('runBenchmarksFromConfig', () => {
       ...mockNoNameTestCase,
       samples: [
         {
+          filePath: '/samples/sample-no-name.js',
           filename: 'sample-no-name.js',
           language: 'javascript',
           code: 'no_name_code',
@@ -745,11 +911,13 @@ describe('runBenchmarksFromConfig', () => {
       ...mockTestCase,
       samples: [
         {
+          filePath: '/samples/sample1.js',
           filename: 'sample1.js',
           language: 'javascript',
           code: 'const a = 1;',
         },
         {
+          filePath: '/samples/sample2.js',
           filename: 'sample2.js',
           language: 'javascript',
           code: 'const b = 2;',
@@ -854,4 +1022,351 @@ describe('runBenchmarksFromConfig', () => {
       configDirectory,
     })
   })
+
+  it('should compare results with the baseline when baselinePath is provided', async () => {
+    let baseline = new Map([['key', { median: 9.5, mean: 10, hz: 100 }]])
+    let comparedResults: TestSpecResult[] = []
+    vi.mocked(loadBaseline).mockResolvedValue(baseline)
+    vi.mocked(compareWithBaseline).mockReturnValue(comparedResults)
+
+    await runBenchmarksFromConfig({
+      reporterOptions: mockReporterOptions,
+      baselinePath: 'baseline.json',
+      userConfig: mockUserConfig,
+      configDirectory,
+    })
+
+    expect(loadBaseline).toHaveBeenCalledWith(path.resolve('baseline.json'))
+    expect(mockedRunBenchmark).toHaveBeenCalledWith(
+      expect.objectContaining({
+        config: expect.objectContaining({
+          baselinePath: 'baseline.json',
+        }) as unknown,
+      }),
+    )
+    expect(compareWithBaseline).toHaveBeenCalledWith(
+      [expect.objectContaining({ name: 'Test Spec 1' })],
+      baseline,
+    )
+    expect(mockedRunReporters).toHaveBeenCalledWith(
+      comparedResults,
+      mockUserConfig,
+      mockReporterOptions,
+    )
+  })
+
+  it('should not run benchmarks when the baseline cannot be loaded', async () => {
+    vi.mocked(loadBaseline).mockRejectedValue(new Error('Invalid baseline'))
+
+    await expect(
+      runBenchmarksFromConfig({
+        reporterOptions: mockReporterOptions,
+        baselinePath: 'baseline.json',
+        userConfig: mockUserConfig,
+        configDirectory,
+      }),
+    ).rejects.toThrowError('Invalid baseline')
+
+    expect(mockedRunBenchmark).not.toHaveBeenCalled()
+  })
+
+  it('should merge global and test spec thresholds', async () => {
+    mockUserConfig.thresholds = { maxRegressionPercent: 10, maxMeanMs: 5 }
+    mockUserConfig.tests[0]!.thresholds = { maxMeanMs: 2 }
+
+    await runBenchmarksFromConfig({
+      reporterOptions: mockReporterOptions,
+      userConfig: mockUserConfig,
+      configDirectory,
+    })
+
+    let [results] = vi.mocked(evaluateThresholds).mock.calls[0]!
+    expect(results[0]!.benchmarkConfig.thresholds).toEqual({
+      maxRegressionPercent: 10,
+      maxMeanMs: 2,
+    })
+    expect(consoleWarnSpy).toHaveBeenCalledWith(
+      '"maxRegressionPercent" is set but no baseline was provided. Skipping regression checks.',
+    )
+    expect(process.exitCode).toBeUndefined()
+  })
+
+  it('should set a failing exit code when thresholds are exceeded', async () => {
+    vi.mocked(evaluateThresholds).mockReturnValue([
+      {
+        message: 'mean time 10.000 ms exceeds "maxMeanMs" of 5 ms',
+        testSpecName: 'Test Spec 1',
+        sampleName: mockTask.name,
+        threshold: 'maxMeanMs',
+        actual: 10,
+        limit: 5,
+      },
+    ])
+
+    await runBenchmarksFromConfig({
+      reporterOptions: mockReporterOptions,
+      userConfig: mockUserConfig,
+      configDirectory,
+    })
+
+    expect(consoleErrorSpy).toHaveBeenCalledWith(
+      'Performance thresholds exceeded by 1 sample(s):',
+    )
+    expect(consoleErrorSpy).toHaveBeenCalledWith(
+      `- ${mockTask.name}: mean time 10.000 ms exceeds "maxMeanMs" of 5 ms`,
+    )
+    expect(process.exitCode).toBe(1)
+  })
+
+  it('should run test specs in isolation when configured', async () => {
+    vi.mocked(runIsolatedBenchmark).mockResolvedValue([mockTask])
+    mockUserConfig.isolation = 'worker'
+    mockUserConfig.tests.push({
+      ...mockUserConfig.tests[0]!,
+      name: 'Test Spec 2',
+      isolation: 'none',
+    })
+
+    await runBenchmarksFromConfig({
+      reporterOptions: mockReporterOptions,
+      userConfig: mockUserConfig,
+      configDirectory,
+    })
+
+    expect(runIsolatedBenchmark).toHaveBeenCalledOnce()
+    expect(runIsolatedBenchmark).toHaveBeenCalledWith(
+      expect.objectContaining({
+        config: expect.objectContaining({
+          isolation: 'worker',
+          name: 'Test Spec 1',
+        }) as object,
+        testCases: [mockTestCase],
+      }),
+      'worker',
+    )
+    expect(mockedRunBenchmark).toHaveBeenCalledOnce()
+    expect(mockedRunBenchmark).toHaveBeenCalledWith(
+      expect.objectContaining({
+        config: expect.objectContaining({
+          name: 'Test Spec 2',
+          isolation: 'none',
+        }) as object,
+      }),
+    )
+
+    let [results] = mockedRunReporters.mock.calls[0]!
+    expect(results[0]!.benchmarkConfig.isolation).toBe('worker')
+  })
+
+  it('should pass the visitor profiling flag to each test spec', async () => {
+    mockUserConfig.profileVisitors = true
+    mockUserConfig.tests.push({
+      ...mockUserConfig.tests[0]!,
+      profileVisitors: false,
+      name: 'Test Spec 2',
+    })
+
+    await runBenchmarksFromConfig({
+      reporterOptions: mockReporterOptions,
+      userConfig: mockUserConfig,
+      configDirectory,
+    })
+
+    expect(mockedRunBenchmark).toHaveBeenNthCalledWith(
+      1,
+      expect.objectContaining({
+        config: expect.objectContaining({ profileVisitors: true }) as object,
+      }),
+    )
+    expect(mockedRunBenchmark).toHaveBeenNthCalledWith(
+      2,
+      expect.objectContaining({
+        config: expect.objectContaining({ profileVisitors: false }) as object,
+      }),
+    )
+
+    let [results] = mockedRunReporters.mock.calls[0]!
+    expect(results[0]!.benchmarkConfig.profileVisitors).toBeTruthy()
+  })
+
+  it('should pass the overhead measurement flag to each test spec', async () => {
+    mockUserConfig.measureOverhead = true
+    mockUserConfig.tests.push({
+      ...mockUserConfig.tests[0]!,
+      measureOverhead: false,
+      name: 'Test Spec 2',
+    })
+
+    await runBenchmarksFromConfig({
+      reporterOptions: mockReporterOptions,
+      userConfig: mockUserConfig,
+      configDirectory,
+    })
+
+    expect(mockedRunBenchmark).toHaveBeenNthCalledWith(
+      1,
+      expect.objectContaining({
+        config: expect.objectContaining({ measureOverhead: true }) as object,
+      }),
+    )
+    expect(mockedRunBenchmark).toHaveBeenNthCalledWith(
+      2,
+      expect.objectContaining({
+        config: expect.objectContaining({ measureOverhead: false }) as object,
+      }),
+    )
+
+    let [results] = mockedRunReporters.mock.calls[0]!
+    expect(results[0]!.benchmarkConfig.measureOverhead).toBeTruthy()
+  })
+
+  it('should pass the full config flag to each test spec', async () => {
+    mockUserConfig.fullConfig = true
+
+    await runBenchmarksFromConfig({
+      reporterOptions: mockReporterOptions,
+      userConfig: mockUserConfig,
+      configDirectory,
+    })
+
+    expect(mockedRunBenchmark).toHaveBeenCalledWith(
+      expect.objectContaining({
+        config: expect.objectContaining({ fullConfig: true }) as object,
+      }),
+    )
+
+    let [results] = mockedRunReporters.mock.calls[0]!
+    expect(results[0]!.benchmarkConfig.fullConfig).toBeTruthy()
+  })
+
+  it('should pass the fix mode to each test spec', async () => {
+    mockUserConfig.fix = 'both'
+    mockUserConfig.tests.push({
+      ...mockUserConfig.tests[0]!,
+      name: 'Test Spec 2',
+      fix: false,
+    })
+
+    await runBenchmarksFromConfig({
+      reporterOptions: mockReporterOptions,
+      userConfig: mockUserConfig,
+      configDirectory,
+    })
+
+    expect(mockedRunBenchmark).toHaveBeenNthCalledWith(
+      1,
+      expect.objectContaining({
+        config: expect.objectContaining({ fix: 'both' }) as object,
+      }),
+    )
+    expect(mockedRunBenchmark).toHaveBeenNthCalledWith(
+      2,
+      expect.objectContaining({
+        config: expect.objectContaining({ fix: false }) as object,
+      }),
+    )
+
+    let [results] = mockedRunReporters.mock.calls[0]!
+    expect(results[0]!.benchmarkConfig.fix).toBe('both')
+  })
+
+  it('should pass the precision with a default time limit to each test spec', async () => {
+    mockUserConfig.precision = { targetRme: 0.01 }
+    mockUserConfig.tests.push({
+      ...mockUserConfig.tests[0]!,
+      precision: { targetRme: 0.05, maxTime: 5000 },
+      name: 'Test Spec 2',
+    })
+
+    await runBenchmarksFromConfig({
+      reporterOptions: mockReporterOptions,
+      userConfig: mockUserConfig,
+      configDirectory,
+    })
+
+    expect(mockedRunBenchmark).toHaveBeenNthCalledWith(
+      1,
+      expect.objectContaining({
+        config: expect.objectContaining({
+          precision: {
+            maxTime: constants.DEFAULT_PRECISION_MAX_TIME_MS,
+            targetRme: 0.01,
+          },
+        }) as object,
+      }),
+    )
+    expect(mockedRunBenchmark).toHaveBeenNthCalledWith(
+      2,
+      expect.objectContaining({
+        config: expect.objectContaining({
+          precision: { targetRme: 0.05, maxTime: 5000 },
+        }) as object,
+      }),
+    )
+
+    let [results] = mockedRunReporters.mock.calls[0]!
+    expect(results[0]!.benchmarkConfig.precision).toEqual({
+      maxTime: constants.DEFAULT_PRECISION_MAX_TIME_MS,
+      targetRme: 0.01,
+    })
+  })
+
+  it('should pass the resolved CPU profile directory to each test spec', async () => {
+    await runBenchmarksFromConfig({
+      reporterOptions: mockReporterOptions,
+      cpuProfileDirectory: 'profiles',
+      userConfig: mockUserConfig,
+      configDirectory,
+    })
+
+    expect(mockedRunBenchmark).toHaveBeenCalledWith(
+      expect.objectContaining({
+        config: expect.objectContaining({
+          cpuProfileDirectory: path.resolve('profiles'),
+        }) as object,
+      }),
+    )
+  })
+
+  it('should benchmark every rule of the configured plugins', async () => {
+    let plugin = {
+      cases: [{ testPath: 'path/to/samples/sample1.js' }],
+      pluginPath: 'path/to/plugin.js',
+      name: 'my-plugin',
+    }
+    vi.mocked(expandPluginTests).mockResolvedValueOnce([
+      {
+        rulePath: plugin.pluginPath,
+        name: 'my-plugin/no-foo',
+        cases: plugin.cases,
+        plugin: plugin.name,
+        ruleId: 'no-foo',
+      },
+    ])
+
+    await runBenchmarksFromConfig({
+      reporterOptions: mockReporterOptions,
+      userConfig: { plugins: [plugin] },
+      configDirectory,
+    })
+
+    expect(expandPluginTests).toHaveBeenCalledWith([plugin], configDirectory)
+    expect(mockedCreateTestCase).toHaveBeenCalledWith(
+      expect.objectContaining({
+        rule: expect.objectContaining({
+          path: 'path/to/plugin.js',
+          ruleId: 'no-foo',
+        }) as object,
+      }),
+    )
+
+    let [results] = mockedRunReporters.mock.calls[0]!
+    expect(results).toEqual([
+      expect.objectContaining({
+        name: 'my-plugin/no-foo',
+        plugin: 'my-plugin',
+        ruleId: 'no-foo',
+      }),
+    ])
+  })
 })
@@ -0,0 +1,267 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import path from 'node:path'
+
+import type { ProcessedBenchmarkTask } from '../../core/benchmark/run-benchmark'
+import type { UserBenchmarkConfig } from '../../types/user-benchmark-config'
+import type { TestSpecResult } from '../../types/benchmark-config'
+import type { TestCase } from '../../types/test-case'
+
+import { runInterleavedBenchmark } from '../../core/benchmark/run-interleaved-benchmark'
+import { loadCaseSamples } from '../../core/test-case/load-case-samples'
+import { getRepositoryRoot } from '../../core/git/get-repository-root'
+import { removeWorktree } from '../../core/git/remove-worktree'
+import { createWorktree } from '../../core/git/create-worktree'
+import { runComparison } from '../../runners/run-comparison'
+import { runReporters } from '../../reporters/run-reporters'
+
+vi.mock('../../core/benchmark/run-interleaved-benchmark')
+vi.mock('../../core/git/get-repository-root')
+vi.mock('../../core/test-case/load-case-samples')
+vi.mock('../../core/git/remove-worktree')
+vi.mock('../../core/git/create-worktree')
+vi.mock('../../reporters/run-reporters')
+
+function createProcessedTask(
+  name: string,
+  mean: number,
+): ProcessedBenchmarkTask {
+  return {
+    metrics: {
+      hz: 1000 / mean,
+      sampleCount: 10,
+      period: mean,
+      median: mean,
+      stdDev: 0,
+      p75: mean,
+      p99: mean,
+      min: mean,
+      max: mean,
+      mean,
+    },
+    name,
+  }
+}
+
+describe('runComparison', () => {
+  let userConfig: Required<Pick<UserBenchmarkConfig, 'tests'>> &
+    UserBenchmarkConfig
+
+  beforeEach(() => {
+    vi.resetAllMocks()
+    vi.spyOn(console, 'info').mockImplementation(() => {})
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    process.exitCode = undefined
+
+    userConfig = {
+      tests: [
+        {
+          cases: [{ testPath: 'benchmark/sample.js' }],
+          rulePath: 'rules/my-rule.js',
+          name: 'Compare: my-rule',
+          ruleId: 'my-rule',
+        },
+      ],
+      iterations: 100,
+    }
+
+    vi.mocked(getRepositoryRoot).mockResolvedValue('/repo')
+    vi.mocked(createWorktree).mockImplementation((_root, reference) =>
+      Promise.resolve(`/repo/node_modules/.cache/worktree-${reference}`),
+    )
+    vi.mocked(loadCaseSamples).mockResolvedValue([
+      {
+        filePath: '/samples/sample.js',
+        language: 'javascript',
+        filename: 'sample.js',
+        code: 'let a = 1',
+      },
+    ])
+    vi.mocked(runInterleavedBenchmark).mockImplementation(({ testCases }) =>
+      Promise.resolve(
+        testCases.map((testCase, index) =>
+          createProcessedTask(`${testCase.name} on sample.js`, index + 1),
+        ),
+      ),
+    )
+  })
+
+  it('benchmarks the rule from both revisions on the same samples', async () => {
+    await runComparison({
+      reporterOptions: [{ format: 'console' }],
+      configDirectory: '/repo',
+      headRef: 'feature',
+      baseRef: 'main',
+      userConfig,
+    })
+
+    expect(createWorktree).toHaveBeenCalledWith('/repo', 'main')
+    expect(createWorktree).toHaveBeenCalledWith('/repo', 'feature')
+
+    let [{ testCases, config }] = vi.mocked(runInterleavedBenchmark).mock
+      .calls[0]!
+    expect(config.iterations).toBe(100)
+    expect(testCases.map((testCase: TestCase) => testCase.rule.path)).toEqual([
+      path.join('/repo/node_modules/.cache/worktree-main', 'rules/my-rule.js'),
+      path.join(
+        '/repo/node_modules/.cache/worktree-feature',
+        'rules/my-rule.js',
+      ),
+    ])
+    expect(testCases[0]!.samples).toBe(testCases[1]!.samples)
+
+    expect(removeWorktree).toHaveBeenCalledTimes(2)
+    expect(removeWorktree).toHaveBeenCalledWith(
+      '/repo',
+      '/repo/node_modules/.cache/worktree-main',
+    )
+  })
+
+  it('loads and lints samples with the custom extensions', async () => {
+    let extensions = { '.gts': { language: 'typescript' as const } }
+
+    await runComparison({
+      userConfig: { ...userConfig, extensions },
+      reporterOptions: [{ format: 'console' }],
+      configDirectory: '/repo',
+      baseRef: 'main',
+    })
+
+    expect(loadCaseSamples).toHaveBeenCalledWith(
+      userConfig.tests[0]!.cases[0],
+      '/repo',
+      extensions,
+    )
+    let [{ testCases }] = vi.mocked(runInterleavedBenchmark).mock.calls[0]!
+    expect(testCases.map((testCase: TestCase) => testCase.extensions)).toEqual([
+      extensions,
+      extensions,
+    ])
+  })
+
+  it('reports head results compared with the base results', async () => {
+    await runComparison({
+      reporterOptions: [{ format: 'console' }],
+      configDirectory: '/repo',
+      baseRef: 'main',
+      userConfig,
+    })
+
+    let [results] = vi.mocked(runReporters).mock.calls[0]!
+    let [baseResult, headResult] = results as [TestSpecResult, TestSpecResult]
+
+    expect(baseResult.name).toBe('Compare: my-rule (base: main)')
+    expect(headResult.name).toBe('Compare: my-rule (head: working tree)')
+    expect(headResult.testCaseResults[0]!.name).toBe(
+      'Compare: my-rule (head: working tree) - Case 1',
+    )
+    expect(
+      baseResult.testCaseResults[0]!.samplesResults[0]!.comparison,
+    ).toBeUndefined()
+    expect(
+      headResult.testCaseResults[0]!.samplesResults[0]!.comparison?.mean,
+    ).toEqual({
+      difference: 1,
+      percent: 100,
+      baseline: 1,
+      current: 2,
+    })
+  })
+
+  it('skips test cases without results', async () => {
+    vi.mocked(runInterleavedBenchmark).mockImplementation(({ testCases }) =>
+      Promise.resolve([
+        createProcessedTask(`${testCases[1]!.name} on sample.js`, 2),
+      ]),
+    )
+
+    await runComparison({
+      reporterOptions: [{ format: 'console' }],
+      configDirectory: '/repo',
+      baseRef: 'main',
+      userConfig,
+    })
+
+    let [results] = vi.mocked(runReporters).mock.calls[0]!
+    expect(results.map(result => result.name)).toEqual([
+      'Compare: my-rule (head: working tree)',
+    ])
+  })
+
+  it('uses the current working tree when no head revision is given', async () => {
+    await runComparison({
+      reporterOptions: [{ format: 'console' }],
+      configDirectory: '/repo',
+      baseRef: 'main',
+      userConfig,
+    })
+
+    expect(createWorktree).toHaveBeenCalledOnce()
+    let [{ testCases }] = vi.mocked(runInterleavedBenchmark).mock.calls[0]!
+    expect(testCases[1]!.rule.path).toBe(path.join('/repo', 'rules/my-rule.js'))
+    expect(removeWorktree).toHaveBeenCalledOnce()
+  })
+
+  it('rejects rule files outside of the repository and removes worktrees', async () => {
+    userConfig.tests[0]!.rulePath = '../elsewhere/rule.js'
+
+    await expect(
+      runComparison({
+        reporterOptions: [{ format: 'console' }],
+        configDirectory: '/repo',
+        baseRef: 'main',
+        userConfig,
+      }),
+    ).rejects.toThrowError(
+      'Rule file "../elsewhere/rule.js" of test "Compare: my-rule" is outside of the git repository.',
+    )
+    expect(runInterleavedBenchmark).not.toHaveBeenCalled()
+    expect(removeWorktree).toHaveBeenCalledOnce()
+  })
+
+  it('rejects tests without a rule file and removes worktrees', async () => {
+    delete userConfig.tests[0]!.rulePath
+
+    await expect(
+      runComparison({
+        reporterOptions: [{ format: 'console' }],
+        configDirectory: '/repo',
+        baseRef: 'main',
+        userConfig,
+      }),
+    ).rejects.toThrowError(
+      'Test "Compare: my-rule" has no "rulePath" to compare between revisions.',
+    )
+    expect(runInterleavedBenchmark).not.toHaveBeenCalled()
+    expect(removeWorktree).toHaveBeenCalledOnce()
+  })
+
+  it('sets a failing exit code when no results are produced', async () => {
+    vi.mocked(runInterleavedBenchmark).mockResolvedValue(null)
+
+    await runComparison({
+      reporterOptions: [{ format: 'console' }],
+      configDirectory: '/repo',
+      baseRef: 'main',
+      userConfig,
+    })
+
+    expect(runReporters).not.toHaveBeenCalled()
+    expect(process.exitCode).toBe(1)
+    process.exitCode = undefined
+  })
+
+  it('exits early when there are no tests', async () => {
+    await runComparison({
+      reporterOptions: [{ format: 'console' }],
+      configDirectory: '/repo',
+      baseRef: 'main',
+      userConfig: {},
+    })
+
+    expect(getRepositoryRoot).not.toHaveBeenCalled()
+    expect(console.warn).toHaveBeenCalledWith(
+      'User configuration contains no tests. Exiting.',
+    )
+  })
+})
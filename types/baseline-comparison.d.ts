@@ -0,0 +1,73 @@
+import type { BenchmarkMetrics } from './benchmark-metrics'
+
+/**
+ * Outcome of a statistical test that checks whether the execution times of the
+ * current run differ from the baseline by more than random noise.
+ */
+export interface SignificanceResult {
+  /**
+   * 95% bootstrap confidence interval for the difference of medians (current
+   * minus baseline) in milliseconds.
+   */
+  medianDifferenceInterval: {
+    /** Lower bound of the interval. */
+    lower: number
+
+    /** Upper bound of the interval. */
+    upper: number
+  }
+
+  /**
+   * Verdict of the test. "faster" and "slower" are only used when the change is
+   * statistically significant.
+   */
+  verdict: 'no change' | 'faster' | 'slower'
+
+  /** Two-sided p-value of the Mann-Whitney U test. */
+  pValue: number
+}
+
+/**
+ * Comparison of a code sample's metrics against the same sample in a baseline
+ * report.
+ */
+export interface BaselineComparison {
+  /**
+   * Result of the significance test between the baseline and current samples.
+   * Only present when raw samples are available on both sides.
+   */
+  significance?: SignificanceResult
+
+  /** Change of the median execution time. */
+  median: MetricDelta
+
+  /** Change of the mean execution time. */
+  mean: MetricDelta
+
+  /** Change of the operations per second. */
+  hz: MetricDelta
+}
+
+/** Change of a single metric relative to the baseline. */
+export interface MetricDelta {
+  /**
+   * Relative change in percent. Null if the baseline value is zero and the
+   * change cannot be expressed as a percentage.
+   */
+  percent: number | null
+
+  /** Absolute change (current value minus baseline value). */
+  difference: number
+
+  /** Value from the baseline report. */
+  baseline: number
+
+  /** Value from the current run. */
+  current: number
+}
+
+/** Metrics of a single code sample read from a baseline report. */
+export type BaselineMetrics = {
+  /** Execution times in milliseconds after outlier filtering, if available. */
+  samples?: number[]
+} & Pick<BenchmarkMetrics, 'median' | 'mean' | 'hz'>
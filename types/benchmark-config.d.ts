@@ -1,35 +1,55 @@
 import type { ProcessedBenchmarkTask } from '../core/benchmark/run-benchmark'
+import type { ScalingAnalysis } from '../types/scaling-analysis'
 import type { RuleConfig } from '../types/test-case'
+import type { ISOLATION_MODES } from '../constants'
 
-/**
- * Aggregated result for a Test Specification, containing results for all its
- * TestCases.
- */
-export interface TestSpecResult {
-  /** Benchmark configuration used for this test specification. */
-  benchmarkConfig: Omit<BenchmarkConfig, 'baselinePath' | 'reporters' | 'name'>
+/** Main configuration for a benchmark run. */
+export interface BenchmarkConfig {
+  /** Performance budgets that fail the run when exceeded. */
+  thresholds?: ThresholdsConfig
 
-  /** Array of results for each TestCase under this test specification. */
-  testCaseResults: TestCaseResult[]
+  /** Reporter options. */
+  reporters: ReporterOptions[]
 
-  /** Optional path to the ESLint rule file for this test specification. */
-  rulePath?: string
+  /** Absolute path to the directory to write CPU profiles of the samples to. */
+  cpuProfileDirectory?: string
 
-  /** ID of the ESLint rule for this test specification. */
-  ruleId: string
+  /**
+   * Adaptive sampling settings. When present, they replace `iterations` and
+   * `timeout`.
+   */
+  precision?: PrecisionConfig
 
-  /** Name of the test specification (e.g., "My Rule Benchmarks"). */
-  name: string
-}
+  /**
+   * Where the benchmark of a test specification is executed: in the current
+   * process, in a worker thread or in a forked Node.js process.
+   */
+  isolation?: IsolationMode
 
-/** Main configuration for a benchmark run. */
-export interface BenchmarkConfig {
-  /** Reporter options. */
-  reporters: ReporterOptions[]
+  /** Whether to measure the time spent in each listener of the rule. */
+  profileVisitors?: boolean
+
+  /**
+   * Whether to run a control task with the rule disabled for each sample to
+   * separate the rule time from parsing.
+   */
+  measureOverhead?: boolean
+
+  /**
+   * Whether to apply the fixes of the rule. With "both", every sample is
+   * benchmarked twice: report-only and with fixes.
+   */
+  fix?: boolean | 'both'
 
   /** Path to compare results against (if applicable). */
   baselinePath?: string
 
+  /**
+   * Whether to run the rule amid all rules of the ESLint config, with a control
+   * task that disables only the benchmarked rule.
+   */
+  fullConfig?: boolean
+
   /** Warmup configuration. */
   warmup: WarmupConfig
 
@@ -43,11 +63,44 @@ export interface BenchmarkConfig {
   name: string
 }
 
+/**
+ * Aggregated result for a Test Specification, containing results for all its
+ * TestCases.
+ */
+export interface TestSpecResult {
+  /** Benchmark configuration used for this test specification. */
+  benchmarkConfig: Omit<BenchmarkConfig, 'baselinePath' | 'reporters' | 'name'>
+
+  /** Array of results for each TestCase under this test specification. */
+  testCaseResults: TestCaseResult[]
+
+  /** Optional path to the ESLint rule file for this test specification. */
+  rulePath?: string
+
+  /**
+   * Name of the plugin the rule belongs to. Only present for rules benchmarked
+   * through the `plugins` section of the configuration.
+   */
+  plugin?: string
+
+  /** ID of the ESLint rule for this test specification. */
+  ruleId: string
+
+  /** Name of the test specification (e.g., "My Rule Benchmarks"). */
+  name: string
+}
+
 /** Result for a single test case, containing results for all its code samples. */
 export interface TestCaseResult {
   /** Benchmark results for each CodeSample within this TestCase. */
   samplesResults: ProcessedBenchmarkTask[]
 
+  /**
+   * Complexity fits of the samples generated for the scaling analysis. Only
+   * present when scaling was enabled for the case.
+   */
+  scaling?: ScalingAnalysis[]
+
   /** Optional description of the TestCase. */
   description?: string
 
@@ -76,6 +129,27 @@ export interface SingleRuleResult {
   result: ProcessedBenchmarkTask | null
 }
 
+/** Performance budgets for every sample of a test specification. */
+export interface ThresholdsConfig {
+  /**
+   * Maximum allowed increase of the mean execution time compared to the
+   * baseline, in percent. Only checked when a baseline is provided.
+   */
+  maxRegressionPercent?: number
+
+  /** Maximum allowed mean execution time in milliseconds. */
+  maxMeanMs?: number
+}
+
+/** Adaptive sampling settings with the defaults applied. */
+export interface PrecisionConfig {
+  /** Target relative margin of error of the mean, as a fraction. */
+  targetRme: number
+
+  /** Maximum measured time of a code sample in milliseconds. */
+  maxTime: number
+}
+
 /** Configuration for benchmark warmup. */
 export interface WarmupConfig {
   /** Number of warmup iterations to perform. */
@@ -95,4 +169,7 @@ export interface ReporterOptions {
 }
 
 /** Report format for benchmark results. */
-export type ReporterFormat = 'markdown' | 'console' | 'json'
+export type ReporterFormat = 'markdown' | 'console' | 'json' | 'html'
+
+/** Execution environment for the benchmark of a test specification. */
+export type IsolationMode = (typeof ISOLATION_MODES)[number]
@@ -1,9 +1,10 @@
 /**
  * Represents calculated statistical metrics for a benchmark task. Time-based
  * values (mean, median, min, max, p75, p99, stdDev) are in nanoseconds. Period
- * is in seconds.
+ * is in seconds. Memory and garbage collection metrics are only present when
+ * they were measured.
  */
-export interface BenchmarkMetrics {
+export interface BenchmarkMetrics extends Partial<MemoryMetrics> {
   /** Number of samples used to calculate these metrics. */
   sampleCount: number
 
@@ -34,3 +35,21 @@ export interface BenchmarkMetrics {
   /** Operations per second (hz). */
   hz: number
 }
+
+/**
+ * Memory allocation and garbage collection metrics of a benchmark task,
+ * measured around each lint call of the measurement phase.
+ */
+export interface MemoryMetrics {
+  /**
+   * Average net heap growth per operation in bytes. Operations during which the
+   * garbage collector freed memory are included, so the value can be negative.
+   */
+  memoryUsageBytes: number
+
+  /** Total time spent in garbage collection in milliseconds. */
+  gcDurationMs: number
+
+  /** Number of garbage collections. */
+  gcCount: number
+}
@@ -0,0 +1,34 @@
+import type { Rule } from 'eslint'
+
+/**
+ * Represents the possible structure of an imported ESLint rule module.
+ *
+ * This interface handles various export patterns found in ESLint plugins and
+ * rule modules:
+ *
+ * - Direct rule export (with meta and create properties)
+ * - Rules collection export (module.rules object with rule IDs as keys)
+ * - Default export patterns (either a direct rule or an object containing rules).
+ *
+ * The flexible structure allows for proper typing of dynamically imported
+ * modules regardless of their export format.
+ */
+export interface ESLintRuleImport {
+  /**
+   * Possible default export - either a rule module or an object containing
+   * rules.
+   */
+  default?: { rules?: Record<string, Rule.RuleModule> } | Rule.RuleModule
+
+  /** Collection of rules indexed by rule ID - common in plugin exports. */
+  rules?: Record<string, Rule.RuleModule>
+
+  /** Rule creation function - present if the module directly exports a rule. */
+  create?: Rule.RuleModule['create']
+
+  /** Rule metadata - present if the module directly exports a rule. */
+  meta?: Rule.RuleModule['meta']
+
+  /** Additional properties that might be present in the module. */
+  [key: string]: unknown
+}
@@ -0,0 +1,21 @@
+import type { ProcessedBenchmarkTask } from '../core/benchmark/run-benchmark'
+
+/**
+ * Message sent from an isolated worker thread or child process back to the
+ * parent once the benchmark of a test specification has finished.
+ */
+export type IsolatedBenchmarkMessage =
+  | {
+      /** Results of the benchmark, or null if no tasks were run. */
+      results: ProcessedBenchmarkTask[] | null
+
+      /** Marks a completed run. */
+      type: 'result'
+    }
+  | {
+      /** Error message describing why the benchmark could not be completed. */
+      message: string
+
+      /** Marks a failed run. */
+      type: 'error'
+    }
@@ -0,0 +1,18 @@
+/**
+ * Number of problems the benchmarked rule reported for a sample, collected from
+ * a single lint without fixes. Problems reported by other rules of the ESLint
+ * config are not counted.
+ */
+export interface LintMessageCounts {
+  /** Number of problems with at least one suggestion. */
+  suggestions: number
+
+  /** Number of problems reported with the warning severity. */
+  warnings: number
+
+  /** Number of problems with a fix. */
+  fixable: number
+
+  /** Number of problems reported with the error severity. */
+  errors: number
+}
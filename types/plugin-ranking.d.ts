@@ -0,0 +1,26 @@
+/** Time spent in a single rule of a plugin across all benchmarked samples. */
+export interface RankedRule {
+  /** Share of the total time of all rules of the plugin, in percent (0-100). */
+  percentOfTotal: number
+
+  /** Average of the mean execution times of the samples in milliseconds. */
+  averageTime: number
+
+  /** Number of benchmarked samples. */
+  sampleCount: number
+
+  /** Sum of the mean execution times of all samples in milliseconds. */
+  totalTime: number
+
+  /** ID of the rule within the plugin. */
+  ruleId: string
+}
+
+/** Rules of a plugin ordered from the slowest. */
+export interface PluginRanking {
+  /** Rules of the plugin ordered by their total time, slowest first. */
+  rules: RankedRule[]
+
+  /** Name of the plugin. */
+  plugin: string
+}
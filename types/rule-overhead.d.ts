@@ -0,0 +1,28 @@
+/**
+ * Execution time attributable to the rule itself. It is calculated by
+ * subtracting the time of a control run, which lints the same sample with the
+ * rule disabled, from the total time. The control run still includes parsing,
+ * scope analysis and traversal.
+ */
+export interface RuleOverhead {
+  /**
+   * Share of the mean total time spent in the rule in percent. Null if the mean
+   * total time is zero.
+   */
+  percent: number | null
+
+  /** Median time of the control run in milliseconds. */
+  controlMedian: number
+
+  /** Mean time of the control run in milliseconds. */
+  controlMean: number
+
+  /**
+   * Median time spent in the rule in milliseconds. Can be slightly negative
+   * when the rule is cheaper than the measurement noise.
+   */
+  median: number
+
+  /** Mean time spent in the rule in milliseconds. */
+  mean: number
+}
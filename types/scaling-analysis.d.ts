@@ -0,0 +1,57 @@
+/** Result of the scaling analysis of one sample. */
+export interface ScalingAnalysis {
+  /** Mean execution times ordered by input size. */
+  points: ScalingPoint[]
+
+  /**
+   * The simplest model whose fit is nearly as good as the best one. Simpler
+   * models are preferred, because small differences are usually noise.
+   */
+  bestFit: ComplexityFit
+
+  /** Fits of all complexity models, from the simplest one. */
+  fits: ComplexityFit[]
+
+  /**
+   * Whether the execution time grows faster than the input size, which means
+   * that the best fit is not linear.
+   */
+  superLinear: boolean
+
+  /** Name of the sample the inputs were created from. */
+  sample: string
+}
+
+/**
+ * Least squares fit of execution times to a complexity model, in the form `time
+ * = intercept + slope * f(n)`. The intercept covers the constant cost of a lint
+ * call.
+ */
+export interface ComplexityFit {
+  /** Complexity model of the fit. */
+  model: ComplexityModel
+
+  /** Constant time in milliseconds. */
+  intercept: number
+
+  /**
+   * Coefficient of determination. 1 means that the model explains the times
+   * perfectly.
+   */
+  rSquared: number
+
+  /** Time in milliseconds per unit of the model function. */
+  slope: number
+}
+
+/** Mean execution time of one input size. */
+export interface ScalingPoint {
+  /** Mean execution time in milliseconds. */
+  mean: number
+
+  /** Size of the input as a multiple of the source sample. */
+  size: number
+}
+
+/** Complexity model the execution times of growing inputs are fitted to. */
+export type ComplexityModel = 'linearithmic' | 'quadratic' | 'linear'
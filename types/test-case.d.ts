@@ -1,6 +1,133 @@
-import type { JSRuleDefinitionTypeOptions } from 'eslint'
+import type { JSRuleDefinitionTypeOptions, Linter } from 'eslint'
 
-import type { LANGUAGES } from '../constants'
+import type { ExtensionMapping } from './user-benchmark-config'
+import type { SCALING_MODES, LANGUAGES } from '../constants'
+
+/** Configuration for a single test case, used within UserBenchmarkConfig. */
+export interface Case {
+  /** Rule options (same structure as in ESLint config). */
+  options?: JSRuleDefinitionTypeOptions['RuleOptions']
+
+  /** Language options of the case. Merged over the language options of the test. */
+  languageOptions?: Linter.LanguageOptions
+
+  /** Settings of the case. Merged over the settings of the test. */
+  settings?: Record<string, unknown>
+
+  /**
+   * Inline code samples, used instead of or besides the files of `testPath`. A
+   * string is a single JavaScript sample named `inline.js`; the language of
+   * named samples is inferred from their filename.
+   */
+  code?: InlineCodeSample[] | string
+
+  /**
+   * Benchmarks every sample at growing input sizes and fits the timings to
+   * complexity models. `true` uses the default settings.
+   */
+  scaling?: ScalingConfig | boolean
+
+  /**
+   * Path to file(s) which will be used for testing the rule. Directories are
+   * searched recursively, and glob patterns such as `src/**\/*.tsx` are
+   * supported. Required unless `code` is provided.
+   */
+  testPath?: string[] | string
+
+  /**
+   * Glob patterns of files and directories to skip when searching directories
+   * and globs of `testPath`, relative to the configuration directory.
+   */
+  ignore?: string[] | string
+
+  /** Rule severity (0=off, 1=warn, 2=error). Default: 2. */
+  severity?: 0 | 1 | 2
+
+  /** Processor of the case. Overrides the processor of the test. */
+  processor?: string
+
+  /** Maximum number of files to load from `testPath`. */
+  maxFiles?: number
+
+  /** Language of the case. Overrides the language of the test. */
+  language?: string
+
+  /** Parser of the case. Overrides the parser of the test. */
+  parser?: string
+}
+
+/** Defines a test case with all necessary information. */
+export interface TestCase {
+  /** Custom extensions of the code samples, mapped to their languages. */
+  extensions?: Record<string, ExtensionMapping>
+
+  /** Language options merged into the ESLint config of the test case. */
+  languageOptions?: Linter.LanguageOptions
+
+  /** Shared settings available to the rule as `context.settings`. */
+  settings?: Record<string, unknown>
+
+  /** Code samples to test against. */
+  samples: CodeSample[]
+
+  /** Optional description of the test case. */
+  description?: string
+
+  /** ID of the processor applied to the code samples. */
+  processor?: string
+
+  /** ID of the ESLint language used for all code samples. */
+  language?: string
+
+  /** Rule to test. */
+  rule: RuleConfig
+
+  /** Path to the parser module or name of the parser package. */
+  parser?: string
+
+  /** Display name for the test case. */
+  name: string
+
+  /** Unique identifier for the test case. */
+  id: string
+}
+
+/** Represents a code sample used for testing. */
+export interface CodeSample {
+  /** Language of the code sample. */
+  language: (typeof LANGUAGES)[number]
+
+  /** Size of the input, if the sample was created for the scaling analysis. */
+  scaling?: SampleScaling
+
+  /** Filename with extension (e.g., example.js). */
+  filename: string
+
+  /**
+   * Absolute path of the file the sample was loaded from. Samples are linted by
+   * this path, so type-aware rules can find them in the TypeScript program.
+   */
+  filePath: string
+
+  /** The source code content to test. */
+  code: string
+}
+
+/** Settings of the input-size scaling analysis of a case. */
+export interface ScalingConfig {
+  /**
+   * How larger inputs are created. "repeat" repeats the code of the sample,
+   * "nest" inserts the sample into itself at the `/* nest *\/` placeholder.
+   * Default: "repeat".
+   */
+  mode?: (typeof SCALING_MODES)[number]
+
+  /**
+   * Sizes of the inputs as multiples of the sample, at least three. Default:
+   * [1, 2, 4, 8, 16].
+   */
+  sizes?: number[]
+}
 
 /** Statistical metrics calculated from measurements. */
 export interface StatisticalMetrics {
@@ -38,36 +165,6 @@ export interface RuleConfig {
   path?: string
 }
 
-/** Defines a test case with all necessary information. */
-export interface TestCase {
-  /** Code samples to test against. */
-  samples: CodeSample[]
-
-  /** Optional description of the test case. */
-  description?: string
-
-  /** Rule to test. */
-  rule: RuleConfig
-
-  /** Display name for the test case. */
-  name: string
-
-  /** Unique identifier for the test case. */
-  id: string
-}
-
-/** Configuration for a single test case, used within UserBenchmarkConfig. */
-export interface Case {
-  /** Rule options (same structure as in ESLint config). */
-  options?: JSRuleDefinitionTypeOptions['RuleOptions']
-
-  /** Path to file(s) which will be used for testing the rule. */
-  testPath: string[] | string
-
-  /** Rule severity (0=off, 1=warn, 2=error). Default: 2. */
-  severity?: 0 | 1 | 2
-}
-
 /** Represents a single timing measurement. */
 export interface TimingMeasurement {
   /** Memory usage in bytes (if available). */
@@ -80,14 +177,23 @@ export interface TimingMeasurement {
   timestamp: number
 }
 
-/** Represents a code sample used for testing. */
-export interface CodeSample {
-  /** Language of the code sample. */
-  language: (typeof LANGUAGES)[number]
-
-  /** Filename with extension (e.g., example.js). */
+/** A code sample declared in the configuration instead of a file. */
+export interface InlineCodeSample {
+  /**
+   * Name of the sample, relative to the configuration directory. Its extension
+   * determines the language.
+   */
   filename: string
 
   /** The source code content to test. */
   code: string
 }
+
+/** Position of a generated sample in the scaling analysis. */
+export interface SampleScaling {
+  /** Name of the sample the input was created from. */
+  source: string
+
+  /** Size of the input as a multiple of the source sample. */
+  size: number
+}
@@ -1,17 +1,51 @@
+import type { Linter } from 'eslint'
+
+import type { LANGUAGES } from '../constants'
 import type { Case } from './test-case'
 
 /** Configuration for eslint-rule-benchmark. */
 export interface UserBenchmarkConfig extends BaseBenchmarkSettings {
+  /**
+   * Additional file extensions, mapped to the language their code samples are
+   * treated as (e.g. `{ '.gts': { language: 'typescript' } }`). A mapping can
+   * also override the language of a built-in extension.
+   */
+  extensions?: Record<string, ExtensionMapping>
+
+  /**
+   * An array of plugins whose rules are all benchmarked against the same test
+   * cases. Every rule of a plugin becomes a separate test specification, and
+   * reports rank the rules from the slowest. Each plugin can also override
+   * global benchmark settings.
+   */
+  plugins?: (BaseBenchmarkSettings & Plugin)[]
+
   /**
    * An array of benchmark test specifications. Each test specification defines
    * a rule, a name, and one or more test cases to run against that rule. Each
    * test specification can also override global benchmark settings.
    */
-  tests: (BaseBenchmarkSettings & Test)[]
+  tests?: (BaseBenchmarkSettings & Test)[]
 }
 
 /** Defines base benchmark settings that can be applied globally or per test. */
 interface BaseBenchmarkSettings {
+  /**
+   * Performance budgets. When any sample exceeds them, the run prints a failure
+   * summary and exits with a non-zero code. Can be set globally or overridden
+   * per test.
+   */
+  thresholds?: {
+    /**
+     * Maximum allowed increase of the mean execution time compared to the
+     * baseline report, in percent. Only checked when a baseline is provided.
+     */
+    maxRegressionPercent?: number
+
+    /** Maximum allowed mean execution time of a sample in milliseconds. */
+    maxMeanMs?: number
+  }
+
   /**
    * Warmup settings. Controls JIT warmup behavior before measurements. Can be
    * set globally or overridden per test.
@@ -30,6 +64,65 @@ interface BaseBenchmarkSettings {
     enabled?: boolean
   }
 
+  /**
+   * Adaptive sampling. Instead of fixed `iterations` and `timeout`, each code
+   * sample is measured until the 95% confidence interval of its mean is within
+   * the target relative margin of error, or until its measured time reaches the
+   * limit. Can be set globally or overridden per test.
+   */
+  precision?: {
+    /**
+     * Target relative margin of error of the mean, as a fraction (e.g., 0.01
+     * for ±1%).
+     */
+    targetRme: number
+
+    /**
+     * Maximum measured time of a code sample in milliseconds. Defaults to
+     * 30000.
+     */
+    maxTime?: number
+  }
+
+  /**
+   * Where each test specification is benchmarked. "none" runs everything in the
+   * current process, "worker" uses a fresh worker thread and "process" a forked
+   * Node.js process per test specification. Defaults to "none".
+   */
+  isolation?: 'process' | 'worker' | 'none'
+
+  /**
+   * Whether to measure the time spent in each listener of the rule (e.g.
+   * `Identifier` or `Program:exit`). Timing the listeners adds overhead to the
+   * measured execution times. Defaults to false.
+   */
+  profileVisitors?: boolean
+
+  /**
+   * Whether to lint each code sample a second time with the rule disabled and
+   * report the difference as the time spent in the rule. This separates the
+   * rule from parsing, which dominates for languages like TypeScript or Vue,
+   * but doubles the benchmark duration. Defaults to false.
+   */
+  measureOverhead?: boolean
+
+  /**
+   * Whether to apply the fixes of the rule while benchmarking. Applying fixes
+   * makes ESLint lint the code again until no fixes are left, which editors
+   * rarely do. With false, only problems are reported. With "both", every
+   * sample is benchmarked twice, report-only and with fixes, and the number of
+   * passes ESLint needed to fix it is reported. Defaults to true.
+   */
+  fix?: boolean | 'both'
+
+  /**
+   * Whether to run the rule together with all rules of the ESLint config
+   * instead of alone. Each code sample is linted a second time with only the
+   * benchmarked rule disabled, and the difference is reported as the marginal
+   * cost of the rule within the config. Defaults to false.
+   */
+  fullConfig?: boolean
+
   /**
    * Number of measurement iterations to perform for each code sample. Higher
    * values lead to more precise results but longer execution. Can be set
@@ -46,8 +139,50 @@ interface BaseBenchmarkSettings {
 
 /** Defines a single benchmark test specification. */
 interface Test {
-  /** Path to rule implementation file (for custom rules). */
-  rulePath: string
+  /**
+   * Language options merged into the ESLint config, e.g. `parserOptions` or
+   * `globals`. Options must be serializable when `isolation` is used.
+   */
+  languageOptions?: Linter.LanguageOptions
+
+  /**
+   * Shared settings available to the rule as `context.settings`, e.g.
+   * `react.version`. Settings must be serializable when `isolation` is used.
+   */
+  settings?: Record<string, unknown>
+
+  /**
+   * Path to a tsconfig file for type-aware rules. Sets `parserOptions.project`
+   * and `parserOptions.tsconfigRootDir`, so the code samples have to be
+   * included in the TypeScript project.
+   */
+  tsconfigPath?: string
+
+  /**
+   * ID of a processor provided by a plugin package (e.g. "markdown/markdown").
+   * Code samples are passed through the processor before linting.
+   */
+  processor?: string
+
+  /**
+   * ID of an ESLint language provided by a plugin (e.g. "markdown/gfm"). By
+   * default, JSON, Markdown and CSS samples use the languages of the official
+   * `@eslint/json`, `@eslint/markdown` and `@eslint/css` plugins.
+   */
+  language?: string
+
+  /**
+   * Path to rule implementation file (for custom rules). Can be omitted for
+   * core ESLint rules and rules of installed plugins, which are resolved by
+   * `ruleId`.
+   */
+  rulePath?: string
+
+  /**
+   * Path to a parser module or name of a parser package. Replaces the parser
+   * derived from the file extensions of the code samples.
+   */
+  parser?: string
 
   /**
    * Rule identifier (e.g., "no-console" or
@@ -64,3 +199,33 @@ interface Test {
   /** Name for this group of benchmark cases. Will be used in reports. */
   name: string
 }
+
+/** Defines a plugin whose rules are benchmarked together. */
+interface Plugin {
+  /**
+   * An array of test cases shared by all rules of the plugin. Rule options are
+   * not supported, because they differ from rule to rule.
+   */
+  cases: Omit<Case, 'options'>[]
+
+  /** Path to the plugin module. Every rule in its `rules` object is benchmarked. */
+  pluginPath: string
+
+  /**
+   * Name of the plugin. Used as the prefix of the rule names in reports (e.g.,
+   * "my-plugin/no-foo").
+   */
+  name: string
+}
+
+/** Describes how code samples with a custom file extension are linted. */
+interface ExtensionMapping {
+  /** Language the files are treated as. */
+  language: (typeof LANGUAGES)[number]
+
+  /**
+   * Path to a parser module or name of a parser package for files with this
+   * extension. Defaults to the parser of the language.
+   */
+  parser?: string
+}
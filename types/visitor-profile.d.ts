@@ -0,0 +1,20 @@
+/**
+ * Time spent in a single listener of the benchmarked rule, such as
+ * `CallExpression` or `Program:exit`, averaged over all lint runs of a sample.
+ */
+export interface VisitorProfile {
+  /**
+   * Share of the total time spent in all listeners of the rule, in percent
+   * (0-100).
+   */
+  percentOfTotal: number
+
+  /** Average number of calls per lint run. */
+  callsPerRun: number
+
+  /** Average time spent in the listener per lint run in milliseconds. */
+  timePerRun: number
+
+  /** Selector or event name the listener is registered for. */
+  selector: string
+}
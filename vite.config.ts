@@ -9,6 +9,7 @@ export default defineConfig({
       entry: [
         path.resolve(__dirname, 'cli/index.ts'),
         path.resolve(__dirname, 'core/index.ts'),
+        path.resolve(__dirname, 'core/isolation/benchmark-worker.ts'),
       ],
       fileName: (_format, entryName) => `${entryName}.js`,
       name: 'eslint-rule-benchmark',